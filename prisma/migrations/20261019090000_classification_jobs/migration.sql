@@ -0,0 +1,39 @@
+CREATE TYPE "classification_job_status" AS ENUM ('PENDING', 'RUNNING', 'SUCCEEDED', 'SUPERSEDED', 'DEAD');
+
+ALTER TABLE "ai_logs" ADD COLUMN "revision" INTEGER NOT NULL DEFAULT 1;
+
+CREATE TABLE "classification_jobs" (
+  "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+  "ai_log_id" UUID NOT NULL,
+  "log_revision" INTEGER NOT NULL,
+  "status" "classification_job_status" NOT NULL DEFAULT 'PENDING',
+  "attempts" INTEGER NOT NULL DEFAULT 0,
+  "max_attempts" INTEGER NOT NULL DEFAULT 5,
+  "run_after" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "locked_at" TIMESTAMPTZ(6),
+  "locked_by" VARCHAR(100),
+  "last_error" TEXT,
+  "completed_at" TIMESTAMPTZ(6),
+  "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updated_at" TIMESTAMPTZ(6) NOT NULL,
+
+  CONSTRAINT "classification_jobs_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "classification_jobs_ai_log_id_log_revision_key"
+  ON "classification_jobs"("ai_log_id", "log_revision");
+
+CREATE INDEX "classification_jobs_status_run_after_idx"
+  ON "classification_jobs"("status", "run_after");
+
+ALTER TABLE "classification_jobs"
+  ADD CONSTRAINT "classification_jobs_ai_log_id_fkey"
+  FOREIGN KEY ("ai_log_id") REFERENCES "ai_logs"("id")
+  ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Logs created before the queue existed and never classified get a job so the
+-- worker picks them up.
+INSERT INTO "classification_jobs" ("ai_log_id", "log_revision", "updated_at")
+SELECT "id", "revision", CURRENT_TIMESTAMP
+FROM "ai_logs"
+WHERE "compliance_status" = 'PENDING';
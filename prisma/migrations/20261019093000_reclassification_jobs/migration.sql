@@ -0,0 +1,14 @@
+-- Admin re-classification runs go through the job queue: a re-run of a
+-- revision is its own row next to that revision's post-session job.
+ALTER TABLE "classification_jobs"
+  ADD COLUMN "reclassification" BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN "requested_by" UUID;
+
+DROP INDEX "classification_jobs_ai_log_id_log_revision_key";
+
+CREATE UNIQUE INDEX "classification_jobs_ai_log_id_log_revision_reclassification_key"
+  ON "classification_jobs"("ai_log_id", "log_revision", "reclassification");
+
+ALTER TABLE "classification_jobs"
+  ADD CONSTRAINT "classification_jobs_requested_by_fkey"
+  FOREIGN KEY ("requested_by") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+ALTER TABLE "policy_rules" ADD COLUMN "keywords_nb" TEXT[] DEFAULT ARRAY[]::TEXT[];
+ALTER TABLE "policy_rules" ADD COLUMN "keywords_nn" TEXT[] DEFAULT ARRAY[]::TEXT[];
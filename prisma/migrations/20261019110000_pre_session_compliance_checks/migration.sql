@@ -0,0 +1,15 @@
+ALTER TABLE "compliance_checks" ADD COLUMN "user_id" UUID;
+ALTER TABLE "compliance_checks" ADD COLUMN "assignment_id" UUID;
+
+CREATE INDEX "compliance_checks_user_id_assignment_id_idx"
+  ON "compliance_checks"("user_id", "assignment_id");
+
+ALTER TABLE "compliance_checks"
+  ADD CONSTRAINT "compliance_checks_user_id_fkey"
+  FOREIGN KEY ("user_id") REFERENCES "users"("id")
+  ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE "compliance_checks"
+  ADD CONSTRAINT "compliance_checks_assignment_id_fkey"
+  FOREIGN KEY ("assignment_id") REFERENCES "assignments"("id")
+  ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,98 @@
+CREATE TYPE "usage_taxonomy_status" AS ENUM ('DRAFT', 'ACTIVE', 'ARCHIVED');
+
+CREATE TABLE "usage_taxonomy_versions" (
+  "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+  "version_key" VARCHAR(20) NOT NULL,
+  "description" TEXT,
+  "status" "usage_taxonomy_status" NOT NULL DEFAULT 'DRAFT',
+  "published_by" UUID,
+  "published_at" TIMESTAMPTZ(6),
+  "archived_at" TIMESTAMPTZ(6),
+  "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "usage_taxonomy_versions_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "usage_taxonomy_versions_version_key_key"
+  ON "usage_taxonomy_versions"("version_key");
+
+ALTER TABLE "usage_taxonomy_versions"
+  ADD CONSTRAINT "usage_taxonomy_versions_published_by_fkey"
+  FOREIGN KEY ("published_by") REFERENCES "users"("id")
+  ON DELETE SET NULL ON UPDATE CASCADE;
+
+CREATE TABLE "usage_taxonomy_nodes" (
+  "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+  "taxonomy_version_id" UUID NOT NULL,
+  "node_id" VARCHAR(150) NOT NULL,
+  "parent_node_id" VARCHAR(150),
+  "label" VARCHAR(255) NOT NULL,
+  "position" INTEGER NOT NULL,
+  "baseline_disallowed" BOOLEAN NOT NULL DEFAULT false,
+
+  CONSTRAINT "usage_taxonomy_nodes_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "usage_taxonomy_nodes_taxonomy_version_id_node_id_key"
+  ON "usage_taxonomy_nodes"("taxonomy_version_id", "node_id");
+
+ALTER TABLE "usage_taxonomy_nodes"
+  ADD CONSTRAINT "usage_taxonomy_nodes_taxonomy_version_id_fkey"
+  FOREIGN KEY ("taxonomy_version_id") REFERENCES "usage_taxonomy_versions"("id")
+  ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- The tree that was hard-coded in src/lib/usage-taxonomy.ts becomes the
+-- active "v1", the version every existing log was recorded with.
+INSERT INTO "usage_taxonomy_versions" ("version_key", "description", "status", "published_at")
+VALUES ('v1', 'Initial usage taxonomy', 'ACTIVE', CURRENT_TIMESTAMP);
+
+INSERT INTO "usage_taxonomy_nodes" ("taxonomy_version_id", "node_id", "parent_node_id", "label", "position")
+SELECT v."id", n."node_id", n."parent_node_id", n."label", n."position"
+FROM "usage_taxonomy_versions" v
+CROSS JOIN (VALUES
+  ('no-ai', NULL, 'No AI', 0),
+  ('writing', NULL, 'Writing', 1),
+  ('text-generation', 'writing', 'Text generation', 0),
+  ('partial-text-generation', 'text-generation', 'Partial text generation', 0),
+  ('full-section-generation', 'text-generation', 'Full section generation', 1),
+  ('text-improvement', 'writing', 'Text improvement', 1),
+  ('text-correction', 'text-improvement', 'Text correction (grammar/spelling)', 0),
+  ('critique-and-quality-improvement', 'text-improvement', 'Critique and quality improvement', 1),
+  ('summarization', 'writing', 'Summarization', 2),
+  ('translation', 'writing', 'Translation', 3),
+  ('programming', NULL, 'Programming', 2),
+  ('code-explanation', 'programming', 'Code explanation', 0),
+  ('debugging-support', 'programming', 'Debugging support', 1),
+  ('code-generation', 'programming', 'Code generation', 2),
+  ('partial-code-generation', 'code-generation', 'Partial code generation', 0),
+  ('full-solution-generation', 'code-generation', 'Full solution generation', 1),
+  ('test-generation', 'code-generation', 'Test generation', 2),
+  ('refactoring-suggestions', 'programming', 'Refactoring suggestions', 3),
+  ('research-and-ideation', NULL, 'Research and ideation', 3),
+  ('brainstorming-ideas', 'research-and-ideation', 'Brainstorming ideas', 0),
+  ('outline-generation', 'research-and-ideation', 'Outline generation', 1),
+  ('source-discovery', 'research-and-ideation', 'Source discovery', 2),
+  ('source-comparison', 'research-and-ideation', 'Source comparison', 3),
+  ('question-formulation', 'research-and-ideation', 'Question formulation', 4),
+  ('data-and-analysis', NULL, 'Data and analysis', 4),
+  ('data-interpretation', 'data-and-analysis', 'Data interpretation', 0),
+  ('statistical-guidance', 'data-and-analysis', 'Statistical guidance', 1),
+  ('visualization-suggestions', 'data-and-analysis', 'Visualization suggestions', 2),
+  ('result-explanation', 'data-and-analysis', 'Result explanation', 3),
+  ('presentation-and-communication', NULL, 'Presentation and communication', 5),
+  ('slide-structure', 'presentation-and-communication', 'Slide structure', 0),
+  ('speaker-notes', 'presentation-and-communication', 'Speaker notes', 1),
+  ('email-message-drafting', 'presentation-and-communication', 'Email/message drafting', 2),
+  ('audience-adaptation', 'presentation-and-communication', 'Audience adaptation', 3)
+) AS n("node_id", "parent_node_id", "label", "position")
+WHERE v."version_key" = 'v1';
+
+-- The former built-in baseline: disallowed for every course unless its rules allow them.
+UPDATE "usage_taxonomy_nodes"
+SET "baseline_disallowed" = true
+WHERE "node_id" IN ('full-section-generation', 'full-solution-generation');
+
+UPDATE "ai_logs"
+SET "manual_usage_taxonomy_version" = 'v1'
+WHERE "manual_usage_taxonomy_version" IS NULL
+  AND cardinality("manual_usage_subsections") > 0;
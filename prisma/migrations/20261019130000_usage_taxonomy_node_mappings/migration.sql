@@ -0,0 +1,23 @@
+ALTER TABLE "usage_taxonomy_versions" ADD COLUMN "migrates_from_id" UUID;
+
+ALTER TABLE "usage_taxonomy_versions"
+  ADD CONSTRAINT "usage_taxonomy_versions_migrates_from_id_fkey"
+  FOREIGN KEY ("migrates_from_id") REFERENCES "usage_taxonomy_versions"("id")
+  ON DELETE SET NULL ON UPDATE CASCADE;
+
+CREATE TABLE "usage_taxonomy_node_mappings" (
+  "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+  "taxonomy_version_id" UUID NOT NULL,
+  "old_node_id" VARCHAR(150) NOT NULL,
+  "new_node_ids" TEXT[] DEFAULT ARRAY[]::TEXT[],
+
+  CONSTRAINT "usage_taxonomy_node_mappings_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "usage_taxonomy_node_mappings_taxonomy_version_id_old_node_id_key"
+  ON "usage_taxonomy_node_mappings"("taxonomy_version_id", "old_node_id");
+
+ALTER TABLE "usage_taxonomy_node_mappings"
+  ADD CONSTRAINT "usage_taxonomy_node_mappings_taxonomy_version_id_fkey"
+  FOREIGN KEY ("taxonomy_version_id") REFERENCES "usage_taxonomy_versions"("id")
+  ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+ALTER TABLE "usage_taxonomy_nodes" ADD COLUMN "policy_category" VARCHAR(100);
+
+ALTER TABLE "ai_logs" ADD COLUMN "selection_category" VARCHAR(100);
+
+-- Link the seeded v1 tree to the seeded policy categories. Descendants of a
+-- mapped node inherit its category.
+UPDATE "usage_taxonomy_nodes" AS n
+SET "policy_category" = m."policy_category"
+FROM "usage_taxonomy_versions" AS v,
+  (VALUES
+    ('full-section-generation', 'Full Text Generation'),
+    ('text-correction', 'Grammar Fix'),
+    ('debugging-support', 'Code Debugging'),
+    ('code-generation', 'Code Generation'),
+    ('brainstorming-ideas', 'Brainstorming'),
+    ('outline-generation', 'Brainstorming')
+  ) AS m("node_id", "policy_category")
+WHERE n."taxonomy_version_id" = v."id"
+  AND v."version_key" = 'v1'
+  AND n."node_id" = m."node_id";
@@ -0,0 +1,18 @@
+CREATE TABLE "assignment_usage_rules" (
+  "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+  "assignment_id" UUID NOT NULL,
+  "node_id" VARCHAR(150) NOT NULL,
+  "is_allowed" BOOLEAN NOT NULL DEFAULT true,
+  "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updated_at" TIMESTAMPTZ(6) NOT NULL,
+
+  CONSTRAINT "assignment_usage_rules_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "assignment_usage_rules_assignment_id_node_id_key"
+  ON "assignment_usage_rules"("assignment_id", "node_id");
+
+ALTER TABLE "assignment_usage_rules"
+  ADD CONSTRAINT "assignment_usage_rules_assignment_id_fkey"
+  FOREIGN KEY ("assignment_id") REFERENCES "assignments"("id")
+  ON DELETE CASCADE ON UPDATE CASCADE;
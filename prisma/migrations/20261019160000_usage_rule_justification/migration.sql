@@ -0,0 +1,7 @@
+ALTER TABLE "course_usage_rules"
+  ADD COLUMN "requires_justification" BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN "min_evidence_count" INTEGER;
+
+ALTER TABLE "assignment_usage_rules"
+  ADD COLUMN "requires_justification" BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN "min_evidence_count" INTEGER;
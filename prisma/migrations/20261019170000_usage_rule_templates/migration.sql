@@ -0,0 +1,37 @@
+CREATE TABLE "usage_rule_templates" (
+  "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+  "name" VARCHAR(120) NOT NULL,
+  "description" TEXT,
+  "created_by" UUID NOT NULL,
+  "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updated_at" TIMESTAMPTZ(6) NOT NULL,
+
+  CONSTRAINT "usage_rule_templates_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "usage_rule_templates_name_key" ON "usage_rule_templates"("name");
+
+ALTER TABLE "usage_rule_templates"
+  ADD CONSTRAINT "usage_rule_templates_created_by_fkey"
+  FOREIGN KEY ("created_by") REFERENCES "users"("id")
+  ON DELETE RESTRICT ON UPDATE CASCADE;
+
+CREATE TABLE "usage_rule_template_rules" (
+  "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+  "template_id" UUID NOT NULL,
+  "node_id" VARCHAR(150) NOT NULL,
+  "is_allowed" BOOLEAN NOT NULL DEFAULT true,
+  "requires_justification" BOOLEAN NOT NULL DEFAULT false,
+  "min_evidence_count" INTEGER,
+  "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "usage_rule_template_rules_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "usage_rule_template_rules_template_id_node_id_key"
+  ON "usage_rule_template_rules"("template_id", "node_id");
+
+ALTER TABLE "usage_rule_template_rules"
+  ADD CONSTRAINT "usage_rule_template_rules_template_id_fkey"
+  FOREIGN KEY ("template_id") REFERENCES "usage_rule_templates"("id")
+  ON DELETE CASCADE ON UPDATE CASCADE;
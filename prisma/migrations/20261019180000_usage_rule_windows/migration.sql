@@ -0,0 +1,17 @@
+ALTER TABLE "course_usage_rules"
+  ADD COLUMN "active_from" TIMESTAMPTZ(6),
+  ADD COLUMN "active_until" TIMESTAMPTZ(6),
+  ADD COLUMN "active_from_due_offset_days" INTEGER,
+  ADD COLUMN "active_until_due_offset_days" INTEGER;
+
+ALTER TABLE "assignment_usage_rules"
+  ADD COLUMN "active_from" TIMESTAMPTZ(6),
+  ADD COLUMN "active_until" TIMESTAMPTZ(6),
+  ADD COLUMN "active_from_due_offset_days" INTEGER,
+  ADD COLUMN "active_until_due_offset_days" INTEGER;
+
+ALTER TABLE "usage_rule_template_rules"
+  ADD COLUMN "active_from" TIMESTAMPTZ(6),
+  ADD COLUMN "active_until" TIMESTAMPTZ(6),
+  ADD COLUMN "active_from_due_offset_days" INTEGER,
+  ADD COLUMN "active_until_due_offset_days" INTEGER;
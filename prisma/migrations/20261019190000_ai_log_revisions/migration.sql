@@ -0,0 +1,84 @@
+CREATE TABLE "ai_log_revisions" (
+  "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+  "ai_log_id" UUID NOT NULL,
+  "revision" INTEGER NOT NULL,
+  "edited_by" UUID NOT NULL,
+  "assignment_id" UUID NOT NULL,
+  "usage_subsections" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+  "usage_taxonomy_version" VARCHAR(20),
+  "usage_reason" TEXT NOT NULL,
+  "session_description" TEXT,
+  "ai_tool" VARCHAR(100) NOT NULL,
+  "evidence_json" JSONB NOT NULL DEFAULT '[]'::jsonb,
+  "compliance_status" "compliance_status" NOT NULL,
+  "flag_severity" "severity_level",
+  "conflict_flag" BOOLEAN NOT NULL DEFAULT false,
+  "direct_violation_flag" BOOLEAN NOT NULL DEFAULT false,
+  "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "ai_log_revisions_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "ai_log_revisions_ai_log_id_revision_key"
+  ON "ai_log_revisions"("ai_log_id", "revision");
+
+ALTER TABLE "ai_log_revisions"
+  ADD CONSTRAINT "ai_log_revisions_ai_log_id_fkey"
+  FOREIGN KEY ("ai_log_id") REFERENCES "ai_logs"("id")
+  ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "ai_log_revisions"
+  ADD CONSTRAINT "ai_log_revisions_edited_by_fkey"
+  FOREIGN KEY ("edited_by") REFERENCES "users"("id")
+  ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Earlier revisions were overwritten in place; the current state of every
+-- existing log becomes its only recorded revision. Evidence ciphertext is
+-- copied as stored.
+INSERT INTO "ai_log_revisions" (
+  "ai_log_id", "revision", "edited_by", "assignment_id", "usage_subsections",
+  "usage_taxonomy_version", "usage_reason", "session_description", "ai_tool",
+  "evidence_json", "compliance_status", "flag_severity", "conflict_flag",
+  "direct_violation_flag", "created_at"
+)
+SELECT
+  l."id", l."revision", l."user_id", l."assignment_id", l."manual_usage_subsections",
+  l."manual_usage_taxonomy_version", l."usage_reason", l."session_description", l."ai_tool",
+  COALESCE(
+    (
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'usageNodeId', c."usage_node_id",
+          'evidenceType', c."evidence_type",
+          'url', c."url",
+          'comment', c."comment",
+          'label', c."label"
+        )
+        ORDER BY c."created_at"
+      )
+      FROM "conversation_links" c
+      WHERE c."ai_log_id" = l."id"
+    ),
+    '[]'::jsonb
+  ),
+  l."compliance_status", l."flag_severity", l."conflict_flag",
+  l."direct_violation_flag", l."updated_at"
+FROM "ai_logs" l;
+
+-- Revisions are immutable. DELETE stays possible so a log can still be
+-- removed together with its history.
+CREATE OR REPLACE FUNCTION fn_prevent_ai_log_revision_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION
+    'ai_log_revisions is immutable. Log: %. Revision: %.',
+    OLD.ai_log_id,
+    OLD.revision;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trg_ai_log_revisions_no_update
+  BEFORE UPDATE ON "ai_log_revisions"
+  FOR EACH ROW
+  EXECUTE FUNCTION fn_prevent_ai_log_revision_update();
@@ -0,0 +1 @@
+ALTER TABLE "conversation_links" ADD COLUMN "conversation" TEXT;
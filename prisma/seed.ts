@@ -251,6 +251,8 @@ async function main() {
       ruleReference: 'NTNU-AI-1.1',
       description: 'Language polishing is allowed when content remains student-authored.',
       keywords: ['grammar', 'proofread', 'spelling', 'wording', 'rewrite sentence'],
+      keywordsNb: ['grammatikk', 'korrektur', 'rettskriving', 'formulering', 'omskrive setning'],
+      keywordsNn: ['rettskriving', 'formulering', 'omskrive setning'],
     },
     {
       usageCategory: 'Code Debugging',
@@ -258,6 +260,8 @@ async function main() {
       ruleReference: 'NTNU-AI-1.2',
       description: 'Debug assistance is allowed with clear student understanding.',
       keywords: ['debug', 'bug', 'traceback', 'fix error', 'stack trace'],
+      keywordsNb: ['feilsøking', 'feilsøke', 'feil i koden', 'rette feil', 'feilmelding'],
+      keywordsNn: ['feilsøking', 'feil i koden', 'rette feil', 'feilmelding'],
     },
     {
       usageCategory: 'Code Generation',
@@ -265,6 +269,8 @@ async function main() {
       ruleReference: 'NTNU-AI-1.3',
       description: 'Generated code must be disclosed and reviewed critically.',
       keywords: ['generate code', 'implement', 'scaffold', 'boilerplate', 'function'],
+      keywordsNb: ['generere kode', 'skrive koden', 'implementere', 'funksjon'],
+      keywordsNn: ['generere kode', 'skrive koden', 'implementere', 'funksjon'],
     },
     {
       usageCategory: 'Brainstorming',
@@ -272,6 +278,8 @@ async function main() {
       ruleReference: 'NTNU-AI-1.4',
       description: 'Idea generation is allowed when final solution is student-produced.',
       keywords: ['brainstorm', 'ideas', 'outline', 'approach', 'alternatives'],
+      keywordsNb: ['idémyldring', 'ideer', 'disposisjon', 'fremgangsmåte', 'alternativer'],
+      keywordsNn: ['idémyldring', 'idear', 'disposisjon', 'framgangsmåte', 'alternativ'],
     },
     {
       usageCategory: 'Full Text Generation',
@@ -279,6 +287,8 @@ async function main() {
       ruleReference: 'NTNU-AI-1.5',
       description: 'Submitting full AI-written text as own work is prohibited.',
       keywords: ['write full essay', 'complete report', 'entire answer', 'full text', 'submit for me'],
+      keywordsNb: ['skrive hele oppgaven', 'hele rapporten', 'hele besvarelsen', 'levere for meg'],
+      keywordsNn: ['skrive heile oppgåva', 'heile rapporten', 'heile svaret', 'levere for meg'],
     },
   ];
 
@@ -295,6 +305,8 @@ async function main() {
         ruleReference: rule.ruleReference,
         description: rule.description,
         keywords: rule.keywords,
+        keywordsNb: rule.keywordsNb,
+        keywordsNn: rule.keywordsNn,
       },
       create: {
         policyVersionId: activePolicy.id,
@@ -303,6 +315,8 @@ async function main() {
         ruleReference: rule.ruleReference,
         description: rule.description,
         keywords: rule.keywords,
+        keywordsNb: rule.keywordsNb,
+        keywordsNn: rule.keywordsNn,
       },
     });
   }
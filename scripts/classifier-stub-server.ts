@@ -0,0 +1,154 @@
+/**
+ * Local stand-in for an external classification service, speaking the
+ * contract in src/lib/compliance/external-classifier.ts. It answers with the
+ * weighted keyword strategy's ranking, so `CLASSIFIER_STRATEGY=http` can be
+ * developed and tested without network access.
+ *
+ *   npm run classifier:stub
+ *   CLASSIFIER_STRATEGY=http CLASSIFIER_HTTP_URL=http://127.0.0.1:4010/classify npm run dev
+ *
+ * STUB_CLASSIFIER_MODE (ok | error | malformed | unknown-category) and
+ * STUB_CLASSIFIER_DELAY_MS simulate a misbehaving service.
+ */
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { setTimeout as delay } from 'node:timers/promises';
+
+import { WeightedKeywordContentClassifier } from '../src/lib/compliance/content-classifier';
+import {
+  EXTERNAL_CLASSIFIER_CONTRACT_VERSION,
+  externalClassifierRequestSchema,
+  type ExternalClassifierRequest,
+  type ExternalClassifierResponse,
+} from '../src/lib/compliance/external-classifier';
+
+export type ClassifierStubMode = 'ok' | 'error' | 'malformed' | 'unknown-category';
+
+export interface ClassifierStubOptions {
+  port?: number;
+  mode?: ClassifierStubMode;
+  delayMs?: number;
+  /** When set, requests without `Authorization: Bearer <token>` get 401. */
+  token?: string;
+}
+
+export interface ClassifierStub {
+  url: string;
+  /** Valid requests received so far, oldest first. */
+  requests: ExternalClassifierRequest[];
+  close(): Promise<void>;
+}
+
+const classifier = new WeightedKeywordContentClassifier();
+
+async function readJson(request: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) {
+    chunks.push(chunk as Buffer);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+}
+
+function sendJson(response: ServerResponse, status: number, body: unknown): void {
+  response.writeHead(status, { 'content-type': 'application/json' });
+  response.end(JSON.stringify(body));
+}
+
+async function respond(
+  payload: ExternalClassifierRequest,
+  mode: ClassifierStubMode,
+): Promise<unknown> {
+  if (mode === 'malformed') {
+    return { contractVersion: EXTERNAL_CLASSIFIER_CONTRACT_VERSION, category: 'Grammar Fix' };
+  }
+
+  if (mode === 'unknown-category') {
+    return {
+      contractVersion: EXTERNAL_CLASSIFIER_CONTRACT_VERSION,
+      categories: [{ usageCategory: 'Not A Policy Category', confidence: 1 }],
+    };
+  }
+
+  const result = await classifier.classify(payload.text, payload.rules);
+  const body: ExternalClassifierResponse = {
+    contractVersion: EXTERNAL_CLASSIFIER_CONTRACT_VERSION,
+    categories: result.categories.map((category) => ({
+      usageCategory: category.usageCategory,
+      confidence: category.confidence,
+    })),
+    ...(result.language ? { language: result.language } : {}),
+  };
+  return body;
+}
+
+export async function startClassifierStubServer(
+  options: ClassifierStubOptions = {},
+): Promise<ClassifierStub> {
+  const mode = options.mode ?? 'ok';
+  const requests: ExternalClassifierRequest[] = [];
+
+  const server = createServer((request, response) => {
+    void (async () => {
+      if (request.method !== 'POST' || request.url !== '/classify') {
+        sendJson(response, 404, { error: 'Not found' });
+        return;
+      }
+
+      if (options.token && request.headers.authorization !== `Bearer ${options.token}`) {
+        sendJson(response, 401, { error: 'Unauthorized' });
+        return;
+      }
+
+      const parsed = externalClassifierRequestSchema.safeParse(
+        await readJson(request).catch(() => null),
+      );
+      if (!parsed.success) {
+        sendJson(response, 400, { error: 'Request does not match contract' });
+        return;
+      }
+      requests.push(parsed.data);
+
+      if (options.delayMs) {
+        await delay(options.delayMs);
+      }
+
+      if (mode === 'error') {
+        sendJson(response, 503, { error: 'Classifier unavailable' });
+        return;
+      }
+
+      sendJson(response, 200, await respond(parsed.data, mode));
+    })().catch((error: unknown) => {
+      if (!response.headersSent) {
+        sendJson(response, 500, { error: String(error) });
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(options.port ?? 0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/classify`,
+    requests,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.closeAllConnections();
+        server.close((error) => (error ? reject(error) : resolve()));
+      }),
+  };
+}
+
+if (require.main === module) {
+  startClassifierStubServer({
+    port: Number(process.env.STUB_CLASSIFIER_PORT ?? 4010),
+    mode: (process.env.STUB_CLASSIFIER_MODE as ClassifierStubMode | undefined) ?? 'ok',
+    delayMs: Number(process.env.STUB_CLASSIFIER_DELAY_MS ?? 0),
+    token: process.env.CLASSIFIER_HTTP_TOKEN?.trim() || undefined,
+  })
+    .then((stub) => console.log(`[classifier-stub] listening on ${stub.url}`))
+    .catch((error: unknown) => {
+      console.error('[classifier-stub] failed to start', error);
+      process.exitCode = 1;
+    });
+}
@@ -0,0 +1,105 @@
+/**
+ * Runs every registered classifier strategy and the intent evaluator over a
+ * labelled dataset, using the rules of one policy version, and prints
+ * per-category precision/recall and a confusion matrix for each.
+ *
+ *   npm run classifier:evaluate -- [--policy-version <id>] [--dataset <file.jsonl>]
+ *                                  [--strategy <name>] [--json] [--min-accuracy 0.8]
+ *
+ * Without --policy-version the ACTIVE version is used; pass
+ * --policy-version <draft id> to check a DRAFT's keyword edits before
+ * publishing. --min-accuracy exits non-zero when any reported strategy scores
+ * below it.
+ */
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+
+import { PolicyStatus } from '@prisma/client';
+
+import {
+  evaluateClassifiers,
+  findUnknownCategories,
+  formatEvaluationReport,
+  parseGoldDataset,
+} from '../src/lib/compliance/classifier-evaluation';
+import { listContentClassifiers } from '../src/lib/compliance/content-classifier';
+import { PrismaPolicyRuleProvider } from '../src/lib/compliance/policy-evaluator';
+import { prisma } from '../src/lib/db/client';
+
+const DEFAULT_DATASET = path.join(__dirname, 'datasets', 'classifier-gold.jsonl');
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      'policy-version': { type: 'string' },
+      dataset: { type: 'string', default: DEFAULT_DATASET },
+      strategy: { type: 'string', multiple: true },
+      json: { type: 'boolean', default: false },
+      'min-accuracy': { type: 'string' },
+    },
+  });
+
+  const policyVersion = values['policy-version']
+    ? await prisma.policyVersion.findUnique({
+        where: { id: values['policy-version'] },
+        select: { id: true, versionNumber: true, status: true },
+      })
+    : await prisma.policyVersion.findFirst({
+        where: { status: PolicyStatus.ACTIVE },
+        select: { id: true, versionNumber: true, status: true },
+      });
+
+  if (!policyVersion) {
+    throw new Error(
+      values['policy-version']
+        ? `Policy version ${values['policy-version']} not found`
+        : 'No ACTIVE policy version; pass --policy-version',
+    );
+  }
+
+  const examples = parseGoldDataset(await readFile(values.dataset, 'utf8'));
+  const rules = await new PrismaPolicyRuleProvider().getRules(policyVersion.id);
+  const unknown = findUnknownCategories(examples, rules);
+  if (unknown.length > 0) {
+    console.warn(
+      `Dataset labels not in ${policyVersion.versionNumber}: ${unknown.join(', ')} ` +
+        '(these examples can never be classified correctly)',
+    );
+  }
+
+  const strategies = listContentClassifiers().filter(
+    (entry) => !values.strategy || values.strategy.includes(entry.name),
+  );
+  const reports = await evaluateClassifiers(examples, rules, strategies);
+
+  if (values.json) {
+    console.log(JSON.stringify({ policyVersion, dataset: values.dataset, reports }, null, 2));
+  } else {
+    console.log(
+      `Policy ${policyVersion.versionNumber} (${policyVersion.status}), ` +
+        `${examples.length} examples from ${values.dataset}\n`,
+    );
+    console.log(reports.map(formatEvaluationReport).join('\n\n'));
+  }
+
+  const minAccuracy = values['min-accuracy'] ? Number(values['min-accuracy']) : null;
+  if (minAccuracy !== null) {
+    const failing = reports.filter((report) => report.accuracy < minAccuracy);
+    if (failing.length > 0) {
+      console.error(
+        `\nBelow --min-accuracy ${minAccuracy}: ${failing.map((report) => report.name).join(', ')}`,
+      );
+      process.exitCode = 1;
+    }
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,5 @@
+import { ClassificationJobsPage } from '@/components/jobs/classification-jobs-page';
+
+export default function ClassificationJobsRoute() {
+  return <ClassificationJobsPage />;
+}
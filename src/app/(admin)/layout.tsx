@@ -0,0 +1,5 @@
+import { AdminShell } from '@/components/layout/admin-shell';
+
+export default function AdminLayout({ children }: { children: React.ReactNode }) {
+  return <AdminShell>{children}</AdminShell>;
+}
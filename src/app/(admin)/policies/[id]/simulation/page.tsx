@@ -0,0 +1,10 @@
+import { PolicySimulationReport } from '@/components/policies/policy-simulation-report';
+
+export default async function PolicySimulationRoute({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+  return <PolicySimulationReport policyVersionId={id} />;
+}
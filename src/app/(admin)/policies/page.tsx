@@ -0,0 +1,5 @@
+import { PolicyVersionsPage } from '@/components/policies/policy-versions-page';
+
+export default function PoliciesRoute() {
+  return <PolicyVersionsPage />;
+}
@@ -0,0 +1,10 @@
+import { CourseUsageRulesPage } from '@/components/courses/course-usage-rules-page';
+
+export default async function CourseUsageRulesRoute({
+  params,
+}: {
+  params: Promise<{ courseId: string }>;
+}) {
+  const { courseId } = await params;
+  return <CourseUsageRulesPage courseId={courseId} />;
+}
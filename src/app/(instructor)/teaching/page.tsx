@@ -0,0 +1,5 @@
+import { TeachingCoursesPage } from '@/components/courses/teaching-courses-page';
+
+export default function TeachingRoute() {
+  return <TeachingCoursesPage />;
+}
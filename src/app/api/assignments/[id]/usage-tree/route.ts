@@ -2,10 +2,7 @@ import { NextResponse } from 'next/server';
 
 import { AuthError } from '@/lib/auth/errors';
 import { getRequiredSession } from '@/lib/auth/session';
-import {
-  assignmentUsageTaxonomyVersion,
-  getStudentAssignmentUsageTree,
-} from '@/lib/db/assignment-usage-tree';
+import { getStudentAssignmentUsageTree } from '@/lib/db/assignment-usage-tree';
 
 export async function GET(
   request: Request,
@@ -24,7 +21,7 @@ export async function GET(
     return NextResponse.json(
       {
         assignment: usageTree.assignment,
-        taxonomyVersion: assignmentUsageTaxonomyVersion,
+        taxonomyVersion: usageTree.taxonomyVersion,
         tree: usageTree.tree,
       },
       { status: 200 },
@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server';
+
+import { writeAuditLog } from '@/lib/audit/logger';
+import { AuthError } from '@/lib/auth/errors';
+import { getRequiredAdminSession } from '@/lib/auth/session';
+import { retryDeadClassificationJob } from '@/lib/db/classification-jobs';
+import { prisma } from '@/lib/db/client';
+
+function clientIp(request: Request): string | undefined {
+  const forwarded = request.headers.get('x-forwarded-for');
+  if (!forwarded) {
+    return undefined;
+  }
+
+  return forwarded.split(',')[0]?.trim() || undefined;
+}
+
+export async function POST(
+  request: Request,
+  context: { params: Promise<{ id: string }> },
+) {
+  try {
+    const session = await getRequiredAdminSession(request);
+    const { id } = await context.params;
+
+    const job = await prisma.classificationJob.findUnique({
+      where: { id },
+      select: { id: true, aiLogId: true, logRevision: true, status: true, lastError: true },
+    });
+
+    if (!job) {
+      return NextResponse.json({ error: 'Classification job not found' }, { status: 404 });
+    }
+
+    const requeued = await retryDeadClassificationJob(job.id);
+    if (!requeued) {
+      return NextResponse.json(
+        { error: `Only DEAD jobs can be retried (current status: ${job.status})` },
+        { status: 409 },
+      );
+    }
+
+    await writeAuditLog({
+      actorId: session.user.id,
+      actionType: 'CLASSIFICATION_JOB_RETRIED',
+      resourceType: 'classification_job',
+      resourceId: job.id,
+      metadataJson: {
+        aiLogId: job.aiLogId,
+        logRevision: job.logRevision,
+        lastError: job.lastError,
+      },
+      ipAddress: clientIp(request),
+    });
+
+    return NextResponse.json({ id: job.id, status: 'PENDING' }, { status: 200 });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+
+import { AuthError } from '@/lib/auth/errors';
+import { getRequiredAdminSession } from '@/lib/auth/session';
+import { listStuckClassificationJobs } from '@/lib/db/classification-jobs';
+
+export async function GET(request: Request) {
+  try {
+    await getRequiredAdminSession(request);
+
+    const { counts, jobs } = await listStuckClassificationJobs();
+
+    return NextResponse.json({ counts, jobs }, { status: 200 });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -6,6 +6,7 @@ import { PolicyEvaluator } from '@/lib/compliance';
 import { AuthError } from '@/lib/auth/errors';
 import { getRequiredSession } from '@/lib/auth/session';
 import { prisma } from '@/lib/db/client';
+import { recordIntentCheck } from '@/lib/db/intent-checks';
 import { intentCheckSchema } from '@/lib/validations/compliance.schema';
 
 function formatValidationErrors(error: ZodError) {
@@ -76,15 +77,25 @@ export async function POST(request: Request) {
     }
 
     const result = await PolicyEvaluator.evaluateIntent(body.reason, policyVersionId);
+    const check = await recordIntentCheck({
+      userId: session.user.id,
+      assignmentId: assignment.id,
+      policyVersionId,
+      reason: body.reason,
+      result,
+      source: 'PREVIEW',
+    });
 
     return NextResponse.json(
       {
+        checkId: check.id,
         status: result.complianceStatus,
         severityLevel: result.severityLevel,
         isSerious: result.severityLevel === 'SERIOUS',
         detectedCategory: result.detectedCategory,
         ruleReferences: result.ruleReferences,
         message: result.message,
+        matchedSpans: result.matchedSpans,
       },
       { status: 200 },
     );
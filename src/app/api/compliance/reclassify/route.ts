@@ -0,0 +1,66 @@
+import { NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+
+import { AuthError } from '@/lib/auth/errors';
+import { getRequiredAdminSession } from '@/lib/auth/session';
+import { ReclassifyScopeTooLargeError, reclassifyLogs } from '@/lib/db/reclassification';
+import { reclassifySchema } from '@/lib/validations/compliance.schema';
+
+function clientIp(request: Request): string | undefined {
+  const forwarded = request.headers.get('x-forwarded-for');
+  if (!forwarded) {
+    return undefined;
+  }
+
+  return forwarded.split(',')[0]?.trim() || undefined;
+}
+
+function formatValidationErrors(error: ZodError) {
+  const fields: Record<string, string[]> = {};
+  for (const issue of error.issues) {
+    const key = issue.path.join('.') || 'root';
+    if (!fields[key]) {
+      fields[key] = [];
+    }
+    fields[key].push(issue.message);
+  }
+  return fields;
+}
+
+export async function POST(request: Request) {
+  try {
+    const session = await getRequiredAdminSession(request);
+    const body = reclassifySchema.parse(await request.json());
+
+    const summary = await reclassifyLogs(body, session.user.id, clientIp(request));
+
+    if (summary.scope === 'log' && summary.matched === 0) {
+      return NextResponse.json(
+        { error: 'Log not found or not yet classified' },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json(summary, { status: 200 });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', fields: formatValidationErrors(error) },
+        { status: 400 },
+      );
+    }
+
+    if (error instanceof ReclassifyScopeTooLargeError) {
+      return NextResponse.json(
+        { error: error.message, matched: error.matched },
+        { status: 422 },
+      );
+    }
+
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
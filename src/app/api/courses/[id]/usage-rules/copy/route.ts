@@ -0,0 +1,141 @@
+import { NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+
+import { AuthError } from '@/lib/auth/errors';
+import { getRequiredSession } from '@/lib/auth/session';
+import {
+  copyCourseUsageRules,
+  getCourseForRuleEditing,
+  listCourseUsageRules,
+  type UsageRuleCopySource,
+} from '@/lib/db/course-usage-rules';
+import { getUsageRuleTemplate } from '@/lib/db/usage-rule-templates';
+import { getActiveUsageTaxonomy } from '@/lib/db/usage-taxonomies';
+import { copyCourseUsageRulesSchema } from '@/lib/validations/course-usage-rule.schema';
+
+function clientIp(request: Request): string | undefined {
+  const forwarded = request.headers.get('x-forwarded-for');
+  if (!forwarded) {
+    return undefined;
+  }
+
+  return forwarded.split(',')[0]?.trim() || undefined;
+}
+
+function zodFieldErrors(error: ZodError) {
+  const fields: Record<string, string[]> = {};
+
+  for (const issue of error.issues) {
+    const path = issue.path.join('.') || 'root';
+    if (!fields[path]) {
+      fields[path] = [];
+    }
+    fields[path].push(issue.message);
+  }
+
+  return fields;
+}
+
+/**
+ * Replaces the course's rules with a template's or another course's. With
+ * `preview`, returns the changes without saving them.
+ */
+export async function POST(
+  request: Request,
+  context: { params: Promise<{ id: string }> },
+) {
+  try {
+    const session = await getRequiredSession(request);
+    const { id } = await context.params;
+    const parsed = copyCourseUsageRulesSchema.parse(await request.json());
+
+    const access = await getCourseForRuleEditing(id, session.user);
+
+    if (access.outcome === 'NOT_FOUND') {
+      return NextResponse.json({ error: 'Course not found' }, { status: 404 });
+    }
+
+    if (access.outcome === 'FORBIDDEN') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    let source: UsageRuleCopySource;
+
+    if ('templateId' in parsed) {
+      const template = await getUsageRuleTemplate(parsed.templateId);
+
+      if (!template) {
+        return NextResponse.json({ error: 'Rule template not found' }, { status: 404 });
+      }
+
+      source = { kind: 'TEMPLATE', id: template.id, name: template.name, rules: template.rules };
+    } else {
+      const sourceAccess = await getCourseForRuleEditing(parsed.sourceCourseId, session.user);
+
+      if (sourceAccess.outcome === 'NOT_FOUND') {
+        return NextResponse.json({ error: 'Source course not found' }, { status: 404 });
+      }
+
+      if (sourceAccess.outcome === 'FORBIDDEN') {
+        return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+      }
+
+      if (sourceAccess.course.id === access.course.id) {
+        return NextResponse.json(
+          {
+            error: 'Validation failed',
+            fields: { sourceCourseId: ['A course cannot copy its own rules'] },
+          },
+          { status: 400 },
+        );
+      }
+
+      source = {
+        kind: 'COURSE',
+        id: sourceAccess.course.id,
+        courseCode: sourceAccess.course.courseCode,
+        rules: await listCourseUsageRules(sourceAccess.course.id),
+      };
+    }
+
+    const taxonomy = await getActiveUsageTaxonomy();
+
+    if (!taxonomy) {
+      return NextResponse.json(
+        { error: 'No active usage taxonomy version available' },
+        { status: 409 },
+      );
+    }
+
+    const result = await copyCourseUsageRules(
+      access.course.id,
+      taxonomy.tree,
+      source,
+      { id: session.user.id, ipAddress: clientIp(request), taxonomyVersion: taxonomy.versionKey },
+      { preview: parsed.preview },
+    );
+
+    return NextResponse.json(
+      {
+        preview: Boolean(parsed.preview),
+        changes: result.changes,
+        skippedNodeIds: result.skippedNodeIds,
+        rules: await listCourseUsageRules(access.course.id),
+      },
+      { status: 200 },
+    );
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', fields: zodFieldErrors(error) },
+        { status: 400 },
+      );
+    }
+
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
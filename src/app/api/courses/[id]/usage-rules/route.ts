@@ -0,0 +1,150 @@
+import { NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+
+import { AuthError } from '@/lib/auth/errors';
+import { getRequiredSession } from '@/lib/auth/session';
+import {
+  applyCourseUsageRuleChanges,
+  getCourseForRuleEditing,
+  listCourseAssignmentsForRuleEditing,
+  listCourseUsageRules,
+} from '@/lib/db/course-usage-rules';
+import { getActiveUsageTaxonomy } from '@/lib/db/usage-taxonomies';
+import { getBaselineDisallowedNodeIds } from '@/lib/usage-taxonomy';
+import { updateCourseUsageRulesSchema } from '@/lib/validations/course-usage-rule.schema';
+
+function clientIp(request: Request): string | undefined {
+  const forwarded = request.headers.get('x-forwarded-for');
+  if (!forwarded) {
+    return undefined;
+  }
+
+  return forwarded.split(',')[0]?.trim() || undefined;
+}
+
+function zodFieldErrors(error: ZodError) {
+  const fields: Record<string, string[]> = {};
+
+  for (const issue of error.issues) {
+    const path = issue.path.join('.') || 'root';
+    if (!fields[path]) {
+      fields[path] = [];
+    }
+    fields[path].push(issue.message);
+  }
+
+  return fields;
+}
+
+/**
+ * The active taxonomy tree with the course's own rules. Statuses are left to
+ * `annotateUsageTree`, so the editor can preview unsaved changes the same way.
+ */
+export async function GET(
+  request: Request,
+  context: { params: Promise<{ id: string }> },
+) {
+  try {
+    const session = await getRequiredSession(request);
+    const { id } = await context.params;
+
+    const access = await getCourseForRuleEditing(id, session.user);
+
+    if (access.outcome === 'NOT_FOUND') {
+      return NextResponse.json({ error: 'Course not found' }, { status: 404 });
+    }
+
+    if (access.outcome === 'FORBIDDEN') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const [taxonomy, rules, assignments] = await Promise.all([
+      getActiveUsageTaxonomy(),
+      listCourseUsageRules(access.course.id),
+      listCourseAssignmentsForRuleEditing(access.course.id),
+    ]);
+
+    return NextResponse.json(
+      {
+        course: access.course,
+        assignments,
+        taxonomyVersion: taxonomy?.versionKey ?? null,
+        tree: taxonomy?.tree ?? [],
+        rules,
+        baselineDisallowedNodeIds: getBaselineDisallowedNodeIds(taxonomy?.tree ?? []),
+      },
+      { status: 200 },
+    );
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+export async function PUT(
+  request: Request,
+  context: { params: Promise<{ id: string }> },
+) {
+  try {
+    const session = await getRequiredSession(request);
+    const { id } = await context.params;
+    const parsed = updateCourseUsageRulesSchema.parse(await request.json());
+
+    const access = await getCourseForRuleEditing(id, session.user);
+
+    if (access.outcome === 'NOT_FOUND') {
+      return NextResponse.json({ error: 'Course not found' }, { status: 404 });
+    }
+
+    if (access.outcome === 'FORBIDDEN') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const taxonomy = await getActiveUsageTaxonomy();
+
+    if (!taxonomy) {
+      return NextResponse.json(
+        { error: 'No active usage taxonomy version available' },
+        { status: 409 },
+      );
+    }
+
+    const result = await applyCourseUsageRuleChanges(
+      access.course.id,
+      taxonomy.tree,
+      parsed.changes,
+      { id: session.user.id, ipAddress: clientIp(request), taxonomyVersion: taxonomy.versionKey },
+    );
+
+    if (result.outcome === 'INVALID') {
+      return NextResponse.json(
+        { error: 'Validation failed', fields: { changes: result.errors } },
+        { status: 400 },
+      );
+    }
+
+    return NextResponse.json(
+      {
+        changes: result.changes,
+        rules: await listCourseUsageRules(access.course.id),
+      },
+      { status: 200 },
+    );
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', fields: zodFieldErrors(error) },
+        { status: 400 },
+      );
+    }
+
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
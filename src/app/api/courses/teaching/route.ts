@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+
+import { AuthError } from '@/lib/auth/errors';
+import { getRequiredSession } from '@/lib/auth/session';
+import { listRuleEditableCourses } from '@/lib/db/course-usage-rules';
+
+/** Courses whose usage rules the user can edit: taught courses, or all for admins. */
+export async function GET(request: Request) {
+  try {
+    const session = await getRequiredSession(request);
+
+    const courses = await listRuleEditableCourses(session.user);
+
+    return NextResponse.json({ courses }, { status: 200 });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,95 @@
+import { NextResponse } from 'next/server';
+import { EnrollmentRole, UserRole } from '@prisma/client';
+
+import { writeAuditLog } from '@/lib/audit/logger';
+import { AuthError } from '@/lib/auth/errors';
+import { getRequiredSession } from '@/lib/auth/session';
+import { prisma } from '@/lib/db/client';
+import { listLogRevisions } from '@/lib/db/log-revisions';
+
+function clientIp(request: Request): string | undefined {
+  const forwarded = request.headers.get('x-forwarded-for');
+  if (!forwarded) {
+    return undefined;
+  }
+
+  return forwarded.split(',')[0]?.trim() || undefined;
+}
+
+export async function GET(
+  request: Request,
+  context: { params: Promise<{ id: string }> },
+) {
+  try {
+    const session = await getRequiredSession(request);
+    const { id } = await context.params;
+
+    const log = await prisma.aiLog.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        userId: true,
+        revision: true,
+        assignment: {
+          select: {
+            course: {
+              select: {
+                enrollments: {
+                  where: {
+                    userId: session.user.id,
+                    role: EnrollmentRole.INSTRUCTOR,
+                  },
+                  select: { id: true },
+                  take: 1,
+                },
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (!log) {
+      return NextResponse.json({ error: 'Log not found' }, { status: 404 });
+    }
+
+    const instructorAllowed = log.assignment.course.enrollments.length > 0;
+    const isOwner = log.userId === session.user.id;
+    const canAccess =
+      session.user.role === UserRole.ADMIN ||
+      isOwner ||
+      (session.user.role === UserRole.INSTRUCTOR && instructorAllowed);
+
+    if (!canAccess) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const revisions = await listLogRevisions(log.id);
+
+    if (!isOwner) {
+      await writeAuditLog({
+        actorId: session.user.id,
+        actionType: 'STAFF_VIEW',
+        resourceType: 'ai_log_revisions',
+        resourceId: log.id,
+        metadataJson: {
+          accessorId: session.user.id,
+          ownerId: log.userId,
+          revisions: revisions.map((revision) => revision.revision),
+        },
+        ipAddress: clientIp(request),
+      });
+    }
+
+    return NextResponse.json(
+      { logId: log.id, currentRevision: log.revision, revisions },
+      { status: 200 },
+    );
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -1,23 +1,35 @@
 import { NextResponse } from 'next/server';
-import { ComplianceStatus, EnrollmentRole, UserRole } from '@prisma/client';
+import { after } from 'next/server';
+import { EnrollmentRole, UserRole } from '@prisma/client';
 import { ZodError } from 'zod';
 
 import { writeAuditLog } from '@/lib/audit/logger';
 import { AuthError } from '@/lib/auth/errors';
 import { getRequiredSession } from '@/lib/auth/session';
+import { decideCompliance } from '@/lib/compliance/compliance-decision';
+import { enqueueClassificationJob } from '@/lib/db/classification-jobs';
 import { prisma } from '@/lib/db/client';
+import { getAssignmentUsageRuleMap, getCourseTreeSignals } from '@/lib/db/course-usage-rules';
+import { linkIntentChecks } from '@/lib/db/intent-checks';
+import { decryptStoredConversation, toStoredLogEvidence } from '@/lib/db/log-evidence';
+import { recordLogRevision } from '@/lib/db/log-revisions';
 import {
-  findDisallowedUsageSelections,
-  findWarningParentSelections,
-  getCourseUsageRuleMap,
-} from '@/lib/db/course-usage-rules';
+  createUsageTaxonomyLoader,
+  getActiveUsageTaxonomy,
+  getUsageNodeMapBetween,
+  resolveUsageSelectionIntent,
+} from '@/lib/db/usage-taxonomies';
 import { decryptNullableText, encryptNullableText } from '@/lib/encryption/field-encryptor';
+import { drainClassificationJobs } from '@/lib/jobs/classification-worker';
 import {
-  MANUAL_USAGE_TAXONOMY_VERSION,
   getTopLevelSectionsForSelections,
   getUsageLabelsForSelections,
 } from '@/lib/usage-taxonomy';
-import { createLogSchema } from '@/lib/validations/log.schema';
+import { migrateLogUsage, type LogUsageMigration } from '@/lib/usage-taxonomy-migration';
+import {
+  createLogSchemaForRules,
+  createLogSchemaForTaxonomy,
+} from '@/lib/validations/log.schema';
 
 function clientIp(request: Request): string | undefined {
   const forwarded = request.headers.get('x-forwarded-for');
@@ -39,10 +51,11 @@ async function loadAccessibleLog(logId: string, accessorId: string, role: UserRo
           evidenceType: true,
           url: true,
           comment: true,
+          conversation: true,
           label: true,
           createdAt: true,
         },
-        orderBy: [{ createdAt: 'asc' }],
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
       },
       complianceChecks: {
         orderBy: [{ checkedAt: 'desc' }],
@@ -73,7 +86,11 @@ async function loadAccessibleLog(logId: string, accessorId: string, role: UserRo
 
   const instructorAllowed = base.assignment.course.enrollments.length > 0;
   const isOwner = base.userId === accessorId;
-  const usageLabels = getUsageLabelsForSelections(base.manualUsageSubsections);
+  const usageTaxonomy = await createUsageTaxonomyLoader()(base.manualUsageTaxonomyVersion);
+  const usageLabels = getUsageLabelsForSelections(
+    usageTaxonomy?.tree ?? [],
+    base.manualUsageSubsections,
+  );
   const canAccess =
     role === UserRole.ADMIN ||
     isOwner ||
@@ -83,6 +100,29 @@ async function loadAccessibleLog(logId: string, accessorId: string, role: UserRo
     return { forbidden: true as const };
   }
 
+  // Editing re-records the log against the active version, so the owner is
+  // shown how selections made in an older version carry over.
+  let usageMigration:
+    | (LogUsageMigration & { fromVersion: string; toVersion: string })
+    | null = null;
+  const activeTaxonomy = isOwner ? await getActiveUsageTaxonomy() : null;
+  if (usageTaxonomy && activeTaxonomy && usageTaxonomy.versionKey !== activeTaxonomy.versionKey) {
+    const map = await getUsageNodeMapBetween(usageTaxonomy.versionKey, activeTaxonomy.versionKey);
+    if (map) {
+      usageMigration = {
+        fromVersion: usageTaxonomy.versionKey,
+        toVersion: activeTaxonomy.versionKey,
+        ...migrateLogUsage(
+          usageTaxonomy.tree,
+          activeTaxonomy.tree,
+          map,
+          base.manualUsageSubsections,
+          base.conversationLinks.flatMap((link) => (link.usageNodeId ? [link.usageNodeId] : [])),
+        ),
+      };
+    }
+  }
+
   return {
     forbidden: false as const,
     isOwner,
@@ -97,6 +137,7 @@ async function loadAccessibleLog(logId: string, accessorId: string, role: UserRo
       usageSubsections: base.manualUsageSubsections,
       usageSections: usageLabels?.sectionIds ?? [],
       usageTaxonomyVersion: base.manualUsageTaxonomyVersion,
+      usageMigration,
       usageReason: decryptNullableText(base.usageReason),
       sessionDescription: decryptNullableText(base.sessionDescription),
       aiTool: base.aiTool,
@@ -104,11 +145,13 @@ async function loadAccessibleLog(logId: string, accessorId: string, role: UserRo
       complianceStatus: base.complianceStatus,
       flagSeverity: base.flagSeverity,
       intentCategory: base.intentCategory,
+      selectionCategory: base.selectionCategory,
       actualUsageCategory: base.actualUsageCategory,
       conflictFlag: base.conflictFlag,
       directViolationFlag: base.directViolationFlag,
       appliedPolicyVersionId: base.appliedPolicyVersionId,
       resolutionStatus: base.resolutionStatus,
+      revision: base.revision,
       createdAt: base.createdAt,
       updatedAt: base.updatedAt,
       conversationLinks: base.conversationLinks.map((link) => ({
@@ -118,6 +161,7 @@ async function loadAccessibleLog(logId: string, accessorId: string, role: UserRo
         url: decryptNullableText(link.url),
         comment: decryptNullableText(link.comment),
         text: decryptNullableText(link.comment) ?? decryptNullableText(link.url),
+        conversation: decryptStoredConversation(link.conversation),
         label: link.label,
         createdAt: link.createdAt,
       })),
@@ -180,7 +224,17 @@ export async function PATCH(
     const { id } = await context.params;
 
     const raw = await request.json();
-    const parsed = createLogSchema.parse(raw);
+    // An edit re-records the selections against the active taxonomy version.
+    const taxonomy = await getActiveUsageTaxonomy();
+
+    if (!taxonomy) {
+      return NextResponse.json(
+        { error: 'No active usage taxonomy version available' },
+        { status: 409 },
+      );
+    }
+
+    const parsed = createLogSchemaForTaxonomy(taxonomy.tree).parse(raw);
 
     const existing = await prisma.aiLog.findUnique({
       where: { id },
@@ -242,43 +296,34 @@ export async function PATCH(
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
-    if (existing.assignmentId !== assignment.id) {
-      const conflictingLog = await prisma.aiLog.findFirst({
-        where: {
-          userId: session.user.id,
-          assignmentId: assignment.id,
-          id: { not: id },
-        },
-        select: { id: true },
-      });
-
-      if (conflictingLog) {
-        return NextResponse.json(
-          {
-            error: 'A log already exists for this assignment. Please edit the existing log.',
-            logId: conflictingLog.id,
-          },
-          { status: 409 },
-        );
-      }
-    }
-
-    const topSections = getTopLevelSectionsForSelections(parsed.usageSubsections);
+    const topSections = getTopLevelSectionsForSelections(taxonomy.tree, parsed.usageSubsections);
     const primarySectionId = topSections[0]?.id ?? null;
-    const ruleMap = await getCourseUsageRuleMap(assignment.courseId);
-    const hasDisallowedSelections =
-      findDisallowedUsageSelections(parsed.usageSubsections, ruleMap).length > 0;
-    const hasWarningParentSelections =
-      findWarningParentSelections(parsed.usageSubsections, ruleMap).length > 0;
-    const nextComplianceStatus = hasDisallowedSelections
-      ? ComplianceStatus.NON_COMPLIANT
-      : hasWarningParentSelections
-        ? ComplianceStatus.WARNING
-        : existing.complianceStatus === ComplianceStatus.NON_COMPLIANT ||
-            existing.complianceStatus === ComplianceStatus.WARNING
-          ? ComplianceStatus.PENDING
-          : existing.complianceStatus;
+    // An edit keeps the log's `loggedAt`, so windowed rules apply as they did then.
+    const ruleMap = await getAssignmentUsageRuleMap(
+      assignment.courseId,
+      assignment.id,
+      taxonomy.tree,
+      existing.loggedAt,
+    );
+    createLogSchemaForRules(taxonomy.tree, ruleMap).parse(parsed);
+    const selectionIntent = await resolveUsageSelectionIntent(
+      taxonomy.tree,
+      parsed.usageSubsections,
+      existing.appliedPolicyVersionId,
+    );
+    // The edit is a new revision: the previous revision's classification no
+    // longer applies, so this is provisional until the queued job runs.
+    const decision = decideCompliance({
+      courseTree: getCourseTreeSignals(taxonomy.tree, parsed.usageSubsections, ruleMap, {
+        usageReason: parsed.usageReason,
+        evidenceNodeIds: parsed.usageEvidence.map((evidence) => evidence.nodeId),
+      }),
+    });
+
+    const evidence = toStoredLogEvidence(parsed.usageEvidence);
 
+    // The current links are replaced; what they held before stays in the
+    // previous revision's snapshot.
     const updated = await prisma.$transaction(async (tx) => {
       await tx.conversationLink.deleteMany({
         where: {
@@ -286,31 +331,30 @@ export async function PATCH(
         },
       });
 
-      if (parsed.usageEvidence.length > 0) {
+      if (evidence.length > 0) {
         await tx.conversationLink.createMany({
-          data: parsed.usageEvidence.map((item) => ({
-            aiLogId: id,
-            usageNodeId: item.nodeId,
-            evidenceType: null,
-            url: null,
-            comment: encryptNullableText(item.text) ?? null,
-            label: null,
-          })),
+          data: evidence.map((item) => ({ aiLogId: id, ...item })),
         });
       }
 
-      return tx.aiLog.update({
+      const log = await tx.aiLog.update({
         where: { id },
         data: {
           assignmentId: parsed.assignmentId,
           manualUsageSection: primarySectionId,
           manualUsageSubsection: parsed.usageSubsections[0] ?? null,
           manualUsageSubsections: parsed.usageSubsections,
-          manualUsageTaxonomyVersion: MANUAL_USAGE_TAXONOMY_VERSION,
+          manualUsageTaxonomyVersion: taxonomy.versionKey,
+          selectionCategory: selectionIntent?.category ?? null,
           usageReason: encryptNullableText(parsed.usageReason) ?? '',
           sessionDescription: encryptNullableText(parsed.sessionDescription || null),
           aiTool: parsed.aiTool,
-          complianceStatus: nextComplianceStatus,
+          complianceStatus: decision.complianceStatus,
+          flagSeverity: decision.flagSeverity,
+          conflictFlag: decision.conflictFlag,
+          directViolationFlag: decision.directViolationFlag,
+          resolutionStatus: decision.resolutionStatus,
+          revision: { increment: 1 },
         },
         select: {
           id: true,
@@ -327,6 +371,7 @@ export async function PATCH(
           complianceStatus: true,
           flagSeverity: true,
           intentCategory: true,
+          selectionCategory: true,
           actualUsageCategory: true,
           conflictFlag: true,
           directViolationFlag: true,
@@ -334,10 +379,28 @@ export async function PATCH(
           resolutionStatus: true,
           createdAt: true,
           updatedAt: true,
+          revision: true,
         },
       });
+
+      await recordLogRevision(tx, { log, evidence, editedById: session.user.id });
+      // Previews run while editing become part of the log's evidence too.
+      await linkIntentChecks(tx, {
+        userId: session.user.id,
+        assignmentId: log.assignmentId,
+        aiLogId: log.id,
+        checkIds: parsed.intentCheckIds ?? [],
+      });
+      await enqueueClassificationJob(tx, log.id, log.revision);
+
+      return log;
     });
-    const updatedUsageLabels = getUsageLabelsForSelections(updated.manualUsageSubsections);
+    const updatedUsageLabels = getUsageLabelsForSelections(
+      taxonomy.tree,
+      updated.manualUsageSubsections,
+    );
+
+    after(() => drainClassificationJobs({ maxJobs: 1 }).catch(() => undefined));
 
     return NextResponse.json(
       {
@@ -356,6 +419,7 @@ export async function PATCH(
         complianceStatus: updated.complianceStatus,
         flagSeverity: updated.flagSeverity,
         intentCategory: updated.intentCategory,
+        selectionCategory: updated.selectionCategory,
         actualUsageCategory: updated.actualUsageCategory,
         conflictFlag: updated.conflictFlag,
         directViolationFlag: updated.directViolationFlag,
@@ -5,21 +5,34 @@ import { ZodError } from 'zod';
 
 import { writeAuditLog } from '@/lib/audit/logger';
 import { AuthError } from '@/lib/auth/errors';
-import { resolveInternalClassifyToken } from '@/lib/auth/internal-token';
 import { getRequiredSession } from '@/lib/auth/session';
+import { decideCompliance } from '@/lib/compliance/compliance-decision';
+import type { EvaluateIntentResult } from '@/lib/compliance/policy-evaluator';
+import { enqueueClassificationJob } from '@/lib/db/classification-jobs';
 import { prisma } from '@/lib/db/client';
 import {
-  findDisallowedUsageSelections,
-  findWarningParentSelections,
-  getCourseUsageRuleMap,
+  createLogCourseTreeSignalsLoader,
+  getAssignmentUsageRuleMap,
+  getCourseTreeSignals,
 } from '@/lib/db/course-usage-rules';
+import { linkIntentChecks, recordIntentCheck } from '@/lib/db/intent-checks';
+import { toStoredLogEvidence } from '@/lib/db/log-evidence';
+import { recordLogRevision } from '@/lib/db/log-revisions';
+import {
+  createUsageTaxonomyLoader,
+  getActiveUsageTaxonomy,
+  resolveUsageSelectionIntent,
+} from '@/lib/db/usage-taxonomies';
 import { decryptNullableText, encryptNullableText } from '@/lib/encryption/field-encryptor';
+import { drainClassificationJobs } from '@/lib/jobs/classification-worker';
 import {
-  MANUAL_USAGE_TAXONOMY_VERSION,
   getTopLevelSectionsForSelections,
   getUsageLabelsForSelections,
 } from '@/lib/usage-taxonomy';
-import { createLogSchema } from '@/lib/validations/log.schema';
+import {
+  createLogSchemaForRules,
+  createLogSchemaForTaxonomy,
+} from '@/lib/validations/log.schema';
 
 function clientIp(request: Request): string | undefined {
   const forwarded = request.headers.get('x-forwarded-for');
@@ -47,20 +60,22 @@ function zodFieldErrors(error: ZodError) {
 async function evaluateIntentDefensively(
   usageReason: string,
   policyVersionId: string,
-): Promise<{ intentCategory: string | null; complianceStatus: ComplianceStatus }> {
+): Promise<{
+  intentCategory: string | null;
+  complianceStatus: ComplianceStatus;
+  /** Full evaluation, recorded as the submission's intent check; null when it failed. */
+  result: EvaluateIntentResult | null;
+}> {
   try {
     const complianceModule = await import('@/lib/compliance');
     const evaluator = complianceModule as unknown as {
       PolicyEvaluator?: {
-        evaluateIntent?: (
-          reason: string,
-          versionId: string,
-        ) => Promise<{ detectedCategory?: string | null; complianceStatus?: ComplianceStatus }>;
+        evaluateIntent?: (reason: string, versionId: string) => Promise<EvaluateIntentResult>;
       };
     };
 
     if (typeof evaluator.PolicyEvaluator?.evaluateIntent !== 'function') {
-      return { intentCategory: null, complianceStatus: ComplianceStatus.PENDING };
+      return { intentCategory: null, complianceStatus: ComplianceStatus.PENDING, result: null };
     }
 
     const result = await evaluator.PolicyEvaluator.evaluateIntent(
@@ -70,9 +85,10 @@ async function evaluateIntentDefensively(
     return {
       intentCategory: result.detectedCategory ?? null,
       complianceStatus: result.complianceStatus ?? ComplianceStatus.PENDING,
+      result,
     };
   } catch {
-    return { intentCategory: null, complianceStatus: ComplianceStatus.PENDING };
+    return { intentCategory: null, complianceStatus: ComplianceStatus.PENDING, result: null };
   }
 }
 
@@ -137,23 +153,25 @@ export async function GET(request: Request) {
       },
     });
 
-    const courseRuleMapCache = new Map<string, Promise<Map<string, boolean>>>();
+    const loadCourseTreeSignals = createLogCourseTreeSignalsLoader();
+    const loadUsageTaxonomy = createUsageTaxonomyLoader();
     const decryptedLogs = await Promise.all(logs.map(async (log) => {
-      const usageLabels = getUsageLabelsForSelections(log.manualUsageSubsections);
-      const cachedRuleMapPromise = courseRuleMapCache.get(log.assignment.courseId);
-      const ruleMapPromise = cachedRuleMapPromise ?? getCourseUsageRuleMap(log.assignment.courseId);
-      if (!cachedRuleMapPromise) {
-        courseRuleMapCache.set(log.assignment.courseId, ruleMapPromise);
-      }
-      const ruleMap = await ruleMapPromise;
-      const disallowedUsageNodeIds = findDisallowedUsageSelections(
-        log.manualUsageSubsections,
-        ruleMap,
-      );
-      const warningUsageNodeIds = findWarningParentSelections(
-        log.manualUsageSubsections,
-        ruleMap,
-      );
+      // Labels come from the taxonomy version the log was recorded with; its
+      // selections are checked against the rules where publishing moved them.
+      const usageTree = (await loadUsageTaxonomy(log.manualUsageTaxonomyVersion))?.tree ?? [];
+      const usageLabels = getUsageLabelsForSelections(usageTree, log.manualUsageSubsections);
+      const usageReason = decryptNullableText(log.usageReason);
+      const courseTree = await loadCourseTreeSignals({
+        courseId: log.assignment.courseId,
+        assignmentId: log.assignmentId,
+        usageTaxonomyVersion: log.manualUsageTaxonomyVersion,
+        nodeIds: log.manualUsageSubsections,
+        evidenceNodeIds: log.conversationLinks.flatMap((link) =>
+          link.usageNodeId ? [link.usageNodeId] : [],
+        ),
+        usageReason: usageReason ?? '',
+        loggedAt: log.loggedAt,
+      });
       return {
         usageLabels,
         id: log.id,
@@ -165,17 +183,19 @@ export async function GET(request: Request) {
         usageSection: log.manualUsageSection,
         usageSubsection: log.manualUsageSubsection,
         usageSubsections: log.manualUsageSubsections,
-        disallowedUsageNodeIds,
-        warningUsageNodeIds,
+        disallowedUsageNodeIds: courseTree.disallowedSelections,
+        warningUsageNodeIds: courseTree.warningParentSelections,
+        justifiedUsageNodeIds: courseTree.justifiedSelections ?? [],
         usageSections: usageLabels?.sectionIds ?? [],
         usageTaxonomyVersion: log.manualUsageTaxonomyVersion,
-        usageReason: decryptNullableText(log.usageReason),
+        usageReason,
         sessionDescription: decryptNullableText(log.sessionDescription),
         aiTool: log.aiTool,
         loggedAt: log.loggedAt,
         complianceStatus: log.complianceStatus,
         flagSeverity: log.flagSeverity,
         intentCategory: log.intentCategory,
+        selectionCategory: log.selectionCategory,
         actualUsageCategory: log.actualUsageCategory,
         conflictFlag: log.conflictFlag,
         directViolationFlag: log.directViolationFlag,
@@ -196,43 +216,22 @@ export async function GET(request: Request) {
       };
     }));
 
-    const normalizedLogs =
-      session.user.role === UserRole.STUDENT
-        ? Array.from(
-            decryptedLogs.reduce((acc, log) => {
-              const existing = acc.get(log.assignmentId);
-              if (
-                !existing ||
-                new Date(log.updatedAt).getTime() > new Date(existing.updatedAt).getTime()
-              ) {
-                acc.set(log.assignmentId, log);
-              }
-              return acc;
-            }, new Map<string, (typeof decryptedLogs)[number]>()),
-          )
-            .map(([, log]) => log)
-            .sort(
-              (a, b) =>
-                new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
-            )
-        : decryptedLogs;
-
     if (session.user.role === UserRole.INSTRUCTOR || session.user.role === UserRole.ADMIN) {
       await writeAuditLog({
         actorId: session.user.id,
         actionType: 'STAFF_VIEW',
         resourceType: 'ai_log_list',
-        resourceId: requestedUserId ?? normalizedLogs[0]?.id ?? session.user.id,
+        resourceId: requestedUserId ?? decryptedLogs[0]?.id ?? session.user.id,
         metadataJson: {
           accessorId: session.user.id,
           requestedUserId: requestedUserId ?? null,
-          logIds: normalizedLogs.map((log) => log.id),
+          logIds: decryptedLogs.map((log) => log.id),
         },
         ipAddress: clientIp(request),
       });
     }
 
-    return NextResponse.json({ logs: normalizedLogs }, { status: 200 });
+    return NextResponse.json({ logs: decryptedLogs }, { status: 200 });
   } catch (error) {
     if (error instanceof AuthError) {
       return NextResponse.json({ error: error.message }, { status: error.status });
@@ -246,7 +245,16 @@ export async function POST(request: Request) {
   try {
     const session = await getRequiredSession(request);
     const rawBody = await request.json();
-    const parsed = createLogSchema.parse(rawBody);
+    const taxonomy = await getActiveUsageTaxonomy();
+
+    if (!taxonomy) {
+      return NextResponse.json(
+        { error: 'No active usage taxonomy version available' },
+        { status: 409 },
+      );
+    }
+
+    const parsed = createLogSchemaForTaxonomy(taxonomy.tree).parse(rawBody);
 
     const assignment = await prisma.assignment.findUnique({
       where: { id: parsed.assignmentId },
@@ -274,23 +282,15 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
-    const existingLog = await prisma.aiLog.findFirst({
-      where: {
-        userId: session.user.id,
-        assignmentId: assignment.id,
-      },
-      select: { id: true },
-    });
-
-    if (existingLog) {
-      return NextResponse.json(
-        {
-          error: 'A log already exists for this assignment. Please edit the existing log.',
-          logId: existingLog.id,
-        },
-        { status: 409 },
-      );
-    }
+    // Time-windowed rules are checked at the moment the log is recorded.
+    const loggedAt = new Date();
+    const ruleMap = await getAssignmentUsageRuleMap(
+      assignment.courseId,
+      assignment.id,
+      taxonomy.tree,
+      loggedAt,
+    );
+    createLogSchemaForRules(taxonomy.tree, ruleMap).parse(parsed);
 
     const activePolicy = assignment.pinnedPolicyVersionId
       ? null
@@ -312,25 +312,22 @@ export async function POST(request: Request) {
       parsed.usageReason,
       appliedPolicyVersionId,
     );
-    const ruleMap = await getCourseUsageRuleMap(assignment.courseId);
-    const disallowedSelections = findDisallowedUsageSelections(
+    const selectionIntent = await resolveUsageSelectionIntent(
+      taxonomy.tree,
       parsed.usageSubsections,
-      ruleMap,
-    );
-    const warningParentSelections = findWarningParentSelections(
-      parsed.usageSubsections,
-      ruleMap,
+      appliedPolicyVersionId,
     );
-    const effectiveComplianceStatus =
-      disallowedSelections.length > 0
-        ? ComplianceStatus.NON_COMPLIANT
-        : warningParentSelections.length > 0
-          ? ComplianceStatus.WARNING
-          : intent.complianceStatus === ComplianceStatus.NON_COMPLIANT
-            ? ComplianceStatus.NON_COMPLIANT
-            : ComplianceStatus.COMPLIANT;
-    const topSections = getTopLevelSectionsForSelections(parsed.usageSubsections);
+    // Provisional until the queued post-session classification runs.
+    const decision = decideCompliance({
+      courseTree: getCourseTreeSignals(taxonomy.tree, parsed.usageSubsections, ruleMap, {
+        usageReason: parsed.usageReason,
+        evidenceNodeIds: parsed.usageEvidence.map((evidence) => evidence.nodeId),
+      }),
+      intentStatus: intent.complianceStatus,
+    });
+    const topSections = getTopLevelSectionsForSelections(taxonomy.tree, parsed.usageSubsections);
     const primarySectionId = topSections[0]?.id ?? null;
+    const evidence = toStoredLogEvidence(parsed.usageEvidence);
 
     const createdLog = await prisma.$transaction(async (tx) => {
       if (!assignment.pinnedPolicyVersionId) {
@@ -349,29 +346,55 @@ export async function POST(request: Request) {
           manualUsageSection: primarySectionId,
           manualUsageSubsection: parsed.usageSubsections[0] ?? null,
           manualUsageSubsections: parsed.usageSubsections,
-          manualUsageTaxonomyVersion: MANUAL_USAGE_TAXONOMY_VERSION,
+          manualUsageTaxonomyVersion: taxonomy.versionKey,
+          loggedAt,
           usageReason: encryptNullableText(parsed.usageReason) ?? '',
           sessionDescription: encryptNullableText(parsed.sessionDescription || null),
           aiTool: parsed.aiTool,
           appliedPolicyVersionId,
           intentCategory: intent.intentCategory,
-          complianceStatus: effectiveComplianceStatus,
+          selectionCategory: selectionIntent?.category ?? null,
+          complianceStatus: decision.complianceStatus,
+          flagSeverity: decision.flagSeverity,
+          directViolationFlag: decision.directViolationFlag,
+          resolutionStatus: decision.resolutionStatus,
         },
       });
 
-      if (parsed.usageEvidence.length > 0) {
+      if (evidence.length > 0) {
         await tx.conversationLink.createMany({
-          data: parsed.usageEvidence.map((item) => ({
-            aiLogId: log.id,
-            usageNodeId: item.nodeId,
-            evidenceType: null,
-            url: null,
-            comment: encryptNullableText(item.text) ?? null,
-            label: null,
-          })),
+          data: evidence.map((item) => ({ aiLogId: log.id, ...item })),
         });
       }
 
+      await recordLogRevision(tx, { log, evidence, editedById: session.user.id });
+
+      // Previews the student ran while writing the reason become part of the
+      // log's evidence, followed by the check that set `intentCategory`.
+      await linkIntentChecks(tx, {
+        userId: session.user.id,
+        assignmentId: assignment.id,
+        aiLogId: log.id,
+        checkIds: parsed.intentCheckIds ?? [],
+      });
+
+      if (intent.result) {
+        await recordIntentCheck(
+          {
+            userId: session.user.id,
+            assignmentId: assignment.id,
+            policyVersionId: appliedPolicyVersionId,
+            reason: parsed.usageReason,
+            result: intent.result,
+            source: 'SUBMISSION',
+            aiLogId: log.id,
+          },
+          tx,
+        );
+      }
+
+      await enqueueClassificationJob(tx, log.id, log.revision);
+
       return log;
     });
 
@@ -390,17 +413,9 @@ export async function POST(request: Request) {
       ipAddress: clientIp(request),
     });
 
-    after(() => {
-      const internalToken = resolveInternalClassifyToken();
-      void fetch(new URL('/api/compliance/classify', request.url), {
-        method: 'POST',
-        headers: {
-          'content-type': 'application/json',
-          ...(internalToken ? { 'x-internal-token': internalToken } : {}),
-        },
-        body: JSON.stringify({ logId: createdLog.id }),
-      }).catch(() => undefined);
-    });
+    // The job row is the source of truth; this only saves waiting for the next
+    // worker poll.
+    after(() => drainClassificationJobs({ maxJobs: 1 }).catch(() => undefined));
 
     return NextResponse.json(
       {
@@ -413,6 +428,7 @@ export async function POST(request: Request) {
         complianceStatus: createdLog.complianceStatus,
         flagSeverity: createdLog.flagSeverity,
         intentCategory: createdLog.intentCategory,
+        selectionCategory: createdLog.selectionCategory,
       },
       { status: 201 },
     );
@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+
+import { AuthError } from '@/lib/auth/errors';
+import { getRequiredSession } from '@/lib/auth/session';
+import { prisma } from '@/lib/db/client';
+import { patchNotificationSchema } from '@/lib/validations/notification.schema';
+
+export async function PATCH(
+  request: Request,
+  context: { params: Promise<{ id: string }> },
+) {
+  try {
+    const session = await getRequiredSession(request);
+    const { id } = await context.params;
+    const body = patchNotificationSchema.parse(await request.json());
+
+    const notification = await prisma.policyChangeNotification.findUnique({
+      where: { id },
+      select: { id: true, userId: true },
+    });
+
+    if (!notification) {
+      return NextResponse.json({ error: 'Notification not found' }, { status: 404 });
+    }
+
+    if (notification.userId !== session.user.id) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const updated = await prisma.policyChangeNotification.update({
+      where: { id },
+      data: { isRead: body.isRead },
+      select: { id: true, isRead: true },
+    });
+
+    return NextResponse.json(updated, { status: 200 });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          fields: error.flatten().fieldErrors,
+        },
+        { status: 400 },
+      );
+    }
+
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server';
+
+import { AuthError } from '@/lib/auth/errors';
+import { getRequiredSession } from '@/lib/auth/session';
+import { prisma } from '@/lib/db/client';
+
+export async function GET(request: Request) {
+  try {
+    const session = await getRequiredSession(request);
+
+    const [notifications, unreadCount] = await Promise.all([
+      prisma.policyChangeNotification.findMany({
+        where: { userId: session.user.id },
+        orderBy: [{ createdAt: 'desc' }],
+        take: 100,
+        select: {
+          id: true,
+          assignmentId: true,
+          changeSummary: true,
+          isRead: true,
+          createdAt: true,
+          assignment: {
+            select: {
+              title: true,
+              course: {
+                select: { courseCode: true },
+              },
+            },
+          },
+          oldPolicyVersion: {
+            select: { id: true, versionNumber: true },
+          },
+          newPolicyVersion: {
+            select: { id: true, versionNumber: true },
+          },
+        },
+      }),
+      prisma.policyChangeNotification.count({
+        where: {
+          userId: session.user.id,
+          isRead: false,
+        },
+      }),
+    ]);
+
+    return NextResponse.json(
+      {
+        notifications: notifications.map((notification) => ({
+          id: notification.id,
+          assignmentId: notification.assignmentId,
+          assignmentTitle: notification.assignment.title,
+          courseCode: notification.assignment.course.courseCode,
+          oldPolicyVersion: notification.oldPolicyVersion,
+          newPolicyVersion: notification.newPolicyVersion,
+          changeSummary: notification.changeSummary,
+          isRead: notification.isRead,
+          createdAt: notification.createdAt,
+        })),
+        unreadCount,
+      },
+      { status: 200 },
+    );
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { PolicyStatus, UserRole } from '@prisma/client';
+
+import { AuthError } from '@/lib/auth/errors';
+import { getRequiredSession } from '@/lib/auth/session';
+import { getPolicyVersionDiff } from '@/lib/db/policy-versions';
+
+export async function GET(
+  request: Request,
+  context: { params: Promise<{ id: string }> },
+) {
+  try {
+    const session = await getRequiredSession(request);
+    const { id } = await context.params;
+    const against = new URL(request.url).searchParams.get('against') ?? undefined;
+
+    if (against === id) {
+      return NextResponse.json(
+        { error: 'Cannot diff a policy version against itself' },
+        { status: 400 },
+      );
+    }
+
+    const result = await getPolicyVersionDiff(id, against);
+    const isAdmin = session.user.role === UserRole.ADMIN;
+
+    if (
+      !result ||
+      (!isAdmin &&
+        (result.from.status === PolicyStatus.DRAFT || result.to.status === PolicyStatus.DRAFT))
+    ) {
+      return NextResponse.json({ error: 'Policy version not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      {
+        from: result.from,
+        to: result.to,
+        stats: result.diff.stats,
+        changes: result.diff.changes,
+        changeSummary: result.diff.changeSummary,
+      },
+      { status: 200 },
+    );
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,69 @@
+import { NextResponse } from 'next/server';
+
+import { writeAuditLog } from '@/lib/audit/logger';
+import { AuthError } from '@/lib/auth/errors';
+import { getRequiredAdminSession } from '@/lib/auth/session';
+import { publishPolicyVersion } from '@/lib/db/policy-versions';
+
+function clientIp(request: Request): string | undefined {
+  const forwarded = request.headers.get('x-forwarded-for');
+  if (!forwarded) {
+    return undefined;
+  }
+
+  return forwarded.split(',')[0]?.trim() || undefined;
+}
+
+export async function POST(
+  request: Request,
+  context: { params: Promise<{ id: string }> },
+) {
+  try {
+    const session = await getRequiredAdminSession(request);
+    const { id } = await context.params;
+
+    const result = await publishPolicyVersion(id, session.user.id);
+
+    if (result.outcome === 'NOT_FOUND') {
+      return NextResponse.json({ error: 'Policy version not found' }, { status: 404 });
+    }
+
+    if (result.outcome === 'NOT_DRAFT') {
+      return NextResponse.json(
+        { error: `Only DRAFT versions can be published (current status: ${result.status})` },
+        { status: 409 },
+      );
+    }
+
+    await writeAuditLog({
+      actorId: session.user.id,
+      actionType: 'POLICY_VERSION_PUBLISHED',
+      resourceType: 'policy_version',
+      resourceId: result.version.id,
+      metadataJson: {
+        versionNumber: result.version.versionNumber,
+        previousVersionId: result.previousVersionId,
+        notificationCount: result.notificationCount,
+      },
+      ipAddress: clientIp(request),
+    });
+
+    return NextResponse.json(
+      {
+        policyVersionId: result.version.id,
+        versionNumber: result.version.versionNumber,
+        status: 'ACTIVE',
+        publishedAt: result.version.publishedAt,
+        archivedPolicyVersionId: result.previousVersionId,
+        notificationCount: result.notificationCount,
+      },
+      { status: 200 },
+    );
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { PolicyStatus, UserRole } from '@prisma/client';
+
+import { AuthError } from '@/lib/auth/errors';
+import { getRequiredSession } from '@/lib/auth/session';
+import { getPolicyVersionDetail } from '@/lib/db/policy-versions';
+
+export async function GET(
+  request: Request,
+  context: { params: Promise<{ id: string }> },
+) {
+  try {
+    const session = await getRequiredSession(request);
+    const { id } = await context.params;
+
+    const version = await getPolicyVersionDetail(id);
+
+    if (
+      !version ||
+      (version.status === PolicyStatus.DRAFT && session.user.role !== UserRole.ADMIN)
+    ) {
+      return NextResponse.json({ error: 'Policy version not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(version, { status: 200 });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+
+import { AuthError } from '@/lib/auth/errors';
+import { getRequiredAdminSession } from '@/lib/auth/session';
+import { simulatePolicyVersion } from '@/lib/db/policy-simulation';
+import { policySimulationQuerySchema } from '@/lib/validations/policy.schema';
+
+function zodFieldErrors(error: ZodError) {
+  const fields: Record<string, string[]> = {};
+
+  for (const issue of error.issues) {
+    const path = issue.path.join('.') || 'root';
+    if (!fields[path]) {
+      fields[path] = [];
+    }
+    fields[path].push(issue.message);
+  }
+
+  return fields;
+}
+
+export async function GET(
+  request: Request,
+  context: { params: Promise<{ id: string }> },
+) {
+  try {
+    await getRequiredAdminSession(request);
+    const { id } = await context.params;
+    const { searchParams } = new URL(request.url);
+    const query = policySimulationQuerySchema.parse({
+      sample: searchParams.get('sample') ?? undefined,
+      download: searchParams.get('download') ?? undefined,
+    });
+
+    const report = await simulatePolicyVersion(id, query.sample);
+    if (!report) {
+      return NextResponse.json({ error: 'Policy version not found' }, { status: 404 });
+    }
+
+    if (query.download === '1') {
+      const filename = `policy-simulation-${report.policyVersion.versionNumber.replace(/[^A-Za-z0-9._-]/g, '_')}.json`;
+      return new NextResponse(JSON.stringify(report, null, 2), {
+        status: 200,
+        headers: {
+          'content-type': 'application/json; charset=utf-8',
+          'content-disposition': `attachment; filename="${filename}"`,
+        },
+      });
+    }
+
+    return NextResponse.json(report, { status: 200 });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', fields: zodFieldErrors(error) },
+        { status: 400 },
+      );
+    }
+
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
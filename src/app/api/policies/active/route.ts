@@ -26,6 +26,8 @@ export async function GET(request: Request) {
             description: true,
             ruleReference: true,
             keywords: true,
+            keywordsNb: true,
+            keywordsNn: true,
           },
           orderBy: [{ usageCategory: 'asc' }],
         },
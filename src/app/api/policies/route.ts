@@ -0,0 +1,131 @@
+import { NextResponse } from 'next/server';
+import { PolicyStatus, Prisma, UserRole } from '@prisma/client';
+import { ZodError } from 'zod';
+
+import { writeAuditLog } from '@/lib/audit/logger';
+import { AuthError } from '@/lib/auth/errors';
+import { getRequiredAdminSession, getRequiredSession } from '@/lib/auth/session';
+import { prisma } from '@/lib/db/client';
+import { createDraftPolicyVersion } from '@/lib/db/policy-versions';
+import { createPolicyVersionSchema } from '@/lib/validations/policy.schema';
+
+function clientIp(request: Request): string | undefined {
+  const forwarded = request.headers.get('x-forwarded-for');
+  if (!forwarded) {
+    return undefined;
+  }
+
+  return forwarded.split(',')[0]?.trim() || undefined;
+}
+
+function zodFieldErrors(error: ZodError) {
+  const fields: Record<string, string[]> = {};
+
+  for (const issue of error.issues) {
+    const path = issue.path.join('.') || 'root';
+    if (!fields[path]) {
+      fields[path] = [];
+    }
+    fields[path].push(issue.message);
+  }
+
+  return fields;
+}
+
+export async function GET(request: Request) {
+  try {
+    const session = await getRequiredSession(request);
+    const isAdmin = session.user.role === UserRole.ADMIN;
+
+    const versions = await prisma.policyVersion.findMany({
+      where: isAdmin ? {} : { status: { not: PolicyStatus.DRAFT } },
+      orderBy: [{ createdAt: 'desc' }],
+      select: {
+        id: true,
+        versionNumber: true,
+        description: true,
+        status: true,
+        publishedAt: true,
+        archivedAt: true,
+        createdAt: true,
+        _count: {
+          select: { rules: true },
+        },
+      },
+    });
+
+    return NextResponse.json(
+      {
+        versions: versions.map((version) => ({
+          id: version.id,
+          versionNumber: version.versionNumber,
+          description: version.description,
+          status: version.status,
+          publishedAt: version.publishedAt,
+          archivedAt: version.archivedAt,
+          createdAt: version.createdAt,
+          ruleCount: version._count.rules,
+        })),
+      },
+      { status: 200 },
+    );
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const session = await getRequiredAdminSession(request);
+    const parsed = createPolicyVersionSchema.parse(await request.json());
+
+    const created = await createDraftPolicyVersion(parsed);
+
+    await writeAuditLog({
+      actorId: session.user.id,
+      actionType: 'POLICY_VERSION_CREATED',
+      resourceType: 'policy_version',
+      resourceId: created.id,
+      metadataJson: {
+        versionNumber: created.versionNumber,
+        ruleCount: created.rules.length,
+        usageCategories: created.rules.map((rule) => rule.usageCategory),
+      },
+      ipAddress: clientIp(request),
+    });
+
+    return NextResponse.json(
+      {
+        policyVersionId: created.id,
+        versionNumber: created.versionNumber,
+        status: created.status,
+        rules: created.rules,
+      },
+      { status: 201 },
+    );
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', fields: zodFieldErrors(error) },
+        { status: 400 },
+      );
+    }
+
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === 'P2002'
+    ) {
+      return NextResponse.json({ error: 'Policy version number already exists' }, { status: 409 });
+    }
+
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
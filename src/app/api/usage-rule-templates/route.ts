@@ -0,0 +1,123 @@
+import { NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { ZodError } from 'zod';
+
+import { AuthError } from '@/lib/auth/errors';
+import { getRequiredSession } from '@/lib/auth/session';
+import {
+  canUseUsageRuleTemplates,
+  createUsageRuleTemplate,
+  listUsageRuleTemplates,
+  resolveUsageRuleTemplateRules,
+} from '@/lib/db/usage-rule-templates';
+import { getActiveUsageTaxonomy } from '@/lib/db/usage-taxonomies';
+import { saveUsageRuleTemplateSchema } from '@/lib/validations/course-usage-rule.schema';
+
+function clientIp(request: Request): string | undefined {
+  const forwarded = request.headers.get('x-forwarded-for');
+  if (!forwarded) {
+    return undefined;
+  }
+
+  return forwarded.split(',')[0]?.trim() || undefined;
+}
+
+function zodFieldErrors(error: ZodError) {
+  const fields: Record<string, string[]> = {};
+
+  for (const issue of error.issues) {
+    const path = issue.path.join('.') || 'root';
+    if (!fields[path]) {
+      fields[path] = [];
+    }
+    fields[path].push(issue.message);
+  }
+
+  return fields;
+}
+
+export async function GET(request: Request) {
+  try {
+    const session = await getRequiredSession(request);
+
+    if (!canUseUsageRuleTemplates(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const templates = await listUsageRuleTemplates();
+
+    return NextResponse.json({ templates }, { status: 200 });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+/** Creates a template from explicit rules or from a course's current rules. */
+export async function POST(request: Request) {
+  try {
+    const session = await getRequiredSession(request);
+    const parsed = saveUsageRuleTemplateSchema.parse(await request.json());
+
+    if (!canUseUsageRuleTemplates(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const taxonomy = await getActiveUsageTaxonomy();
+
+    if (!taxonomy) {
+      return NextResponse.json(
+        { error: 'No active usage taxonomy version available' },
+        { status: 409 },
+      );
+    }
+
+    const resolved = await resolveUsageRuleTemplateRules(parsed, taxonomy.tree, session.user);
+
+    if (resolved.outcome === 'COURSE_NOT_FOUND') {
+      return NextResponse.json({ error: 'Course not found' }, { status: 404 });
+    }
+
+    if (resolved.outcome === 'FORBIDDEN') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const result = await createUsageRuleTemplate(
+      { name: parsed.name, description: parsed.description, rules: resolved.rules },
+      taxonomy.tree,
+      { id: session.user.id, ipAddress: clientIp(request) },
+    );
+
+    if (result.outcome === 'INVALID') {
+      return NextResponse.json(
+        { error: 'Validation failed', fields: { rules: result.errors } },
+        { status: 400 },
+      );
+    }
+
+    return NextResponse.json({ template: result.template }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', fields: zodFieldErrors(error) },
+        { status: 400 },
+      );
+    }
+
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return NextResponse.json(
+        { error: 'A rule template with this name already exists' },
+        { status: 409 },
+      );
+    }
+
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,72 @@
+import { NextResponse } from 'next/server';
+
+import { writeAuditLog } from '@/lib/audit/logger';
+import { AuthError } from '@/lib/auth/errors';
+import { getRequiredAdminSession } from '@/lib/auth/session';
+import { archiveUsageTaxonomyVersion } from '@/lib/db/usage-taxonomies';
+
+function clientIp(request: Request): string | undefined {
+  const forwarded = request.headers.get('x-forwarded-for');
+  if (!forwarded) {
+    return undefined;
+  }
+
+  return forwarded.split(',')[0]?.trim() || undefined;
+}
+
+export async function POST(
+  request: Request,
+  context: { params: Promise<{ id: string }> },
+) {
+  try {
+    const session = await getRequiredAdminSession(request);
+    const { id } = await context.params;
+
+    const result = await archiveUsageTaxonomyVersion(id);
+
+    if (result.outcome === 'NOT_FOUND') {
+      return NextResponse.json({ error: 'Usage taxonomy version not found' }, { status: 404 });
+    }
+
+    if (result.outcome === 'ACTIVE') {
+      return NextResponse.json(
+        { error: 'The active version is archived by publishing a new one' },
+        { status: 409 },
+      );
+    }
+
+    if (result.outcome === 'ALREADY_ARCHIVED') {
+      return NextResponse.json(
+        { error: 'Usage taxonomy version is already archived' },
+        { status: 409 },
+      );
+    }
+
+    await writeAuditLog({
+      actorId: session.user.id,
+      actionType: 'USAGE_TAXONOMY_ARCHIVED',
+      resourceType: 'usage_taxonomy_version',
+      resourceId: result.version.id,
+      metadataJson: {
+        versionKey: result.version.versionKey,
+      },
+      ipAddress: clientIp(request),
+    });
+
+    return NextResponse.json(
+      {
+        taxonomyVersionId: result.version.id,
+        versionKey: result.version.versionKey,
+        status: 'ARCHIVED',
+        archivedAt: result.version.archivedAt,
+      },
+      { status: 200 },
+    );
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
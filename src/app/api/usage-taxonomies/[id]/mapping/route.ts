@@ -0,0 +1,134 @@
+import { NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+
+import { writeAuditLog } from '@/lib/audit/logger';
+import { AuthError } from '@/lib/auth/errors';
+import { getRequiredAdminSession } from '@/lib/auth/session';
+import {
+  getUsageTaxonomyMapping,
+  previewUsageTaxonomyMigration,
+  setUsageTaxonomyMappings,
+} from '@/lib/db/usage-taxonomies';
+import { setUsageTaxonomyMappingSchema } from '@/lib/validations/usage-taxonomy.schema';
+
+function clientIp(request: Request): string | undefined {
+  const forwarded = request.headers.get('x-forwarded-for');
+  if (!forwarded) {
+    return undefined;
+  }
+
+  return forwarded.split(',')[0]?.trim() || undefined;
+}
+
+function zodFieldErrors(error: ZodError) {
+  const fields: Record<string, string[]> = {};
+
+  for (const issue of error.issues) {
+    const path = issue.path.join('.') || 'root';
+    if (!fields[path]) {
+      fields[path] = [];
+    }
+    fields[path].push(issue.message);
+  }
+
+  return fields;
+}
+
+/** The draft's mappings plus a dry run of what publishing it would change. */
+export async function GET(
+  request: Request,
+  context: { params: Promise<{ id: string }> },
+) {
+  try {
+    await getRequiredAdminSession(request);
+    const { id } = await context.params;
+
+    const mapping = await getUsageTaxonomyMapping(id);
+    const preview = await previewUsageTaxonomyMigration(id);
+
+    if (!mapping || preview.outcome === 'NOT_FOUND') {
+      return NextResponse.json({ error: 'Usage taxonomy version not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ ...mapping, report: preview.report }, { status: 200 });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+export async function PUT(
+  request: Request,
+  context: { params: Promise<{ id: string }> },
+) {
+  try {
+    const session = await getRequiredAdminSession(request);
+    const { id } = await context.params;
+    const parsed = setUsageTaxonomyMappingSchema.parse(await request.json());
+
+    const result = await setUsageTaxonomyMappings(id, parsed);
+
+    if (result.outcome === 'NOT_FOUND') {
+      return NextResponse.json({ error: 'Usage taxonomy version not found' }, { status: 404 });
+    }
+
+    if (result.outcome === 'NOT_DRAFT') {
+      return NextResponse.json(
+        { error: `Only DRAFT versions can be remapped (current status: ${result.status})` },
+        { status: 409 },
+      );
+    }
+
+    if (result.outcome === 'FROM_VERSION_NOT_FOUND') {
+      return NextResponse.json(
+        { error: 'Version to migrate from not found' },
+        { status: 400 },
+      );
+    }
+
+    if (result.outcome === 'INVALID') {
+      return NextResponse.json(
+        { error: 'Validation failed', fields: { mappings: result.errors } },
+        { status: 400 },
+      );
+    }
+
+    const preview = await previewUsageTaxonomyMigration(id);
+
+    await writeAuditLog({
+      actorId: session.user.id,
+      actionType: 'USAGE_TAXONOMY_MAPPING_UPDATED',
+      resourceType: 'usage_taxonomy_version',
+      resourceId: id,
+      metadataJson: {
+        fromVersionId: result.mapping.fromVersion?.id ?? null,
+        mappingCount: result.mapping.mappings.length,
+      },
+      ipAddress: clientIp(request),
+    });
+
+    return NextResponse.json(
+      {
+        ...result.mapping,
+        report: preview.outcome === 'PREVIEW' ? preview.report : null,
+      },
+      { status: 200 },
+    );
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', fields: zodFieldErrors(error) },
+        { status: 400 },
+      );
+    }
+
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,89 @@
+import { NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+
+import { writeAuditLog } from '@/lib/audit/logger';
+import { AuthError } from '@/lib/auth/errors';
+import { getRequiredAdminSession } from '@/lib/auth/session';
+import { setUsageNodePolicyCategories } from '@/lib/db/usage-taxonomies';
+import { setUsageNodePolicyCategoriesSchema } from '@/lib/validations/usage-taxonomy.schema';
+
+function clientIp(request: Request): string | undefined {
+  const forwarded = request.headers.get('x-forwarded-for');
+  if (!forwarded) {
+    return undefined;
+  }
+
+  return forwarded.split(',')[0]?.trim() || undefined;
+}
+
+function zodFieldErrors(error: ZodError) {
+  const fields: Record<string, string[]> = {};
+
+  for (const issue of error.issues) {
+    const path = issue.path.join('.') || 'root';
+    if (!fields[path]) {
+      fields[path] = [];
+    }
+    fields[path].push(issue.message);
+  }
+
+  return fields;
+}
+
+export async function PUT(
+  request: Request,
+  context: { params: Promise<{ id: string }> },
+) {
+  try {
+    const session = await getRequiredAdminSession(request);
+    const { id } = await context.params;
+    const parsed = setUsageNodePolicyCategoriesSchema.parse(await request.json());
+
+    const result = await setUsageNodePolicyCategories(id, parsed);
+
+    if (result.outcome === 'NOT_FOUND') {
+      return NextResponse.json({ error: 'Usage taxonomy version not found' }, { status: 404 });
+    }
+
+    if (result.outcome === 'ARCHIVED') {
+      return NextResponse.json(
+        { error: 'Archived usage taxonomy versions cannot be changed' },
+        { status: 409 },
+      );
+    }
+
+    if (result.outcome === 'INVALID') {
+      return NextResponse.json(
+        { error: 'Validation failed', fields: { categories: result.errors } },
+        { status: 400 },
+      );
+    }
+
+    await writeAuditLog({
+      actorId: session.user.id,
+      actionType: 'USAGE_TAXONOMY_CATEGORIES_UPDATED',
+      resourceType: 'usage_taxonomy_version',
+      resourceId: result.version.id,
+      metadataJson: {
+        versionKey: result.version.versionKey,
+        categories: parsed.categories,
+      },
+      ipAddress: clientIp(request),
+    });
+
+    return NextResponse.json(result.version, { status: 200 });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', fields: zodFieldErrors(error) },
+        { status: 400 },
+      );
+    }
+
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
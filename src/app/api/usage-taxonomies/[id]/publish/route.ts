@@ -0,0 +1,97 @@
+import { NextResponse } from 'next/server';
+
+import { writeAuditLog } from '@/lib/audit/logger';
+import { AuthError } from '@/lib/auth/errors';
+import { getRequiredAdminSession } from '@/lib/auth/session';
+import { publishUsageTaxonomyVersion } from '@/lib/db/usage-taxonomies';
+
+function clientIp(request: Request): string | undefined {
+  const forwarded = request.headers.get('x-forwarded-for');
+  if (!forwarded) {
+    return undefined;
+  }
+
+  return forwarded.split(',')[0]?.trim() || undefined;
+}
+
+export async function POST(
+  request: Request,
+  context: { params: Promise<{ id: string }> },
+) {
+  try {
+    const session = await getRequiredAdminSession(request);
+    const { id } = await context.params;
+
+    const result = await publishUsageTaxonomyVersion(id, session.user.id);
+
+    if (result.outcome === 'NOT_FOUND') {
+      return NextResponse.json({ error: 'Usage taxonomy version not found' }, { status: 404 });
+    }
+
+    if (result.outcome === 'NOT_DRAFT') {
+      return NextResponse.json(
+        { error: `Only DRAFT versions can be published (current status: ${result.status})` },
+        { status: 409 },
+      );
+    }
+
+    if (result.outcome === 'STALE_MAPPING') {
+      return NextResponse.json(
+        {
+          error:
+            `The node mapping was written against ${result.mappedFromVersionKey}, ` +
+            `but the active version is ${result.activeVersionKey ?? 'none'}`,
+        },
+        { status: 409 },
+      );
+    }
+
+    if (result.outcome === 'BASELINE_NODES_DROPPED') {
+      return NextResponse.json(
+        {
+          error:
+            'Map the nodes every course disallows by default, or map them to [] to lift ' +
+            `the default: ${result.nodeIds.join(', ')}`,
+        },
+        { status: 409 },
+      );
+    }
+
+    await writeAuditLog({
+      actorId: session.user.id,
+      actionType: 'USAGE_TAXONOMY_PUBLISHED',
+      resourceType: 'usage_taxonomy_version',
+      resourceId: result.version.id,
+      metadataJson: {
+        versionKey: result.version.versionKey,
+        previousVersionId: result.previousVersionId,
+        remappedCourseRules: result.report.courseRules.remapped,
+        unmappedCourseRules: result.report.courseRules.unmapped.length,
+        remappedAssignmentRules: result.report.assignmentRules.remapped,
+        unmappedAssignmentRules: result.report.assignmentRules.unmapped.length,
+        remappedTemplateRules: result.report.templateRules.remapped,
+        unmappedTemplateRules: result.report.templateRules.unmapped.length,
+        unmappedLogs: result.report.logs.unmapped.length,
+      },
+      ipAddress: clientIp(request),
+    });
+
+    return NextResponse.json(
+      {
+        taxonomyVersionId: result.version.id,
+        versionKey: result.version.versionKey,
+        status: 'ACTIVE',
+        publishedAt: result.version.publishedAt,
+        archivedTaxonomyVersionId: result.previousVersionId,
+        migrationReport: result.report,
+      },
+      { status: 200 },
+    );
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
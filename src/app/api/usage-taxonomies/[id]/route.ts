@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { UsageTaxonomyStatus, UserRole } from '@prisma/client';
+
+import { AuthError } from '@/lib/auth/errors';
+import { getRequiredSession } from '@/lib/auth/session';
+import { getUsageTaxonomyVersionDetail } from '@/lib/db/usage-taxonomies';
+
+export async function GET(
+  request: Request,
+  context: { params: Promise<{ id: string }> },
+) {
+  try {
+    const session = await getRequiredSession(request);
+    const { id } = await context.params;
+
+    const version = await getUsageTaxonomyVersionDetail(id);
+
+    if (
+      !version ||
+      (version.status === UsageTaxonomyStatus.DRAFT && session.user.role !== UserRole.ADMIN)
+    ) {
+      return NextResponse.json({ error: 'Usage taxonomy version not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(version, { status: 200 });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
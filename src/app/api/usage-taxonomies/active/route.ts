@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+
+import { AuthError } from '@/lib/auth/errors';
+import { getRequiredSession } from '@/lib/auth/session';
+import { getActiveUsageTaxonomy } from '@/lib/db/usage-taxonomies';
+
+export async function GET(request: Request) {
+  try {
+    await getRequiredSession(request);
+
+    const taxonomy = await getActiveUsageTaxonomy();
+
+    if (!taxonomy) {
+      return NextResponse.json(
+        { error: 'Active usage taxonomy version not found' },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json(taxonomy, { status: 200 });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
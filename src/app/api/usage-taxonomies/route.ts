@@ -0,0 +1,126 @@
+import { NextResponse } from 'next/server';
+import { Prisma, UserRole } from '@prisma/client';
+import { ZodError } from 'zod';
+
+import { writeAuditLog } from '@/lib/audit/logger';
+import { AuthError } from '@/lib/auth/errors';
+import { getRequiredAdminSession, getRequiredSession } from '@/lib/auth/session';
+import {
+  createDraftUsageTaxonomyVersion,
+  findUnknownPolicyCategories,
+  listUsageTaxonomyVersions,
+} from '@/lib/db/usage-taxonomies';
+import { flattenUsageTree } from '@/lib/usage-taxonomy';
+import { createUsageTaxonomyVersionSchema } from '@/lib/validations/usage-taxonomy.schema';
+
+function clientIp(request: Request): string | undefined {
+  const forwarded = request.headers.get('x-forwarded-for');
+  if (!forwarded) {
+    return undefined;
+  }
+
+  return forwarded.split(',')[0]?.trim() || undefined;
+}
+
+function zodFieldErrors(error: ZodError) {
+  const fields: Record<string, string[]> = {};
+
+  for (const issue of error.issues) {
+    const path = issue.path.join('.') || 'root';
+    if (!fields[path]) {
+      fields[path] = [];
+    }
+    fields[path].push(issue.message);
+  }
+
+  return fields;
+}
+
+export async function GET(request: Request) {
+  try {
+    const session = await getRequiredSession(request);
+
+    const versions = await listUsageTaxonomyVersions({
+      includeDrafts: session.user.role === UserRole.ADMIN,
+    });
+
+    return NextResponse.json({ versions }, { status: 200 });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const session = await getRequiredAdminSession(request);
+    const parsed = createUsageTaxonomyVersionSchema.parse(await request.json());
+
+    const unknownCategories = await findUnknownPolicyCategories(
+      flattenUsageTree(parsed.tree).map((record) => record.policyCategory),
+    );
+    if (unknownCategories.length > 0) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          fields: {
+            tree: unknownCategories.map(
+              (category) => `"${category}" is not a category of the active policy version`,
+            ),
+          },
+        },
+        { status: 400 },
+      );
+    }
+
+    const created = await createDraftUsageTaxonomyVersion(parsed);
+
+    await writeAuditLog({
+      actorId: session.user.id,
+      actionType: 'USAGE_TAXONOMY_CREATED',
+      resourceType: 'usage_taxonomy_version',
+      resourceId: created.id,
+      metadataJson: {
+        versionKey: created.versionKey,
+        sectionIds: created.tree.map((section) => section.id),
+      },
+      ipAddress: clientIp(request),
+    });
+
+    return NextResponse.json(
+      {
+        taxonomyVersionId: created.id,
+        versionKey: created.versionKey,
+        status: created.status,
+        tree: created.tree,
+      },
+      { status: 201 },
+    );
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', fields: zodFieldErrors(error) },
+        { status: 400 },
+      );
+    }
+
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === 'P2002'
+    ) {
+      return NextResponse.json(
+        { error: 'Usage taxonomy version key already exists' },
+        { status: 409 },
+      );
+    }
+
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -28,20 +28,34 @@ type AssignmentsResponse = {
 type StudentLog = {
   id: string;
   assignmentId: string;
-  createdAt: string;
 };
 
 type LogsResponse = {
   logs: StudentLog[];
 };
 
+type AssignmentUsageRuleWindow = {
+  scope: 'COURSE' | 'ASSIGNMENT';
+  status: 'ALLOWED' | 'DISALLOWED' | 'REQUIRES_JUSTIFICATION';
+  from: string | null;
+  until: string | null;
+  active: boolean;
+};
+
 type AssignmentUsageTreeNode = {
   id: string;
   label: string;
-  status: 'ALLOWED' | 'DISALLOWED' | 'MIXED';
+  status: 'ALLOWED' | 'DISALLOWED' | 'REQUIRES_JUSTIFICATION' | 'MIXED';
+  ruleWindows?: AssignmentUsageRuleWindow[];
   children?: AssignmentUsageTreeNode[];
 };
 
+const RULE_WINDOW_STATUS_LABELS: Record<AssignmentUsageRuleWindow['status'], string> = {
+  ALLOWED: 'Allowed',
+  DISALLOWED: 'Not allowed',
+  REQUIRES_JUSTIFICATION: 'Needs justification',
+};
+
 type AssignmentUsageTreeResponse = {
   tree: AssignmentUsageTreeNode[];
 };
@@ -167,6 +181,12 @@ function collectExpandedPathIdsForDisallowedLeaves(nodes: AssignmentUsageTreeNod
   return Array.from(expanded);
 }
 
+function describeRuleWindow(window: AssignmentUsageRuleWindow): string {
+  const from = window.from ? ` from ${new Date(window.from).toLocaleString()}` : '';
+  const until = window.until ? ` until ${new Date(window.until).toLocaleString()}` : '';
+  return `${RULE_WINDOW_STATUS_LABELS[window.status]}${from}${until}`;
+}
+
 function UsageTree({
   nodes,
   expandedIds,
@@ -201,12 +221,25 @@ function UsageTree({
                   ? 'bg-emerald-100 text-emerald-800'
                   : node.status === 'DISALLOWED'
                     ? 'bg-red-100 text-red-800'
-                    : 'bg-amber-100 text-amber-800'
+                    : node.status === 'REQUIRES_JUSTIFICATION'
+                      ? 'bg-sky-100 text-sky-800'
+                      : 'bg-amber-100 text-amber-800'
               }`}
             >
-              {node.status}
+              {node.status === 'REQUIRES_JUSTIFICATION' ? 'NEEDS JUSTIFICATION' : node.status}
             </span>
           </div>
+          {node.ruleWindows?.map((window, index) => (
+            <p
+              key={`${window.scope}-${index}`}
+              className={`mt-1 pl-7 text-[11px] ${
+                window.active ? 'font-semibold text-slate-800' : 'text-slate-500'
+              }`}
+            >
+              {describeRuleWindow(window)}
+              {window.active ? ' (now)' : ''}
+            </p>
+          ))}
           {node.children && node.children.length > 0 && expandedIds.has(node.id) ? (
             <div className="mt-2 border-l border-slate-200 pl-2">
               <UsageTree
@@ -264,13 +297,10 @@ export function AssignmentsPage() {
     expandedTreeNodeIdsByAssignment,
   ]);
 
-  const latestLogByAssignmentId = useMemo(() => {
-    const map = new Map<string, StudentLog>();
+  const sessionCountByAssignmentId = useMemo(() => {
+    const map = new Map<string, number>();
     for (const log of logsQuery.data?.logs ?? []) {
-      const existing = map.get(log.assignmentId);
-      if (!existing || new Date(log.createdAt).getTime() > new Date(existing.createdAt).getTime()) {
-        map.set(log.assignmentId, log);
-      }
+      map.set(log.assignmentId, (map.get(log.assignmentId) ?? 0) + 1);
     }
     return map;
   }, [logsQuery.data?.logs]);
@@ -348,23 +378,23 @@ export function AssignmentsPage() {
                 >
                   {expandedAssignmentId === assignment.id ? 'Hide AI usage tree' : 'View AI usage tree'}
                 </button>
-                {latestLogByAssignmentId.has(assignment.id) ? (
+                {sessionCountByAssignmentId.has(assignment.id) ? (
                   <Link
-                    href={`/log?logId=${encodeURIComponent(
-                      latestLogByAssignmentId.get(assignment.id)?.id ?? '',
-                    )}`}
+                    href="/dashboard"
                     className="rounded-md border border-slate-300 bg-white px-3 py-1.5 text-xs font-semibold text-slate-800"
                   >
-                    View log
+                    View {sessionCountByAssignmentId.get(assignment.id)} logged session
+                    {sessionCountByAssignmentId.get(assignment.id) === 1 ? '' : 's'}
                   </Link>
-                ) : (
-                  <Link
-                    href={`/log?assignmentId=${encodeURIComponent(assignment.id)}`}
-                    className="rounded-md bg-slate-900 px-3 py-1.5 text-xs font-semibold text-white"
-                  >
-                    Log AI usage
-                  </Link>
-                )}
+                ) : null}
+                <Link
+                  href={`/log?assignmentId=${encodeURIComponent(assignment.id)}`}
+                  className="rounded-md bg-slate-900 px-3 py-1.5 text-xs font-semibold text-white"
+                >
+                  {sessionCountByAssignmentId.has(assignment.id)
+                    ? 'Log another session'
+                    : 'Log AI usage'}
+                </Link>
               </div>
               {expandedAssignmentId === assignment.id ? (
                 <section className="mt-3 rounded-md border border-slate-200 bg-slate-50 p-3">
@@ -4,6 +4,12 @@ import Link from 'next/link';
 
 import { ComplianceStatusBadge, type ComplianceStatusValue } from './compliance-status-badge';
 
+export type CategoryRankingEntry = {
+  usageCategory: string;
+  severityLevel: string;
+  confidence: number;
+};
+
 type FlagReasonCardProps = {
   logId: string;
   userStatedIntent: string | null;
@@ -12,6 +18,10 @@ type FlagReasonCardProps = {
   complianceStatus: ComplianceStatusValue;
   conflictFlag?: boolean;
   directViolationFlag?: boolean;
+  /** Latest post-session ranking, best first. */
+  categoryRanking?: CategoryRankingEntry[];
+  /** Category the flags were computed from, highlighted in the ranking. */
+  evaluatedCategory?: string | null;
 };
 
 function flagTypeLabel(conflictFlag: boolean, directViolationFlag: boolean): string {
@@ -34,6 +44,8 @@ export function FlagReasonCard({
   complianceStatus,
   conflictFlag = false,
   directViolationFlag = false,
+  categoryRanking = [],
+  evaluatedCategory = null,
 }: FlagReasonCardProps) {
   return (
     <article className="rounded-lg border border-slate-300 bg-white p-4 shadow-sm">
@@ -55,6 +67,27 @@ export function FlagReasonCard({
         </div>
       </div>
 
+      {categoryRanking.length > 0 ? (
+        <div className="mt-3 rounded-md border border-slate-200 p-3 text-sm text-slate-900">
+          <p className="font-semibold">Detected Categories</p>
+          <ul className="mt-1 space-y-1">
+            {categoryRanking.map((entry) => (
+              <li key={entry.usageCategory} className="flex flex-wrap items-center gap-2">
+                <span>{entry.usageCategory}</span>
+                <span className="text-xs text-slate-600">
+                  {Math.round(entry.confidence * 100)}% · {entry.severityLevel}
+                </span>
+                {entry.usageCategory === evaluatedCategory ? (
+                  <span className="rounded-full bg-amber-100 px-2 py-0.5 text-[11px] font-semibold text-amber-900">
+                    Used for flagging
+                  </span>
+                ) : null}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+
       <p className="mt-3 text-sm text-slate-800">Rule reference: {ruleReference}</p>
 
       <Link
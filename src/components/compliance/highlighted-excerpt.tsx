@@ -0,0 +1,108 @@
+'use client';
+
+export type HighlightSpan = {
+  start: number;
+  end: number;
+  usageCategory: string;
+  keyword: string;
+};
+
+type HighlightedExcerptProps = {
+  text: string;
+  spans: HighlightSpan[];
+  /** Hits of this category are marked more strongly than the rest. */
+  emphasisCategory?: string | null;
+  /** Characters of context kept around each hit; the rest is elided. */
+  contextChars?: number;
+};
+
+type Piece = { text: string; span: HighlightSpan | null } | { elided: true };
+
+/**
+ * Splits `text` into plain and highlighted pieces. Overlapping hits are
+ * merged into the first one; only `contextChars` around the hits are kept.
+ */
+function buildPieces(text: string, spans: HighlightSpan[], contextChars: number): Piece[] {
+  const hits = spans
+    .filter((span) => span.start >= 0 && span.end <= text.length && span.start < span.end)
+    .sort((a, b) => a.start - b.start || b.end - a.end)
+    .reduce<HighlightSpan[]>((merged, span) => {
+      const last = merged[merged.length - 1];
+      if (last && span.start < last.end) {
+        merged[merged.length - 1] = { ...last, end: Math.max(last.end, span.end) };
+      } else {
+        merged.push(span);
+      }
+      return merged;
+    }, []);
+
+  const pieces: Piece[] = [];
+  let cursor = 0;
+
+  hits.forEach((hit, index) => {
+    const windowStart = Math.max(cursor, hit.start - contextChars);
+    if (windowStart > cursor) {
+      pieces.push({ elided: true });
+    }
+    pieces.push({ text: text.slice(windowStart, hit.start), span: null });
+    pieces.push({ text: text.slice(hit.start, hit.end), span: hit });
+
+    const nextStart = hits[index + 1]?.start ?? text.length;
+    const windowEnd = Math.min(nextStart, hit.end + contextChars);
+    const reachesNext = nextStart - hit.end <= contextChars * 2;
+    pieces.push({ text: text.slice(hit.end, reachesNext ? nextStart : windowEnd), span: null });
+    cursor = reachesNext ? nextStart : windowEnd;
+  });
+
+  if (hits.length > 0 && cursor < text.length) {
+    pieces.push({ elided: true });
+  }
+
+  return pieces;
+}
+
+export function HighlightedExcerpt({
+  text,
+  spans,
+  emphasisCategory = null,
+  contextChars = 80,
+}: HighlightedExcerptProps) {
+  const pieces = buildPieces(text, spans, contextChars);
+
+  if (pieces.length === 0) {
+    return <p className="whitespace-pre-wrap text-sm text-slate-700">No keywords matched.</p>;
+  }
+
+  return (
+    <p className="whitespace-pre-wrap text-sm text-slate-900">
+      {pieces.map((piece, index) => {
+        if ('elided' in piece) {
+          return (
+            <span key={index} className="text-slate-400">
+              {' … '}
+            </span>
+          );
+        }
+
+        if (!piece.span) {
+          return <span key={index}>{piece.text}</span>;
+        }
+
+        const emphasized = piece.span.usageCategory === emphasisCategory;
+        return (
+          <mark
+            key={index}
+            title={`"${piece.span.keyword}" → ${piece.span.usageCategory}`}
+            className={
+              emphasized
+                ? 'rounded bg-amber-200 px-0.5 font-semibold text-amber-950'
+                : 'rounded bg-sky-100 px-0.5 text-sky-950'
+            }
+          >
+            {piece.text}
+          </mark>
+        );
+      })}
+    </p>
+  );
+}
@@ -0,0 +1,262 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+
+import { getUsageNodeLabelMap, type UsageTreeNode } from '@/lib/usage-taxonomy';
+
+type RuleState = 'ALLOWED' | 'DISALLOWED' | 'REQUIRES_JUSTIFICATION' | 'INHERIT';
+
+type TemplatesResponse = {
+  templates: Array<{ id: string; name: string; description: string | null; ruleCount: number }>;
+};
+
+type TeachingCoursesResponse = {
+  courses: Array<{ id: string; courseCode: string; name: string; ruleCount: number }>;
+};
+
+type CopyRulesResponse = {
+  preview: boolean;
+  changes: Array<{
+    nodeId: string;
+    previous: RuleState;
+    next: RuleState;
+    minEvidenceCount: number | null;
+  }>;
+  skippedNodeIds: string[];
+};
+
+const STATE_LABELS: Record<RuleState, string> = {
+  ALLOWED: 'allowed',
+  DISALLOWED: 'not allowed',
+  REQUIRES_JUSTIFICATION: 'needs justification',
+  INHERIT: 'inherit',
+};
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    const payload = (await response.json().catch(() => ({}))) as { error?: string };
+    throw new Error(payload.error ?? `Request failed: ${response.status}`);
+  }
+  return (await response.json()) as T;
+}
+
+/** Source select values are `template:<id>` or `course:<id>`. */
+function copyBody(source: string, preview: boolean) {
+  const [kind, id] = source.split(':');
+  return JSON.stringify(
+    kind === 'template' ? { templateId: id, preview } : { sourceCourseId: id, preview },
+  );
+}
+
+/**
+ * Replaces the course rules with a template's or another course's, after a
+ * preview of what changes, and saves the current rules as a new template.
+ */
+export function CopyUsageRulesPanel({
+  courseId,
+  tree,
+  hasUnsavedChanges,
+}: {
+  courseId: string;
+  tree: UsageTreeNode[];
+  /** Copying is blocked while the editor has unsaved edits. */
+  hasUnsavedChanges: boolean;
+}) {
+  const queryClient = useQueryClient();
+  const [source, setSource] = useState('');
+  const [preview, setPreview] = useState<CopyRulesResponse | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [templateName, setTemplateName] = useState('');
+  const [templateDescription, setTemplateDescription] = useState('');
+
+  const templatesQuery = useQuery({
+    queryKey: ['usage-rule-templates'],
+    queryFn: () => fetchJson<TemplatesResponse>('/api/usage-rule-templates'),
+  });
+
+  const coursesQuery = useQuery({
+    queryKey: ['teaching-courses'],
+    queryFn: () => fetchJson<TeachingCoursesResponse>('/api/courses/teaching'),
+  });
+
+  const copyMutation = useMutation({
+    mutationFn: ({ from, dryRun }: { from: string; dryRun: boolean }) =>
+      fetchJson<CopyRulesResponse>(`/api/courses/${courseId}/usage-rules/copy`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: copyBody(from, dryRun),
+      }),
+    onSuccess: async (data) => {
+      if (data.preview) {
+        setPreview(data);
+        return;
+      }
+      setPreview(null);
+      setSource('');
+      setMessage(`Copied rules: ${data.changes.length} change(s).`);
+      await queryClient.invalidateQueries({ queryKey: ['course-usage-rules', courseId] });
+      await queryClient.invalidateQueries({ queryKey: ['teaching-courses'] });
+    },
+    onError: (mutationError) => setError(mutationError.message),
+  });
+
+  const saveTemplateMutation = useMutation({
+    mutationFn: () =>
+      fetchJson<unknown>('/api/usage-rule-templates', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({
+          name: templateName,
+          ...(templateDescription.trim() ? { description: templateDescription } : {}),
+          sourceCourseId: courseId,
+        }),
+      }),
+    onSuccess: async () => {
+      setMessage(`Saved the course rules as "${templateName.trim()}".`);
+      setTemplateName('');
+      setTemplateDescription('');
+      await queryClient.invalidateQueries({ queryKey: ['usage-rule-templates'] });
+    },
+    onError: (mutationError) => setError(mutationError.message),
+  });
+
+  const labels = useMemo(() => getUsageNodeLabelMap(tree), [tree]);
+  const otherCourses = (coursesQuery.data?.courses ?? []).filter(
+    (course) => course.id !== courseId,
+  );
+
+  function run(dryRun: boolean) {
+    setError(null);
+    setMessage(null);
+    copyMutation.mutate({ from: source, dryRun });
+  }
+
+  return (
+    <section className="space-y-4 rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+      <div className="space-y-2">
+        <h2 className="text-lg font-semibold text-slate-900">Copy rules</h2>
+        <p className="text-xs text-slate-600">
+          Replaces all course rules with the rules of a template or another course. Assignment
+          rules are kept.
+        </p>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            aria-label="Copy rules from"
+            value={source}
+            onChange={(event) => {
+              setSource(event.target.value);
+              setPreview(null);
+            }}
+            className="rounded-md border border-slate-300 px-2 py-1 text-sm"
+          >
+            <option value="">Choose a template or course</option>
+            {(templatesQuery.data?.templates ?? []).length > 0 ? (
+              <optgroup label="Templates">
+                {templatesQuery.data?.templates.map((template) => (
+                  <option key={template.id} value={`template:${template.id}`}>
+                    {template.name} ({template.ruleCount} rules)
+                  </option>
+                ))}
+              </optgroup>
+            ) : null}
+            {otherCourses.length > 0 ? (
+              <optgroup label="Courses">
+                {otherCourses.map((course) => (
+                  <option key={course.id} value={`course:${course.id}`}>
+                    {course.courseCode} · {course.name} ({course.ruleCount} rules)
+                  </option>
+                ))}
+              </optgroup>
+            ) : null}
+          </select>
+          <button
+            type="button"
+            disabled={!source || copyMutation.isPending}
+            onClick={() => run(true)}
+            className="rounded-md border border-slate-300 px-3 py-1.5 text-xs font-semibold text-slate-800 disabled:opacity-60"
+          >
+            Preview
+          </button>
+          <button
+            type="button"
+            disabled={!preview || hasUnsavedChanges || copyMutation.isPending}
+            onClick={() => run(false)}
+            className="rounded-md bg-slate-900 px-3 py-1.5 text-xs font-semibold text-white disabled:opacity-60"
+          >
+            {copyMutation.isPending ? 'Copying...' : 'Apply'}
+          </button>
+        </div>
+        {hasUnsavedChanges && preview ? (
+          <p className="text-xs text-amber-700">Save or discard your edits before copying.</p>
+        ) : null}
+        {preview ? (
+          preview.changes.length === 0 ? (
+            <p className="text-sm text-slate-700">The course already has these rules.</p>
+          ) : (
+            <ul className="space-y-1 text-sm text-slate-800">
+              {preview.changes.map((change) => (
+                <li key={change.nodeId}>
+                  <span className="font-semibold">
+                    {labels.get(change.nodeId) ?? change.nodeId}
+                  </span>
+                  :{' '}
+                  {STATE_LABELS[change.previous]} → {STATE_LABELS[change.next]}
+                  {change.minEvidenceCount ? ` (${change.minEvidenceCount} evidence)` : ''}
+                </li>
+              ))}
+            </ul>
+          )
+        ) : null}
+        {preview && preview.skippedNodeIds.length > 0 ? (
+          <p className="text-xs text-slate-600">
+            Not copied, no longer in the activity list: {preview.skippedNodeIds.join(', ')}
+          </p>
+        ) : null}
+      </div>
+
+      <form
+        className="space-y-2 border-t border-slate-200 pt-3"
+        onSubmit={(event) => {
+          event.preventDefault();
+          setError(null);
+          setMessage(null);
+          saveTemplateMutation.mutate();
+        }}
+      >
+        <h3 className="text-sm font-semibold text-slate-900">Save course rules as template</h3>
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            aria-label="Template name"
+            placeholder="Template name"
+            value={templateName}
+            maxLength={120}
+            onChange={(event) => setTemplateName(event.target.value)}
+            className="rounded-md border border-slate-300 px-2 py-1 text-sm"
+          />
+          <input
+            aria-label="Template description"
+            placeholder="Description (optional)"
+            value={templateDescription}
+            maxLength={2000}
+            onChange={(event) => setTemplateDescription(event.target.value)}
+            className="min-w-64 flex-1 rounded-md border border-slate-300 px-2 py-1 text-sm"
+          />
+          <button
+            type="submit"
+            disabled={!templateName.trim() || saveTemplateMutation.isPending}
+            className="rounded-md border border-slate-300 px-3 py-1.5 text-xs font-semibold text-slate-800 disabled:opacity-60"
+          >
+            {saveTemplateMutation.isPending ? 'Saving...' : 'Save template'}
+          </button>
+        </div>
+        <p className="text-xs text-slate-600">Saves the course rules as they are stored now.</p>
+      </form>
+
+      {error ? <p className="text-sm text-red-700">{error}</p> : null}
+      {message ? <p className="text-sm text-slate-700">{message}</p> : null}
+    </section>
+  );
+}
@@ -0,0 +1,505 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+
+import { CopyUsageRulesPanel } from '@/components/courses/copy-usage-rules-panel';
+import { describeRuleWindow, RuleWindowFields } from '@/components/courses/rule-window-fields';
+import type { UsageTreeNode } from '@/lib/usage-taxonomy';
+import {
+  annotateUsageTree,
+  applyAssignmentUsageRules,
+  mergeCourseUsageRules,
+  usageRuleWindow,
+  type AnnotatedUsageTreeNode,
+  type StoredUsageRule,
+  type UsageNodeStatus,
+  type UsageRuleWindow,
+} from '@/lib/usage-rule-tree';
+
+type RuleState = 'ALLOWED' | 'DISALLOWED' | 'REQUIRES_JUSTIFICATION' | 'INHERIT';
+
+/**
+ * A rule as edited; `minEvidenceCount` only matters for REQUIRES_JUSTIFICATION
+ * and `window` only for a set rule.
+ */
+type RuleSetting = { rule: RuleState; minEvidenceCount: number; window: UsageRuleWindow | null };
+
+type StoredRule = StoredUsageRule & { updatedAt: string };
+
+type CourseUsageRulesResponse = {
+  course: { id: string; courseCode: string; name: string };
+  assignments: Array<{ id: string; title: string; dueDate: string | null; ruleCount: number }>;
+  taxonomyVersion: string | null;
+  tree: UsageTreeNode[];
+  rules: StoredRule[];
+  baselineDisallowedNodeIds: string[];
+};
+
+type AssignmentUsageRulesResponse = {
+  assignment: { id: string; title: string };
+  courseRules: StoredRule[];
+  rules: StoredRule[];
+};
+
+type SaveRulesResponse = {
+  changes: Array<{ nodeId: string; previous: RuleState; next: RuleState }>;
+};
+
+const RULE_OPTIONS: Array<{ value: RuleState; label: string }> = [
+  { value: 'INHERIT', label: 'Inherit' },
+  { value: 'ALLOWED', label: 'Allowed' },
+  { value: 'REQUIRES_JUSTIFICATION', label: 'Allowed with justification' },
+  { value: 'DISALLOWED', label: 'Disallowed' },
+];
+
+const STATUS_LABELS: Record<UsageNodeStatus, string> = {
+  ALLOWED: 'Allowed',
+  DISALLOWED: 'Not allowed',
+  REQUIRES_JUSTIFICATION: 'Needs justification',
+  MIXED: 'Partly allowed',
+};
+
+const INHERITED_SETTING: RuleSetting = { rule: 'INHERIT', minEvidenceCount: 0, window: null };
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    const payload = (await response.json().catch(() => ({}))) as { error?: string };
+    throw new Error(payload.error ?? `Request failed: ${response.status}`);
+  }
+  return (await response.json()) as T;
+}
+
+function statusClasses(status: UsageNodeStatus): string {
+  if (status === 'DISALLOWED') {
+    return 'border-red-300 bg-red-50 text-red-900';
+  }
+  if (status === 'REQUIRES_JUSTIFICATION') {
+    return 'border-sky-300 bg-sky-50 text-sky-900';
+  }
+  if (status === 'MIXED') {
+    return 'border-amber-300 bg-amber-50 text-amber-900';
+  }
+  return 'border-emerald-300 bg-emerald-50 text-emerald-900';
+}
+
+function toRuleSetting(rule: StoredUsageRule): RuleSetting {
+  const window = usageRuleWindow(rule);
+  if (!rule.isAllowed) {
+    return { rule: 'DISALLOWED', minEvidenceCount: 0, window };
+  }
+  return rule.requiresJustification
+    ? { rule: 'REQUIRES_JUSTIFICATION', minEvidenceCount: rule.minEvidenceCount ?? 0, window }
+    : { rule: 'ALLOWED', minEvidenceCount: 0, window };
+}
+
+function sameSetting(left: RuleSetting, right: RuleSetting): boolean {
+  if (left.rule !== right.rule) {
+    return false;
+  }
+  if (left.rule === 'INHERIT') {
+    return true;
+  }
+  return (
+    JSON.stringify(left.window) === JSON.stringify(right.window) &&
+    (left.rule !== 'REQUIRES_JUSTIFICATION' || left.minEvidenceCount === right.minEvidenceCount)
+  );
+}
+
+function describeSetting(setting: RuleSetting): string {
+  if (setting.rule === 'REQUIRES_JUSTIFICATION') {
+    return setting.minEvidenceCount > 0
+      ? `needs justification and ${setting.minEvidenceCount} evidence item(s)`
+      : 'needs justification';
+  }
+  return setting.rule === 'ALLOWED' ? 'allowed' : 'not allowed';
+}
+
+type RuleChange = {
+  nodeId: string;
+  rule: RuleState;
+  minEvidenceCount?: number;
+} & Partial<UsageRuleWindow>;
+
+function toRuleChange(nodeId: string, setting: RuleSetting): RuleChange {
+  if (setting.rule === 'INHERIT') {
+    return { nodeId, rule: 'INHERIT' };
+  }
+  return {
+    nodeId,
+    rule: setting.rule,
+    ...(setting.rule === 'REQUIRES_JUSTIFICATION'
+      ? { minEvidenceCount: setting.minEvidenceCount }
+      : {}),
+    ...(setting.window ?? {}),
+  };
+}
+
+function StatusBadge({ status }: { status: UsageNodeStatus }) {
+  return (
+    <span
+      className={`rounded-full border px-2 py-0.5 text-[11px] font-semibold ${statusClasses(status)}`}
+    >
+      {STATUS_LABELS[status]}
+    </span>
+  );
+}
+
+export function CourseUsageRulesPage({ courseId }: { courseId: string }) {
+  const queryClient = useQueryClient();
+  // Null edits the course rules, otherwise the overrides of that assignment.
+  const [assignmentId, setAssignmentId] = useState<string | null>(null);
+  const [pending, setPending] = useState<Record<string, RuleSetting>>({});
+  const [showPreview, setShowPreview] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [savedCount, setSavedCount] = useState<number | null>(null);
+  const [windowNodeId, setWindowNodeId] = useState<string | null>(null);
+
+  const rulesQuery = useQuery({
+    queryKey: ['course-usage-rules', courseId],
+    queryFn: () => fetchJson<CourseUsageRulesResponse>(`/api/courses/${courseId}/usage-rules`),
+  });
+
+  const assignmentRulesQuery = useQuery({
+    queryKey: ['assignment-usage-rules', assignmentId],
+    queryFn: () =>
+      fetchJson<AssignmentUsageRulesResponse>(`/api/assignments/${assignmentId}/usage-rules`),
+    enabled: assignmentId !== null,
+  });
+
+  const rulesUrl = assignmentId
+    ? `/api/assignments/${assignmentId}/usage-rules`
+    : `/api/courses/${courseId}/usage-rules`;
+
+  const saveMutation = useMutation({
+    mutationFn: (changes: RuleChange[]) =>
+      fetchJson<SaveRulesResponse>(rulesUrl, {
+        method: 'PUT',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ changes }),
+      }),
+    onSuccess: async (data) => {
+      setPending({});
+      setSavedCount(data.changes.length);
+      await queryClient.invalidateQueries({ queryKey: ['course-usage-rules', courseId] });
+      await queryClient.invalidateQueries({ queryKey: ['assignment-usage-rules', assignmentId] });
+    },
+    onError: (error) => setSaveError(error.message),
+  });
+
+  const savedRules = assignmentId ? assignmentRulesQuery.data?.rules : rulesQuery.data?.rules;
+  const courseRules = assignmentId
+    ? assignmentRulesQuery.data?.courseRules
+    : rulesQuery.data?.rules;
+  const savedRuleByNodeId = useMemo(
+    () => new Map((savedRules ?? []).map((rule) => [rule.nodeId, toRuleSetting(rule)])),
+    [savedRules],
+  );
+  const courseRuleByNodeId = useMemo(
+    () => new Map((courseRules ?? []).map((rule) => [rule.nodeId, toRuleSetting(rule)])),
+    [courseRules],
+  );
+
+  const settingFor = (nodeId: string): RuleSetting =>
+    pending[nodeId] ?? savedRuleByNodeId.get(nodeId) ?? INHERITED_SETTING;
+
+  function editSetting(nodeId: string, setting: RuleSetting) {
+    setSavedCount(null);
+    setPending((current) => ({ ...current, [nodeId]: setting }));
+  }
+
+  // Saved rules with unsaved edits applied, so the tree and the preview show
+  // what students would see after saving. Windows are ignored here: the tree
+  // shows each rule as set, and the window is listed next to it.
+  const annotatedTree = useMemo(() => {
+    if (!rulesQuery.data) {
+      return [];
+    }
+    const effective = new Map(savedRuleByNodeId);
+    for (const [nodeId, setting] of Object.entries(pending)) {
+      effective.set(nodeId, setting);
+    }
+    const rules = Array.from(effective)
+      .filter(([, setting]) => setting.rule !== 'INHERIT')
+      .map(([nodeId, setting]) => ({
+        nodeId,
+        isAllowed: setting.rule !== 'DISALLOWED',
+        requiresJustification: setting.rule === 'REQUIRES_JUSTIFICATION',
+        minEvidenceCount: setting.minEvidenceCount,
+      }));
+    const { tree, baselineDisallowedNodeIds } = rulesQuery.data;
+    const ruleMap = assignmentId
+      ? applyAssignmentUsageRules(
+          tree,
+          mergeCourseUsageRules(courseRules ?? [], baselineDisallowedNodeIds),
+          rules,
+        )
+      : mergeCourseUsageRules(rules, baselineDisallowedNodeIds);
+    return annotateUsageTree(tree, ruleMap);
+  }, [assignmentId, courseRules, pending, rulesQuery.data, savedRuleByNodeId]);
+
+  const changedNodeIds = Object.keys(pending).filter(
+    (nodeId) => !sameSetting(pending[nodeId], savedRuleByNodeId.get(nodeId) ?? INHERITED_SETTING),
+  );
+  const baselineNodeIds = new Set(rulesQuery.data?.baselineDisallowedNodeIds ?? []);
+
+  function renderEditorNodes(nodes: AnnotatedUsageTreeNode[], depth: number) {
+    return nodes.map((node) => {
+      const setting = settingFor(node.id);
+      const courseSetting = courseRuleByNodeId.get(node.id);
+      return (
+        <li key={node.id}>
+          <div
+            className="flex flex-wrap items-center justify-between gap-2 border-t border-slate-200 py-1.5"
+            style={{ paddingLeft: `${depth * 1.25}rem` }}
+          >
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-slate-900">{node.label}</span>
+              <StatusBadge status={node.status} />
+              {setting.rule === 'INHERIT' && assignmentId && courseSetting ? (
+                <span className="text-[11px] text-slate-500">
+                  Course rule: {describeSetting(courseSetting)}
+                </span>
+              ) : setting.rule === 'INHERIT' && baselineNodeIds.has(node.id) ? (
+                <span className="text-[11px] text-slate-500">Platform default: not allowed</span>
+              ) : null}
+              {setting.rule !== 'INHERIT' && setting.window ? (
+                <span className="text-[11px] text-slate-500">
+                  Applies {describeRuleWindow(setting.window)}
+                </span>
+              ) : null}
+              {changedNodeIds.includes(node.id) ? (
+                <span className="text-[11px] font-semibold text-amber-700">Unsaved</span>
+              ) : null}
+            </div>
+            <div className="flex items-center gap-2">
+              {setting.rule !== 'INHERIT' ? (
+                <button
+                  type="button"
+                  onClick={() =>
+                    setWindowNodeId((current) => (current === node.id ? null : node.id))
+                  }
+                  className="text-[11px] font-semibold text-slate-600 underline"
+                >
+                  Time window
+                </button>
+              ) : null}
+              {setting.rule === 'REQUIRES_JUSTIFICATION' ? (
+                <label className="flex items-center gap-1 text-[11px] text-slate-600">
+                  Min. evidence
+                  <input
+                    type="number"
+                    min={0}
+                    max={20}
+                    value={setting.minEvidenceCount}
+                    onChange={(event) =>
+                      editSetting(node.id, {
+                        ...setting,
+                        minEvidenceCount: Math.min(
+                          20,
+                          Math.max(0, Math.trunc(Number(event.target.value) || 0)),
+                        ),
+                      })
+                    }
+                    className="w-14 rounded-md border border-slate-300 px-2 py-1 text-xs"
+                  />
+                </label>
+              ) : null}
+              <select
+                aria-label={`Rule for ${node.label}`}
+                value={setting.rule}
+                onChange={(event) =>
+                  editSetting(node.id, { ...setting, rule: event.target.value as RuleState })
+                }
+                className="rounded-md border border-slate-300 px-2 py-1 text-xs"
+              >
+                {RULE_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          {windowNodeId === node.id && setting.rule !== 'INHERIT' ? (
+            <div className="pb-2" style={{ paddingLeft: `${depth * 1.25}rem` }}>
+              <RuleWindowFields
+                nodeLabel={node.label}
+                window={setting.window}
+                onChange={(window) => editSetting(node.id, { ...setting, window })}
+              />
+            </div>
+          ) : null}
+          {node.children && node.children.length > 0 ? (
+            <ul>{renderEditorNodes(node.children, depth + 1)}</ul>
+          ) : null}
+        </li>
+      );
+    });
+  }
+
+  function renderPreviewNodes(nodes: AnnotatedUsageTreeNode[]) {
+    return nodes.map((node) => (
+      <li key={node.id} className="space-y-1">
+        <div className="flex items-center gap-2">
+          <span
+            className={`text-sm ${
+              node.status === 'DISALLOWED' ? 'text-slate-400 line-through' : 'text-slate-900'
+            }`}
+          >
+            {node.label}
+          </span>
+          {node.status !== 'ALLOWED' ? <StatusBadge status={node.status} /> : null}
+          {node.minEvidenceCount ? (
+            <span className="text-[11px] text-slate-500">
+              {node.minEvidenceCount} evidence item(s) required
+            </span>
+          ) : null}
+        </div>
+        {node.children && node.children.length > 0 ? (
+          <ul className="space-y-1 border-l border-slate-200 pl-4">
+            {renderPreviewNodes(node.children)}
+          </ul>
+        ) : null}
+      </li>
+    ));
+  }
+
+  const data = rulesQuery.data;
+
+  return (
+    <main className="space-y-5">
+      <header className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+        <h1 className="text-2xl font-semibold text-slate-900">
+          {data ? `${data.course.courseCode} usage rules` : 'Usage rules'}
+        </h1>
+        <p className="mt-1 text-sm text-slate-600">
+          A disallowed node disallows everything below it. Inherit removes the rule, so the node
+          follows its parent and the platform defaults. An assignment rule replaces the course
+          rules on that node and everything below it. A rule with a time window only applies
+          inside it, dated by when the use was logged.
+          {data?.taxonomyVersion ? ` Activity list version ${data.taxonomyVersion}.` : ''}
+        </p>
+      </header>
+
+      {rulesQuery.isLoading ? (
+        <p className="text-sm text-slate-700">Loading usage rules...</p>
+      ) : rulesQuery.isError || !data ? (
+        <p className="text-sm text-red-700">
+          {rulesQuery.error instanceof Error
+            ? rulesQuery.error.message
+            : 'Failed to load usage rules.'}
+        </p>
+      ) : (
+        <div className="grid gap-5 lg:grid-cols-2">
+          <section className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+            <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+              <label className="flex items-center gap-2 text-lg font-semibold text-slate-900">
+                Rules for
+                <select
+                  value={assignmentId ?? ''}
+                  onChange={(event) => {
+                    setAssignmentId(event.target.value || null);
+                    setPending({});
+                    setSavedCount(null);
+                    setSaveError(null);
+                  }}
+                  className="rounded-md border border-slate-300 px-2 py-1 text-sm font-normal"
+                >
+                  <option value="">Whole course</option>
+                  {data.assignments.map((assignment) => (
+                    <option key={assignment.id} value={assignment.id}>
+                      {assignment.title}
+                      {assignment.dueDate
+                        ? ` · due ${new Date(assignment.dueDate).toLocaleDateString()}`
+                        : ''}
+                      {assignment.ruleCount > 0 ? ` (${assignment.ruleCount} overrides)` : ''}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <div className="flex items-center gap-2">
+                <button
+                  type="button"
+                  disabled={changedNodeIds.length === 0 || saveMutation.isPending}
+                  onClick={() => setPending({})}
+                  className="rounded-md border border-slate-300 px-3 py-1.5 text-xs font-semibold text-slate-800 disabled:opacity-60"
+                >
+                  Discard
+                </button>
+                <button
+                  type="button"
+                  disabled={changedNodeIds.length === 0 || saveMutation.isPending}
+                  onClick={() => {
+                    setSaveError(null);
+                    saveMutation.mutate(
+                      changedNodeIds.map((nodeId) => toRuleChange(nodeId, pending[nodeId])),
+                    );
+                  }}
+                  className="rounded-md bg-slate-900 px-3 py-1.5 text-xs font-semibold text-white disabled:opacity-60"
+                >
+                  {saveMutation.isPending
+                    ? 'Saving...'
+                    : `Save ${changedNodeIds.length || ''} change${changedNodeIds.length === 1 ? '' : 's'}`}
+                </button>
+              </div>
+            </div>
+            {saveError ? <p className="mb-2 text-sm text-red-700">{saveError}</p> : null}
+            {savedCount !== null ? (
+              <p className="mb-2 text-sm text-slate-700">
+                Saved {savedCount} rule change{savedCount === 1 ? '' : 's'}.
+              </p>
+            ) : null}
+            {data.tree.length === 0 ? (
+              <p className="text-sm text-slate-600">No active activity list.</p>
+            ) : assignmentId && !assignmentRulesQuery.data ? (
+              <p className="text-sm text-slate-700">
+                {assignmentRulesQuery.isError
+                  ? 'Failed to load assignment rules.'
+                  : 'Loading assignment rules...'}
+              </p>
+            ) : (
+              <ul>{renderEditorNodes(annotatedTree, 0)}</ul>
+            )}
+          </section>
+
+          <section className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+            <div className="mb-3 flex items-center justify-between gap-2">
+              <h2 className="text-lg font-semibold text-slate-900">Student view</h2>
+              <button
+                type="button"
+                onClick={() => setShowPreview((current) => !current)}
+                className="rounded-md border border-slate-300 px-3 py-1.5 text-xs font-semibold text-slate-800"
+              >
+                {showPreview ? 'Hide preview' : 'Show preview'}
+              </button>
+            </div>
+            {showPreview ? (
+              <>
+                <p className="mb-3 text-xs text-slate-600">
+                  How students see the activity list, including unsaved changes.
+                </p>
+                <ul className="space-y-1">{renderPreviewNodes(annotatedTree)}</ul>
+              </>
+            ) : (
+              <p className="text-xs text-slate-600">
+                Preview what students see when they log AI use for this course.
+              </p>
+            )}
+          </section>
+
+          {assignmentId ? null : (
+            <div className="lg:col-span-2">
+              <CopyUsageRulesPanel
+                courseId={courseId}
+                tree={data.tree}
+                hasUnsavedChanges={changedNodeIds.length > 0}
+              />
+            </div>
+          )}
+        </div>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,129 @@
+'use client';
+
+import type { UsageRuleWindow } from '@/lib/usage-rule-tree';
+
+type BoundMode = 'NONE' | 'DATE' | 'DUE';
+
+type Bound = 'From' | 'Until';
+
+const EMPTY_WINDOW: UsageRuleWindow = {
+  activeFrom: null,
+  activeUntil: null,
+  activeFromDueOffsetDays: null,
+  activeUntilDueOffsetDays: null,
+};
+
+function boundMode(window: UsageRuleWindow | null, bound: Bound): BoundMode {
+  if (window?.[`active${bound}`]) {
+    return 'DATE';
+  }
+  return window?.[`active${bound}DueOffsetDays`] === null ||
+    window?.[`active${bound}DueOffsetDays`] === undefined
+    ? 'NONE'
+    : 'DUE';
+}
+
+/** `yyyy-mm-dd` in local time, as date inputs expect. */
+function toDateInput(iso: string): string {
+  const date = new Date(iso);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function describeDueOffset(days: number): string {
+  if (days === 0) {
+    return 'the due date';
+  }
+  const count = `${Math.abs(days)} day${Math.abs(days) === 1 ? '' : 's'}`;
+  return days < 0 ? `${count} before the due date` : `${count} after the due date`;
+}
+
+function describeBound(iso: string | null, dueOffsetDays: number | null): string | null {
+  if (iso) {
+    return new Date(iso).toLocaleDateString();
+  }
+  return dueOffsetDays === null ? null : describeDueOffset(dueOffsetDays);
+}
+
+/** E.g. "from 1.3.2026 until 7 days before the due date". */
+export function describeRuleWindow(window: UsageRuleWindow): string {
+  const from = describeBound(window.activeFrom, window.activeFromDueOffsetDays);
+  const until = describeBound(window.activeUntil, window.activeUntilDueOffsetDays);
+  return [from ? `from ${from}` : null, until ? `until ${until}` : null]
+    .filter(Boolean)
+    .join(' ');
+}
+
+/** Edits when a rule applies; null means always. */
+export function RuleWindowFields({
+  nodeLabel,
+  window,
+  onChange,
+}: {
+  nodeLabel: string;
+  window: UsageRuleWindow | null;
+  onChange: (window: UsageRuleWindow | null) => void;
+}) {
+  function update(bound: Bound, mode: BoundMode, value: string) {
+    const date = mode === 'DATE' && value ? new Date(`${value}T00:00`).toISOString() : null;
+    const offset =
+      mode === 'DUE' ? Math.min(365, Math.max(-365, Math.trunc(Number(value) || 0))) : null;
+    const next: UsageRuleWindow = {
+      ...(window ?? EMPTY_WINDOW),
+      [`active${bound}`]: date,
+      [`active${bound}DueOffsetDays`]: offset,
+    };
+    onChange(Object.values(next).every((item) => item === null) ? null : next);
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 text-[11px] text-slate-600">
+      {(['From', 'Until'] as const).map((bound) => {
+        const mode = boundMode(window, bound);
+        const date = window?.[`active${bound}`] ?? null;
+        const offset = window?.[`active${bound}DueOffsetDays`] ?? 0;
+        return (
+          <label key={bound} className="flex items-center gap-1">
+            {bound}
+            <select
+              aria-label={`${bound} for ${nodeLabel}`}
+              value={mode}
+              onChange={(event) => {
+                const nextMode = event.target.value as BoundMode;
+                update(
+                  bound,
+                  nextMode,
+                  nextMode === 'DATE' ? toDateInput(new Date().toISOString()) : '0',
+                );
+              }}
+              className="rounded-md border border-slate-300 px-1 py-0.5"
+            >
+              <option value="NONE">{bound === 'From' ? 'the start' : 'the end'}</option>
+              <option value="DATE">a date</option>
+              <option value="DUE">days from due date</option>
+            </select>
+            {mode === 'DATE' && date ? (
+              <input
+                type="date"
+                value={toDateInput(date)}
+                onChange={(event) => update(bound, 'DATE', event.target.value)}
+                className="rounded-md border border-slate-300 px-1 py-0.5"
+              />
+            ) : null}
+            {mode === 'DUE' ? (
+              <input
+                type="number"
+                min={-365}
+                max={365}
+                value={offset}
+                onChange={(event) => update(bound, 'DUE', event.target.value)}
+                className="w-16 rounded-md border border-slate-300 px-1 py-0.5"
+              />
+            ) : null}
+          </label>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+'use client';
+
+import Link from 'next/link';
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+
+type TeachingCoursesResponse = {
+  courses: Array<{
+    id: string;
+    courseCode: string;
+    name: string;
+    ruleCount: number;
+  }>;
+};
+
+type UsageRuleTemplatesResponse = {
+  templates: Array<{
+    id: string;
+    name: string;
+    description: string | null;
+    createdBy: { id: string; name: string };
+    ruleCount: number;
+  }>;
+};
+
+async function fetchUsageRuleTemplates(): Promise<UsageRuleTemplatesResponse> {
+  const response = await fetch('/api/usage-rule-templates', { method: 'GET', cache: 'no-store' });
+  if (!response.ok) {
+    throw new Error('Failed to load rule templates');
+  }
+  return (await response.json()) as UsageRuleTemplatesResponse;
+}
+
+async function deleteUsageRuleTemplate(templateId: string): Promise<void> {
+  const response = await fetch(`/api/usage-rule-templates/${templateId}`, { method: 'DELETE' });
+  if (!response.ok) {
+    const payload = (await response.json().catch(() => ({}))) as { error?: string };
+    throw new Error(payload.error ?? 'Failed to delete the template');
+  }
+}
+
+async function fetchTeachingCourses(): Promise<TeachingCoursesResponse> {
+  const response = await fetch('/api/courses/teaching', { method: 'GET', cache: 'no-store' });
+  if (!response.ok) {
+    throw new Error('Failed to load courses');
+  }
+  return (await response.json()) as TeachingCoursesResponse;
+}
+
+export function TeachingCoursesPage() {
+  const queryClient = useQueryClient();
+  const [deleteError, setDeleteError] = useState<string | null>(null);
+
+  const coursesQuery = useQuery({
+    queryKey: ['teaching-courses'],
+    queryFn: fetchTeachingCourses,
+  });
+
+  const templatesQuery = useQuery({
+    queryKey: ['usage-rule-templates'],
+    queryFn: fetchUsageRuleTemplates,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteUsageRuleTemplate,
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['usage-rule-templates'] });
+    },
+    onError: (error) => setDeleteError(error.message),
+  });
+
+  return (
+    <main className="space-y-5">
+      <header className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+        <h1 className="text-2xl font-semibold text-slate-900">Courses</h1>
+        <p className="mt-1 text-sm text-slate-600">
+          Courses you teach. Usage rules decide which activities students may tag their logs with.
+        </p>
+      </header>
+
+      <section className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+        {coursesQuery.isLoading ? (
+          <p className="text-sm text-slate-700">Loading courses...</p>
+        ) : coursesQuery.isError || !coursesQuery.data ? (
+          <p className="text-sm text-red-700">Failed to load courses.</p>
+        ) : coursesQuery.data.courses.length === 0 ? (
+          <p className="text-sm text-slate-600">You are not an instructor in any course.</p>
+        ) : (
+          <ul className="divide-y divide-slate-200">
+            {coursesQuery.data.courses.map((course) => (
+              <li key={course.id} className="flex items-center justify-between gap-3 py-2">
+                <div>
+                  <p className="text-sm font-semibold text-slate-900">
+                    {course.courseCode} · {course.name}
+                  </p>
+                  <p className="text-xs text-slate-600">
+                    {course.ruleCount === 0
+                      ? 'Platform defaults only'
+                      : `${course.ruleCount} course rule${course.ruleCount === 1 ? '' : 's'}`}
+                  </p>
+                </div>
+                <Link
+                  href={`/teaching/${course.id}/usage-rules`}
+                  className="rounded-md bg-slate-900 px-3 py-1.5 text-xs font-semibold text-white"
+                >
+                  Edit usage rules
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+        <h2 className="text-lg font-semibold text-slate-900">Rule templates</h2>
+        <p className="mt-1 text-xs text-slate-600">
+          Save a course&apos;s rules as a template from its rule editor, then copy the template to
+          other courses there.
+        </p>
+        {deleteError ? <p className="mt-2 text-sm text-red-700">{deleteError}</p> : null}
+        {templatesQuery.isLoading ? (
+          <p className="mt-2 text-sm text-slate-700">Loading templates...</p>
+        ) : templatesQuery.isError || !templatesQuery.data ? (
+          <p className="mt-2 text-sm text-red-700">Failed to load rule templates.</p>
+        ) : templatesQuery.data.templates.length === 0 ? (
+          <p className="mt-2 text-sm text-slate-600">No rule templates yet.</p>
+        ) : (
+          <ul className="mt-2 divide-y divide-slate-200">
+            {templatesQuery.data.templates.map((template) => (
+              <li key={template.id} className="flex items-center justify-between gap-3 py-2">
+                <div>
+                  <p className="text-sm font-semibold text-slate-900">{template.name}</p>
+                  <p className="text-xs text-slate-600">
+                    {template.ruleCount} rule{template.ruleCount === 1 ? '' : 's'} · by{' '}
+                    {template.createdBy.name}
+                    {template.description ? ` · ${template.description}` : ''}
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  disabled={deleteMutation.isPending}
+                  onClick={() => {
+                    setDeleteError(null);
+                    deleteMutation.mutate(template.id);
+                  }}
+                  className="rounded-md border border-slate-300 px-3 py-1.5 text-xs font-semibold text-slate-800 disabled:opacity-60"
+                >
+                  Delete
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </main>
+  );
+}
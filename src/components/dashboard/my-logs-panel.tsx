@@ -3,11 +3,13 @@
 import Link from 'next/link';
 import { useMemo } from 'react';
 import { useQuery } from '@tanstack/react-query';
-import {
-  getTopLevelSectionsForSelections,
-  getUsageTreeRootNodes,
-  isLeafUsageNodeId,
-} from '@/lib/usage-taxonomy';
+
+type UsageNodeLabel = {
+  id: string;
+  label: string;
+  isLeaf: boolean;
+  section: { id: string; label: string } | null;
+};
 
 type StudentLog = {
   id: string;
@@ -16,12 +18,16 @@ type StudentLog = {
   courseCode: string;
   courseName: string;
   usageSubsections: string[];
+  /** Selected nodes, labelled from the taxonomy version the log was recorded with. */
+  usageLabels?: { nodes: UsageNodeLabel[] };
   disallowedUsageNodeIds?: string[];
   warningUsageNodeIds?: string[];
   usageReason: string;
   sessionDescription: string | null;
   aiTool: string;
   actualUsageCategory?: string | null;
+  /** When the session was logged; sessions of an assignment are ordered by it. */
+  loggedAt: string;
   createdAt: string;
   complianceStatus: 'PENDING' | 'COMPLIANT' | 'WARNING' | 'NON_COMPLIANT';
   resolutionStatus: 'NONE' | 'UNRESOLVED' | 'STUDENT_RESPONDED';
@@ -35,6 +41,15 @@ type LogsResponse = {
 
 type EffectiveComplianceStatus = StudentLog['complianceStatus'];
 
+type AssignmentSessions = {
+  assignmentId: string;
+  assignmentTitle: string;
+  courseCode: string;
+  courseName: string;
+  /** Oldest session first. */
+  sessions: StudentLog[];
+};
+
 function normalizeToolLabel(raw: string | null | undefined): string {
   const firstLine = (raw ?? '')
     .split('\n')
@@ -139,6 +154,42 @@ function getEffectiveComplianceStatus(log: StudentLog): EffectiveComplianceStatu
   return log.complianceStatus;
 }
 
+/** Groups logs by assignment, most recently active assignment first. */
+function groupSessionsByAssignment(logs: StudentLog[]): AssignmentSessions[] {
+  const groups = new Map<string, AssignmentSessions>();
+  for (const log of logs) {
+    const group = groups.get(log.assignmentId) ?? {
+      assignmentId: log.assignmentId,
+      assignmentTitle: log.assignmentTitle,
+      courseCode: log.courseCode,
+      courseName: log.courseName,
+      sessions: [],
+    };
+    group.sessions.push(log);
+    groups.set(log.assignmentId, group);
+  }
+
+  const loggedAt = (log: StudentLog) => new Date(log.loggedAt).getTime();
+  const latest = (group: AssignmentSessions) =>
+    loggedAt(group.sessions[group.sessions.length - 1]);
+  return Array.from(groups.values())
+    .map((group) => ({
+      ...group,
+      sessions: [...group.sessions].sort((a, b) => loggedAt(a) - loggedAt(b)),
+    }))
+    .sort((a, b) => latest(b) - latest(a));
+}
+
+function sessionClasses(status: EffectiveComplianceStatus): string {
+  if (status === 'NON_COMPLIANT') {
+    return 'border-red-300 bg-red-50';
+  }
+  if (status === 'WARNING') {
+    return 'border-amber-300 bg-amber-50';
+  }
+  return 'border-slate-200 bg-white';
+}
+
 export function MyLogsPanel() {
   const logsQuery = useQuery({
     queryKey: ['my-logs'],
@@ -146,22 +197,9 @@ export function MyLogsPanel() {
   });
 
   const logs = useMemo(() => logsQuery.data ?? [], [logsQuery.data]);
-  const usageNodeLabelMap = useMemo(() => {
-    const result = new Map<string, string>();
-    const stack = [...getUsageTreeRootNodes()];
-    while (stack.length > 0) {
-      const node = stack.pop();
-      if (!node) {
-        continue;
-      }
-      result.set(node.id, node.label);
-      if (node.children && node.children.length > 0) {
-        stack.push(...node.children);
-      }
-    }
-    return result;
-  }, []);
+  const assignmentGroups = useMemo(() => groupSessionsByAssignment(logs), [logs]);
   const stats = useMemo(() => {
+    const usageNodesById = new Map<string, UsageNodeLabel>();
     const toolCounts = new Map<string, number>();
     const categoryCounts = new Map<string, number>();
     const activityCounts = new Map<string, number>();
@@ -179,22 +217,32 @@ export function MyLogsPanel() {
         toolCounts.set(normalizedTool, (toolCounts.get(normalizedTool) ?? 0) + 1);
       }
 
-      const rootSections = getTopLevelSectionsForSelections(log.usageSubsections ?? []);
-      if (rootSections.length === 0) {
+      const usageNodes = log.usageLabels?.nodes ?? [];
+      const rootSections = new Map(
+        usageNodes.flatMap((node) => (node.section ? [[node.section.id, node.section]] : [])),
+      );
+      if (rootSections.size === 0) {
         uncategorizedRootCount += 1;
       } else {
-        for (const section of rootSections) {
+        for (const section of rootSections.values()) {
           categoryCounts.set(section.label, (categoryCounts.get(section.label) ?? 0) + 1);
         }
       }
+      const leafNodeIds = new Set<string>();
+      for (const node of usageNodes) {
+        usageNodesById.set(node.id, node);
+        if (node.isLeaf) {
+          leafNodeIds.add(node.id);
+        }
+      }
       for (const nodeId of log.usageSubsections ?? []) {
-        if (!isLeafUsageNodeId(nodeId)) {
+        if (!leafNodeIds.has(nodeId)) {
           continue;
         }
         activityCounts.set(nodeId, (activityCounts.get(nodeId) ?? 0) + 1);
       }
       for (const nodeId of log.disallowedUsageNodeIds ?? []) {
-        if (!isLeafUsageNodeId(nodeId)) {
+        if (!leafNodeIds.has(nodeId)) {
           continue;
         }
         nonCompliantActivityCounts.set(
@@ -222,17 +270,17 @@ export function MyLogsPanel() {
       .slice(0, 3);
     const activityStats = Array.from(activityCounts.entries())
       .map(([nodeId, count]) => ({
-        section: getTopLevelSectionsForSelections([nodeId])[0] ?? null,
+        section: usageNodesById.get(nodeId)?.section ?? null,
         nodeId,
-        label: usageNodeLabelMap.get(nodeId) ?? nodeId,
+        label: usageNodesById.get(nodeId)?.label ?? nodeId,
         count,
       }))
       .sort((a, b) => b.count - a.count);
     const topNonCompliantActivities = Array.from(nonCompliantActivityCounts.entries())
       .map(([nodeId, count]) => ({
-        section: getTopLevelSectionsForSelections([nodeId])[0] ?? null,
+        section: usageNodesById.get(nodeId)?.section ?? null,
         nodeId,
-        label: usageNodeLabelMap.get(nodeId) ?? nodeId,
+        label: usageNodesById.get(nodeId)?.label ?? nodeId,
         count,
       }))
       .sort((a, b) => b.count - a.count)
@@ -257,7 +305,7 @@ export function MyLogsPanel() {
       topNonCompliantActivities,
       maxNonCompliantActivityCount,
     };
-  }, [logs, usageNodeLabelMap]);
+  }, [logs]);
 
   if (logsQuery.isLoading) {
     return <p className="text-sm text-slate-700">Loading your logs...</p>;
@@ -444,54 +492,73 @@ export function MyLogsPanel() {
         </div>
       </section>
 
-      {logs.map((log) => {
-        const effectiveComplianceStatus = getEffectiveComplianceStatus(log);
-        const hasConflict = effectiveComplianceStatus === 'NON_COMPLIANT';
-        return (
-          <article
-            key={log.id}
-            className={`rounded-lg border p-3 ${
-              effectiveComplianceStatus === 'NON_COMPLIANT'
-                ? 'border-red-300 bg-red-50'
-                : effectiveComplianceStatus === 'WARNING'
-                  ? 'border-amber-300 bg-amber-50'
-                : 'border-slate-200 bg-[var(--surface-muted)]'
-            }`}
-          >
-            <div className="flex flex-wrap items-center justify-between gap-2">
+      {assignmentGroups.map((group) => (
+        <article
+          key={group.assignmentId}
+          className="rounded-lg border border-slate-200 bg-[var(--surface-muted)] p-3"
+        >
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div>
               <p className="text-left text-sm font-semibold text-[var(--brand)]">
-                {log.courseCode} - {log.assignmentTitle}
+                {group.courseCode} - {group.assignmentTitle}
               </p>
-              <p className="text-xs text-slate-600">
-                {new Date(log.createdAt).toLocaleString()}
+              <p className="mt-0.5 text-xs text-slate-600">
+                {group.courseName} • {group.sessions.length} session
+                {group.sessions.length === 1 ? '' : 's'}
               </p>
             </div>
-            {hasConflict ? (
-              <p className="mt-1 text-xs font-semibold uppercase tracking-wide text-red-700">
-                Conflict
-              </p>
-            ) : null}
-            <p className="mt-1 text-xs text-slate-600">
-              Source: New Log • {log.courseName}
-            </p>
-            <p className="mt-1 text-xs text-slate-700">AI Tool: {log.aiTool || 'Not set'}</p>
-            <p className="mt-2 text-sm text-slate-800">
-              {log.usageReason || 'No reason recorded.'}
-            </p>
-            <div className="mt-3 flex items-center justify-between">
-              <p className="text-xs text-slate-600">
-                Comment: {log.sessionDescription?.trim() ? 'Present' : 'None'}
-              </p>
-              <Link
-                href={`/log?logId=${encodeURIComponent(log.id)}`}
-                className="rounded-md bg-slate-900 px-3 py-1.5 text-xs font-semibold text-white"
-              >
-                Edit in New Log
-              </Link>
-            </div>
-          </article>
-        );
-      })}
+            <Link
+              href={`/log?assignmentId=${encodeURIComponent(group.assignmentId)}`}
+              className="rounded-md border border-slate-300 bg-white px-3 py-1.5 text-xs font-semibold text-slate-800"
+            >
+              Log another session
+            </Link>
+          </div>
+
+          <ol className="mt-3 space-y-2 border-l-2 border-slate-300 pl-4">
+            {group.sessions.map((log, index) => {
+              const effectiveComplianceStatus = getEffectiveComplianceStatus(log);
+              return (
+                <li
+                  key={log.id}
+                  className={`relative rounded-lg border p-3 ${sessionClasses(
+                    effectiveComplianceStatus,
+                  )}`}
+                >
+                  <span className="absolute -left-[1.4rem] top-4 inline-block h-2.5 w-2.5 rounded-full bg-slate-500" />
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <p className="text-xs font-semibold text-slate-800">
+                      Session {index + 1} • {log.aiTool || 'Tool not set'}
+                    </p>
+                    <p className="text-xs text-slate-600">
+                      {new Date(log.loggedAt).toLocaleString()}
+                    </p>
+                  </div>
+                  {effectiveComplianceStatus === 'NON_COMPLIANT' ? (
+                    <p className="mt-1 text-xs font-semibold uppercase tracking-wide text-red-700">
+                      Conflict
+                    </p>
+                  ) : null}
+                  <p className="mt-2 text-sm text-slate-800">
+                    {log.usageReason || 'No reason recorded.'}
+                  </p>
+                  <div className="mt-3 flex items-center justify-between">
+                    <p className="text-xs text-slate-600">
+                      Comment: {log.sessionDescription?.trim() ? 'Present' : 'None'}
+                    </p>
+                    <Link
+                      href={`/log?logId=${encodeURIComponent(log.id)}`}
+                      className="rounded-md bg-slate-900 px-3 py-1.5 text-xs font-semibold text-white"
+                    >
+                      Edit session
+                    </Link>
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+        </article>
+      ))}
     </div>
   );
 }
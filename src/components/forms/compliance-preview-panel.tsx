@@ -6,6 +6,8 @@ type CompliancePreviewPanelProps = {
   message: string | null;
   detectedCategory: string | null;
   ruleReferences: string[];
+  /** Keywords of the detected category found in the reason. */
+  matchedKeywords?: string[];
 };
 
 function statusStyles(status: CompliancePreviewPanelProps['status']) {
@@ -27,6 +29,7 @@ export function CompliancePreviewPanel({
   message,
   detectedCategory,
   ruleReferences,
+  matchedKeywords = [],
 }: CompliancePreviewPanelProps) {
   if (isLoading) {
     return (
@@ -44,6 +47,12 @@ export function CompliancePreviewPanel({
     <section className={`rounded-md border p-3 ${statusStyles(status)}`}>
       <p className="text-sm font-semibold">{status.replace('_', ' ')}</p>
       {detectedCategory ? <p className="mt-1 text-sm">Detected category: {detectedCategory}</p> : null}
+      {matchedKeywords.length > 0 ? (
+        <p className="mt-1 text-sm">
+          Because your reason mentions:{' '}
+          {matchedKeywords.map((keyword) => `"${keyword}"`).join(', ')}
+        </p>
+      ) : null}
       {message ? <p className="mt-1 text-sm">{message}</p> : null}
       {ruleReferences.length > 0 ? (
         <p className="mt-1 text-sm">Rule reference: {ruleReferences.join(', ')}</p>
@@ -0,0 +1,161 @@
+'use client';
+
+import { useRef, useState } from 'react';
+
+import { parseConversationExport, type ImportedConversation } from '@/lib/conversation-import';
+import {
+  importedConversationLength,
+  importedConversationSchema,
+  MAX_IMPORTED_CONVERSATION_CHARS,
+} from '@/lib/validations/log.schema';
+
+type ConversationImportPickerProps = {
+  onImport: (conversation: ImportedConversation) => void;
+};
+
+const MAX_EXPORT_BYTES = 50 * 1024 * 1024;
+
+export function ConversationImportPicker({ onImport }: ConversationImportPickerProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [conversations, setConversations] = useState<ImportedConversation[]>([]);
+  const [query, setQuery] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  function pick(conversation: ImportedConversation) {
+    // Over-long titles and messages are cut to what a log accepts rather than refused.
+    const parsed = importedConversationSchema.safeParse({
+      ...conversation,
+      title: conversation.title.slice(0, 255),
+      messages: conversation.messages.map((message) => ({
+        ...message,
+        text: message.text.slice(0, 20000),
+      })),
+    });
+    if (!parsed.success) {
+      setError(parsed.error.issues[0]?.message ?? 'This conversation cannot be imported.');
+      return;
+    }
+    if (importedConversationLength(parsed.data) > MAX_IMPORTED_CONVERSATION_CHARS) {
+      setError(`This conversation has more than ${MAX_IMPORTED_CONVERSATION_CHARS} characters.`);
+      return;
+    }
+
+    setConversations([]);
+    setQuery('');
+    setError(null);
+    onImport(parsed.data);
+  }
+
+  async function readExport(file: File) {
+    setError(null);
+    setConversations([]);
+    if (file.size > MAX_EXPORT_BYTES) {
+      setError('The export is larger than 50 MB. Export only the conversation you need.');
+      return;
+    }
+
+    const result = parseConversationExport(await file.text(), file.name);
+    if (result.outcome === 'UNRECOGNIZED') {
+      setError(
+        'This file is not a ChatGPT or Claude conversations.json export or a Markdown transcript.',
+      );
+      return;
+    }
+    if (result.outcome === 'NO_CONVERSATIONS') {
+      setError('The export has no conversations with messages.');
+      return;
+    }
+
+    if (result.conversations.length === 1) {
+      pick(result.conversations[0]);
+    } else {
+      setConversations(result.conversations);
+    }
+  }
+
+  const needle = query.trim().toLowerCase();
+  const visibleConversations = needle
+    ? conversations.filter((conversation) => conversation.title.toLowerCase().includes(needle))
+    : conversations;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          className="rounded border border-slate-300 px-2 py-1 text-xs text-slate-700"
+        >
+          Import AI conversation
+        </button>
+        <span className="text-xs text-slate-500">
+          ChatGPT or Claude conversations.json, or a Markdown transcript
+        </span>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,.md,.markdown,.txt,application/json,text/markdown,text/plain"
+          className="hidden"
+          onChange={(event) => {
+            const file = event.target.files?.[0];
+            event.target.value = '';
+            if (file) {
+              void readExport(file);
+            }
+          }}
+        />
+      </div>
+
+      {error ? <p className="text-xs text-red-700">{error}</p> : null}
+
+      {conversations.length > 0 ? (
+        <div className="space-y-2 rounded border border-slate-200 bg-white p-2">
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-xs font-medium text-slate-700">
+              Pick the conversation from this session ({conversations.length} in the export)
+            </p>
+            <button
+              type="button"
+              onClick={() => {
+                setConversations([]);
+                setQuery('');
+              }}
+              className="rounded border border-slate-300 px-2 py-1 text-xs text-slate-700"
+            >
+              Cancel
+            </button>
+          </div>
+          <input
+            type="text"
+            value={query}
+            onChange={(event) => setQuery(event.target.value)}
+            placeholder="Search by title..."
+            className="w-full rounded border border-slate-300 bg-white px-2 py-1 text-xs text-slate-900"
+          />
+          <ul className="max-h-64 space-y-1 overflow-y-auto">
+            {visibleConversations.map((conversation, index) => (
+              <li key={index}>
+                <button
+                  type="button"
+                  onClick={() => pick(conversation)}
+                  className="w-full rounded border border-slate-200 px-2 py-1 text-left text-xs text-slate-800 hover:bg-slate-50"
+                >
+                  <span className="font-medium">{conversation.title}</span>
+                  <span className="text-slate-500">
+                    {conversation.createdAt
+                      ? ` • ${new Date(conversation.createdAt).toLocaleDateString()}`
+                      : ''}
+                    {` • ${conversation.messages.length} message(s)`}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+          {visibleConversations.length === 0 ? (
+            <p className="text-xs text-slate-500">No conversation matches that title.</p>
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -7,10 +7,11 @@ import { useFieldArray, useForm, useWatch } from 'react-hook-form';
 import { useRouter } from 'next/navigation';
 
 import { useComplianceCheck } from '@/hooks/useComplianceCheck';
+import type { ImportedConversation } from '@/lib/conversation-import';
 import {
   getTopLevelSectionsForSelections,
   getUsageNodeIdPath,
-  getUsageTreeRootNodes,
+  getUsageNodeLabelMap,
 } from '@/lib/usage-taxonomy';
 import { createLogSchema, type CreateLogInput } from '@/lib/validations/log.schema';
 
@@ -48,13 +49,29 @@ type LogDetailResponse = {
   conversationLinks: Array<{
     usageNodeId: string | null;
     text: string | null;
+    conversation: ImportedConversation | null;
   }>;
+  /** Present when the log was recorded against an older taxonomy version. */
+  usageMigration: {
+    fromVersion: string;
+    toVersion: string;
+    usageSubsections: string[];
+    unmappedSubsections: string[];
+    evidenceNodeIds: Record<string, string | null>;
+    changes: Array<{
+      oldNodeId: string;
+      oldLabel: string;
+      kind: 'RENAMED' | 'SPLIT' | 'MERGED' | 'REMOVED' | 'UNMAPPED';
+      newNodes: Array<{ id: string; label: string }>;
+    }>;
+  } | null;
 };
 
 type AssignmentUsageTreeNode = {
   id: string;
   label: string;
-  status: 'ALLOWED' | 'DISALLOWED' | 'MIXED';
+  status: 'ALLOWED' | 'DISALLOWED' | 'REQUIRES_JUSTIFICATION' | 'MIXED';
+  minEvidenceCount?: number;
   children?: AssignmentUsageTreeNode[];
 };
 
@@ -124,6 +141,25 @@ function composeSessionDescriptionWithJustification(
 ${trimmedJustification}${COMPLIANCE_JUSTIFICATION_END_MARKER}${trimmedSessionDescription}`.trim();
 }
 
+function describeUsageMigrationChange(
+  change: NonNullable<LogDetailResponse['usageMigration']>['changes'][number],
+): string {
+  const newLabels = change.newNodes.map((node) => `"${node.label}"`).join(', ');
+
+  switch (change.kind) {
+    case 'RENAMED':
+      return `"${change.oldLabel}" is now ${newLabels}.`;
+    case 'SPLIT':
+      return `"${change.oldLabel}" was split into ${newLabels}; remove the ones that do not apply.`;
+    case 'MERGED':
+      return `"${change.oldLabel}" was merged into ${newLabels}.`;
+    case 'REMOVED':
+      return `"${change.oldLabel}" was removed; choose another activity if needed.`;
+    default:
+      return `"${change.oldLabel}" no longer exists and was not carried over; select it again.`;
+  }
+}
+
 async function fetchAssignments(): Promise<AssignmentsResponse> {
   const response = await fetch('/api/assignments', { method: 'GET', cache: 'no-store' });
   if (!response.ok) {
@@ -267,6 +303,7 @@ export function ManualLogForm({
     enabled: Boolean(editingLogId),
     refetchOnWindowFocus: false,
   });
+  const usageMigration = editingLogQuery.data?.usageMigration ?? null;
 
   const form = useForm<ManualLogFormValues>({
     resolver: zodResolver(createLogSchema),
@@ -336,27 +373,25 @@ export function ManualLogForm({
     (item) => item.text.trim().length > 0,
   ).length;
 
-  const usageNodeLabelMap = useMemo(() => {
-    const result = new Map<string, string>();
-    const stack = [...getUsageTreeRootNodes()];
-    while (stack.length > 0) {
-      const node = stack.pop();
-      if (!node) {
-        continue;
-      }
-      result.set(node.id, node.label);
-      if (node.children && node.children.length > 0) {
-        stack.push(...node.children);
-      }
-    }
-    return result;
-  }, []);
+  const assignmentUsageTreeQuery = useQuery({
+    queryKey: ['assignment-usage-tree-for-form', selectedAssignmentId],
+    queryFn: () => fetchAssignmentUsageTree(selectedAssignmentId as string),
+    enabled: Boolean(selectedAssignmentId),
+  });
+  // The active taxonomy version, annotated with the course's rules.
+  const usageTree = useMemo(
+    () => assignmentUsageTreeQuery.data?.tree ?? [],
+    [assignmentUsageTreeQuery.data?.tree],
+  );
+  const usageNodeLabelMap = useMemo(() => getUsageNodeLabelMap(usageTree), [usageTree]);
   const selectedRootLabels = useMemo(() => {
     if (!usageSubsectionsValue || usageSubsectionsValue.length === 0) {
       return [];
     }
-    return getTopLevelSectionsForSelections(usageSubsectionsValue).map((section) => section.label);
-  }, [usageSubsectionsValue]);
+    return getTopLevelSectionsForSelections(usageTree, usageSubsectionsValue).map(
+      (section) => section.label,
+    );
+  }, [usageSubsectionsValue, usageTree]);
   const previewActivityItems = useMemo(() => {
     const selected = Array.from(new Set(usageSubsectionsValue ?? []));
     if (selected.length === 0) {
@@ -368,26 +403,34 @@ export function ManualLogForm({
         if (otherId === nodeId) {
           return false;
         }
-        return getUsageNodeIdPath(otherId).includes(nodeId);
+        return getUsageNodeIdPath(usageTree, otherId).includes(nodeId);
       });
     });
 
     return deepestOnly.map((nodeId) => ({
       id: nodeId,
       label: usageNodeLabelMap.get(nodeId) ?? nodeId,
-      rootLabel: getTopLevelSectionsForSelections([nodeId])[0]?.label ?? null,
+      rootLabel: getTopLevelSectionsForSelections(usageTree, [nodeId])[0]?.label ?? null,
     }));
-  }, [usageNodeLabelMap, usageSubsectionsValue]);
+  }, [usageNodeLabelMap, usageSubsectionsValue, usageTree]);
 
   const complianceCheck = useComplianceCheck(
     usageReason,
     selectedAssignmentId ? selectedAssignmentId : null,
   );
-  const assignmentUsageTreeQuery = useQuery({
-    queryKey: ['assignment-usage-tree-for-form', selectedAssignmentId],
-    queryFn: () => fetchAssignmentUsageTree(selectedAssignmentId as string),
-    enabled: Boolean(selectedAssignmentId),
-  });
+  const matchedIntentKeywords = useMemo(() => {
+    const result = complianceCheck.result;
+    if (!result?.detectedCategory) {
+      return [];
+    }
+    return Array.from(
+      new Set(
+        (result.matchedSpans ?? [])
+          .filter((span) => span.usageCategory === result.detectedCategory)
+          .map((span) => span.keyword),
+      ),
+    );
+  }, [complianceCheck.result]);
 
   const selectedConflictNodeIds = useMemo(() => {
     const selectedNodeIds = usageSubsectionsValue ?? [];
@@ -413,7 +456,7 @@ export function ManualLogForm({
     return selectedNodeIds.filter((nodeId) => disallowedNodeIds.has(nodeId));
   }, [usageSubsectionsValue, assignmentUsageTreeQuery.data?.tree]);
   const usageNodeStatusById = useMemo(() => {
-    const result: Record<string, 'ALLOWED' | 'DISALLOWED' | 'MIXED'> = {};
+    const result: Record<string, AssignmentUsageTreeNode['status']> = {};
     const stack = [...(assignmentUsageTreeQuery.data?.tree ?? [])];
 
     while (stack.length > 0) {
@@ -429,6 +472,31 @@ export function ManualLogForm({
 
     return Object.keys(result).length > 0 ? result : undefined;
   }, [assignmentUsageTreeQuery.data?.tree]);
+  // Selected activities the course allows only with a reason and evidence.
+  const selectedJustificationNodes = useMemo(() => {
+    const selectedNodeIds = new Set(usageSubsectionsValue ?? []);
+    const result: Array<{ id: string; label: string; minEvidenceCount: number }> = [];
+    const stack = [...(assignmentUsageTreeQuery.data?.tree ?? [])];
+
+    while (stack.length > 0) {
+      const current = stack.pop();
+      if (!current) {
+        continue;
+      }
+      if (selectedNodeIds.has(current.id) && current.status === 'REQUIRES_JUSTIFICATION') {
+        result.push({
+          id: current.id,
+          label: current.label,
+          minEvidenceCount: current.minEvidenceCount ?? 0,
+        });
+      }
+      if (current.children && current.children.length > 0) {
+        stack.push(...current.children);
+      }
+    }
+
+    return result;
+  }, [usageSubsectionsValue, assignmentUsageTreeQuery.data?.tree]);
 
   const completionChecks = useMemo(
     () => [
@@ -515,18 +583,27 @@ export function ManualLogForm({
 
     const existing = editingLogQuery.data;
     const parsedSession = parseComplianceJustification(existing.sessionDescription ?? '');
+    // Saving re-records the log against the active taxonomy, so start from the
+    // selections as they carry over into it.
+    const migration = existing.usageMigration;
     form.reset({
       assignmentId: existing.assignmentId,
-      usageSubsections: existing.usageSubsections,
+      usageSubsections: migration?.usageSubsections ?? existing.usageSubsections,
       usageReason: existing.usageReason,
       sessionDescription: parsedSession.sessionDescription,
       aiTool: existing.aiTool ?? '',
       usageEvidence: existing.conversationLinks
         .filter((item) => item.usageNodeId && item.text)
         .map((item) => ({
-          nodeId: item.usageNodeId as string,
+          nodeId: migration
+            ? migration.evidenceNodeIds[item.usageNodeId as string] ?? null
+            : (item.usageNodeId as string),
           text: item.text as string,
-        })),
+          ...(item.conversation ? { conversation: item.conversation } : {}),
+        }))
+        .filter(
+          (item): item is ManualLogFormValues['usageEvidence'][number] => item.nodeId !== null,
+        ),
     });
   }, [editingLogQuery.data, form]);
 
@@ -570,6 +647,8 @@ export function ManualLogForm({
       ...values,
       aiTool: values.aiTool.trim(),
       usageReason: currentIntegratedComment.trim(),
+      // Exactly the previews run in this form are linked to the log.
+      intentCheckIds: complianceCheck.checkIds,
       sessionDescription: requiresComplianceJustification
         ? composeSessionDescriptionWithJustification(
             sessionDescriptionValue,
@@ -769,14 +848,33 @@ export function ManualLogForm({
                 <div className="space-y-5">
                   {assignmentUsageTreeQuery.isLoading ? (
                     <p className="text-xs text-slate-600">
-                      Loading activity rules...
+                      Loading activities...
                     </p>
                   ) : assignmentUsageTreeQuery.isError ? (
                     <p className="text-xs text-amber-700">
-                      Could not load rule badges.
+                      Could not load the activity tree.
                     </p>
                   ) : null}
+                  {usageMigration && usageMigration.changes.length > 0 ? (
+                    <div className="space-y-2 rounded-xl border border-amber-300 bg-amber-50 p-4">
+                      <p className="text-sm font-semibold text-slate-900">
+                        The activity list changed since this log was saved
+                      </p>
+                      <p className="text-xs text-slate-700">
+                        Your selections were moved from version {usageMigration.fromVersion} to{' '}
+                        {usageMigration.toVersion}. Check them before saving.
+                      </p>
+                      <ul className="list-disc space-y-1 pl-5 text-xs text-slate-700">
+                        {usageMigration.changes.map((change) => (
+                          <li key={change.oldNodeId}>
+                            {describeUsageMigrationChange(change)}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  ) : null}
                   <UsageTaxonomySelector
+                    rootNodes={usageTree}
                     value={{
                       usageSubsections: usageSubsectionsValue ?? [],
                       usageEvidence: usageEvidence ?? [],
@@ -813,6 +911,13 @@ export function ManualLogForm({
                         text: '',
                       });
                     }}
+                    onImportConversation={(nodeId, conversation) => {
+                      evidenceFieldArray.append({
+                        nodeId,
+                        text: `Imported conversation: ${conversation.title}`,
+                        conversation,
+                      });
+                    }}
                     onRemoveEvidence={(index) => {
                       evidenceFieldArray.remove(index);
                     }}
@@ -828,6 +933,27 @@ export function ManualLogForm({
                     }}
                   />
 
+                  {selectedJustificationNodes.length > 0 ? (
+                    <div className="space-y-1 rounded-xl border border-sky-300 bg-sky-50 p-4">
+                      <p className="text-sm font-semibold text-slate-900">
+                        Allowed with justification
+                      </p>
+                      <p className="text-xs text-slate-700">
+                        Explain your use in the reason field and attach the evidence below.
+                      </p>
+                      <ul className="list-disc space-y-1 pl-5 text-xs text-slate-700">
+                        {selectedJustificationNodes.map((node) => (
+                          <li key={node.id}>
+                            {node.label}
+                            {node.minEvidenceCount > 0
+                              ? `: at least ${node.minEvidenceCount} evidence item(s)`
+                              : ''}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  ) : null}
+
                   <div className="h-px bg-slate-200" />
 
                   <div className="space-y-4">
@@ -1003,6 +1129,7 @@ export function ManualLogForm({
                   message={complianceCheck.result?.message ?? complianceCheck.error}
                   detectedCategory={complianceCheck.result?.detectedCategory ?? null}
                   ruleReferences={complianceCheck.result?.ruleReferences ?? []}
+                  matchedKeywords={matchedIntentKeywords}
                 />
               </section>
             ) : (
@@ -1,15 +1,21 @@
 import { useMemo, useState } from 'react';
 
-import { getUsageTreeRootNodes, type UsageTreeNode } from '@/lib/usage-taxonomy';
+import type { ImportedConversation } from '@/lib/conversation-import';
+import type { UsageTreeNode } from '@/lib/usage-taxonomy';
 
-type UsageNodeStatus = 'ALLOWED' | 'DISALLOWED' | 'MIXED';
+import { ConversationImportPicker } from './conversation-import-picker';
+
+type UsageNodeStatus = 'ALLOWED' | 'DISALLOWED' | 'REQUIRES_JUSTIFICATION' | 'MIXED';
 
 type UsageTaxonomySelectorProps = {
+  /** Top-level sections of the taxonomy version the log is recorded against. */
+  rootNodes: UsageTreeNode[];
   value: {
     usageSubsections: string[];
     usageEvidence: Array<{
       nodeId: string;
       text: string;
+      conversation?: ImportedConversation;
     }>;
   };
   errors: {
@@ -19,6 +25,7 @@ type UsageTaxonomySelectorProps = {
   conflictNodeIds?: string[];
   onSubsectionToggle: (subsectionId: string, checked: boolean) => void;
   onAddEvidence: (nodeId: string) => void;
+  onImportConversation: (nodeId: string, conversation: ImportedConversation) => void;
   onRemoveEvidence: (index: number) => void;
   onUpdateEvidence: (
     index: number,
@@ -53,16 +60,17 @@ function filterTree(nodes: UsageTreeNode[], query: string): UsageTreeNode[] {
 }
 
 export function UsageTaxonomySelector({
+  rootNodes,
   value,
   errors,
   nodeStatusById,
   conflictNodeIds = [],
   onSubsectionToggle,
   onAddEvidence,
+  onImportConversation,
   onRemoveEvidence,
   onUpdateEvidence,
 }: UsageTaxonomySelectorProps) {
-  const rootNodes = useMemo(() => getUsageTreeRootNodes(), []);
   const [query, setQuery] = useState('');
   const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
   const conflictNodeIdSet = useMemo(() => new Set(conflictNodeIds), [conflictNodeIds]);
@@ -154,10 +162,12 @@ export function UsageTaxonomySelector({
                       ? 'border border-emerald-300 bg-emerald-100 text-emerald-800'
                       : nodeStatus === 'DISALLOWED'
                         ? 'border border-red-300 bg-red-100 text-red-800'
-                        : 'border border-amber-300 bg-amber-100 text-amber-800'
+                        : nodeStatus === 'REQUIRES_JUSTIFICATION'
+                          ? 'border border-sky-300 bg-sky-100 text-sky-800'
+                          : 'border border-amber-300 bg-amber-100 text-amber-800'
                   }`}
                 >
-                  {nodeStatus}
+                  {nodeStatus === 'REQUIRES_JUSTIFICATION' ? 'NEEDS JUSTIFICATION' : nodeStatus}
                 </span>
               ) : null}
               {isConflict ? (
@@ -183,6 +193,9 @@ export function UsageTaxonomySelector({
                 Add URL or comment
               </button>
             </div>
+            <ConversationImportPicker
+              onImport={(conversation) => onImportConversation(node.id, conversation)}
+            />
 
             {evidenceForNode.length === 0 ? (
               <p className="text-xs text-slate-500">No evidence attached to this node yet.</p>
@@ -198,6 +211,16 @@ export function UsageTaxonomySelector({
                       Remove
                     </button>
                   </div>
+                  {item.conversation ? (
+                    <p className="text-xs text-slate-700">
+                      Imported conversation: {item.conversation.title} •{' '}
+                      {
+                        item.conversation.messages.filter((message) => message.role === 'user')
+                          .length
+                      }{' '}
+                      prompt(s), checked instead of the session description
+                    </p>
+                  ) : null}
                   <textarea
                     value={item.text}
                     onChange={(event) =>
@@ -205,7 +228,11 @@ export function UsageTaxonomySelector({
                         text: event.target.value,
                       })
                     }
-                    placeholder="Add URL or comment..."
+                    placeholder={
+                      item.conversation
+                        ? 'Add a note about this conversation...'
+                        : 'Add URL or comment...'
+                    }
                     rows={3}
                     className="mt-2 w-full rounded border border-slate-300 bg-white px-2 py-1 text-xs text-slate-900"
                   />
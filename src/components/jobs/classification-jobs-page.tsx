@@ -0,0 +1,256 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+
+type ClassificationJobStatus = 'PENDING' | 'RUNNING' | 'SUCCEEDED' | 'SUPERSEDED' | 'DEAD';
+
+type ClassificationJobsResponse = {
+  counts: Record<ClassificationJobStatus, number>;
+  jobs: Array<{
+    id: string;
+    aiLogId: string;
+    logRevision: number;
+    status: ClassificationJobStatus;
+    attempts: number;
+    maxAttempts: number;
+    runAfter: string;
+    lockedAt: string | null;
+    lockedBy: string | null;
+    lastError: string | null;
+    createdAt: string;
+    updatedAt: string;
+  }>;
+};
+
+type ReclassifyScope = 'logId' | 'assignmentId' | 'courseId';
+
+type ReclassifyResponse = {
+  scope: string;
+  matched: number;
+  queued: number;
+};
+
+const RECLASSIFY_SCOPES: Array<{ value: ReclassifyScope; label: string }> = [
+  { value: 'logId', label: 'Log' },
+  { value: 'assignmentId', label: 'Assignment' },
+  { value: 'courseId', label: 'Course' },
+];
+
+const STATUS_ORDER: ClassificationJobStatus[] = [
+  'PENDING',
+  'RUNNING',
+  'SUCCEEDED',
+  'SUPERSEDED',
+  'DEAD',
+];
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    const payload = (await response.json().catch(() => ({}))) as { error?: string };
+    throw new Error(payload.error ?? `Request failed: ${response.status}`);
+  }
+  return (await response.json()) as T;
+}
+
+function statusClasses(status: ClassificationJobStatus): string {
+  if (status === 'DEAD') {
+    return 'border-red-300 bg-red-50 text-red-900';
+  }
+  if (status === 'RUNNING') {
+    return 'border-amber-300 bg-amber-50 text-amber-900';
+  }
+  return 'border-slate-300 bg-slate-100 text-slate-700';
+}
+
+export function ClassificationJobsPage() {
+  const queryClient = useQueryClient();
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [reclassifyScope, setReclassifyScope] = useState<ReclassifyScope>('assignmentId');
+  const [reclassifyId, setReclassifyId] = useState('');
+  const [reclassifyError, setReclassifyError] = useState<string | null>(null);
+
+  const jobsQuery = useQuery({
+    queryKey: ['classification-jobs'],
+    queryFn: () => fetchJson<ClassificationJobsResponse>('/api/classification-jobs'),
+    refetchInterval: 15_000,
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: (jobId: string) =>
+      fetchJson(`/api/classification-jobs/${jobId}/retry`, { method: 'POST' }),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['classification-jobs'] });
+    },
+  });
+
+  const reclassifyMutation = useMutation({
+    mutationFn: () =>
+      fetchJson<ReclassifyResponse>('/api/compliance/reclassify', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ [reclassifyScope]: reclassifyId.trim() }),
+      }),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['classification-jobs'] });
+    },
+  });
+
+  return (
+    <main className="space-y-5">
+      <header className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+        <h1 className="text-2xl font-semibold text-slate-900">Classification Jobs</h1>
+        <p className="mt-1 text-sm text-slate-600">
+          Post-session classification queue. Jobs listed below failed at least once, ran out of
+          retries, or hold an expired worker lock.
+        </p>
+      </header>
+
+      {jobsQuery.isLoading ? (
+        <p className="text-sm text-slate-700">Loading jobs...</p>
+      ) : jobsQuery.isError || !jobsQuery.data ? (
+        <p className="text-sm text-red-700">Failed to load classification jobs.</p>
+      ) : (
+        <>
+          <section className="grid gap-3 sm:grid-cols-5">
+            {STATUS_ORDER.map((status) => (
+              <div
+                key={status}
+                className="rounded-xl border border-slate-200 bg-white p-3 shadow-sm"
+              >
+                <p className="text-[11px] font-semibold uppercase tracking-wide text-slate-500">
+                  {status}
+                </p>
+                <p className="mt-1 text-2xl font-semibold text-slate-900">
+                  {jobsQuery.data.counts[status] ?? 0}
+                </p>
+              </div>
+            ))}
+          </section>
+
+          <section className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+            <h2 className="mb-3 text-lg font-semibold text-slate-900">Needs attention</h2>
+            {actionError ? <p className="mb-2 text-sm text-red-700">{actionError}</p> : null}
+            {jobsQuery.data.jobs.length === 0 ? (
+              <p className="text-sm text-slate-600">No stuck jobs.</p>
+            ) : (
+              <table className="w-full text-left text-xs">
+                <thead className="text-slate-500">
+                  <tr>
+                    <th className="py-1 pr-2 font-semibold">Log</th>
+                    <th className="py-1 pr-2 font-semibold">Status</th>
+                    <th className="py-1 pr-2 font-semibold">Attempts</th>
+                    <th className="py-1 pr-2 font-semibold">Next run</th>
+                    <th className="py-1 pr-2 font-semibold">Last error</th>
+                    <th className="py-1 font-semibold" />
+                  </tr>
+                </thead>
+                <tbody className="text-slate-800">
+                  {jobsQuery.data.jobs.map((job) => (
+                    <tr key={job.id} className="border-t border-slate-200 align-top">
+                      <td className="py-1 pr-2 font-mono">
+                        {job.aiLogId.slice(0, 8)} · rev {job.logRevision}
+                      </td>
+                      <td className="py-1 pr-2">
+                        <span
+                          className={`rounded-full border px-2 py-0.5 text-[11px] font-semibold ${statusClasses(job.status)}`}
+                        >
+                          {job.status}
+                        </span>
+                      </td>
+                      <td className="py-1 pr-2">
+                        {job.attempts}/{job.maxAttempts}
+                      </td>
+                      <td className="py-1 pr-2">
+                        {job.status === 'PENDING' ? new Date(job.runAfter).toLocaleString() : '—'}
+                      </td>
+                      <td className="py-1 pr-2 break-all text-slate-600">{job.lastError ?? '—'}</td>
+                      <td className="py-1">
+                        {job.status === 'DEAD' ? (
+                          <button
+                            type="button"
+                            disabled={retryMutation.isPending}
+                            onClick={() => {
+                              setActionError(null);
+                              retryMutation.mutate(job.id, {
+                                onError: (error) => setActionError(error.message),
+                              });
+                            }}
+                            className="rounded-md bg-slate-900 px-2.5 py-1 text-xs font-semibold text-white disabled:opacity-60"
+                          >
+                            Retry
+                          </button>
+                        ) : null}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </section>
+        </>
+      )}
+
+      <section className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+        <h2 className="text-lg font-semibold text-slate-900">Re-run classification</h2>
+        <p className="mt-1 text-sm text-slate-600">
+          Queues already classified logs to be re-classified against the policy version they were
+          submitted under. Each run adds a compliance check and an audit entry with the old and new
+          outcome.
+        </p>
+        <form
+          className="mt-3 flex flex-wrap items-end gap-2"
+          onSubmit={(event) => {
+            event.preventDefault();
+            setReclassifyError(null);
+            reclassifyMutation.mutate(undefined, {
+              onError: (error) => setReclassifyError(error.message),
+            });
+          }}
+        >
+          <label className="text-sm font-medium text-slate-800">
+            Scope
+            <select
+              value={reclassifyScope}
+              onChange={(event) => setReclassifyScope(event.target.value as ReclassifyScope)}
+              className="mt-1 block rounded-md border border-slate-300 px-2 py-1.5 text-sm"
+            >
+              {RECLASSIFY_SCOPES.map((scope) => (
+                <option key={scope.value} value={scope.value}>
+                  {scope.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="min-w-72 flex-1 text-sm font-medium text-slate-800">
+            ID
+            <input
+              value={reclassifyId}
+              onChange={(event) => setReclassifyId(event.target.value)}
+              className="mt-1 block w-full rounded-md border border-slate-300 px-3 py-1.5 font-mono text-sm"
+              placeholder="UUID"
+            />
+          </label>
+          <button
+            type="submit"
+            disabled={reclassifyMutation.isPending || reclassifyId.trim().length === 0}
+            className="rounded-md bg-slate-900 px-4 py-2 text-sm font-semibold text-white disabled:opacity-60"
+          >
+            {reclassifyMutation.isPending ? 'Queuing...' : 'Re-run'}
+          </button>
+        </form>
+        {reclassifyError ? <p className="mt-2 text-sm text-red-700">{reclassifyError}</p> : null}
+        {reclassifyMutation.data ? (
+          <p className="mt-2 text-sm text-slate-700">
+            Queued {reclassifyMutation.data.queued} of {reclassifyMutation.data.matched} logs
+            {reclassifyMutation.data.queued < reclassifyMutation.data.matched
+              ? ' (the rest were already waiting)'
+              : ''}
+            . Results appear in the audit log as the worker processes the jobs.
+          </p>
+        ) : null}
+      </section>
+    </main>
+  );
+}
@@ -4,6 +4,8 @@ import Link from 'next/link';
 import { usePathname } from 'next/navigation';
 import { signOut } from 'next-auth/react';
 
+import { NotificationDrawer } from '@/components/notifications/notification-drawer';
+
 type NavItem = {
   href: string;
   label: string;
@@ -13,6 +15,7 @@ type AppShellProps = {
   title: string;
   navItems: NavItem[];
   topSlot?: React.ReactNode;
+  showNotifications?: boolean;
   children: React.ReactNode;
 };
 
@@ -24,7 +27,13 @@ function linkClasses(isActive: boolean): string {
   return 'text-slate-700 hover:bg-slate-100';
 }
 
-export function AppShell({ title, navItems, topSlot, children }: AppShellProps) {
+export function AppShell({
+  title,
+  navItems,
+  topSlot,
+  showNotifications = false,
+  children,
+}: AppShellProps) {
   const pathname = usePathname();
 
   return (
@@ -35,13 +44,16 @@ export function AppShell({ title, navItems, topSlot, children }: AppShellProps)
             <p className="text-xs font-medium uppercase tracking-wider text-slate-500">AI Guidebook</p>
             <h1 className="text-lg font-semibold text-slate-900">{title}</h1>
           </div>
-          <button
-            type="button"
-            onClick={() => signOut({ callbackUrl: '/login' })}
-            className="rounded-md border border-slate-300 bg-white px-3 py-1.5 text-sm font-medium text-slate-700"
-          >
-            Sign out
-          </button>
+          <div className="flex items-center gap-2">
+            {showNotifications ? <NotificationDrawer /> : null}
+            <button
+              type="button"
+              onClick={() => signOut({ callbackUrl: '/login' })}
+              className="rounded-md border border-slate-300 bg-white px-3 py-1.5 text-sm font-medium text-slate-700"
+            >
+              Sign out
+            </button>
+          </div>
         </div>
       </header>
 
@@ -0,0 +1,30 @@
+'use client';
+
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { useState } from 'react';
+
+import { AppShell } from '@/components/layout/app-shell';
+
+export function InstructorShell({ children }: { children: React.ReactNode }) {
+  const [queryClient] = useState(
+    () =>
+      new QueryClient({
+        defaultOptions: {
+          queries: {
+            retry: 1,
+          },
+        },
+      }),
+  );
+
+  return (
+    <QueryClientProvider client={queryClient}>
+      <AppShell
+        title="Instructor Workspace"
+        navItems={[{ href: '/teaching', label: 'Courses' }]}
+      >
+        {children}
+      </AppShell>
+    </QueryClientProvider>
+  );
+}
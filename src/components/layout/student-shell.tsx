@@ -21,6 +21,7 @@ export function StudentShell({ children }: { children: React.ReactNode }) {
     <QueryClientProvider client={queryClient}>
       <AppShell
         title="Student Workspace"
+        showNotifications
         navItems={[
           { href: '/dashboard', label: 'Dashboard' },
           { href: '/assignments', label: 'Assignments' },
@@ -0,0 +1,100 @@
+'use client';
+
+import { useState } from 'react';
+
+import { useDashboard } from '@/hooks/useDashboard';
+import { useNotifications } from '@/hooks/useNotifications';
+
+export function NotificationDrawer() {
+  const [open, setOpen] = useState(false);
+  const dashboardQuery = useDashboard();
+  const notifications = useNotifications(open);
+  const unreadCount = dashboardQuery.data?.unreadNotificationCount ?? 0;
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        aria-label={`Notifications (${unreadCount} unread)`}
+        className="relative rounded-md border border-slate-300 bg-white px-3 py-1.5 text-sm font-medium text-slate-700"
+      >
+        Notifications
+        {unreadCount > 0 ? (
+          <span className="ml-2 inline-flex min-w-5 items-center justify-center rounded-full bg-red-600 px-1.5 text-xs font-semibold text-white">
+            {unreadCount}
+          </span>
+        ) : null}
+      </button>
+
+      {open ? (
+        <div className="fixed inset-0 z-50 flex justify-end bg-slate-900/40" onClick={() => setOpen(false)}>
+          <aside
+            role="dialog"
+            aria-label="Policy change notifications"
+            className="h-full w-full max-w-md overflow-auto bg-white p-4 shadow-xl sm:p-5"
+            onClick={(event) => event.stopPropagation()}
+          >
+            <div className="flex items-center justify-between">
+              <h2 className="text-lg font-semibold text-slate-900">Policy Updates</h2>
+              <button
+                type="button"
+                onClick={() => setOpen(false)}
+                className="rounded-md border border-slate-300 px-3 py-1.5 text-sm font-medium text-slate-700"
+              >
+                Close
+              </button>
+            </div>
+
+            {notifications.isLoading ? (
+              <p className="mt-4 text-sm text-slate-700">Loading notifications...</p>
+            ) : notifications.isError || !notifications.data ? (
+              <p className="mt-4 text-sm text-red-700">Failed to load notifications.</p>
+            ) : notifications.data.notifications.length === 0 ? (
+              <p className="mt-4 text-sm text-slate-700">No policy updates.</p>
+            ) : (
+              <ul className="mt-4 space-y-3">
+                {notifications.data.notifications.map((notification) => (
+                  <li
+                    key={notification.id}
+                    className={`rounded-lg border p-3 ${
+                      notification.isRead
+                        ? 'border-slate-200 bg-white'
+                        : 'border-sky-300 bg-sky-50'
+                    }`}
+                  >
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                      <p className="text-sm font-semibold text-slate-900">
+                        {notification.courseCode} - {notification.assignmentTitle}
+                      </p>
+                      <p className="text-xs text-slate-600">
+                        {new Date(notification.createdAt).toLocaleString()}
+                      </p>
+                    </div>
+                    <p className="mt-1 text-xs text-slate-600">
+                      {notification.oldPolicyVersion.versionNumber} →{' '}
+                      {notification.newPolicyVersion.versionNumber}
+                    </p>
+                    <p className="mt-2 whitespace-pre-wrap text-sm text-slate-800">
+                      {notification.changeSummary}
+                    </p>
+                    {!notification.isRead ? (
+                      <button
+                        type="button"
+                        disabled={notifications.isMarkingRead}
+                        onClick={() => notifications.markRead(notification.id)}
+                        className="mt-2 rounded-md bg-slate-900 px-3 py-1.5 text-xs font-semibold text-white disabled:opacity-60"
+                      >
+                        Mark as read
+                      </button>
+                    ) : null}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </aside>
+        </div>
+      ) : null}
+    </>
+  );
+}
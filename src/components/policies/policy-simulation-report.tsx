@@ -0,0 +1,261 @@
+'use client';
+
+import Link from 'next/link';
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+
+type ComplianceStatus = 'PENDING' | 'COMPLIANT' | 'WARNING' | 'NON_COMPLIANT';
+
+type SimulationTotals = {
+  evaluated: number;
+  changed: number;
+  statusChanged: number;
+  categoryChanged: number;
+  gainedConflictFlag: number;
+  gainedDirectViolationFlag: number;
+  clearedConflictFlag: number;
+  clearedDirectViolationFlag: number;
+};
+
+type SimulatedLogOutcome = {
+  complianceStatus: ComplianceStatus;
+  actualCategory: string | null;
+  conflictFlag: boolean;
+  directViolationFlag: boolean;
+};
+
+type PolicySimulationResponse = {
+  policyVersion: { id: string; versionNumber: string; status: string };
+  generatedAt: string;
+  sampleSize: number | null;
+  totals: SimulationTotals;
+  statusTransitions: Record<string, number>;
+  courses: Array<{
+    courseId: string;
+    courseCode: string;
+    totals: SimulationTotals;
+    assignments: Array<{
+      assignmentId: string;
+      assignmentTitle: string;
+      totals: SimulationTotals;
+    }>;
+  }>;
+  changes: Array<{
+    logId: string;
+    courseCode: string;
+    assignmentTitle: string;
+    current: SimulatedLogOutcome;
+    simulated: SimulatedLogOutcome;
+  }>;
+};
+
+const SAMPLE_OPTIONS = [
+  { value: '100', label: '100 most recent logs' },
+  { value: '500', label: '500 most recent logs' },
+  { value: '2000', label: '2000 most recent logs' },
+  { value: 'all', label: 'All classified logs' },
+];
+
+async function fetchJson<T>(url: string): Promise<T> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    const payload = (await response.json().catch(() => ({}))) as { error?: string };
+    throw new Error(payload.error ?? `Request failed: ${response.status}`);
+  }
+  return (await response.json()) as T;
+}
+
+function simulationUrl(policyVersionId: string, sample: string, download = false): string {
+  const params = new URLSearchParams();
+  if (sample !== 'all') {
+    params.set('sample', sample);
+  }
+  if (download) {
+    params.set('download', '1');
+  }
+  const query = params.toString();
+  return `/api/policies/${policyVersionId}/simulation${query ? `?${query}` : ''}`;
+}
+
+function flagLabel(outcome: SimulatedLogOutcome): string {
+  const flags = [
+    outcome.conflictFlag ? 'conflict' : null,
+    outcome.directViolationFlag ? 'violation' : null,
+  ].filter((flag): flag is string => flag !== null);
+  return flags.length > 0 ? flags.join(', ') : '—';
+}
+
+function TotalsRow({ label, totals }: { label: string; totals: SimulationTotals }) {
+  return (
+    <tr className="border-t border-slate-200">
+      <td className="py-1 pr-2 font-medium">{label}</td>
+      <td className="py-1 pr-2">{totals.evaluated}</td>
+      <td className="py-1 pr-2">{totals.changed}</td>
+      <td className="py-1 pr-2">{totals.statusChanged}</td>
+      <td className="py-1 pr-2">{totals.categoryChanged}</td>
+      <td className="py-1 pr-2">+{totals.gainedConflictFlag} / −{totals.clearedConflictFlag}</td>
+      <td className="py-1">
+        +{totals.gainedDirectViolationFlag} / −{totals.clearedDirectViolationFlag}
+      </td>
+    </tr>
+  );
+}
+
+export function PolicySimulationReport({ policyVersionId }: { policyVersionId: string }) {
+  const [sample, setSample] = useState('500');
+
+  const simulationQuery = useQuery({
+    queryKey: ['policy-simulation', policyVersionId, sample],
+    queryFn: () => fetchJson<PolicySimulationResponse>(simulationUrl(policyVersionId, sample)),
+    staleTime: Infinity,
+  });
+
+  const report = simulationQuery.data;
+  const transitions = report ? Object.entries(report.statusTransitions) : [];
+
+  return (
+    <main className="space-y-5">
+      <header className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+        <Link href="/policies" className="text-xs font-semibold text-slate-600 underline">
+          Back to policy versions
+        </Link>
+        <h1 className="mt-2 text-2xl font-semibold text-slate-900">
+          Policy Dry Run{report ? `: ${report.policyVersion.versionNumber}` : ''}
+        </h1>
+        <p className="mt-1 text-sm text-slate-600">
+          Re-evaluates existing classified logs with this version&apos;s rules and compares the
+          result to their stored outcome. Nothing is saved.
+        </p>
+        <div className="mt-3 flex flex-wrap items-center gap-2">
+          <label className="text-sm font-medium text-slate-800">
+            Sample
+            <select
+              value={sample}
+              onChange={(event) => setSample(event.target.value)}
+              className="ml-2 rounded-md border border-slate-300 px-2 py-1.5 text-sm"
+            >
+              {SAMPLE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <a
+            href={simulationUrl(policyVersionId, sample, true)}
+            className="rounded-md border border-slate-300 px-3 py-1.5 text-xs font-semibold text-slate-700"
+          >
+            Download JSON
+          </a>
+        </div>
+      </header>
+
+      {simulationQuery.isLoading ? (
+        <p className="text-sm text-slate-700">Running simulation...</p>
+      ) : simulationQuery.isError || !report ? (
+        <p className="text-sm text-red-700">
+          {simulationQuery.error?.message ?? 'Failed to run simulation.'}
+        </p>
+      ) : (
+        <>
+          <section className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+            <h2 className="mb-3 text-lg font-semibold text-slate-900">Impact</h2>
+            <table className="w-full text-left text-xs">
+              <thead className="text-slate-500">
+                <tr>
+                  <th className="py-1 pr-2 font-semibold">Scope</th>
+                  <th className="py-1 pr-2 font-semibold">Evaluated</th>
+                  <th className="py-1 pr-2 font-semibold">Changed</th>
+                  <th className="py-1 pr-2 font-semibold">Status changed</th>
+                  <th className="py-1 pr-2 font-semibold">Category changed</th>
+                  <th className="py-1 pr-2 font-semibold">Conflict flag</th>
+                  <th className="py-1 font-semibold">Violation flag</th>
+                </tr>
+              </thead>
+              <tbody className="text-slate-800">
+                <TotalsRow label="All logs" totals={report.totals} />
+                {report.courses.map((course) => (
+                  <TotalsRow key={course.courseId} label={course.courseCode} totals={course.totals} />
+                ))}
+              </tbody>
+            </table>
+            {transitions.length > 0 ? (
+              <ul className="mt-3 space-y-1 text-xs text-slate-700">
+                {transitions.map(([transition, count]) => (
+                  <li key={transition}>
+                    {transition.replace('->', ' → ')}: {count}
+                  </li>
+                ))}
+              </ul>
+            ) : null}
+          </section>
+
+          <section className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+            <h2 className="mb-3 text-lg font-semibold text-slate-900">By assignment</h2>
+            {report.courses.length === 0 ? (
+              <p className="text-sm text-slate-600">No classified logs to evaluate.</p>
+            ) : (
+              <div className="space-y-4">
+                {report.courses.map((course) => (
+                  <div key={course.courseId}>
+                    <h3 className="text-sm font-semibold text-slate-900">{course.courseCode}</h3>
+                    <table className="mt-1 w-full text-left text-xs">
+                      <tbody className="text-slate-800">
+                        {course.assignments.map((assignment) => (
+                          <TotalsRow
+                            key={assignment.assignmentId}
+                            label={assignment.assignmentTitle}
+                            totals={assignment.totals}
+                          />
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+
+          <section className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+            <h2 className="mb-3 text-lg font-semibold text-slate-900">
+              Changed logs ({report.changes.length})
+            </h2>
+            {report.changes.length === 0 ? (
+              <p className="text-sm text-slate-600">No log outcome would change.</p>
+            ) : (
+              <table className="w-full text-left text-xs">
+                <thead className="text-slate-500">
+                  <tr>
+                    <th className="py-1 pr-2 font-semibold">Assignment</th>
+                    <th className="py-1 pr-2 font-semibold">Status</th>
+                    <th className="py-1 pr-2 font-semibold">Category</th>
+                    <th className="py-1 font-semibold">Flags</th>
+                  </tr>
+                </thead>
+                <tbody className="text-slate-800">
+                  {report.changes.map((change) => (
+                    <tr key={change.logId} className="border-t border-slate-200 align-top">
+                      <td className="py-1 pr-2">
+                        {change.courseCode} · {change.assignmentTitle}
+                      </td>
+                      <td className="py-1 pr-2">
+                        {change.current.complianceStatus} → {change.simulated.complianceStatus}
+                      </td>
+                      <td className="py-1 pr-2">
+                        {change.current.actualCategory ?? '—'} →{' '}
+                        {change.simulated.actualCategory ?? '—'}
+                      </td>
+                      <td className="py-1">
+                        {flagLabel(change.current)} → {flagLabel(change.simulated)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </section>
+        </>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,396 @@
+'use client';
+
+import Link from 'next/link';
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+
+type SeverityLevel = 'ALLOWED' | 'MINOR' | 'MODERATE' | 'SERIOUS' | 'FORBIDDEN';
+
+type PolicyVersionListItem = {
+  id: string;
+  versionNumber: string;
+  description: string | null;
+  status: 'DRAFT' | 'ACTIVE' | 'ARCHIVED';
+  publishedAt: string | null;
+  archivedAt: string | null;
+  createdAt: string;
+  ruleCount: number;
+};
+
+type PolicyVersionsResponse = {
+  versions: PolicyVersionListItem[];
+};
+
+type PolicyVersionDetailResponse = {
+  id: string;
+  rules: Array<{
+    id: string;
+    usageCategory: string;
+    severityLevel: SeverityLevel;
+    description: string | null;
+    ruleReference: string;
+    keywords: string[];
+    keywordsNb: string[];
+    keywordsNn: string[];
+  }>;
+};
+
+type DraftRule = {
+  usageCategory: string;
+  severityLevel: SeverityLevel;
+  ruleReference: string;
+  description: string;
+  keywords: string;
+  keywordsNb: string;
+  keywordsNn: string;
+};
+
+const SEVERITY_LEVELS: SeverityLevel[] = ['ALLOWED', 'MINOR', 'MODERATE', 'SERIOUS', 'FORBIDDEN'];
+
+function emptyRule(): DraftRule {
+  return {
+    usageCategory: '',
+    severityLevel: 'ALLOWED',
+    ruleReference: '',
+    description: '',
+    keywords: '',
+    keywordsNb: '',
+    keywordsNn: '',
+  };
+}
+
+function splitKeywords(value: string): string[] {
+  return value
+    .split(',')
+    .map((keyword) => keyword.trim())
+    .filter((keyword) => keyword.length > 0);
+}
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    const payload = (await response.json().catch(() => ({}))) as { error?: string };
+    throw new Error(payload.error ?? `Request failed: ${response.status}`);
+  }
+  return (await response.json()) as T;
+}
+
+function statusClasses(status: PolicyVersionListItem['status']): string {
+  if (status === 'ACTIVE') {
+    return 'border-emerald-300 bg-emerald-50 text-emerald-900';
+  }
+  if (status === 'DRAFT') {
+    return 'border-sky-300 bg-sky-50 text-sky-900';
+  }
+  return 'border-slate-300 bg-slate-100 text-slate-700';
+}
+
+function PolicyRulesTable({ policyVersionId }: { policyVersionId: string }) {
+  const detailQuery = useQuery({
+    queryKey: ['policy-version', policyVersionId],
+    queryFn: () => fetchJson<PolicyVersionDetailResponse>(`/api/policies/${policyVersionId}`),
+  });
+
+  if (detailQuery.isLoading) {
+    return <p className="mt-2 text-xs text-slate-600">Loading rules...</p>;
+  }
+
+  if (detailQuery.isError || !detailQuery.data) {
+    return <p className="mt-2 text-xs text-red-700">Failed to load rules.</p>;
+  }
+
+  return (
+    <table className="mt-3 w-full text-left text-xs">
+      <thead className="text-slate-500">
+        <tr>
+          <th className="py-1 pr-2 font-semibold">Category</th>
+          <th className="py-1 pr-2 font-semibold">Severity</th>
+          <th className="py-1 pr-2 font-semibold">Reference</th>
+          <th className="py-1 pr-2 font-semibold">Keywords</th>
+          <th className="py-1 pr-2 font-semibold">Bokmål</th>
+          <th className="py-1 font-semibold">Nynorsk</th>
+        </tr>
+      </thead>
+      <tbody className="text-slate-800">
+        {detailQuery.data.rules.map((rule) => (
+          <tr key={rule.id} className="border-t border-slate-200 align-top">
+            <td className="py-1 pr-2 font-medium">{rule.usageCategory}</td>
+            <td className="py-1 pr-2">{rule.severityLevel}</td>
+            <td className="py-1 pr-2">{rule.ruleReference}</td>
+            <td className="py-1 pr-2">{rule.keywords.join(', ') || '—'}</td>
+            <td className="py-1 pr-2">{rule.keywordsNb.join(', ') || '—'}</td>
+            <td className="py-1">{rule.keywordsNn.join(', ') || '—'}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export function PolicyVersionsPage() {
+  const queryClient = useQueryClient();
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [versionNumber, setVersionNumber] = useState('');
+  const [description, setDescription] = useState('');
+  const [rules, setRules] = useState<DraftRule[]>([emptyRule()]);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const versionsQuery = useQuery({
+    queryKey: ['policy-versions'],
+    queryFn: () => fetchJson<PolicyVersionsResponse>('/api/policies'),
+  });
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      fetchJson<{ policyVersionId: string }>('/api/policies', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({
+          versionNumber,
+          description: description || undefined,
+          rules: rules.map((rule) => ({
+            usageCategory: rule.usageCategory,
+            severityLevel: rule.severityLevel,
+            ruleReference: rule.ruleReference,
+            description: rule.description || undefined,
+            keywords: splitKeywords(rule.keywords),
+            keywordsNb: splitKeywords(rule.keywordsNb),
+            keywordsNn: splitKeywords(rule.keywordsNn),
+          })),
+        }),
+      }),
+    onSuccess: async () => {
+      setVersionNumber('');
+      setDescription('');
+      setRules([emptyRule()]);
+      await queryClient.invalidateQueries({ queryKey: ['policy-versions'] });
+    },
+  });
+
+  const publishMutation = useMutation({
+    mutationFn: (policyVersionId: string) =>
+      fetchJson(`/api/policies/${policyVersionId}/publish`, { method: 'POST' }),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['policy-versions'] });
+    },
+  });
+
+  const updateRule = (index: number, patch: Partial<DraftRule>) => {
+    setRules((previous) =>
+      previous.map((rule, ruleIndex) => (ruleIndex === index ? { ...rule, ...patch } : rule)),
+    );
+  };
+
+  return (
+    <main className="space-y-5">
+      <header className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+        <h1 className="text-2xl font-semibold text-slate-900">Policy Versions</h1>
+        <p className="mt-1 text-sm text-slate-600">
+          Draft new institutional policy versions and publish them. Publishing archives the
+          currently active version.
+        </p>
+      </header>
+
+      <section className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+        <h2 className="mb-3 text-lg font-semibold text-slate-900">Versions</h2>
+        {versionsQuery.isLoading ? (
+          <p className="text-sm text-slate-700">Loading policy versions...</p>
+        ) : versionsQuery.isError || !versionsQuery.data ? (
+          <p className="text-sm text-red-700">Failed to load policy versions.</p>
+        ) : (
+          <div className="space-y-3">
+            {actionError ? <p className="text-sm text-red-700">{actionError}</p> : null}
+            {versionsQuery.data.versions.map((version) => (
+              <article key={version.id} className="rounded-lg border border-slate-200 p-3">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <p className="text-sm font-semibold text-slate-900">{version.versionNumber}</p>
+                    <span
+                      className={`rounded-full border px-2 py-0.5 text-[11px] font-semibold ${statusClasses(version.status)}`}
+                    >
+                      {version.status}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setExpandedId((current) => (current === version.id ? null : version.id))
+                      }
+                      className="rounded-md border border-slate-300 px-2.5 py-1 text-xs font-semibold text-slate-700"
+                    >
+                      {expandedId === version.id ? 'Hide rules' : `Rules (${version.ruleCount})`}
+                    </button>
+                    {version.status === 'DRAFT' ? (
+                      <Link
+                        href={`/policies/${version.id}/simulation`}
+                        className="rounded-md border border-slate-300 px-2.5 py-1 text-xs font-semibold text-slate-700"
+                      >
+                        Dry run
+                      </Link>
+                    ) : null}
+                    {version.status === 'DRAFT' ? (
+                      <button
+                        type="button"
+                        disabled={publishMutation.isPending}
+                        onClick={() => {
+                          setActionError(null);
+                          publishMutation.mutate(version.id, {
+                            onError: (error) => setActionError(error.message),
+                          });
+                        }}
+                        className="rounded-md bg-slate-900 px-2.5 py-1 text-xs font-semibold text-white disabled:opacity-60"
+                      >
+                        Publish
+                      </button>
+                    ) : null}
+                  </div>
+                </div>
+                {version.description ? (
+                  <p className="mt-1 text-xs text-slate-600">{version.description}</p>
+                ) : null}
+                <p className="mt-1 text-[11px] text-slate-500">
+                  Created {new Date(version.createdAt).toLocaleString()}
+                  {version.publishedAt
+                    ? ` • Published ${new Date(version.publishedAt).toLocaleString()}`
+                    : ''}
+                  {version.archivedAt
+                    ? ` • Archived ${new Date(version.archivedAt).toLocaleString()}`
+                    : ''}
+                </p>
+                {expandedId === version.id ? (
+                  <PolicyRulesTable policyVersionId={version.id} />
+                ) : null}
+              </article>
+            ))}
+          </div>
+        )}
+      </section>
+
+      <section className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+        <h2 className="mb-3 text-lg font-semibold text-slate-900">New Draft Version</h2>
+        <form
+          className="space-y-3"
+          onSubmit={(event) => {
+            event.preventDefault();
+            setFormError(null);
+            createMutation.mutate(undefined, {
+              onError: (error) => setFormError(error.message),
+            });
+          }}
+        >
+          <div className="grid gap-3 sm:grid-cols-2">
+            <label className="block text-sm font-medium text-slate-800">
+              Version number
+              <input
+                value={versionNumber}
+                onChange={(event) => setVersionNumber(event.target.value)}
+                className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+                placeholder="NTNU-Policy-v2.0"
+              />
+            </label>
+            <label className="block text-sm font-medium text-slate-800">
+              Description
+              <input
+                value={description}
+                onChange={(event) => setDescription(event.target.value)}
+                className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+              />
+            </label>
+          </div>
+
+          <div className="space-y-2">
+            {rules.map((rule, index) => (
+              <fieldset key={index} className="grid gap-2 rounded-md border border-slate-200 p-3 sm:grid-cols-5">
+                <input
+                  aria-label="Usage category"
+                  value={rule.usageCategory}
+                  onChange={(event) => updateRule(index, { usageCategory: event.target.value })}
+                  className="rounded-md border border-slate-300 px-2 py-1.5 text-sm"
+                  placeholder="Usage category"
+                />
+                <select
+                  aria-label="Severity level"
+                  value={rule.severityLevel}
+                  onChange={(event) =>
+                    updateRule(index, { severityLevel: event.target.value as SeverityLevel })
+                  }
+                  className="rounded-md border border-slate-300 px-2 py-1.5 text-sm"
+                >
+                  {SEVERITY_LEVELS.map((level) => (
+                    <option key={level} value={level}>
+                      {level}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  aria-label="Rule reference"
+                  value={rule.ruleReference}
+                  onChange={(event) => updateRule(index, { ruleReference: event.target.value })}
+                  className="rounded-md border border-slate-300 px-2 py-1.5 text-sm"
+                  placeholder="Rule reference"
+                />
+                <input
+                  aria-label="Keywords"
+                  value={rule.keywords}
+                  onChange={(event) => updateRule(index, { keywords: event.target.value })}
+                  className="rounded-md border border-slate-300 px-2 py-1.5 text-sm"
+                  placeholder="Keywords, comma separated"
+                />
+                <button
+                  type="button"
+                  onClick={() =>
+                    setRules((previous) => previous.filter((_, ruleIndex) => ruleIndex !== index))
+                  }
+                  disabled={rules.length <= 1}
+                  className="rounded-md border border-slate-300 px-2 py-1.5 text-xs font-semibold text-slate-700 disabled:opacity-50"
+                >
+                  Remove
+                </button>
+                <input
+                  aria-label="Rule description"
+                  value={rule.description}
+                  onChange={(event) => updateRule(index, { description: event.target.value })}
+                  className="rounded-md border border-slate-300 px-2 py-1.5 text-sm sm:col-span-5"
+                  placeholder="Description (optional)"
+                />
+                <input
+                  aria-label="Bokmål keywords"
+                  value={rule.keywordsNb}
+                  onChange={(event) => updateRule(index, { keywordsNb: event.target.value })}
+                  className="rounded-md border border-slate-300 px-2 py-1.5 text-sm sm:col-span-5"
+                  placeholder="Bokmål keywords, comma separated (optional)"
+                />
+                <input
+                  aria-label="Nynorsk keywords"
+                  value={rule.keywordsNn}
+                  onChange={(event) => updateRule(index, { keywordsNn: event.target.value })}
+                  className="rounded-md border border-slate-300 px-2 py-1.5 text-sm sm:col-span-5"
+                  placeholder="Nynorsk keywords, comma separated (optional)"
+                />
+              </fieldset>
+            ))}
+            <button
+              type="button"
+              onClick={() => setRules((previous) => [...previous, emptyRule()])}
+              className="rounded-md border border-slate-300 px-3 py-1.5 text-xs font-semibold text-slate-700"
+            >
+              Add rule
+            </button>
+          </div>
+
+          {formError ? <p className="text-sm text-red-700">{formError}</p> : null}
+
+          <button
+            type="submit"
+            disabled={createMutation.isPending}
+            className="rounded-md bg-slate-900 px-4 py-2 text-sm font-semibold text-white disabled:opacity-60"
+          >
+            {createMutation.isPending ? 'Saving...' : 'Create draft'}
+          </button>
+        </form>
+      </section>
+    </main>
+  );
+}
@@ -1,9 +1,18 @@
 'use client';
 
+import type { ImportedConversation } from '@/lib/conversation-import';
+
 type EvidenceLink = {
   id: string;
   usageNodeId: string | null;
   text?: string | null;
+  conversation?: ImportedConversation | null;
+};
+
+const SOURCE_LABELS: Record<ImportedConversation['source'], string> = {
+  CHATGPT: 'ChatGPT export',
+  CLAUDE: 'Claude export',
+  MARKDOWN: 'Markdown transcript',
 };
 
 type EvidenceLinkListProps = {
@@ -21,12 +30,37 @@ export function EvidenceLinkList({ links }: EvidenceLinkListProps) {
           {links.map((link) => (
             <li key={link.id} className="rounded border border-slate-200 bg-slate-50 p-2">
               <p className="text-xs uppercase tracking-wide text-slate-500">
-                Evidence
+                {link.conversation ? 'Imported conversation' : 'Evidence'}
                 {link.usageNodeId ? ` • Node: ${link.usageNodeId}` : ''}
               </p>
               <p className="mt-1 whitespace-pre-wrap text-sm text-slate-900">
                 {link.text ?? 'Evidence entry'}
               </p>
+              {link.conversation ? (
+                <details className="mt-2 rounded border border-slate-200 bg-white p-2">
+                  <summary className="cursor-pointer text-sm font-medium text-slate-900">
+                    {link.conversation.title} • {SOURCE_LABELS[link.conversation.source]} •{' '}
+                    {link.conversation.messages.length} message(s)
+                  </summary>
+                  <ol className="mt-2 space-y-2">
+                    {link.conversation.messages.map((message, index) => (
+                      <li
+                        key={index}
+                        className={`rounded p-1.5 text-sm ${
+                          message.role === 'user'
+                            ? 'bg-sky-50 text-sky-950'
+                            : 'bg-slate-50 text-slate-800'
+                        }`}
+                      >
+                        <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                          {message.role === 'user' ? 'Student' : 'AI'}
+                        </p>
+                        <p className="mt-0.5 whitespace-pre-wrap">{message.text}</p>
+                      </li>
+                    ))}
+                  </ol>
+                </details>
+              ) : null}
             </li>
           ))}
         </ul>
@@ -0,0 +1,46 @@
+'use client';
+
+type IntentCheck = {
+  id: string;
+  checkedAt: string;
+  inputText: string | null;
+  detectedCategory: string;
+  complianceResult: 'PENDING' | 'COMPLIANT' | 'WARNING' | 'NON_COMPLIANT';
+  flagsJson: {
+    source?: 'PREVIEW' | 'SUBMISSION';
+  } | null;
+};
+
+type IntentCheckTrailProps = {
+  /** PRE_SESSION checks linked to the log, newest first. */
+  checks: IntentCheck[];
+};
+
+function sourceLabel(check: IntentCheck): string {
+  return check.flagsJson?.source === 'SUBMISSION' ? 'On submission' : 'Preview';
+}
+
+export function IntentCheckTrail({ checks }: IntentCheckTrailProps) {
+  return (
+    <section className="rounded-lg border border-slate-200 bg-white p-4">
+      <h2 className="text-base font-semibold text-slate-900">Stated Intent Checks</h2>
+      {checks.length === 0 ? (
+        <p className="mt-2 text-sm text-slate-700">No intent checks were recorded for this log.</p>
+      ) : (
+        <ol className="mt-2 space-y-2">
+          {checks.map((check) => (
+            <li key={check.id} className="rounded border border-slate-200 bg-slate-50 p-2">
+              <p className="text-xs uppercase tracking-wide text-slate-500">
+                {sourceLabel(check)} • {new Date(check.checkedAt).toLocaleString()} •{' '}
+                {check.detectedCategory} • {check.complianceResult}
+              </p>
+              <p className="mt-1 whitespace-pre-wrap text-sm text-slate-900">
+                {check.inputText ?? 'Input unavailable'}
+              </p>
+            </li>
+          ))}
+        </ol>
+      )}
+    </section>
+  );
+}
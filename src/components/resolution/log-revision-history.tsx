@@ -0,0 +1,140 @@
+'use client';
+
+import { ComplianceStatusBadge } from '@/components/compliance/compliance-status-badge';
+
+type ComplianceStatus = 'PENDING' | 'COMPLIANT' | 'WARNING' | 'NON_COMPLIANT';
+
+type RevisionEvidence = {
+  usageNodeId: string | null;
+  url: string | null;
+  comment: string | null;
+  conversation?: { title: string; messages: unknown[] } | null;
+  label: string | null;
+};
+
+type FieldChange = {
+  field:
+    | 'assignmentId'
+    | 'usageSubsections'
+    | 'usageTaxonomyVersion'
+    | 'usageReason'
+    | 'sessionDescription'
+    | 'aiTool'
+    | 'evidence';
+  previous: unknown;
+  next: unknown;
+};
+
+export type LogRevision = {
+  revision: number;
+  editedBy: { id: string; name: string };
+  savedAt: string;
+  savedOutcome: { complianceStatus: ComplianceStatus };
+  classification: {
+    complianceStatus: ComplianceStatus;
+    detectedCategory: string;
+    checkedAt: string;
+  } | null;
+  changes: FieldChange[];
+};
+
+type LogRevisionHistoryProps = {
+  /** Oldest first, as returned by `GET /api/logs/:id/revisions`. */
+  revisions: LogRevision[];
+};
+
+const FIELD_LABELS: Record<FieldChange['field'], string> = {
+  assignmentId: 'Assignment',
+  usageSubsections: 'Selected activities',
+  usageTaxonomyVersion: 'Activity list version',
+  usageReason: 'Reason',
+  sessionDescription: 'Session description',
+  aiTool: 'AI tool',
+  evidence: 'Evidence',
+};
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') {
+    return '(empty)';
+  }
+  if (Array.isArray(value)) {
+    if (value.length === 0) {
+      return '(none)';
+    }
+    return value
+      .map((item) => {
+        if (typeof item !== 'object' || item === null) {
+          return String(item);
+        }
+        const evidence = item as RevisionEvidence;
+        const conversation = evidence.conversation
+          ? ` [conversation "${evidence.conversation.title}", ` +
+            `${evidence.conversation.messages.length} message(s)]`
+          : '';
+        const text = evidence.comment ?? evidence.url ?? '';
+        return `${evidence.usageNodeId ?? 'unassigned'}: ${text}${conversation}`;
+      })
+      .join('\n');
+  }
+  return String(value);
+}
+
+export function LogRevisionHistory({ revisions }: LogRevisionHistoryProps) {
+  return (
+    <section className="rounded-lg border border-slate-200 bg-white p-4">
+      <h2 className="text-base font-semibold text-slate-900">Revision History</h2>
+      {revisions.length === 0 ? (
+        <p className="mt-2 text-sm text-slate-700">No revisions were recorded for this log.</p>
+      ) : (
+        <ol className="mt-2 space-y-2">
+          {[...revisions].reverse().map((revision, index) => (
+            <li key={revision.revision} className="rounded border border-slate-200 bg-slate-50 p-2">
+              <div className="flex flex-wrap items-center gap-2">
+                <p className="text-xs uppercase tracking-wide text-slate-500">
+                  Revision {revision.revision} •{' '}
+                  {new Date(revision.savedAt).toLocaleString()} • {revision.editedBy.name}
+                </p>
+                <ComplianceStatusBadge
+                  status={
+                    revision.classification?.complianceStatus ??
+                    revision.savedOutcome.complianceStatus
+                  }
+                />
+                {revision.classification ? (
+                  <span className="text-xs text-slate-600">
+                    Classified as {revision.classification.detectedCategory}
+                  </span>
+                ) : (
+                  <span className="text-xs text-slate-600">Not classified</span>
+                )}
+              </div>
+              {index === revisions.length - 1 ? (
+                <p className="mt-1 text-sm text-slate-700">First recorded revision.</p>
+              ) : revision.changes.length === 0 ? (
+                <p className="mt-1 text-sm text-slate-700">Saved without changes.</p>
+              ) : (
+                <dl className="mt-2 space-y-2">
+                  {revision.changes.map((change) => (
+                    <div key={change.field}>
+                      <dt className="text-xs font-semibold text-slate-700">
+                        {FIELD_LABELS[change.field]}
+                      </dt>
+                      <dd className="mt-1 grid gap-2 text-sm md:grid-cols-2">
+                        <p className="whitespace-pre-wrap rounded bg-red-50 p-1.5 text-red-900 line-through">
+                          {formatValue(change.previous)}
+                        </p>
+                        <p className="whitespace-pre-wrap rounded bg-emerald-50 p-1.5 text-emerald-900">
+                          {formatValue(change.next)}
+                        </p>
+                      </dd>
+                    </div>
+                  ))}
+                </dl>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </section>
+  );
+}
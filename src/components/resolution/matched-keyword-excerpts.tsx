@@ -0,0 +1,97 @@
+'use client';
+
+import {
+  HighlightedExcerpt,
+  type HighlightSpan,
+} from '@/components/compliance/highlighted-excerpt';
+
+export type FieldHighlightSpan = HighlightSpan & {
+  field: 'usageReason' | 'sessionDescription' | 'conversationPrompts';
+};
+
+type MatchedKeywordExcerptsProps = {
+  usageReason: string | null;
+  sessionDescription: string | null;
+  /** Prompts of the imported conversations; classified instead of the description. */
+  conversationPrompts: string | null;
+  spans: FieldHighlightSpan[];
+  /** Category the flags were computed from; its hits are emphasized. */
+  evaluatedCategory: string | null;
+  /** False when the log was edited after the spans were computed. */
+  isCurrent: boolean;
+};
+
+export function MatchedKeywordExcerpts({
+  usageReason,
+  sessionDescription,
+  conversationPrompts,
+  spans,
+  evaluatedCategory,
+  isCurrent,
+}: MatchedKeywordExcerptsProps) {
+  const keywords = Array.from(
+    new Map(spans.map((span) => [`${span.usageCategory}:${span.keyword}`, span])).values(),
+  );
+
+  return (
+    <section className="rounded-lg border border-slate-200 bg-white p-4">
+      <h2 className="text-base font-semibold text-slate-900">Why It Was Classified This Way</h2>
+      {!isCurrent ? (
+        <p className="mt-2 text-sm text-slate-700">
+          The log changed after it was last classified; matched keywords will show once it has
+          been classified again.
+        </p>
+      ) : spans.length === 0 ? (
+        <p className="mt-2 text-sm text-slate-700">No policy keywords were found in the log.</p>
+      ) : (
+        <div className="mt-2 space-y-3">
+          <ul className="flex flex-wrap gap-2">
+            {keywords.map((span) => (
+              <li
+                key={`${span.usageCategory}:${span.keyword}`}
+                className={`rounded-full px-2 py-0.5 text-xs ${
+                  span.usageCategory === evaluatedCategory
+                    ? 'bg-amber-100 font-semibold text-amber-900'
+                    : 'bg-sky-50 text-sky-900'
+                }`}
+              >
+                &quot;{span.keyword}&quot; → {span.usageCategory}
+              </li>
+            ))}
+          </ul>
+          {usageReason ? (
+            <div>
+              <p className="text-xs uppercase tracking-wide text-slate-500">Usage reason</p>
+              <HighlightedExcerpt
+                text={usageReason}
+                spans={spans.filter((span) => span.field === 'usageReason')}
+                emphasisCategory={evaluatedCategory}
+              />
+            </div>
+          ) : null}
+          {conversationPrompts ? (
+            <div>
+              <p className="text-xs uppercase tracking-wide text-slate-500">
+                Prompts from imported conversations
+              </p>
+              <HighlightedExcerpt
+                text={conversationPrompts}
+                spans={spans.filter((span) => span.field === 'conversationPrompts')}
+                emphasisCategory={evaluatedCategory}
+              />
+            </div>
+          ) : sessionDescription ? (
+            <div>
+              <p className="text-xs uppercase tracking-wide text-slate-500">Session description</p>
+              <HighlightedExcerpt
+                text={sessionDescription}
+                spans={spans.filter((span) => span.field === 'sessionDescription')}
+                emphasisCategory={evaluatedCategory}
+              />
+            </div>
+          ) : null}
+        </div>
+      )}
+    </section>
+  );
+}
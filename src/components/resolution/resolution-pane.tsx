@@ -4,11 +4,18 @@ import { useState } from 'react';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { useRouter } from 'next/navigation';
 
-import { FlagReasonCard } from '@/components/compliance/flag-reason-card';
+import {
+  FlagReasonCard,
+  type CategoryRankingEntry,
+} from '@/components/compliance/flag-reason-card';
 import { useResolution } from '@/hooks/useResolution';
+import { conversationPromptText, type ImportedConversation } from '@/lib/conversation-import';
 
 import { DisputeClassificationForm } from './dispute-classification-form';
 import { EvidenceLinkList } from './evidence-link-list';
+import { IntentCheckTrail } from './intent-check-trail';
+import { LogRevisionHistory, type LogRevision } from './log-revision-history';
+import { MatchedKeywordExcerpts, type FieldHighlightSpan } from './matched-keyword-excerpts';
 import { NarrativeExplanationForm } from './narrative-explanation-form';
 import { ResolutionStatusBadge } from './resolution-status-badge';
 
@@ -20,16 +27,33 @@ type LogDetailResponse = {
   conflictFlag: boolean;
   directViolationFlag: boolean;
   resolutionStatus: 'NONE' | 'UNRESOLVED' | 'STUDENT_RESPONDED';
+  revision: number;
+  usageReason: string | null;
+  sessionDescription: string | null;
   conversationLinks: Array<{
     id: string;
     usageNodeId: string | null;
     evidenceType: string | null;
     url: string | null;
     comment: string | null;
+    conversation: ImportedConversation | null;
     label: string | null;
   }>;
   complianceChecks: Array<{
+    id: string;
+    checkType: 'PRE_SESSION' | 'POST_SESSION';
+    checkedAt: string;
+    inputText: string | null;
+    detectedCategory: string;
+    complianceResult: 'PENDING' | 'COMPLIANT' | 'WARNING' | 'NON_COMPLIANT';
     ruleReferences: string[];
+    flagsJson: {
+      categories?: CategoryRankingEntry[];
+      evaluatedCategory?: string | null;
+      source?: 'PREVIEW' | 'SUBMISSION';
+      logRevision?: number;
+      matchedSpans?: FieldHighlightSpan[];
+    } | null;
   }>;
 };
 
@@ -43,6 +67,10 @@ type ResolutionResponse = {
   } | null;
 };
 
+type LogRevisionsResponse = {
+  revisions: LogRevision[];
+};
+
 type ActivePolicyResponse = {
   rules: Array<{
     usageCategory: string;
@@ -87,6 +115,11 @@ export function ResolutionPane({ logId }: ResolutionPaneProps) {
     queryFn: () => fetchJson<ResolutionResponse>(`/api/resolutions/${logId}`),
   });
 
+  const revisionsQuery = useQuery({
+    queryKey: ['log-revisions', logId],
+    queryFn: () => fetchJson<LogRevisionsResponse>(`/api/logs/${logId}/revisions`),
+  });
+
   const policyQuery = useQuery({
     queryKey: ['active-policy-categories'],
     queryFn: () => fetchJson<ActivePolicyResponse>('/api/policies/active'),
@@ -125,7 +158,16 @@ export function ResolutionPane({ logId }: ResolutionPaneProps) {
   const resolution = resolutionQuery.data.resolution;
   const status = optimisticStatus ?? log.resolutionStatus;
   const isReadOnly = status === 'STUDENT_RESPONDED';
-  const ruleReference = log.complianceChecks.flatMap((check) => check.ruleReferences)[0] ?? 'N/A';
+  // Checks are newest first; older checks predate category rankings.
+  const postSessionChecks = log.complianceChecks.filter(
+    (check) => check.checkType === 'POST_SESSION',
+  );
+  const intentChecks = log.complianceChecks.filter((check) => check.checkType === 'PRE_SESSION');
+  const ruleReference = postSessionChecks.flatMap((check) => check.ruleReferences)[0] ?? 'N/A';
+  const latestPostSessionFlags = postSessionChecks[0]?.flagsJson;
+  const conversationPrompts = conversationPromptText(
+    log.conversationLinks.flatMap((link) => (link.conversation ? [link.conversation] : [])),
+  );
 
   const categories = Array.from(
     new Set((policyQuery.data?.rules ?? []).map((rule) => rule.usageCategory)),
@@ -145,12 +187,31 @@ export function ResolutionPane({ logId }: ResolutionPaneProps) {
         conflictFlag={log.conflictFlag}
         directViolationFlag={log.directViolationFlag}
         ruleReference={ruleReference}
+        categoryRanking={latestPostSessionFlags?.categories}
+        evaluatedCategory={latestPostSessionFlags?.evaluatedCategory}
+      />
+
+      <MatchedKeywordExcerpts
+        usageReason={log.usageReason}
+        sessionDescription={log.sessionDescription}
+        conversationPrompts={conversationPrompts || null}
+        spans={latestPostSessionFlags?.matchedSpans ?? []}
+        evaluatedCategory={latestPostSessionFlags?.evaluatedCategory ?? null}
+        isCurrent={latestPostSessionFlags?.logRevision === log.revision}
       />
 
       <div>
         <EvidenceLinkList links={log.conversationLinks} />
       </div>
 
+      <IntentCheckTrail checks={intentChecks} />
+
+      {revisionsQuery.data ? (
+        <LogRevisionHistory revisions={revisionsQuery.data.revisions} />
+      ) : revisionsQuery.isError ? (
+        <p className="text-sm text-red-700">Failed to load the revision history.</p>
+      ) : null}
+
       {isReadOnly ? (
         <section className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
           <h2 className="text-base font-semibold text-slate-900">Submitted Resolution</h2>
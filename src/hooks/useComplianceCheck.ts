@@ -2,19 +2,27 @@
 
 import { useEffect, useMemo, useState } from 'react';
 
+import { MAX_LINKED_INTENT_CHECKS } from '@/lib/validations/log.schema';
+
 type CompliancePreview = {
+  /** The stored PRE_SESSION check; linked to the log when it is submitted. */
+  checkId: string;
   status: 'PENDING' | 'COMPLIANT' | 'WARNING' | 'NON_COMPLIANT';
   severityLevel: 'ALLOWED' | 'MINOR' | 'MODERATE' | 'SERIOUS' | 'FORBIDDEN' | null;
   isSerious: boolean;
   detectedCategory: string | null;
   ruleReferences: string[];
   message: string;
+  /** Keyword hits in the checked reason, with character offsets into it. */
+  matchedSpans: Array<{ start: number; end: number; usageCategory: string; keyword: string }>;
 };
 
 type UseComplianceCheckState = {
   result: CompliancePreview | null;
   isLoading: boolean;
   error: string | null;
+  /** Every check stored so far (most recent last); sent with the log as `intentCheckIds`. */
+  checkIds: string[];
 };
 
 export function useComplianceCheck(reason: string, assignmentId: string | null) {
@@ -22,13 +30,14 @@ export function useComplianceCheck(reason: string, assignmentId: string | null)
     result: null,
     isLoading: false,
     error: null,
+    checkIds: [],
   });
 
   const trimmedReason = useMemo(() => reason.trim(), [reason]);
 
   useEffect(() => {
     if (!assignmentId || trimmedReason.length === 0) {
-      setState({ result: null, isLoading: false, error: null });
+      setState((prev) => ({ ...prev, result: null, isLoading: false, error: null }));
       return;
     }
 
@@ -54,12 +63,22 @@ export function useComplianceCheck(reason: string, assignmentId: string | null)
         }
 
         const payload = (await response.json()) as CompliancePreview;
-        setState({ result: payload, isLoading: false, error: null });
+        setState((prev) => ({
+          result: payload,
+          isLoading: false,
+          error: null,
+          checkIds: [...prev.checkIds, payload.checkId].slice(-MAX_LINKED_INTENT_CHECKS),
+        }));
       } catch (error) {
         if ((error as { name?: string })?.name === 'AbortError') {
           return;
         }
-        setState({ result: null, isLoading: false, error: 'Compliance check failed' });
+        setState((prev) => ({
+          ...prev,
+          result: null,
+          isLoading: false,
+          error: 'Compliance check failed',
+        }));
       }
     }, 400);
 
@@ -0,0 +1,73 @@
+'use client';
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+
+export type PolicyChangeNotificationItem = {
+  id: string;
+  assignmentId: string;
+  assignmentTitle: string;
+  courseCode: string;
+  oldPolicyVersion: { id: string; versionNumber: string };
+  newPolicyVersion: { id: string; versionNumber: string };
+  changeSummary: string;
+  isRead: boolean;
+  createdAt: string;
+};
+
+export type NotificationsResponse = {
+  notifications: PolicyChangeNotificationItem[];
+  unreadCount: number;
+};
+
+async function fetchNotifications(): Promise<NotificationsResponse> {
+  const response = await fetch('/api/notifications', {
+    method: 'GET',
+    cache: 'no-store',
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to load notifications');
+  }
+
+  return (await response.json()) as NotificationsResponse;
+}
+
+export function useNotifications(enabled: boolean) {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: ['notifications'],
+    queryFn: fetchNotifications,
+    enabled,
+  });
+
+  const markReadMutation = useMutation({
+    mutationFn: async (notificationId: string) => {
+      const response = await fetch(`/api/notifications/${notificationId}`, {
+        method: 'PATCH',
+        headers: {
+          'content-type': 'application/json',
+        },
+        body: JSON.stringify({ isRead: true }),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to update notification');
+      }
+
+      return (await response.json()) as { id: string; isRead: boolean };
+    },
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['notifications'] });
+      await queryClient.invalidateQueries({ queryKey: ['dashboard'] });
+    },
+  });
+
+  return {
+    data: query.data,
+    isLoading: query.isLoading,
+    isError: query.isError,
+    markRead: markReadMutation.mutate,
+    isMarkingRead: markReadMutation.isPending,
+  };
+}
@@ -0,0 +1,13 @@
+/**
+ * Next.js server start hook. Runs the post-session classification worker in
+ * the Node.js server process unless CLASSIFICATION_WORKER=off (e.g. when a
+ * separate worker process is deployed).
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs' || process.env.CLASSIFICATION_WORKER === 'off') {
+    return;
+  }
+
+  const { runClassificationWorker } = await import('@/lib/jobs/classification-worker');
+  void runClassificationWorker();
+}
@@ -6,11 +6,25 @@ export type AuditActionType =
   | 'USER_LOGIN'
   | 'LOG_CREATED'
   | 'COMPLIANCE_CLASSIFIED'
+  | 'COMPLIANCE_RECLASSIFIED'
+  | 'COMPLIANCE_RECLASSIFY_QUEUED'
   | 'DECLARATION_EXPORTED'
   | 'RESOLUTION_SUBMITTED'
   | 'STAFF_VIEW'
   | 'POLICY_VERSION_CREATED'
-  | 'POLICY_VERSION_PUBLISHED';
+  | 'POLICY_VERSION_PUBLISHED'
+  | 'USAGE_TAXONOMY_CREATED'
+  | 'USAGE_TAXONOMY_MAPPING_UPDATED'
+  | 'USAGE_TAXONOMY_CATEGORIES_UPDATED'
+  | 'USAGE_TAXONOMY_PUBLISHED'
+  | 'USAGE_TAXONOMY_ARCHIVED'
+  | 'COURSE_USAGE_RULE_CHANGED'
+  | 'ASSIGNMENT_USAGE_RULE_CHANGED'
+  | 'COURSE_USAGE_RULES_COPIED'
+  | 'USAGE_RULE_TEMPLATE_CREATED'
+  | 'USAGE_RULE_TEMPLATE_UPDATED'
+  | 'USAGE_RULE_TEMPLATE_DELETED'
+  | 'CLASSIFICATION_JOB_RETRIED';
 
 export interface WriteAuditLogInput {
   actorId: string;
@@ -6,6 +6,7 @@ type RequestWithAuth = NextRequest & { auth?: Session | null };
 
 const PUBLIC_PATHS = ['/login', '/callback'];
 const STATIC_PREFIXES = ['/api/auth', '/api/compliance/classify', '/_next', '/favicon.ico'];
+const ADMIN_PATHS = ['/admin', '/policies', '/classification-jobs'];
 
 function isPublicPath(pathname: string) {
   return (
@@ -14,6 +15,10 @@ function isPublicPath(pathname: string) {
   );
 }
 
+function isAdminPath(pathname: string) {
+  return ADMIN_PATHS.some((path) => pathname === path || pathname.startsWith(`${path}/`));
+}
+
 function forbiddenResponse(pathname: string) {
   if (pathname.startsWith('/api/')) {
     return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
@@ -43,7 +48,7 @@ export function authGuard(request: RequestWithAuth) {
     return unauthenticatedResponse(pathname, request.url);
   }
 
-  if (session.user.role !== UserRole.ADMIN && pathname.startsWith('/admin')) {
+  if (session.user.role !== UserRole.ADMIN && isAdminPath(pathname)) {
     return forbiddenResponse(pathname);
   }
 
@@ -0,0 +1,298 @@
+import { SeverityLevel } from '@prisma/client';
+import { z } from 'zod';
+
+import type { ContentClassifierStrategy } from './content-classifier';
+import { evaluateIntentFromRules } from './intent-evaluator';
+import type { PolicyRuleRecord } from './policy-evaluator';
+
+/** Confusion-matrix label for "no category detected" / "none expected". */
+export const NO_CATEGORY_LABEL = '(none)';
+
+export const goldExampleSchema = z
+  .object({
+    id: z.string().trim().min(1).optional(),
+    text: z.string().trim().min(1),
+    /** null: the text should not match any rule. */
+    expectedCategory: z.string().trim().min(1).nullable(),
+    expectedSeverity: z.enum(SeverityLevel).nullable().optional(),
+  })
+  .strict();
+
+export type GoldExample = z.infer<typeof goldExampleSchema>;
+
+export interface ClassifierPrediction {
+  category: string | null;
+  severity: SeverityLevel | null;
+  /** Set when the strategy answered through its fallback (see `fallbackReason`). */
+  fallbackReason?: string;
+}
+
+export interface CategoryMetrics {
+  usageCategory: string;
+  /** Examples labelled with this category. */
+  support: number;
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  /** null when the category was never predicted (precision) or never expected (recall). */
+  precision: number | null;
+  recall: number | null;
+  f1: number | null;
+}
+
+export interface ClassifierEvaluationReport {
+  name: string;
+  total: number;
+  correct: number;
+  accuracy: number;
+  /** Over examples with an `expectedSeverity`; null when none have one. */
+  severityAccuracy: number | null;
+  /**
+   * Examples the strategy answered through its fallback; their predictions
+   * score the fallback, not the strategy itself.
+   */
+  fallbacks: number;
+  categories: CategoryMetrics[];
+  /** `matrix[expected][predicted]`, both indexed by `labels`. */
+  confusion: { labels: string[]; matrix: number[][] };
+  misclassified: Array<{
+    id: string;
+    text: string;
+    expectedCategory: string | null;
+    predictedCategory: string | null;
+  }>;
+}
+
+export class GoldDatasetError extends Error {
+  readonly line: number;
+
+  constructor(line: number, message: string) {
+    super(`Line ${line}: ${message}`);
+    this.name = 'GoldDatasetError';
+    this.line = line;
+  }
+}
+
+/**
+ * Parses a JSON Lines dataset, one `GoldExample` per line. Blank lines and
+ * lines starting with `#` are skipped; examples without an `id` get
+ * `line-<n>`.
+ */
+export function parseGoldDataset(content: string): GoldExample[] {
+  const examples: GoldExample[] = [];
+
+  content.split('\n').forEach((raw, index) => {
+    const line = raw.trim();
+    if (line.length === 0 || line.startsWith('#')) {
+      return;
+    }
+
+    let json: unknown;
+    try {
+      json = JSON.parse(line);
+    } catch {
+      throw new GoldDatasetError(index + 1, 'not valid JSON');
+    }
+
+    const parsed = goldExampleSchema.safeParse(json);
+    if (!parsed.success) {
+      throw new GoldDatasetError(
+        index + 1,
+        parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; '),
+      );
+    }
+
+    examples.push({ ...parsed.data, id: parsed.data.id ?? `line-${index + 1}` });
+  });
+
+  return examples;
+}
+
+/** Examples whose expected category is not a rule of the evaluated policy version. */
+export function findUnknownCategories(
+  examples: GoldExample[],
+  rules: PolicyRuleRecord[],
+): string[] {
+  const known = new Set(rules.map((rule) => rule.usageCategory));
+  return Array.from(
+    new Set(
+      examples
+        .map((example) => example.expectedCategory)
+        .filter((category): category is string => category !== null && !known.has(category)),
+    ),
+  ).sort();
+}
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator === 0 ? null : Math.round((numerator / denominator) * 1000) / 1000;
+}
+
+/**
+ * Scores predictions (same order as `examples`) against the labels. Per
+ * category metrics are one-vs-rest; "no category" is a label of its own in
+ * the confusion matrix but has no precision/recall row.
+ */
+export function scoreClassifier(
+  name: string,
+  examples: GoldExample[],
+  predictions: ClassifierPrediction[],
+): ClassifierEvaluationReport {
+  const mentioned = [
+    ...examples.map((example) => example.expectedCategory),
+    ...predictions.map((prediction) => prediction.category),
+  ];
+  const categoryNames = Array.from(
+    new Set(mentioned.filter((category): category is string => category !== null)),
+  ).sort((a, b) => a.localeCompare(b));
+  const labels = [...categoryNames, NO_CATEGORY_LABEL];
+  const labelIndex = new Map(labels.map((label, index) => [label, index]));
+  const matrix = labels.map(() => labels.map(() => 0));
+
+  let correct = 0;
+  let severityTotal = 0;
+  let severityCorrect = 0;
+  const misclassified: ClassifierEvaluationReport['misclassified'] = [];
+
+  examples.forEach((example, index) => {
+    const prediction = predictions[index] ?? { category: null, severity: null };
+    const expected = labelIndex.get(example.expectedCategory ?? NO_CATEGORY_LABEL) ?? 0;
+    const predicted = labelIndex.get(prediction.category ?? NO_CATEGORY_LABEL) ?? 0;
+    matrix[expected][predicted] += 1;
+
+    if (example.expectedCategory === prediction.category) {
+      correct += 1;
+    } else {
+      misclassified.push({
+        id: example.id ?? `example-${index + 1}`,
+        text: example.text,
+        expectedCategory: example.expectedCategory,
+        predictedCategory: prediction.category,
+      });
+    }
+
+    if (example.expectedSeverity !== undefined) {
+      severityTotal += 1;
+      if (example.expectedSeverity === prediction.severity) {
+        severityCorrect += 1;
+      }
+    }
+  });
+
+  const categories = categoryNames.map((usageCategory): CategoryMetrics => {
+    const index = labelIndex.get(usageCategory) ?? 0;
+    const truePositives = matrix[index][index];
+    const support = matrix[index].reduce((sum, count) => sum + count, 0);
+    const predictedCount = matrix.reduce((sum, row) => sum + row[index], 0);
+    const precision = ratio(truePositives, predictedCount);
+    const recall = ratio(truePositives, support);
+
+    return {
+      usageCategory,
+      support,
+      truePositives,
+      falsePositives: predictedCount - truePositives,
+      falseNegatives: support - truePositives,
+      precision,
+      recall,
+      f1:
+        precision === null || recall === null || precision + recall === 0
+          ? null
+          : Math.round(((2 * precision * recall) / (precision + recall)) * 1000) / 1000,
+    };
+  });
+
+  return {
+    name,
+    total: examples.length,
+    correct,
+    accuracy: ratio(correct, examples.length) ?? 0,
+    severityAccuracy: ratio(severityCorrect, severityTotal),
+    fallbacks: predictions.filter((prediction) => prediction.fallbackReason !== undefined).length,
+    categories,
+    confusion: { labels, matrix },
+    misclassified,
+  };
+}
+
+function severityOf(category: string | null, rules: PolicyRuleRecord[]): SeverityLevel | null {
+  return rules.find((rule) => rule.usageCategory === category)?.severityLevel ?? null;
+}
+
+/**
+ * Runs each strategy, plus the pre-session intent evaluator (reported as
+ * `intent`), over the dataset using one policy version's rules.
+ */
+export async function evaluateClassifiers(
+  examples: GoldExample[],
+  rules: PolicyRuleRecord[],
+  strategies: Array<{ name: string; classifier: ContentClassifierStrategy }>,
+): Promise<ClassifierEvaluationReport[]> {
+  const reports: ClassifierEvaluationReport[] = [];
+
+  for (const { name, classifier } of strategies) {
+    const predictions: ClassifierPrediction[] = [];
+    for (const example of examples) {
+      const result = await classifier.classify(example.text, rules);
+      predictions.push({
+        category: result.detectedCategory,
+        severity: severityOf(result.detectedCategory, rules),
+        ...(result.fallbackReason ? { fallbackReason: result.fallbackReason } : {}),
+      });
+    }
+    reports.push(scoreClassifier(name, examples, predictions));
+  }
+
+  const intentPredictions = examples.map((example) => {
+    const result = evaluateIntentFromRules(example.text, rules);
+    return { category: result.detectedCategory, severity: result.severityLevel };
+  });
+  reports.push(scoreClassifier('intent', examples, intentPredictions));
+
+  return reports;
+}
+
+function percent(value: number | null): string {
+  return value === null ? '—' : `${(value * 100).toFixed(1)}%`;
+}
+
+function table(rows: string[][]): string {
+  const widths = rows[0].map((_, column) =>
+    Math.max(...rows.map((row) => (row[column] ?? '').length)),
+  );
+  return rows
+    .map((row) => row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd())
+    .join('\n');
+}
+
+/** Plain-text rendering for terminals and CI logs. */
+export function formatEvaluationReport(report: ClassifierEvaluationReport): string {
+  const metrics = table([
+    ['Category', 'Support', 'Precision', 'Recall', 'F1'],
+    ...report.categories.map((category) => [
+      category.usageCategory,
+      String(category.support),
+      percent(category.precision),
+      percent(category.recall),
+      percent(category.f1),
+    ]),
+  ]);
+
+  // Columns are numbered to keep the matrix narrow; rows carry the names.
+  const confusion = table([
+    ['expected \\ predicted', ...report.confusion.labels.map((_, index) => `[${index + 1}]`)],
+    ...report.confusion.matrix.map((row, index) => [
+      `[${index + 1}] ${report.confusion.labels[index]}`,
+      ...row.map(String),
+    ]),
+  ]);
+
+  return [
+    `== ${report.name}: ${report.correct}/${report.total} correct ` +
+      `(accuracy ${percent(report.accuracy)}, severity ${percent(report.severityAccuracy)})` +
+      (report.fallbacks > 0 ? ` — ${report.fallbacks} answered by the fallback strategy` : ''),
+    '',
+    metrics,
+    '',
+    confusion,
+  ].join('\n');
+}
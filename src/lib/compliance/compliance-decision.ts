@@ -0,0 +1,124 @@
+import { ComplianceStatus, ResolutionStatus, SeverityLevel } from '@prisma/client';
+
+/** Course usage-tree nodes the student selected that the course restricts. */
+export interface CourseTreeSignals {
+  /** Selected nodes the course disallows. */
+  disallowedSelections: string[];
+  /** Selected parent nodes the course marks as "allowed with a warning". */
+  warningParentSelections: string[];
+  /** Selected nodes the course allows with a justification the log provides. */
+  justifiedSelections?: string[];
+}
+
+/** The post-session evaluation of the log's current revision. */
+export interface PostSessionSignals {
+  conflictFlag: boolean;
+  directViolationFlag: boolean;
+  flagSeverity: SeverityLevel | null;
+  ruleReferences: string[];
+  /** Set when the classification contradicts the category implied by the tree selection. */
+  selectionConflict?: { ruleReferences: string[] } | null;
+}
+
+export interface ComplianceSignals {
+  courseTree: CourseTreeSignals;
+  /**
+   * Status of the pre-session intent check for this revision. Only consulted
+   * until post-session classification has run.
+   */
+  intentStatus?: ComplianceStatus | null;
+  /** Null until post-session classification has run for this revision. */
+  postSession?: PostSessionSignals | null;
+  /** The log's stored resolution status. Defaults to NONE. */
+  currentResolutionStatus?: ResolutionStatus;
+  /**
+   * Set for re-runs of an unchanged revision (reclassification): an existing
+   * resolution is kept even when no longer required, and only a missing one
+   * is opened.
+   */
+  keepExistingResolution?: boolean;
+}
+
+export interface ComplianceDecision {
+  complianceStatus: ComplianceStatus;
+  flagSeverity: SeverityLevel | null;
+  conflictFlag: boolean;
+  directViolationFlag: boolean;
+  requiresResolution: boolean;
+  resolutionStatus: ResolutionStatus;
+  /**
+   * Policy rule references, then `COURSE_USAGE_RULE:` / `COURSE_USAGE_WARNING:` /
+   * `COURSE_USAGE_JUSTIFIED:` nodes.
+   */
+  ruleReferences: string[];
+}
+
+/**
+ * The one place log compliance is decided, for submissions, edits,
+ * classification runs and policy simulations alike:
+ *
+ * 1. A disallowed course-tree selection, a post-session conflict (with the
+ *    stated intent or with the tree selection) or a direct policy violation
+ *    is NON_COMPLIANT. Tree violations count as FORBIDDEN
+ *    direct violations.
+ * 2. Before classification, a NON_COMPLIANT intent check is NON_COMPLIANT.
+ * 3. A warned or justified course-tree selection is WARNING.
+ * 4. Otherwise the log is PENDING until classified, then COMPLIANT.
+ *
+ * A resolution is required for conflicts and direct violations.
+ */
+export function decideCompliance(signals: ComplianceSignals): ComplianceDecision {
+  const { disallowedSelections, warningParentSelections } = signals.courseTree;
+  const justifiedSelections = signals.courseTree.justifiedSelections ?? [];
+  const postSession = signals.postSession ?? null;
+  const treeViolation = disallowedSelections.length > 0;
+  const treeWarning = warningParentSelections.length > 0 || justifiedSelections.length > 0;
+
+  const conflictFlag =
+    (postSession?.conflictFlag ?? false) || Boolean(postSession?.selectionConflict);
+  const directViolationFlag = (postSession?.directViolationFlag ?? false) || treeViolation;
+  const flagSeverity = treeViolation
+    ? SeverityLevel.FORBIDDEN
+    : (postSession?.flagSeverity ?? null);
+
+  const complianceStatus = (() => {
+    if (conflictFlag || directViolationFlag) {
+      return ComplianceStatus.NON_COMPLIANT;
+    }
+    if (!postSession && signals.intentStatus === ComplianceStatus.NON_COMPLIANT) {
+      return ComplianceStatus.NON_COMPLIANT;
+    }
+    if (treeWarning) {
+      return ComplianceStatus.WARNING;
+    }
+    return postSession ? ComplianceStatus.COMPLIANT : ComplianceStatus.PENDING;
+  })();
+
+  const requiresResolution = conflictFlag || directViolationFlag;
+  const current = signals.currentResolutionStatus ?? ResolutionStatus.NONE;
+  const resolutionStatus = signals.keepExistingResolution
+    ? requiresResolution && current === ResolutionStatus.NONE
+      ? ResolutionStatus.UNRESOLVED
+      : current
+    : requiresResolution
+      ? ResolutionStatus.UNRESOLVED
+      : ResolutionStatus.NONE;
+
+  return {
+    complianceStatus,
+    flagSeverity,
+    conflictFlag,
+    directViolationFlag,
+    requiresResolution,
+    resolutionStatus,
+    ruleReferences: Array.from(
+      new Set([
+        ...(postSession?.ruleReferences ?? []),
+        ...(postSession?.selectionConflict?.ruleReferences ?? []),
+        ...disallowedSelections.map((nodeId) => `COURSE_USAGE_RULE:${nodeId}`),
+        ...warningParentSelections.map((nodeId) => `COURSE_USAGE_WARNING:${nodeId}`),
+        ...justifiedSelections.map((nodeId) => `COURSE_USAGE_JUSTIFIED:${nodeId}`),
+      ]),
+    ),
+  };
+}
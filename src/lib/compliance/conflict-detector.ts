@@ -1,9 +1,11 @@
 import { SeverityLevel } from '@prisma/client';
 
 import { severityRank } from './content-classifier';
-import type { PolicyRuleProvider } from './policy-evaluator';
+import type { PolicyRuleProvider, PolicyRuleRecord } from './policy-evaluator';
 
 export interface ConflictDetectionResult {
+  /** The detected category the flags were computed from. */
+  evaluatedCategory: string | null;
   conflictFlag: boolean;
   directViolationFlag: boolean;
   flagSeverity: SeverityLevel | null;
@@ -17,16 +19,36 @@ export class ConflictDetector {
     this.ruleProvider = ruleProvider;
   }
 
+  /**
+   * `actualCategories` is either the single detected category or every
+   * confidently detected category, best first. With several, the most severe
+   * one is evaluated (earlier entries win ties), so a session that mixes
+   * grammar help with full-text generation is judged on the latter.
+   */
   async detect(
     intentCategory: string | null,
-    actualCategory: string | null,
+    actualCategories: string | readonly string[] | null,
     policyVersionId: string,
   ): Promise<ConflictDetectionResult> {
     const rules = await this.ruleProvider.getRules(policyVersionId);
+    const candidates =
+      actualCategories === null
+        ? []
+        : typeof actualCategories === 'string'
+          ? [actualCategories]
+          : actualCategories;
 
-    const actualRule = actualCategory
-      ? rules.find((rule) => rule.usageCategory === actualCategory)
-      : null;
+    let actualRule: PolicyRuleRecord | null = null;
+    for (const category of candidates) {
+      const rule = rules.find((candidate) => candidate.usageCategory === category);
+      if (
+        rule &&
+        (!actualRule || severityRank(rule.severityLevel) > severityRank(actualRule.severityLevel))
+      ) {
+        actualRule = rule;
+      }
+    }
+    const actualCategory = actualRule?.usageCategory ?? candidates[0] ?? null;
     const intentRule = intentCategory
       ? rules.find((rule) => rule.usageCategory === intentCategory)
       : null;
@@ -49,6 +71,7 @@ export class ConflictDetector {
     );
 
     return {
+      evaluatedCategory: actualCategory,
       conflictFlag,
       directViolationFlag,
       flagSeverity: actualSeverity,
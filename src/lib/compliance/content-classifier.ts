@@ -1,79 +1,341 @@
 import { type SeverityLevel } from '@prisma/client';
 
+import { createHttpClassifierFromEnv } from './external-classifier';
+import { locateRuleKeywords, sortMatchedSpans, type MatchedSpan } from './keyword-spans';
+import {
+  AnalyzedText,
+  keywordsForLanguage,
+  tokenizeText,
+  type LocalizedKeyword,
+  type SupportedLanguage,
+} from './language';
 import type { PolicyRuleRecord } from './policy-evaluator';
 
 export interface ContentClassificationResult {
+  /** Top-ranked category; `categories[0]` when anything matched. */
   detectedCategory: string | null;
   ruleReferences: string[];
+  /** Every matched category, best first. Empty when nothing matched. */
+  categories: RankedCategory[];
+  /** Per-rule scoring details, for strategies that produce them. */
+  scoring?: ClassificationScoring;
+  /** Where the keywords that counted occur in the text, in reading order. */
+  matchedSpans?: MatchedSpan[];
+  /** Detected language of the classified text. */
+  language?: SupportedLanguage;
+  /** Set when an external strategy failed and its local fallback produced this result. */
+  fallbackReason?: string;
 }
 
+export type RankedCategory = {
+  usageCategory: string;
+  ruleReference: string;
+  severityLevel: SeverityLevel;
+  score: number;
+  /** Share of the total score across all matched categories, 0–1. */
+  confidence: number;
+};
+
+/**
+ * Categories below this confidence are listed in the ranking but not acted on;
+ * the top-ranked category always counts as detected.
+ */
+export const MIN_CATEGORY_CONFIDENCE = 0.25;
+
+export type KeywordMatch = {
+  keyword: string;
+  /** Which of the rule's keyword lists the keyword came from. */
+  language: SupportedLanguage;
+  weight: number;
+  /** Hits that counted towards the score. */
+  count: number;
+  /** Hits preceded by a negation ("did not generate code") and ignored. */
+  negatedCount: number;
+};
+
+export type RuleScore = {
+  usageCategory: string;
+  severityLevel: SeverityLevel;
+  score: number;
+  matches: KeywordMatch[];
+};
+
+export type ClassificationTieBreak = 'severity' | 'matchCount' | 'category';
+
+export type ClassificationScoring = {
+  strategy: string;
+  language: SupportedLanguage;
+  /** Rules with at least one (possibly negated) hit, best first. */
+  rules: RuleScore[];
+  /** Set when the winner had the same score as the runner-up. */
+  tieBrokenBy: ClassificationTieBreak | null;
+};
+
 export interface ContentClassifierStrategy {
-  classify(text: string, rules: PolicyRuleRecord[]): ContentClassificationResult;
+  classify(text: string, rules: PolicyRuleRecord[]): Promise<ContentClassificationResult>;
 }
 
 function normalize(input: string): string {
   return input.trim().toLowerCase();
 }
 
-class KeywordContentClassifier implements ContentClassifierStrategy {
-  classify(text: string, rules: PolicyRuleRecord[]): ContentClassificationResult {
+/** Turns already ordered (best first) rule scores into a ranking with confidences. */
+function rankCategories(
+  ordered: Array<{ rule: PolicyRuleRecord; score: number }>,
+): RankedCategory[] {
+  const matched = ordered.filter((entry) => entry.score > 0);
+  const total = matched.reduce((sum, entry) => sum + entry.score, 0);
+
+  return matched.map(({ rule, score }) => ({
+    usageCategory: rule.usageCategory,
+    ruleReference: rule.ruleReference,
+    severityLevel: rule.severityLevel,
+    score,
+    confidence: Math.round((score / total) * 1000) / 1000,
+  }));
+}
+
+/** The ranked categories a decision should consider: the top one plus every confident one. */
+export function confidentCategories(categories: RankedCategory[]): RankedCategory[] {
+  return categories.filter(
+    (category, index) => index === 0 || category.confidence >= MIN_CATEGORY_CONFIDENCE,
+  );
+}
+
+export class KeywordContentClassifier implements ContentClassifierStrategy {
+  async classify(
+    text: string,
+    rules: PolicyRuleRecord[],
+  ): Promise<ContentClassificationResult> {
     const normalized = normalize(text);
+    const analysis = new AnalyzedText(text);
 
-    let best: { category: string; ruleReference: string; score: number } | null = null;
+    const scored: Array<{ rule: PolicyRuleRecord; score: number }> = [];
 
     for (const rule of rules) {
       let score = 0;
 
-      for (const keyword of rule.keywords) {
-        const normalizedKeyword = normalize(keyword);
+      for (const keyword of keywordsForLanguage(rule, analysis.language)) {
+        const normalizedKeyword = normalize(keyword.keyword);
         if (!normalizedKeyword) {
           continue;
         }
 
-        if (normalized.includes(normalizedKeyword)) {
+        // Substring hits keep the original behaviour; stemmed whole-word hits
+        // add inflected forms ("genererte koden" for "generere kode").
+        if (normalized.includes(normalizedKeyword) || analysis.containsKeyword(keyword)) {
           score += 1;
         }
       }
 
-      if (score <= 0) {
-        continue;
+      scored.push({ rule, score });
+    }
+
+    // Stable sort: equal scores keep rule order, so the first rule to reach
+    // the top score still wins as before.
+    const categories = rankCategories(scored.sort((a, b) => b.score - a.score));
+    const best = categories[0];
+
+    return {
+      detectedCategory: best?.usageCategory ?? null,
+      ruleReferences: best ? [best.ruleReference] : [],
+      categories,
+      language: analysis.language,
+      matchedSpans: locateRuleKeywords(analysis, rules),
+    };
+  }
+}
+
+class KeywordContentClassifierAlias extends KeywordContentClassifier {}
+
+/**
+ * Parses a rule keyword. A trailing `^n` sets its weight (`"scaffold^2"`);
+ * otherwise multi-word phrases weigh their word count, as they are more
+ * specific than single words.
+ */
+export function parseWeightedKeyword(
+  raw: string,
+): { keyword: string; tokens: string[]; weight: number } | null {
+  const match = /^(.*?)\s*\^\s*(\d+(?:\.\d+)?)\s*$/.exec(raw);
+  const phrase = match ? match[1] : raw;
+  const tokens = tokenizeText(phrase);
+  if (tokens.length === 0) {
+    return null;
+  }
+
+  const explicitWeight = match ? Number(match[2]) : null;
+  return {
+    keyword: tokens.join(' '),
+    tokens,
+    weight: explicitWeight ?? tokens.length,
+  };
+}
+
+function countKeywordHits(
+  analysis: AnalyzedText,
+  keyword: LocalizedKeyword,
+): { count: number; negatedCount: number } {
+  let count = 0;
+  let negatedCount = 0;
+
+  for (const hit of analysis.findKeyword(keyword)) {
+    if (analysis.isNegatedAt(hit.clause, hit.start)) {
+      negatedCount += 1;
+    } else {
+      count += 1;
+    }
+  }
+
+  return { count, negatedCount };
+}
+
+function matchedKeywordCount(rule: RuleScore): number {
+  return rule.matches.filter((match) => match.count > 0).length;
+}
+
+function compareRuleScores(a: RuleScore, b: RuleScore): number {
+  return (
+    b.score - a.score ||
+    severityRank(b.severityLevel) - severityRank(a.severityLevel) ||
+    matchedKeywordCount(b) - matchedKeywordCount(a) ||
+    a.usageCategory.localeCompare(b.usageCategory)
+  );
+}
+
+function tieBreakReason(
+  winner: RuleScore,
+  runnerUp: RuleScore | undefined,
+): ClassificationTieBreak | null {
+  if (!runnerUp || runnerUp.score !== winner.score) {
+    return null;
+  }
+  if (runnerUp.severityLevel !== winner.severityLevel) {
+    return 'severity';
+  }
+  if (matchedKeywordCount(runnerUp) !== matchedKeywordCount(winner)) {
+    return 'matchCount';
+  }
+  return 'category';
+}
+
+/**
+ * Token-based scorer: keywords only match whole (stemmed) words ("function"
+ * hits "functions" but not "malfunction"), multi-word keywords match as
+ * consecutive words within one clause, negated hits are ignored, and each
+ * matched keyword adds its weight once. The rule's keyword lists for the
+ * detected language are tried before the English list. Ties go to the
+ * stricter rule, then the rule with more distinct matches, then the category
+ * name, so the outcome never depends on rule order.
+ */
+export class WeightedKeywordContentClassifier implements ContentClassifierStrategy {
+  async classify(
+    text: string,
+    rules: PolicyRuleRecord[],
+  ): Promise<ContentClassificationResult> {
+    const analysis = new AnalyzedText(text);
+    const scored: RuleScore[] = [];
+    const matchedSpans: MatchedSpan[] = [];
+
+    for (const rule of rules) {
+      const matches: KeywordMatch[] = [];
+      let score = 0;
+
+      for (const localized of keywordsForLanguage(rule, analysis.language)) {
+        const keyword = parseWeightedKeyword(localized.keyword);
+        if (!keyword) {
+          continue;
+        }
+
+        const located = { keyword: keyword.keyword, language: localized.language };
+        const hits = countKeywordHits(analysis, located);
+        if (hits.count === 0 && hits.negatedCount === 0) {
+          continue;
+        }
+
+        for (const span of analysis.locateKeyword(located, { skipNegated: true })) {
+          matchedSpans.push({
+            ...span,
+            usageCategory: rule.usageCategory,
+            keyword: keyword.keyword,
+          });
+        }
+
+        matches.push({
+          keyword: keyword.keyword,
+          language: localized.language,
+          weight: keyword.weight,
+          ...hits,
+        });
+        if (hits.count > 0) {
+          score += keyword.weight;
+        }
       }
 
-      if (!best || score > best.score) {
-        best = {
-          category: rule.usageCategory,
-          ruleReference: rule.ruleReference,
+      if (matches.length > 0) {
+        scored.push({
+          usageCategory: rule.usageCategory,
+          severityLevel: rule.severityLevel,
           score,
-        };
+          matches,
+        });
       }
     }
 
-    if (!best) {
-      return {
-        detectedCategory: null,
-        ruleReferences: [],
-      };
-    }
+    scored.sort(compareRuleScores);
+    const rulesByCategory = new Map(rules.map((rule) => [rule.usageCategory, rule]));
+    const [winner, runnerUp] = scored;
+    const winningRule =
+      winner && winner.score > 0 ? rulesByCategory.get(winner.usageCategory) : undefined;
+    const categories = rankCategories(
+      scored.flatMap((entry) => {
+        const rule = rulesByCategory.get(entry.usageCategory);
+        return rule ? [{ rule, score: entry.score }] : [];
+      }),
+    );
 
     return {
-      detectedCategory: best.category,
-      ruleReferences: [best.ruleReference],
+      detectedCategory: winningRule?.usageCategory ?? null,
+      ruleReferences: winningRule ? [winningRule.ruleReference] : [],
+      categories,
+      language: analysis.language,
+      matchedSpans: sortMatchedSpans(matchedSpans),
+      scoring: {
+        strategy: 'weighted',
+        language: analysis.language,
+        rules: scored,
+        tieBrokenBy: winningRule && winner ? tieBreakReason(winner, runnerUp) : null,
+      },
     };
   }
 }
 
-class KeywordContentClassifierAlias extends KeywordContentClassifier {}
-
 const CLASSIFIERS: Record<string, ContentClassifierStrategy> = {
   keyword: new KeywordContentClassifier(),
   'keyword-v1': new KeywordContentClassifierAlias(),
+  weighted: new WeightedKeywordContentClassifier(),
 };
 
 export function createContentClassifierFromEnv(): ContentClassifierStrategy {
   const strategy = (process.env.CLASSIFIER_STRATEGY ?? 'keyword').trim().toLowerCase();
+  if (strategy === 'http') {
+    return createHttpClassifierFromEnv(CLASSIFIERS.keyword) ?? CLASSIFIERS.keyword;
+  }
   return CLASSIFIERS[strategy] ?? CLASSIFIERS.keyword;
 }
 
+/**
+ * Every strategy `CLASSIFIER_STRATEGY` can select, by name. `http` is only
+ * listed when an endpoint is configured.
+ */
+export function listContentClassifiers(): Array<{
+  name: string;
+  classifier: ContentClassifierStrategy;
+}> {
+  const entries = Object.entries(CLASSIFIERS).map(([name, classifier]) => ({ name, classifier }));
+  const http = createHttpClassifierFromEnv(CLASSIFIERS.keyword);
+  return http ? [...entries, { name: 'http', classifier: http }] : entries;
+}
+
 export function severityRank(severity: SeverityLevel): number {
   switch (severity) {
     case 'ALLOWED':
@@ -0,0 +1,267 @@
+import { SeverityLevel } from '@prisma/client';
+import { z } from 'zod';
+
+import type {
+  ContentClassificationResult,
+  ContentClassifierStrategy,
+  RankedCategory,
+} from './content-classifier';
+import { locateRuleKeywords } from './keyword-spans';
+import type { PolicyRuleRecord } from './policy-evaluator';
+
+/** Bumped on any breaking change to the request or response shape. */
+export const EXTERNAL_CLASSIFIER_CONTRACT_VERSION = 1;
+
+const DEFAULT_TIMEOUT_MS = 3_000;
+
+export const externalClassifierRequestSchema = z
+  .object({
+    contractVersion: z.literal(EXTERNAL_CLASSIFIER_CONTRACT_VERSION),
+    text: z.string(),
+    rules: z.array(
+      z
+        .object({
+          usageCategory: z.string().min(1),
+          severityLevel: z.enum(SeverityLevel),
+          ruleReference: z.string().min(1),
+          keywords: z.array(z.string()),
+          keywordsNb: z.array(z.string()),
+          keywordsNn: z.array(z.string()),
+        })
+        .strict(),
+    ),
+  })
+  .strict();
+
+export const externalClassifierResponseSchema = z
+  .object({
+    contractVersion: z.literal(EXTERNAL_CLASSIFIER_CONTRACT_VERSION),
+    categories: z
+      .array(
+        z
+          .object({
+            usageCategory: z.string().min(1),
+            confidence: z.number().min(0).max(1),
+          })
+          .strict(),
+      )
+      .max(100),
+    language: z.enum(['en', 'nb', 'nn']).optional(),
+  })
+  .strict();
+
+export type ExternalClassifierRequest = z.infer<typeof externalClassifierRequestSchema>;
+export type ExternalClassifierResponse = z.infer<typeof externalClassifierResponseSchema>;
+
+export type ExternalClassifierFailure = 'TIMEOUT' | 'NETWORK' | 'HTTP_STATUS' | 'CONTRACT';
+
+export class ExternalClassifierError extends Error {
+  readonly failure: ExternalClassifierFailure;
+
+  constructor(failure: ExternalClassifierFailure, message: string) {
+    super(message);
+    this.name = 'ExternalClassifierError';
+    this.failure = failure;
+  }
+}
+
+export function buildExternalClassifierRequest(
+  text: string,
+  rules: PolicyRuleRecord[],
+): ExternalClassifierRequest {
+  return {
+    contractVersion: EXTERNAL_CLASSIFIER_CONTRACT_VERSION,
+    text,
+    rules: rules.map((rule) => ({
+      usageCategory: rule.usageCategory,
+      severityLevel: rule.severityLevel,
+      ruleReference: rule.ruleReference,
+      keywords: rule.keywords,
+      keywordsNb: rule.keywordsNb ?? [],
+      keywordsNn: rule.keywordsNn ?? [],
+    })),
+  };
+}
+
+/**
+ * Validates a response body against the contract and the rules that were
+ * sent: every category must be one of them and appear at most once.
+ * Categories with zero confidence are dropped; the rest are ranked by
+ * confidence, ties in response order.
+ */
+export function parseExternalClassifierResponse(
+  body: unknown,
+  rules: PolicyRuleRecord[],
+): ContentClassificationResult {
+  const parsed = externalClassifierResponseSchema.safeParse(body);
+  if (!parsed.success) {
+    throw new ExternalClassifierError(
+      'CONTRACT',
+      `Response does not match contract v${EXTERNAL_CLASSIFIER_CONTRACT_VERSION}: ` +
+        parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; '),
+    );
+  }
+
+  const rulesByCategory = new Map(rules.map((rule) => [rule.usageCategory, rule]));
+  const seen = new Set<string>();
+  const categories: RankedCategory[] = [];
+
+  for (const entry of parsed.data.categories) {
+    const rule = rulesByCategory.get(entry.usageCategory);
+    if (!rule) {
+      throw new ExternalClassifierError(
+        'CONTRACT',
+        `Response names unknown category "${entry.usageCategory}"`,
+      );
+    }
+    if (seen.has(entry.usageCategory)) {
+      throw new ExternalClassifierError(
+        'CONTRACT',
+        `Response lists category "${entry.usageCategory}" twice`,
+      );
+    }
+    seen.add(entry.usageCategory);
+
+    if (entry.confidence > 0) {
+      categories.push({
+        usageCategory: rule.usageCategory,
+        ruleReference: rule.ruleReference,
+        severityLevel: rule.severityLevel,
+        score: entry.confidence,
+        confidence: entry.confidence,
+      });
+    }
+  }
+
+  categories.sort((a, b) => b.confidence - a.confidence);
+  const best = categories[0];
+
+  return {
+    detectedCategory: best?.usageCategory ?? null,
+    ruleReferences: best ? [best.ruleReference] : [],
+    categories,
+    ...(parsed.data.language ? { language: parsed.data.language } : {}),
+  };
+}
+
+export interface HttpContentClassifierOptions {
+  url: string;
+  timeoutMs?: number;
+  /** Sent as a bearer token when set. */
+  token?: string;
+  /** Used whenever the endpoint times out, errors or breaks the contract. */
+  fallback: ContentClassifierStrategy;
+  fetch?: typeof fetch;
+}
+
+/**
+ * Delegates classification to an HTTP endpoint: POSTs the text and the
+ * policy's rules, and expects a ranked list of categories with confidences
+ * back (see `externalClassifierResponseSchema`). Any failure is answered by
+ * the fallback strategy, so an outage never blocks classification; such
+ * results carry `fallbackReason`, which is stored with the compliance check
+ * and counted by the classifier evaluation report.
+ */
+export class HttpContentClassifier implements ContentClassifierStrategy {
+  private readonly options: HttpContentClassifierOptions;
+
+  constructor(options: HttpContentClassifierOptions) {
+    this.options = options;
+  }
+
+  async classify(
+    text: string,
+    rules: PolicyRuleRecord[],
+  ): Promise<ContentClassificationResult> {
+    try {
+      return await this.request(text, rules);
+    } catch (error) {
+      const reason =
+        error instanceof ExternalClassifierError
+          ? `${error.failure}: ${error.message}`
+          : `UNEXPECTED: ${String(error)}`;
+      const result = await this.options.fallback.classify(text, rules);
+      return { ...result, fallbackReason: reason };
+    }
+  }
+
+  private async request(
+    text: string,
+    rules: PolicyRuleRecord[],
+  ): Promise<ContentClassificationResult> {
+    const fetchImpl = this.options.fetch ?? fetch;
+    const timeoutMs = this.options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+    let body: unknown;
+    try {
+      const response = await fetchImpl(this.options.url, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          accept: 'application/json',
+          ...(this.options.token ? { authorization: `Bearer ${this.options.token}` } : {}),
+        },
+        body: JSON.stringify(buildExternalClassifierRequest(text, rules)),
+        // Covers reading the body as well as the response headers.
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+
+      if (!response.ok) {
+        throw new ExternalClassifierError('HTTP_STATUS', `Endpoint answered ${response.status}`);
+      }
+
+      body = await response.json().catch((error: unknown) => {
+        if (error instanceof Error && error.name === 'TimeoutError') {
+          throw error;
+        }
+        throw new ExternalClassifierError('CONTRACT', 'Response body is not JSON');
+      });
+    } catch (error) {
+      if (error instanceof ExternalClassifierError) {
+        throw error;
+      }
+      if (error instanceof Error && error.name === 'TimeoutError') {
+        throw new ExternalClassifierError('TIMEOUT', `No response within ${timeoutMs}ms`);
+      }
+      throw new ExternalClassifierError(
+        'NETWORK',
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+
+    const result = parseExternalClassifierResponse(body, rules);
+    // The contract carries no explanation; locate the returned categories'
+    // keywords locally so the result can still be highlighted.
+    const returned = new Set(result.categories.map((category) => category.usageCategory));
+    return {
+      ...result,
+      matchedSpans: locateRuleKeywords(
+        text,
+        rules.filter((rule) => returned.has(rule.usageCategory)),
+      ),
+    };
+  }
+}
+
+/**
+ * Builds the HTTP strategy from `CLASSIFIER_HTTP_URL`,
+ * `CLASSIFIER_HTTP_TIMEOUT_MS` and `CLASSIFIER_HTTP_TOKEN`. Returns null when
+ * no URL is configured.
+ */
+export function createHttpClassifierFromEnv(
+  fallback: ContentClassifierStrategy,
+): HttpContentClassifier | null {
+  const url = process.env.CLASSIFIER_HTTP_URL?.trim();
+  if (!url) {
+    return null;
+  }
+
+  const timeoutMs = Number(process.env.CLASSIFIER_HTTP_TIMEOUT_MS);
+
+  return new HttpContentClassifier({
+    url,
+    timeoutMs: Number.isFinite(timeoutMs) && timeoutMs > 0 ? timeoutMs : DEFAULT_TIMEOUT_MS,
+    token: process.env.CLASSIFIER_HTTP_TOKEN?.trim() || undefined,
+    fallback,
+  });
+}
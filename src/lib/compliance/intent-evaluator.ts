@@ -1,5 +1,7 @@
 import { ComplianceStatus, SeverityLevel } from '@prisma/client';
 
+import { locateRuleKeywords, type MatchedSpan } from './keyword-spans';
+import { AnalyzedText, keywordsForLanguage, type SupportedLanguage } from './language';
 import type { PolicyRuleRecord } from './policy-evaluator';
 
 export interface IntentEvaluationResult {
@@ -8,19 +10,30 @@ export interface IntentEvaluationResult {
   severityLevel: SeverityLevel | null;
   ruleReferences: string[];
   message: string;
+  language: SupportedLanguage;
+  /** Keyword hits of every rule that matched, in reading order. */
+  matchedSpans: MatchedSpan[];
 }
 
 function normalize(input: string): string {
   return input.trim().toLowerCase();
 }
 
-function scoreRuleMatch(text: string, rule: PolicyRuleRecord): number {
-  const normalized = normalize(text);
+/**
+ * One point per keyword found either as a plain substring or, after stemming,
+ * as whole words ("feilsøkte" matches the keyword "feilsøking").
+ */
+function scoreRuleMatch(analysis: AnalyzedText, rule: PolicyRuleRecord): number {
+  const normalized = normalize(analysis.text);
 
   let score = 0;
-  for (const keyword of rule.keywords) {
-    const normalizedKeyword = normalize(keyword);
-    if (normalizedKeyword.length > 0 && normalized.includes(normalizedKeyword)) {
+  for (const keyword of keywordsForLanguage(rule, analysis.language)) {
+    const normalizedKeyword = normalize(keyword.keyword);
+    if (normalizedKeyword.length === 0) {
+      continue;
+    }
+
+    if (normalized.includes(normalizedKeyword) || analysis.containsKeyword(keyword)) {
       score += 1;
     }
   }
@@ -44,10 +57,11 @@ export function evaluateIntentFromRules(
   reason: string,
   rules: PolicyRuleRecord[],
 ): IntentEvaluationResult {
+  const analysis = new AnalyzedText(reason);
   let best: { rule: PolicyRuleRecord; score: number } | null = null;
 
   for (const rule of rules) {
-    const score = scoreRuleMatch(reason, rule);
+    const score = scoreRuleMatch(analysis, rule);
     if (score <= 0) {
       continue;
     }
@@ -64,6 +78,8 @@ export function evaluateIntentFromRules(
       severityLevel: null,
       ruleReferences: [],
       message: 'Could not determine usage category — please be more specific',
+      language: analysis.language,
+      matchedSpans: [],
     };
   }
 
@@ -73,5 +89,7 @@ export function evaluateIntentFromRules(
     severityLevel: best.rule.severityLevel,
     ruleReferences: [best.rule.ruleReference],
     message: `Detected category: ${best.rule.usageCategory}`,
+    language: analysis.language,
+    matchedSpans: locateRuleKeywords(analysis, rules),
   };
 }
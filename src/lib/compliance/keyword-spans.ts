@@ -0,0 +1,93 @@
+import { AnalyzedText, keywordsForLanguage, type TextSpan } from './language';
+import type { PolicyRuleRecord } from './policy-evaluator';
+
+/** A keyword hit that counted towards a rule, located in the classified text. */
+export type MatchedSpan = TextSpan & {
+  usageCategory: string;
+  /** The rule keyword that matched; weighted keywords lose their `^weight`. */
+  keyword: string;
+};
+
+export type LogTextField = 'usageReason' | 'sessionDescription' | 'conversationPrompts';
+
+/** A matched span re-based onto the log field it falls in. */
+export type FieldMatchedSpan = MatchedSpan & {
+  field: LogTextField;
+};
+
+/** Reading order; overlapping hits of different rules keep rule order. */
+export function sortMatchedSpans<T extends MatchedSpan>(spans: T[]): T[] {
+  return [...spans].sort((a, b) => a.start - b.start || a.end - b.end);
+}
+
+/**
+ * Locates every keyword of `rules` the way the keyword strategy and the
+ * intent evaluator match them: as a plain substring or as stemmed whole words.
+ */
+export function locateRuleKeywords(
+  text: string | AnalyzedText,
+  rules: PolicyRuleRecord[],
+): MatchedSpan[] {
+  const analysis = typeof text === 'string' ? new AnalyzedText(text) : text;
+
+  return sortMatchedSpans(
+    rules.flatMap((rule) =>
+      keywordsForLanguage(rule, analysis.language).flatMap((keyword) =>
+        analysis.locateKeyword(keyword, { substring: true }).map((span) => ({
+          ...span,
+          usageCategory: rule.usageCategory,
+          keyword: keyword.keyword,
+        })),
+      ),
+    ),
+  );
+}
+
+/**
+ * The text post-session classification runs on, with where each field starts
+ * in it, so matched spans can be mapped back with `spansByField`. The session
+ * text is the description, or the prompts of imported conversations.
+ */
+export function joinLogText(
+  usageReason: string,
+  sessionText: string,
+  sessionField: Exclude<LogTextField, 'usageReason'> = 'sessionDescription',
+): { text: string; fields: Array<{ field: LogTextField; start: number; length: number }> } {
+  const joined = `${usageReason}\n${sessionText}`;
+  const text = joined.trim();
+  const shift = joined.length - joined.trimStart().length;
+
+  return {
+    text,
+    fields: [
+      { field: 'usageReason', start: -shift, length: usageReason.length },
+      {
+        field: sessionField,
+        start: usageReason.length + 1 - shift,
+        length: sessionText.length,
+      },
+    ],
+  };
+}
+
+/** Re-bases spans onto the field they fall in; spans crossing fields are dropped. */
+export function spansByField(
+  spans: MatchedSpan[],
+  fields: ReturnType<typeof joinLogText>['fields'],
+): FieldMatchedSpan[] {
+  return spans.flatMap((span) => {
+    const owner = fields.find(
+      (field) => span.start >= field.start && span.end <= field.start + field.length,
+    );
+    return owner
+      ? [
+          {
+            ...span,
+            field: owner.field,
+            start: span.start - owner.start,
+            end: span.end - owner.start,
+          },
+        ]
+      : [];
+  });
+}
@@ -0,0 +1,324 @@
+import type { PolicyRuleRecord } from './policy-evaluator';
+
+/** Bokmål, nynorsk and English — the languages students write logs in. */
+export type SupportedLanguage = 'en' | 'nb' | 'nn';
+
+export interface LanguageDetection {
+  language: SupportedLanguage;
+  /** Stop-word hits per language; all zero means the English fallback was used. */
+  scores: Record<SupportedLanguage, number>;
+}
+
+const EN_MARKERS = new Set([
+  'the', 'and', 'is', 'are', 'was', 'to', 'of', 'my', 'for', 'with', 'this', 'that',
+  'it', 'i', 'me', 'how', 'what', 'not', 'did', 'used', 'help', 'from',
+]);
+
+/** Words shared by bokmål and nynorsk count for both. */
+const NO_SHARED_MARKERS = new Set([
+  'og', 'det', 'er', 'til', 'med', 'på', 'som', 'av', 'for', 'har', 'meg', 'min', 'mitt',
+  'en', 'ei', 'et', 'å', 'om', 'brukte', 'hjelp',
+]);
+
+const NB_MARKERS = new Set([
+  'jeg', 'ikke', 'hva', 'hvordan', 'hvorfor', 'noe', 'også', 'bare', 'deg', 'de', 'ble',
+  'fra', 'mye', 'hvis', 'hun', 'dem',
+]);
+
+const NN_MARKERS = new Set([
+  'eg', 'ikkje', 'kva', 'korleis', 'kvifor', 'noko', 'òg', 'berre', 'dykk', 'dei', 'vart',
+  'frå', 'mykje', 'viss', 'ho', 'dykkar', 'eit',
+]);
+
+const NORWEGIAN_LETTERS = /[æøå]/;
+
+const NEGATION_TOKENS = new Set([
+  // English
+  'no', 'not', 'never', 'without', 'nor', 'cannot', "can't", "didn't", 'didnt', "don't",
+  'dont', "doesn't", 'doesnt', "wasn't", "weren't", "haven't", "hasn't", "won't",
+  // Bokmål / nynorsk
+  'ikke', 'ikkje', 'aldri', 'uten', 'utan', 'ingen', 'inga', 'ingenting',
+]);
+
+/** How many tokens before a match are searched for a negation word. */
+const NEGATION_WINDOW = 3;
+
+const TOKEN_PATTERN = /[\p{L}\p{N}]+(?:'[\p{L}\p{N}]+)*/gu;
+
+// Matches the same words in un-normalized text, so their offsets can be kept.
+// Combining marks are included because decomposed "å" (a + ring) is one
+// letter only after NFKC.
+const RAW_TOKEN_PATTERN = /[\p{L}\p{M}\p{N}]+(?:['’`][\p{L}\p{M}\p{N}]+)*/gu;
+
+const CLAUSE_PATTERN = /[^.!?;:,\n]+/g;
+
+/** Character offsets into the analysed text; `end` is exclusive. */
+export type TextSpan = {
+  start: number;
+  end: number;
+};
+
+export function tokenizeText(input: string): string[] {
+  const normalized = input.normalize('NFKC').toLowerCase().replace(/[’`]/g, "'");
+  return normalized.match(TOKEN_PATTERN) ?? [];
+}
+
+/**
+ * Picks the most likely language from stop-word hits. Any æ/ø/å counts towards
+ * Norwegian; ties fall back to English first, then bokmål over nynorsk.
+ */
+export function detectLanguage(text: string): LanguageDetection {
+  const scores: Record<SupportedLanguage, number> = { en: 0, nb: 0, nn: 0 };
+
+  for (const token of tokenizeText(text)) {
+    if (EN_MARKERS.has(token)) {
+      scores.en += 1;
+    }
+    if (NO_SHARED_MARKERS.has(token) || NORWEGIAN_LETTERS.test(token)) {
+      scores.nb += 1;
+      scores.nn += 1;
+    }
+    if (NB_MARKERS.has(token)) {
+      scores.nb += 1;
+    }
+    if (NN_MARKERS.has(token)) {
+      scores.nn += 1;
+    }
+  }
+
+  const norwegian: SupportedLanguage = scores.nn > scores.nb ? 'nn' : 'nb';
+  const language = scores[norwegian] > scores.en ? norwegian : 'en';
+
+  return { language, scores };
+}
+
+/**
+ * Folds spelling variants students use when typing without a Norwegian
+ * keyboard, so "feilsoking", "feilsøking" and "feilsöking" compare equal.
+ */
+export function foldNorwegianLetters(token: string): string {
+  return token
+    .replace(/aa/g, 'a')
+    .replace(/[åä]/g, 'a')
+    .replace(/[øö]/g, 'o')
+    .replace(/æ/g, 'ae');
+}
+
+// Longest first. Loosely follows the Snowball Norwegian stemmer, extended with
+// the verbal-noun and past-tense endings (-ing, -te, -de) that keywords care about.
+const NORWEGIAN_SUFFIXES = [
+  'hetenes', 'hetene', 'hetens', 'ingene', 'ingane', 'heten', 'heter', 'endes', 'ingen',
+  'inger', 'ingar', 'ande', 'ende', 'edes', 'enes', 'ene', 'ane', 'ens', 'ers', 'ets',
+  'het', 'ast', 'ing', 'ede', 'en', 'ar', 'er', 'as', 'es', 'et', 'te', 'de', 'a', 'e',
+];
+
+const ENGLISH_SUFFIXES = [
+  'ations', 'ation', 'ments', 'ment', 'ings', 'ing', 'ies', 'ed', 'es', 'ly', 's', 'e',
+];
+
+const MIN_STEM_LENGTH = 3;
+
+function stripSuffix(token: string, suffixes: string[]): string {
+  for (const suffix of suffixes) {
+    if (token.endsWith(suffix) && token.length - suffix.length >= MIN_STEM_LENGTH) {
+      return token.slice(0, -suffix.length);
+    }
+  }
+  return token;
+}
+
+function stemNorwegian(token: string): string {
+  // -erte/-ert past forms share the stem of the -ere infinitive
+  // (genererte, generert, generere → generer).
+  if (/erte?$/.test(token) && token.length > MIN_STEM_LENGTH + 3) {
+    return token.replace(/erte?$/, 'er');
+  }
+
+  const stem = stripSuffix(token, NORWEGIAN_SUFFIXES);
+  return /(?:dt|vt)$/.test(stem) ? stem.slice(0, -1) : stem;
+}
+
+function stemEnglish(token: string): string {
+  if (token.endsWith('ies') && token.length > MIN_STEM_LENGTH + 2) {
+    return `${token.slice(0, -3)}y`;
+  }
+
+  const stem = stripSuffix(token, ENGLISH_SUFFIXES);
+  // debugging → debugg → debug
+  return /([bdgmnprt])\1$/.test(stem) ? stem.slice(0, -1) : stem;
+}
+
+export function stemToken(token: string, language: SupportedLanguage): string {
+  if (language === 'en') {
+    return stemEnglish(token);
+  }
+  return stemNorwegian(foldNorwegianLetters(token));
+}
+
+export function normalizeTokens(tokens: string[], language: SupportedLanguage): string[] {
+  return tokens.map((token) => stemToken(token, language));
+}
+
+export interface LocalizedKeyword {
+  keyword: string;
+  /** Language the keyword is written in; decides how it is stemmed. */
+  language: SupportedLanguage;
+}
+
+/**
+ * Keywords to try for a text in `language`: the rule's own-language list
+ * first, then the English base list, since Norwegian students routinely mix
+ * in English terms ("debugge koden", "boilerplate"). Nynorsk also falls back
+ * to the bokmål list.
+ */
+export function keywordsForLanguage(
+  rule: Pick<PolicyRuleRecord, 'keywords' | 'keywordsNb' | 'keywordsNn'>,
+  language: SupportedLanguage,
+): LocalizedKeyword[] {
+  const english = rule.keywords.map((keyword) => ({ keyword, language: 'en' as const }));
+  const bokmal = (rule.keywordsNb ?? []).map((keyword) => ({ keyword, language: 'nb' as const }));
+  const nynorsk = (rule.keywordsNn ?? []).map((keyword) => ({ keyword, language: 'nn' as const }));
+
+  if (language === 'nn') {
+    return [...nynorsk, ...bokmal, ...english];
+  }
+  if (language === 'nb') {
+    return [...bokmal, ...english];
+  }
+  return english;
+}
+
+/** Sorted by position, without duplicates. */
+function uniqueSpans(spans: TextSpan[]): TextSpan[] {
+  const seen = new Set<string>();
+  return spans
+    .filter((span) => {
+      const key = `${span.start}:${span.end}`;
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    })
+    .sort((a, b) => a.start - b.start || a.end - b.end);
+}
+
+/**
+ * Tokenized text with per-language stems computed on demand, so one analysis
+ * can be matched against keywords from several languages.
+ */
+export class AnalyzedText {
+  readonly text: string;
+
+  readonly detection: LanguageDetection;
+
+  readonly clauses: string[][];
+
+  /** Offsets of each token in `clauses`, in the original text. */
+  private readonly tokenSpans: TextSpan[][];
+
+  private readonly stemmed = new Map<SupportedLanguage, string[][]>();
+
+  constructor(text: string) {
+    this.text = text;
+    this.detection = detectLanguage(text);
+    this.clauses = [];
+    this.tokenSpans = [];
+
+    for (const clause of text.matchAll(CLAUSE_PATTERN)) {
+      const tokens: string[] = [];
+      const spans: TextSpan[] = [];
+      for (const raw of clause[0].matchAll(RAW_TOKEN_PATTERN)) {
+        const start = (clause.index ?? 0) + (raw.index ?? 0);
+        for (const token of tokenizeText(raw[0])) {
+          tokens.push(token);
+          spans.push({ start, end: start + raw[0].length });
+        }
+      }
+      if (tokens.length > 0) {
+        this.clauses.push(tokens);
+        this.tokenSpans.push(spans);
+      }
+    }
+  }
+
+  get language(): SupportedLanguage {
+    return this.detection.language;
+  }
+
+  stemmedClauses(language: SupportedLanguage): string[][] {
+    let clauses = this.stemmed.get(language);
+    if (!clauses) {
+      clauses = this.clauses.map((tokens) => normalizeTokens(tokens, language));
+      this.stemmed.set(language, clauses);
+    }
+    return clauses;
+  }
+
+  /** Positions where the stemmed keyword occurs as consecutive words in one clause. */
+  findKeyword(
+    keyword: LocalizedKeyword,
+  ): Array<{ clause: number; start: number; length: number }> {
+    const phrase = normalizeTokens(tokenizeText(keyword.keyword), keyword.language);
+    if (phrase.length === 0) {
+      return [];
+    }
+
+    const hits: Array<{ clause: number; start: number; length: number }> = [];
+    this.stemmedClauses(keyword.language).forEach((tokens, clause) => {
+      for (let start = 0; start + phrase.length <= tokens.length; start += 1) {
+        if (phrase.every((token, offset) => tokens[start + offset] === token)) {
+          hits.push({ clause, start, length: phrase.length });
+        }
+      }
+    });
+    return hits;
+  }
+
+  /** Where in `text` the `length` tokens from `start` of a clause are. */
+  spanOf(clause: number, start: number, length: number): TextSpan {
+    const spans = this.tokenSpans[clause] ?? [];
+    return {
+      start: spans[start]?.start ?? 0,
+      end: spans[start + length - 1]?.end ?? 0,
+    };
+  }
+
+  /**
+   * Every place the keyword matches: as stemmed whole words and, with
+   * `substring`, as a case-insensitive substring. With `skipNegated`, stemmed
+   * hits after a negation are left out.
+   */
+  locateKeyword(
+    keyword: LocalizedKeyword,
+    options: { substring?: boolean; skipNegated?: boolean } = {},
+  ): TextSpan[] {
+    const spans = this.findKeyword(keyword)
+      .filter((hit) => !options.skipNegated || !this.isNegatedAt(hit.clause, hit.start))
+      .map((hit) => this.spanOf(hit.clause, hit.start, hit.length));
+
+    const needle = keyword.keyword.trim().toLowerCase();
+    const haystack = this.text.toLowerCase();
+    // Lower-casing a few scripts changes string length; offsets would be off.
+    if (options.substring && needle.length > 0 && haystack.length === this.text.length) {
+      for (let index = haystack.indexOf(needle); index !== -1; ) {
+        spans.push({ start: index, end: index + needle.length });
+        index = haystack.indexOf(needle, index + needle.length);
+      }
+    }
+
+    return uniqueSpans(spans);
+  }
+
+  containsKeyword(keyword: LocalizedKeyword): boolean {
+    return this.findKeyword(keyword).length > 0;
+  }
+
+  /** True when one of the few words before `start` negates the match. */
+  isNegatedAt(clause: number, start: number): boolean {
+    const tokens = this.clauses[clause] ?? [];
+    return tokens
+      .slice(Math.max(0, start - NEGATION_WINDOW), start)
+      .some((token) => NEGATION_TOKENS.has(token));
+  }
+}
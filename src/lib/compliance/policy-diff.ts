@@ -0,0 +1,245 @@
+import { type SeverityLevel } from '@prisma/client';
+
+import { severityRank } from './content-classifier';
+import type { PolicyRuleRecord } from './policy-evaluator';
+
+export type PolicyRuleChangeType = 'ADDED' | 'REMOVED' | 'MODIFIED';
+
+export type SeverityChangeDirection = 'ESCALATED' | 'RELAXED' | 'UNCHANGED';
+
+export interface PolicyRuleChange {
+  usageCategory: string;
+  changeType: PolicyRuleChangeType;
+  previousSeverity: SeverityLevel | null;
+  nextSeverity: SeverityLevel | null;
+  /** Null for ADDED/REMOVED rules, where there is nothing to compare against. */
+  severityDirection: SeverityChangeDirection | null;
+  previousRuleReference: string | null;
+  nextRuleReference: string | null;
+  ruleReferenceChanged: boolean;
+  previousDescription: string | null;
+  nextDescription: string | null;
+  descriptionChanged: boolean;
+  addedKeywords: string[];
+  removedKeywords: string[];
+}
+
+export interface PolicyDiffStats {
+  added: number;
+  removed: number;
+  modified: number;
+  escalated: number;
+  relaxed: number;
+}
+
+export interface PolicyVersionDiff {
+  changes: PolicyRuleChange[];
+  stats: PolicyDiffStats;
+  changeSummary: string;
+}
+
+function normalizeKeyword(keyword: string): string {
+  return keyword.trim().toLowerCase();
+}
+
+function normalizeDescription(description: string | null | undefined): string | null {
+  const trimmed = description?.trim() ?? '';
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+/**
+ * All of a rule's keywords in one list; Norwegian ones carry an `nb:`/`nn:`
+ * prefix so moving a keyword between languages shows up as a change.
+ */
+function ruleKeywords(rule: PolicyRuleRecord): string[] {
+  return [
+    ...rule.keywords,
+    ...(rule.keywordsNb ?? []).map((keyword) => `nb:${keyword}`),
+    ...(rule.keywordsNn ?? []).map((keyword) => `nn:${keyword}`),
+  ];
+}
+
+function keywordDelta(previous: string[], next: string[]) {
+  const previousSet = new Set(previous.map(normalizeKeyword));
+  const nextSet = new Set(next.map(normalizeKeyword));
+
+  return {
+    addedKeywords: Array.from(nextSet).filter((keyword) => !previousSet.has(keyword)).sort(),
+    removedKeywords: Array.from(previousSet).filter((keyword) => !nextSet.has(keyword)).sort(),
+  };
+}
+
+function severityDirection(previous: SeverityLevel, next: SeverityLevel): SeverityChangeDirection {
+  const delta = severityRank(next) - severityRank(previous);
+  if (delta > 0) {
+    return 'ESCALATED';
+  }
+  if (delta < 0) {
+    return 'RELAXED';
+  }
+  return 'UNCHANGED';
+}
+
+/**
+ * Compares two rule sets keyed by `usageCategory`. Categories are matched
+ * exactly, so a renamed category shows up as one REMOVED and one ADDED change.
+ * Unchanged rules are omitted; output is sorted by category for stable diffs.
+ */
+export function diffPolicyRules(
+  previousRules: PolicyRuleRecord[],
+  nextRules: PolicyRuleRecord[],
+): PolicyRuleChange[] {
+  const previousByCategory = new Map(previousRules.map((rule) => [rule.usageCategory, rule]));
+  const nextByCategory = new Map(nextRules.map((rule) => [rule.usageCategory, rule]));
+  const categories = Array.from(
+    new Set([...previousByCategory.keys(), ...nextByCategory.keys()]),
+  ).sort((a, b) => a.localeCompare(b));
+
+  const changes: PolicyRuleChange[] = [];
+
+  for (const usageCategory of categories) {
+    const previous = previousByCategory.get(usageCategory);
+    const next = nextByCategory.get(usageCategory);
+
+    if (!previous && next) {
+      changes.push({
+        usageCategory,
+        changeType: 'ADDED',
+        previousSeverity: null,
+        nextSeverity: next.severityLevel,
+        severityDirection: null,
+        previousRuleReference: null,
+        nextRuleReference: next.ruleReference,
+        ruleReferenceChanged: false,
+        previousDescription: null,
+        nextDescription: normalizeDescription(next.description),
+        descriptionChanged: false,
+        ...keywordDelta([], ruleKeywords(next)),
+      });
+      continue;
+    }
+
+    if (previous && !next) {
+      changes.push({
+        usageCategory,
+        changeType: 'REMOVED',
+        previousSeverity: previous.severityLevel,
+        nextSeverity: null,
+        severityDirection: null,
+        previousRuleReference: previous.ruleReference,
+        nextRuleReference: null,
+        ruleReferenceChanged: false,
+        previousDescription: normalizeDescription(previous.description),
+        nextDescription: null,
+        descriptionChanged: false,
+        ...keywordDelta(ruleKeywords(previous), []),
+      });
+      continue;
+    }
+
+    if (!previous || !next) {
+      continue;
+    }
+
+    const delta = keywordDelta(ruleKeywords(previous), ruleKeywords(next));
+    const direction = severityDirection(previous.severityLevel, next.severityLevel);
+    const previousDescription = normalizeDescription(previous.description);
+    const nextDescription = normalizeDescription(next.description);
+    // Descriptions are only compared when both sides actually loaded them;
+    // rule providers used by the evaluator omit the field entirely.
+    const descriptionChanged =
+      previous.description !== undefined &&
+      next.description !== undefined &&
+      previousDescription !== nextDescription;
+    const ruleReferenceChanged = previous.ruleReference !== next.ruleReference;
+
+    if (
+      direction === 'UNCHANGED' &&
+      !ruleReferenceChanged &&
+      !descriptionChanged &&
+      delta.addedKeywords.length === 0 &&
+      delta.removedKeywords.length === 0
+    ) {
+      continue;
+    }
+
+    changes.push({
+      usageCategory,
+      changeType: 'MODIFIED',
+      previousSeverity: previous.severityLevel,
+      nextSeverity: next.severityLevel,
+      severityDirection: direction,
+      previousRuleReference: previous.ruleReference,
+      nextRuleReference: next.ruleReference,
+      ruleReferenceChanged,
+      previousDescription,
+      nextDescription,
+      descriptionChanged,
+      ...delta,
+    });
+  }
+
+  return changes;
+}
+
+export function summarizePolicyRuleChanges(changes: PolicyRuleChange[]): PolicyDiffStats {
+  return {
+    added: changes.filter((change) => change.changeType === 'ADDED').length,
+    removed: changes.filter((change) => change.changeType === 'REMOVED').length,
+    modified: changes.filter((change) => change.changeType === 'MODIFIED').length,
+    escalated: changes.filter((change) => change.severityDirection === 'ESCALATED').length,
+    relaxed: changes.filter((change) => change.severityDirection === 'RELAXED').length,
+  };
+}
+
+export function formatPolicyChangeSummary(changes: PolicyRuleChange[]): string {
+  if (changes.length === 0) {
+    return 'No rule changes.';
+  }
+
+  return changes
+    .map((change) => {
+      if (change.changeType === 'ADDED') {
+        return `Added category "${change.usageCategory}" (${change.nextSeverity}, ${change.nextRuleReference}).`;
+      }
+
+      if (change.changeType === 'REMOVED') {
+        return `Removed category "${change.usageCategory}" (was ${change.previousSeverity}).`;
+      }
+
+      const parts: string[] = [];
+      if (change.severityDirection === 'ESCALATED') {
+        parts.push(`stricter: ${change.previousSeverity} → ${change.nextSeverity}`);
+      } else if (change.severityDirection === 'RELAXED') {
+        parts.push(`relaxed: ${change.previousSeverity} → ${change.nextSeverity}`);
+      }
+      if (change.ruleReferenceChanged) {
+        parts.push(`rule reference ${change.previousRuleReference} → ${change.nextRuleReference}`);
+      }
+      if (change.descriptionChanged) {
+        parts.push('description updated');
+      }
+      if (change.addedKeywords.length > 0) {
+        parts.push(`keywords added: ${change.addedKeywords.join(', ')}`);
+      }
+      if (change.removedKeywords.length > 0) {
+        parts.push(`keywords removed: ${change.removedKeywords.join(', ')}`);
+      }
+
+      return `Changed "${change.usageCategory}": ${parts.join('; ')}.`;
+    })
+    .join('\n');
+}
+
+export function diffPolicyVersions(
+  previousRules: PolicyRuleRecord[],
+  nextRules: PolicyRuleRecord[],
+): PolicyVersionDiff {
+  const changes = diffPolicyRules(previousRules, nextRules);
+
+  return {
+    changes,
+    stats: summarizePolicyRuleChanges(changes),
+    changeSummary: formatPolicyChangeSummary(changes),
+  };
+}
@@ -3,25 +3,36 @@ import { ComplianceStatus, SeverityLevel } from '@prisma/client';
 import { prisma } from '@/lib/db/client';
 
 import {
+  confidentCategories,
   createContentClassifierFromEnv,
+  type ClassificationScoring,
   type ContentClassificationResult,
   type ContentClassifierStrategy,
+  type RankedCategory,
 } from './content-classifier';
 import { ConflictDetector } from './conflict-detector';
 import { evaluateIntentFromRules } from './intent-evaluator';
+import type { MatchedSpan } from './keyword-spans';
+import type { SupportedLanguage } from './language';
 
 export interface PolicyRuleRecord {
   usageCategory: string;
   severityLevel: SeverityLevel;
   ruleReference: string;
   keywords: string[];
+  /** Bokmål keywords, tried before `keywords` when a text is detected as Norwegian. */
+  keywordsNb?: string[];
+  /** Nynorsk keywords, tried before the bokmål and English lists for nynorsk texts. */
+  keywordsNn?: string[];
+  /** Optional: only loaded by callers that need it (e.g. policy diffs). */
+  description?: string | null;
 }
 
 export interface PolicyRuleProvider {
   getRules(policyVersionId: string): Promise<PolicyRuleRecord[]>;
 }
 
-class PrismaPolicyRuleProvider implements PolicyRuleProvider {
+export class PrismaPolicyRuleProvider implements PolicyRuleProvider {
   async getRules(policyVersionId: string): Promise<PolicyRuleRecord[]> {
     return prisma.policyRule.findMany({
       where: { policyVersionId },
@@ -30,6 +41,8 @@ class PrismaPolicyRuleProvider implements PolicyRuleProvider {
         severityLevel: true,
         ruleReference: true,
         keywords: true,
+        keywordsNb: true,
+        keywordsNn: true,
       },
     });
   }
@@ -41,6 +54,10 @@ export interface EvaluateIntentResult {
   severityLevel: SeverityLevel | null;
   ruleReferences: string[];
   message: string;
+  /** Language detected in the reason; decides which keyword lists were tried. */
+  language: SupportedLanguage;
+  /** Where each matched keyword occurs in the reason. */
+  matchedSpans: MatchedSpan[];
 }
 
 export interface EvaluatePostSessionInput {
@@ -53,13 +70,29 @@ export interface EvaluatePostSessionInput {
 export interface EvaluatePostSessionResult {
   logId: string;
   intentCategory: string | null;
+  /** Top-ranked detected category. */
   actualCategory: string | null;
+  /** Every detected category with its confidence, best first. */
+  categories: RankedCategory[];
+  /**
+   * The confidently detected category the flags were computed from: the most
+   * severe one, which is not necessarily `actualCategory`.
+   */
+  evaluatedCategory: string | null;
   complianceStatus: ComplianceStatus;
   conflictFlag: boolean;
   directViolationFlag: boolean;
   flagSeverity: SeverityLevel | null;
   ruleReferences: string[];
   message: string;
+  /** Classifier scoring breakdown, when the active strategy provides one. */
+  scoring?: ClassificationScoring;
+  /** Language the session text was detected as, when the strategy detects one. */
+  language?: SupportedLanguage;
+  /** Keyword hits in `sessionText`; empty when the strategy cannot locate them. */
+  matchedSpans: MatchedSpan[];
+  /** Why the configured (external) classifier was bypassed for its fallback. */
+  classifierFallbackReason?: string;
 }
 
 export class PolicyEvaluatorService {
@@ -87,14 +120,17 @@ export class PolicyEvaluatorService {
     input: EvaluatePostSessionInput,
   ): Promise<EvaluatePostSessionResult> {
     const rules = await this.ruleProvider.getRules(input.policyVersionId);
-    const classification: ContentClassificationResult = this.classifier.classify(
+    const classification: ContentClassificationResult = await this.classifier.classify(
       input.sessionText,
       rules,
     );
 
+    const confident = confidentCategories(classification.categories);
     const conflict = await this.conflictDetector.detect(
       input.intentCategory ?? null,
-      classification.detectedCategory,
+      confident.length > 0
+        ? confident.map((category) => category.usageCategory)
+        : classification.detectedCategory,
       input.policyVersionId,
     );
 
@@ -118,12 +154,20 @@ export class PolicyEvaluatorService {
       logId: input.logId,
       intentCategory: input.intentCategory ?? null,
       actualCategory: classification.detectedCategory,
+      categories: classification.categories,
+      evaluatedCategory: conflict.evaluatedCategory,
       complianceStatus,
       conflictFlag: conflict.conflictFlag,
       directViolationFlag: conflict.directViolationFlag,
       flagSeverity: conflict.flagSeverity,
       ruleReferences: conflict.ruleReferences,
       message,
+      matchedSpans: classification.matchedSpans ?? [],
+      ...(classification.scoring ? { scoring: classification.scoring } : {}),
+      ...(classification.language ? { language: classification.language } : {}),
+      ...(classification.fallbackReason
+        ? { classifierFallbackReason: classification.fallbackReason }
+        : {}),
     };
   }
 }
@@ -0,0 +1,94 @@
+import type { SeverityLevel } from '@prisma/client';
+
+import { severityRank } from './content-classifier';
+import type { PolicyRuleRecord } from './policy-evaluator';
+
+/** A selected taxonomy node with the policy category it implies (own or inherited). */
+export interface CategorizedSelection {
+  nodeId: string;
+  policyCategory: string | null;
+}
+
+/** What the student's tree selection declares, in policy terms. */
+export interface SelectionIntent {
+  /** The most severe implied category. */
+  category: string;
+  severityLevel: SeverityLevel;
+  ruleReference: string;
+  /** Selected nodes implying `category`. */
+  nodeIds: string[];
+}
+
+export interface SelectionConflict {
+  selectionCategory: string;
+  classifiedCategory: string;
+  /** Rule of the classified category, then the rule of the selection. */
+  ruleReferences: string[];
+}
+
+/**
+ * Resolves the selection against the policy version's rules. Nodes without a
+ * category, or with one the version has no rule for, imply nothing; the most
+ * severe remaining category wins (earlier selections win ties).
+ */
+export function resolveSelectionIntent(
+  selections: CategorizedSelection[],
+  rules: PolicyRuleRecord[],
+): SelectionIntent | null {
+  const matches = selections.flatMap((selection) => {
+    const rule = selection.policyCategory
+      ? rules.find((candidate) => candidate.usageCategory === selection.policyCategory)
+      : undefined;
+    return rule ? [{ nodeId: selection.nodeId, rule }] : [];
+  });
+
+  let best: PolicyRuleRecord | null = null;
+  for (const { rule } of matches) {
+    if (!best || severityRank(rule.severityLevel) > severityRank(best.severityLevel)) {
+      best = rule;
+    }
+  }
+
+  if (!best) {
+    return null;
+  }
+
+  const category = best.usageCategory;
+  return {
+    category,
+    severityLevel: best.severityLevel,
+    ruleReference: best.ruleReference,
+    nodeIds: matches
+      .filter((match) => match.rule.usageCategory === category)
+      .map((match) => match.nodeId),
+  };
+}
+
+/**
+ * Same test as the intent conflict in `ConflictDetector`: the text was
+ * classified as a different, more severe category than the selection declares.
+ * Without a selection intent there is nothing to contradict.
+ */
+export function detectSelectionConflict(
+  intent: SelectionIntent | null,
+  classifiedCategory: string | null,
+  rules: PolicyRuleRecord[],
+): SelectionConflict | null {
+  if (!intent || !classifiedCategory || classifiedCategory === intent.category) {
+    return null;
+  }
+
+  const classifiedRule = rules.find((rule) => rule.usageCategory === classifiedCategory);
+  if (
+    !classifiedRule ||
+    severityRank(classifiedRule.severityLevel) <= severityRank(intent.severityLevel)
+  ) {
+    return null;
+  }
+
+  return {
+    selectionCategory: intent.category,
+    classifiedCategory,
+    ruleReferences: Array.from(new Set([classifiedRule.ruleReference, intent.ruleReference])),
+  };
+}
@@ -0,0 +1,174 @@
+import type { ComplianceStatus } from '@prisma/client';
+
+export interface SimulatedLogOutcome {
+  complianceStatus: ComplianceStatus;
+  actualCategory: string | null;
+  conflictFlag: boolean;
+  directViolationFlag: boolean;
+}
+
+export interface SimulatedLogInput {
+  logId: string;
+  courseId: string;
+  courseCode: string;
+  assignmentId: string;
+  assignmentTitle: string;
+  current: SimulatedLogOutcome;
+  simulated: SimulatedLogOutcome;
+}
+
+export interface SimulatedLogChange extends SimulatedLogInput {
+  statusChanged: boolean;
+  categoryChanged: boolean;
+  gainedConflictFlag: boolean;
+  gainedDirectViolationFlag: boolean;
+  clearedConflictFlag: boolean;
+  clearedDirectViolationFlag: boolean;
+}
+
+export interface SimulationTotals {
+  evaluated: number;
+  changed: number;
+  statusChanged: number;
+  categoryChanged: number;
+  gainedConflictFlag: number;
+  gainedDirectViolationFlag: number;
+  clearedConflictFlag: number;
+  clearedDirectViolationFlag: number;
+}
+
+export interface AssignmentSimulationBreakdown {
+  assignmentId: string;
+  assignmentTitle: string;
+  totals: SimulationTotals;
+}
+
+export interface CourseSimulationBreakdown {
+  courseId: string;
+  courseCode: string;
+  totals: SimulationTotals;
+  assignments: AssignmentSimulationBreakdown[];
+}
+
+export interface SimulationReportBody {
+  totals: SimulationTotals;
+  /** Keyed as `FROM->TO`, only for logs whose status actually changed. */
+  statusTransitions: Record<string, number>;
+  courses: CourseSimulationBreakdown[];
+  changes: SimulatedLogChange[];
+}
+
+function emptyTotals(): SimulationTotals {
+  return {
+    evaluated: 0,
+    changed: 0,
+    statusChanged: 0,
+    categoryChanged: 0,
+    gainedConflictFlag: 0,
+    gainedDirectViolationFlag: 0,
+    clearedConflictFlag: 0,
+    clearedDirectViolationFlag: 0,
+  };
+}
+
+export function compareSimulatedLog(input: SimulatedLogInput): SimulatedLogChange {
+  const { current, simulated } = input;
+
+  return {
+    ...input,
+    statusChanged: current.complianceStatus !== simulated.complianceStatus,
+    categoryChanged: current.actualCategory !== simulated.actualCategory,
+    gainedConflictFlag: !current.conflictFlag && simulated.conflictFlag,
+    gainedDirectViolationFlag: !current.directViolationFlag && simulated.directViolationFlag,
+    clearedConflictFlag: current.conflictFlag && !simulated.conflictFlag,
+    clearedDirectViolationFlag: current.directViolationFlag && !simulated.directViolationFlag,
+  };
+}
+
+function isChanged(change: SimulatedLogChange): boolean {
+  return (
+    change.statusChanged ||
+    change.categoryChanged ||
+    change.gainedConflictFlag ||
+    change.gainedDirectViolationFlag ||
+    change.clearedConflictFlag ||
+    change.clearedDirectViolationFlag
+  );
+}
+
+function accumulate(totals: SimulationTotals, change: SimulatedLogChange): void {
+  totals.evaluated += 1;
+  totals.changed += isChanged(change) ? 1 : 0;
+  totals.statusChanged += change.statusChanged ? 1 : 0;
+  totals.categoryChanged += change.categoryChanged ? 1 : 0;
+  totals.gainedConflictFlag += change.gainedConflictFlag ? 1 : 0;
+  totals.gainedDirectViolationFlag += change.gainedDirectViolationFlag ? 1 : 0;
+  totals.clearedConflictFlag += change.clearedConflictFlag ? 1 : 0;
+  totals.clearedDirectViolationFlag += change.clearedDirectViolationFlag ? 1 : 0;
+}
+
+/**
+ * Aggregates per-log comparisons into overall, per-course and per-assignment
+ * totals. Only logs with at least one difference are kept in `changes`.
+ */
+export function buildSimulationReport(inputs: SimulatedLogInput[]): SimulationReportBody {
+  const totals = emptyTotals();
+  const statusTransitions: Record<string, number> = {};
+  const courses = new Map<
+    string,
+    CourseSimulationBreakdown & { assignmentMap: Map<string, AssignmentSimulationBreakdown> }
+  >();
+  const changes: SimulatedLogChange[] = [];
+
+  for (const input of inputs) {
+    const change = compareSimulatedLog(input);
+    accumulate(totals, change);
+
+    let course = courses.get(input.courseId);
+    if (!course) {
+      course = {
+        courseId: input.courseId,
+        courseCode: input.courseCode,
+        totals: emptyTotals(),
+        assignments: [],
+        assignmentMap: new Map(),
+      };
+      courses.set(input.courseId, course);
+    }
+    accumulate(course.totals, change);
+
+    let assignment = course.assignmentMap.get(input.assignmentId);
+    if (!assignment) {
+      assignment = {
+        assignmentId: input.assignmentId,
+        assignmentTitle: input.assignmentTitle,
+        totals: emptyTotals(),
+      };
+      course.assignmentMap.set(input.assignmentId, assignment);
+    }
+    accumulate(assignment.totals, change);
+
+    if (change.statusChanged) {
+      const key = `${change.current.complianceStatus}->${change.simulated.complianceStatus}`;
+      statusTransitions[key] = (statusTransitions[key] ?? 0) + 1;
+    }
+
+    if (isChanged(change)) {
+      changes.push(change);
+    }
+  }
+
+  return {
+    totals,
+    statusTransitions,
+    courses: Array.from(courses.values())
+      .map(({ assignmentMap, ...course }) => ({
+        ...course,
+        assignments: Array.from(assignmentMap.values()).sort((a, b) =>
+          a.assignmentTitle.localeCompare(b.assignmentTitle),
+        ),
+      }))
+      .sort((a, b) => a.courseCode.localeCompare(b.courseCode)),
+    changes,
+  };
+}
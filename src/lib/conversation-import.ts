@@ -0,0 +1,261 @@
+export type ConversationExportFormat = 'CHATGPT' | 'CLAUDE' | 'MARKDOWN';
+
+export type ConversationMessage = {
+  role: 'user' | 'assistant';
+  text: string;
+};
+
+/** One conversation from a chat export, reduced to its visible turns. */
+export type ImportedConversation = {
+  source: ConversationExportFormat;
+  title: string;
+  /** ISO timestamp when the export records one. */
+  createdAt: string | null;
+  messages: ConversationMessage[];
+};
+
+export type ConversationExportParseResult =
+  | { outcome: 'PARSED'; format: ConversationExportFormat; conversations: ImportedConversation[] }
+  | { outcome: 'NO_CONVERSATIONS'; format: ConversationExportFormat }
+  | { outcome: 'UNRECOGNIZED' };
+
+type JsonRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is JsonRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function asString(value: unknown): string | null {
+  return typeof value === 'string' ? value : null;
+}
+
+function toIsoTimestamp(value: unknown): string | null {
+  const date =
+    typeof value === 'number'
+      ? new Date(value * 1000)
+      : typeof value === 'string'
+        ? new Date(value)
+        : null;
+  return date && !Number.isNaN(date.getTime()) ? date.toISOString() : null;
+}
+
+function untitled(index: number): string {
+  return `Conversation ${index + 1}`;
+}
+
+/**
+ * ChatGPT stores each conversation as a tree of edits and regenerations;
+ * the visible thread is the path from `current_node` back to the root.
+ */
+function parseChatGptConversation(raw: JsonRecord, index: number): ImportedConversation {
+  const mapping = isRecord(raw.mapping) ? raw.mapping : {};
+  let nodeId = asString(raw.current_node);
+
+  if (!nodeId || !isRecord(mapping[nodeId])) {
+    // Older exports lack `current_node`: follow the first child from the root.
+    nodeId =
+      Object.entries(mapping).find(([, node]) => isRecord(node) && !node.parent)?.[0] ?? null;
+    const seen = new Set<string>();
+    while (nodeId && !seen.has(nodeId)) {
+      seen.add(nodeId);
+      const node = mapping[nodeId];
+      const children = isRecord(node) && Array.isArray(node.children) ? node.children : [];
+      const next = asString(children[0]);
+      if (!next || !isRecord(mapping[next])) {
+        break;
+      }
+      nodeId = next;
+    }
+  }
+
+  const path: JsonRecord[] = [];
+  const visited = new Set<string>();
+  while (nodeId && !visited.has(nodeId)) {
+    visited.add(nodeId);
+    const node = mapping[nodeId];
+    if (!isRecord(node)) {
+      break;
+    }
+    path.push(node);
+    nodeId = asString(node.parent);
+  }
+
+  const messages: ConversationMessage[] = [];
+  for (const node of path.reverse()) {
+    const message = isRecord(node.message) ? node.message : null;
+    const role = isRecord(message?.author) ? message.author.role : null;
+    if (role !== 'user' && role !== 'assistant') {
+      continue;
+    }
+    const parts = isRecord(message?.content) ? message.content.parts : null;
+    const text = (Array.isArray(parts) ? parts : [])
+      .filter((part): part is string => typeof part === 'string')
+      .join('\n')
+      .trim();
+    if (text) {
+      messages.push({ role, text });
+    }
+  }
+
+  return {
+    source: 'CHATGPT',
+    title: asString(raw.title)?.trim() || untitled(index),
+    createdAt: toIsoTimestamp(raw.create_time),
+    messages,
+  };
+}
+
+function parseClaudeConversation(raw: JsonRecord, index: number): ImportedConversation {
+  const messages: ConversationMessage[] = [];
+  for (const message of Array.isArray(raw.chat_messages) ? raw.chat_messages : []) {
+    if (!isRecord(message)) {
+      continue;
+    }
+    const role =
+      message.sender === 'human' ? 'user' : message.sender === 'assistant' ? 'assistant' : null;
+    if (!role) {
+      continue;
+    }
+    // Newer exports split a message into content blocks; `text` is kept for older ones.
+    const blocks = Array.isArray(message.content) ? message.content : [];
+    const blockText = blocks
+      .flatMap((block) =>
+        isRecord(block) && block.type === 'text' && typeof block.text === 'string'
+          ? [block.text]
+          : [],
+      )
+      .join('\n')
+      .trim();
+    const text = blockText || asString(message.text)?.trim() || '';
+    if (text) {
+      messages.push({ role, text });
+    }
+  }
+
+  return {
+    source: 'CLAUDE',
+    title: asString(raw.name)?.trim() || untitled(index),
+    createdAt: toIsoTimestamp(raw.created_at),
+    messages,
+  };
+}
+
+const MARKDOWN_USER_ROLES = ['user', 'human', 'you', 'me', 'prompt'];
+const MARKDOWN_ASSISTANT_ROLES = ['assistant', 'chatgpt', 'claude', 'gemini', 'copilot', 'ai'];
+const MARKDOWN_ROLE = [...MARKDOWN_USER_ROLES, ...MARKDOWN_ASSISTANT_ROLES].join('|');
+
+/**
+ * A line that starts a turn: a bare heading (`## User`) or a label followed
+ * by a colon (`User:`, `**Assistant:**`). The label may be followed by "said".
+ */
+const MARKDOWN_TURN_LINE = new RegExp(
+  `^(#{1,6}\\s*)?(?:\\*\\*|__)?(${MARKDOWN_ROLE})(?:\\s+said)?(?:\\*\\*|__)?` +
+    '\\s*(:)?\\s*(?:\\*\\*|__)?\\s*(.*)$',
+  'i',
+);
+
+function parseMarkdownTranscript(text: string, fileName?: string): ImportedConversation {
+  const messages: ConversationMessage[] = [];
+  let title: string | null = null;
+  let current: { role: ConversationMessage['role']; lines: string[] } | null = null;
+
+  const flush = () => {
+    const messageText = current?.lines.join('\n').trim();
+    if (current && messageText) {
+      messages.push({ role: current.role, text: messageText });
+    }
+  };
+
+  for (const line of text.replace(/\r\n/g, '\n').split('\n')) {
+    const turn = MARKDOWN_TURN_LINE.exec(line.trim());
+    if (turn && (turn[3] !== undefined || (turn[1] !== undefined && !turn[4]))) {
+      flush();
+      current = {
+        role: MARKDOWN_USER_ROLES.includes(turn[2].toLowerCase()) ? 'user' : 'assistant',
+        lines: turn[4] ? [turn[4]] : [],
+      };
+      continue;
+    }
+
+    if (current) {
+      current.lines.push(line);
+    } else if (!title && /^#\s+/.test(line)) {
+      title = line.replace(/^#\s+/, '').trim();
+    }
+  }
+  flush();
+
+  return {
+    source: 'MARKDOWN',
+    title: title || fileName?.replace(/\.[^.]+$/, '').trim() || 'Markdown transcript',
+    createdAt: null,
+    messages,
+  };
+}
+
+function parseJsonExport(value: unknown): ConversationExportParseResult {
+  const items = Array.isArray(value) ? value : [value];
+  const records = items.filter(isRecord);
+
+  let format: ConversationExportFormat;
+  let conversations: ImportedConversation[];
+  if (records.length > 0 && records.every((item) => isRecord(item.mapping))) {
+    format = 'CHATGPT';
+    conversations = records.map(parseChatGptConversation);
+  } else if (records.length > 0 && records.every((item) => Array.isArray(item.chat_messages))) {
+    format = 'CLAUDE';
+    conversations = records.map(parseClaudeConversation);
+  } else {
+    return { outcome: 'UNRECOGNIZED' };
+  }
+
+  const withMessages = conversations.filter((conversation) => conversation.messages.length > 0);
+  return withMessages.length > 0
+    ? { outcome: 'PARSED', format, conversations: withMessages }
+    : { outcome: 'NO_CONVERSATIONS', format };
+}
+
+/**
+ * Reads a chat export: ChatGPT's `conversations.json`, a Claude export
+ * (`conversations.json`), or a Markdown transcript with one heading or
+ * `Role:` label per turn. Empty conversations are left out.
+ */
+export function parseConversationExport(
+  text: string,
+  fileName?: string,
+): ConversationExportParseResult {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    return { outcome: 'UNRECOGNIZED' };
+  }
+
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    let value: unknown;
+    try {
+      value = JSON.parse(trimmed);
+    } catch {
+      value = undefined;
+    }
+    if (value !== undefined) {
+      return parseJsonExport(value);
+    }
+    if (fileName?.toLowerCase().endsWith('.json')) {
+      return { outcome: 'UNRECOGNIZED' };
+    }
+  }
+
+  const conversation = parseMarkdownTranscript(text, fileName);
+  if (conversation.messages.length === 0) {
+    return { outcome: 'UNRECOGNIZED' };
+  }
+  return { outcome: 'PARSED', format: 'MARKDOWN', conversations: [conversation] };
+}
+
+/** What the student asked, in order: the text post-session classification reads. */
+export function conversationPromptText(conversations: ImportedConversation[]): string {
+  return conversations
+    .flatMap((conversation) =>
+      conversation.messages.flatMap((message) => (message.role === 'user' ? [message.text] : [])),
+    )
+    .join('\n\n');
+}
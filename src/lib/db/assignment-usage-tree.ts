@@ -1,16 +1,18 @@
 import { EnrollmentRole } from '@prisma/client';
 
 import { prisma } from '@/lib/db/client';
-import { getCourseUsageRuleMap } from '@/lib/db/course-usage-rules';
-import type { UsageTreeNode } from '@/lib/usage-taxonomy';
-import { MANUAL_USAGE_TAXONOMY, getUsageTreeRootNodes } from '@/lib/usage-taxonomy';
+import { buildUsageRuleMap, createUsageRuleLayerLoader } from '@/lib/db/course-usage-rules';
+import { getActiveUsageTaxonomy } from '@/lib/db/usage-taxonomies';
+import {
+  annotateUsageTree,
+  describeUsageRuleWindows,
+  withUsageRuleWindows,
+  type AnnotatedUsageTreeNode,
+} from '@/lib/usage-rule-tree';
 
-export type UsageNodeStatus = 'ALLOWED' | 'DISALLOWED' | 'MIXED';
+export type { UsageNodeStatus } from '@/lib/usage-rule-tree';
 
-export type AssignmentUsageTreeNode = UsageTreeNode & {
-  status: UsageNodeStatus;
-  children?: AssignmentUsageTreeNode[];
-};
+export type AssignmentUsageTreeNode = AnnotatedUsageTreeNode;
 
 type AssignmentContext = {
   id: string;
@@ -22,55 +24,15 @@ type AssignmentContext = {
   };
 };
 
-function isLeaf(node: UsageTreeNode): boolean {
-  return !node.children || node.children.length === 0;
-}
-
-function computeStatus(children: UsageNodeStatus[]): UsageNodeStatus {
-  if (children.every((value) => value === 'ALLOWED')) {
-    return 'ALLOWED';
-  }
-  if (children.every((value) => value === 'DISALLOWED')) {
-    return 'DISALLOWED';
-  }
-  return 'MIXED';
-}
-
-function annotateTree(
-  nodes: UsageTreeNode[],
-  ruleMap: Map<string, boolean>,
-  inheritedDisallowed = false,
-): AssignmentUsageTreeNode[] {
-  return nodes.map((node) => {
-    const explicitRule = ruleMap.get(node.id);
-    const isNodeDisallowed = inheritedDisallowed || explicitRule === false;
-
-    if (isLeaf(node)) {
-      return {
-        id: node.id,
-        label: node.label,
-        status: isNodeDisallowed ? 'DISALLOWED' : 'ALLOWED',
-      };
-    }
-
-    const annotatedChildren = annotateTree(node.children ?? [], ruleMap, isNodeDisallowed);
-    const status = isNodeDisallowed
-      ? 'DISALLOWED'
-      : computeStatus(annotatedChildren.map((child) => child.status));
-
-    return {
-      id: node.id,
-      label: node.label,
-      status,
-      children: annotatedChildren,
-    };
-  });
-}
-
 export async function getStudentAssignmentUsageTree(
   userId: string,
   assignmentId: string,
-): Promise<{ assignment: AssignmentContext; tree: AssignmentUsageTreeNode[] } | null> {
+): Promise<{
+  assignment: AssignmentContext;
+  /** Version key new logs are recorded with; null when no taxonomy is active. */
+  taxonomyVersion: string | null;
+  tree: AssignmentUsageTreeNode[];
+} | null> {
   const assignment = await prisma.assignment.findUnique({
     where: { id: assignmentId },
     select: {
@@ -98,9 +60,19 @@ export async function getStudentAssignmentUsageTree(
     return null;
   }
 
-  const ruleMap = await getCourseUsageRuleMap(assignment.course.id);
+  const taxonomy = await getActiveUsageTaxonomy();
+  const layers = await createUsageRuleLayerLoader()(assignment.course.id, assignment.id);
+  // Statuses are as of now; nodes with time-windowed rules list their windows.
+  const now = new Date();
+  const ruleMap = buildUsageRuleMap(taxonomy?.tree ?? [], layers, now);
 
-  const tree = annotateTree(getUsageTreeRootNodes(), ruleMap);
+  const tree = withUsageRuleWindows(
+    annotateUsageTree(taxonomy?.tree ?? [], ruleMap),
+    describeUsageRuleWindows(layers.courseRules, layers.assignmentRules, {
+      at: now,
+      dueDate: layers.dueDate,
+    }),
+  );
 
   return {
     assignment: {
@@ -112,8 +84,7 @@ export async function getStudentAssignmentUsageTree(
         name: assignment.course.name,
       },
     },
+    taxonomyVersion: taxonomy?.versionKey ?? null,
     tree,
   };
 }
-
-export const assignmentUsageTaxonomyVersion = MANUAL_USAGE_TAXONOMY.length > 0 ? 'v1' : 'v1';
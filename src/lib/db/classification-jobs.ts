@@ -0,0 +1,344 @@
+import { ClassificationJobStatus, type Prisma } from '@prisma/client';
+
+import { prisma } from '@/lib/db/client';
+import { failedClassificationJobState } from '@/lib/jobs/classification-retry';
+
+/** Jobs RUNNING longer than this are assumed to belong to a crashed worker. */
+export const STALE_JOB_LOCK_MS = 5 * 60 * 1000;
+
+export interface ClaimedClassificationJob {
+  id: string;
+  aiLogId: string;
+  logRevision: number;
+  attempts: number;
+  maxAttempts: number;
+  /** When this claim took the lock; identifies the claim in later updates. */
+  lockedAt: Date;
+  /** A re-run of an already classified revision rather than its first classification. */
+  reclassification: boolean;
+  /** Admin who queued the re-run; null for post-session jobs and once that account is deleted. */
+  requestedById: string | null;
+}
+
+/**
+ * Queues classification of a log revision. Must be called in the same
+ * transaction that wrote the revision, so a committed log always has a job.
+ * Older jobs still waiting for the same log are superseded.
+ */
+export async function enqueueClassificationJob(
+  tx: Prisma.TransactionClient,
+  aiLogId: string,
+  logRevision: number,
+): Promise<void> {
+  await tx.classificationJob.updateMany({
+    where: {
+      aiLogId,
+      status: ClassificationJobStatus.PENDING,
+      logRevision: { lt: logRevision },
+    },
+    data: {
+      status: ClassificationJobStatus.SUPERSEDED,
+      completedAt: new Date(),
+    },
+  });
+
+  await tx.classificationJob.upsert({
+    where: {
+      aiLogId_logRevision_reclassification: { aiLogId, logRevision, reclassification: false },
+    },
+    create: { aiLogId, logRevision },
+    update: {},
+  });
+}
+
+/**
+ * Queues a re-run of each log's current revision for `requestedById`. A re-run
+ * already waiting for the same revision is kept; a finished one is queued
+ * again with a fresh attempt budget. Returns the number of jobs queued.
+ */
+export async function enqueueReclassificationJobs(
+  tx: Prisma.TransactionClient,
+  logs: Array<{ id: string; revision: number }>,
+  requestedById: string,
+): Promise<number> {
+  if (logs.length === 0) {
+    return 0;
+  }
+
+  const created = await tx.classificationJob.createMany({
+    data: logs.map((log) => ({
+      aiLogId: log.id,
+      logRevision: log.revision,
+      reclassification: true,
+      requestedById,
+    })),
+    skipDuplicates: true,
+  });
+
+  const requeued = await tx.classificationJob.updateMany({
+    where: {
+      reclassification: true,
+      status: {
+        in: [
+          ClassificationJobStatus.SUCCEEDED,
+          ClassificationJobStatus.SUPERSEDED,
+          ClassificationJobStatus.DEAD,
+        ],
+      },
+      OR: logs.map((log) => ({ aiLogId: log.id, logRevision: log.revision })),
+    },
+    data: {
+      status: ClassificationJobStatus.PENDING,
+      requestedById,
+      attempts: 0,
+      runAfter: new Date(),
+      lastError: null,
+      completedAt: null,
+    },
+  });
+
+  return created.count + requeued.count;
+}
+
+/**
+ * Atomically claims the oldest due job. `SKIP LOCKED` lets several workers
+ * poll the same table without handing the same job out twice.
+ */
+export async function claimNextClassificationJob(
+  workerId: string,
+): Promise<ClaimedClassificationJob | null> {
+  const rows = await prisma.$queryRaw<ClaimedClassificationJob[]>`
+    UPDATE "classification_jobs"
+    SET "status" = 'RUNNING'::"classification_job_status",
+        "attempts" = "attempts" + 1,
+        -- Millisecond precision so the claim's lock time round-trips through Date.
+        "locked_at" = date_trunc('milliseconds', CURRENT_TIMESTAMP),
+        "locked_by" = ${workerId},
+        "updated_at" = CURRENT_TIMESTAMP
+    WHERE "id" = (
+      SELECT "id" FROM "classification_jobs"
+      WHERE "status" = 'PENDING'::"classification_job_status"
+        AND "run_after" <= CURRENT_TIMESTAMP
+      ORDER BY "run_after" ASC
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING "id",
+              "ai_log_id" AS "aiLogId",
+              "log_revision" AS "logRevision",
+              "attempts",
+              "max_attempts" AS "maxAttempts",
+              "locked_at" AS "lockedAt",
+              "reclassification",
+              "requested_by" AS "requestedById"
+  `;
+
+  return rows[0] ?? null;
+}
+
+/**
+ * Marks a claimed job finished. Pass the classification transaction for
+ * SUCCEEDED so the result and the job state commit together — a crash between
+ * the two would otherwise classify the same revision twice. Like
+ * `failClassificationJob`, only applies while the job is still held by this
+ * claim; returns false when its lock expired and it was handed out again.
+ */
+export async function completeClassificationJob(
+  client: Prisma.TransactionClient,
+  job: ClaimedClassificationJob,
+  status: typeof ClassificationJobStatus.SUCCEEDED | typeof ClassificationJobStatus.SUPERSEDED,
+): Promise<boolean> {
+  const updated = await client.classificationJob.updateMany({
+    where: {
+      id: job.id,
+      status: ClassificationJobStatus.RUNNING,
+      lockedAt: job.lockedAt,
+      attempts: job.attempts,
+    },
+    data: {
+      status,
+      lockedAt: null,
+      lastError: null,
+      completedAt: new Date(),
+    },
+  });
+
+  return updated.count > 0;
+}
+
+/**
+ * Settles the queued or running post-session job of a log revision that was
+ * classified outside the queue (the internal endpoint), in the transaction
+ * that stores the result, so the worker does not classify it a second time.
+ * A worker still running it loses its lock and rolls back. Queued re-runs are
+ * left alone: they were asked for after the revision's first classification.
+ */
+export async function settleClassificationJobsForRevision(
+  tx: Prisma.TransactionClient,
+  aiLogId: string,
+  logRevision: number,
+): Promise<void> {
+  await tx.classificationJob.updateMany({
+    where: {
+      aiLogId,
+      logRevision,
+      reclassification: false,
+      status: { in: [ClassificationJobStatus.PENDING, ClassificationJobStatus.RUNNING] },
+    },
+    data: {
+      status: ClassificationJobStatus.SUCCEEDED,
+      lockedAt: null,
+      lastError: null,
+      completedAt: new Date(),
+    },
+  });
+}
+
+/**
+ * Records a failed attempt: schedules a retry with backoff, or moves the job
+ * to DEAD once `maxAttempts` is reached. Only applies while the job is still
+ * held by this claim; returns null when its lock expired and it was handed out
+ * again, so a late failure cannot overwrite the newer claim's state.
+ */
+export async function failClassificationJob(
+  job: ClaimedClassificationJob,
+  error: unknown,
+): Promise<ClassificationJobStatus | null> {
+  const next = failedClassificationJobState(job.attempts, job.maxAttempts);
+  const message = error instanceof Error ? error.message : String(error);
+
+  const updated = await prisma.classificationJob.updateMany({
+    where: {
+      id: job.id,
+      status: ClassificationJobStatus.RUNNING,
+      lockedAt: job.lockedAt,
+      attempts: job.attempts,
+    },
+    data: {
+      ...next,
+      lockedAt: null,
+      lastError: message.slice(0, 2000),
+    },
+  });
+
+  return updated.count > 0 ? next.status : null;
+}
+
+/**
+ * Returns RUNNING jobs whose lock has expired to the queue (or to DEAD when
+ * they already used up their attempts). Returns the number of jobs touched.
+ */
+export async function releaseStaleClassificationJobs(now = new Date()): Promise<number> {
+  const staleBefore = new Date(now.getTime() - STALE_JOB_LOCK_MS);
+  const staleWhere = {
+    status: ClassificationJobStatus.RUNNING,
+    lockedAt: { lt: staleBefore },
+  };
+
+  const [dead, requeued] = await prisma.$transaction([
+    prisma.classificationJob.updateMany({
+      where: { ...staleWhere, attempts: { gte: prisma.classificationJob.fields.maxAttempts } },
+      data: {
+        status: ClassificationJobStatus.DEAD,
+        lockedAt: null,
+        lastError: 'Worker lock expired',
+        completedAt: now,
+      },
+    }),
+    prisma.classificationJob.updateMany({
+      where: staleWhere,
+      data: {
+        status: ClassificationJobStatus.PENDING,
+        lockedAt: null,
+        lastError: 'Worker lock expired',
+        runAfter: now,
+      },
+    }),
+  ]);
+
+  return dead.count + requeued.count;
+}
+
+/** Puts a DEAD job back in the queue with a fresh attempt budget. */
+export async function retryDeadClassificationJob(jobId: string): Promise<boolean> {
+  const updated = await prisma.classificationJob.updateMany({
+    where: { id: jobId, status: ClassificationJobStatus.DEAD },
+    data: {
+      status: ClassificationJobStatus.PENDING,
+      attempts: 0,
+      runAfter: new Date(),
+      lastError: null,
+      completedAt: null,
+    },
+  });
+
+  return updated.count > 0;
+}
+
+export interface StuckClassificationJob {
+  id: string;
+  aiLogId: string;
+  logRevision: number;
+  status: ClassificationJobStatus;
+  attempts: number;
+  maxAttempts: number;
+  runAfter: Date;
+  lockedAt: Date | null;
+  lockedBy: string | null;
+  lastError: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Jobs that need attention: DEAD jobs, jobs that already failed at least once
+ * and are waiting for a retry, and jobs RUNNING past the lock timeout.
+ */
+export async function listStuckClassificationJobs(now = new Date()): Promise<{
+  counts: Record<ClassificationJobStatus, number>;
+  jobs: StuckClassificationJob[];
+}> {
+  const [grouped, jobs] = await Promise.all([
+    prisma.classificationJob.groupBy({
+      by: ['status'],
+      _count: { _all: true },
+    }),
+    prisma.classificationJob.findMany({
+      where: {
+        OR: [
+          { status: ClassificationJobStatus.DEAD },
+          { status: ClassificationJobStatus.PENDING, attempts: { gt: 0 } },
+          {
+            status: ClassificationJobStatus.RUNNING,
+            lockedAt: { lt: new Date(now.getTime() - STALE_JOB_LOCK_MS) },
+          },
+        ],
+      },
+      orderBy: [{ updatedAt: 'desc' }],
+      take: 200,
+      select: {
+        id: true,
+        aiLogId: true,
+        logRevision: true,
+        status: true,
+        attempts: true,
+        maxAttempts: true,
+        runAfter: true,
+        lockedAt: true,
+        lockedBy: true,
+        lastError: true,
+        createdAt: true,
+        updatedAt: true,
+      },
+    }),
+  ]);
+
+  const counts = Object.fromEntries(
+    Object.values(ClassificationJobStatus).map((status) => [status, 0]),
+  ) as Record<ClassificationJobStatus, number>;
+  for (const row of grouped) {
+    counts[row.status] = row._count._all;
+  }
+
+  return { counts, jobs };
+}
@@ -1,69 +1,186 @@
+import { EnrollmentRole, type Prisma, UserRole } from '@prisma/client';
+
+import type { CourseTreeSignals } from '@/lib/compliance/compliance-decision';
 import { prisma } from '@/lib/db/client';
+import { createUsageTaxonomyLoader, getUsageNodeMapBetween } from '@/lib/db/usage-taxonomies';
 import {
+  flattenUsageTree,
+  getBaselineDisallowedNodeIds,
   getDescendantLeafNodeIds,
   getUsageNodeIdPath,
   isLeafUsageNodeId,
+  type UsageTreeNode,
 } from '@/lib/usage-taxonomy';
+import {
+  activeUsageRules,
+  applyAssignmentUsageRules,
+  diffUsageRuleChanges,
+  findUnmetUsageJustifications,
+  getEffectiveUsageRule,
+  mergeCourseUsageRules,
+  planUsageRuleCopy,
+  type AppliedUsageRuleChange,
+  type CourseUsageRuleChange,
+  type StoredUsageRule,
+  type UsageJustification,
+  type UsageRuleCopyResult,
+  type UsageRuleMap,
+} from '@/lib/usage-rule-tree';
+import { mapLogUsageForRules, type UsageNodeMap } from '@/lib/usage-taxonomy-migration';
 
-const BASELINE_DISALLOWED_NODE_IDS = [
-  'full-section-generation',
-  'full-solution-generation',
-] as const;
-
-function getBaselineRuleMap(): Map<string, boolean> {
-  return new Map(
-    BASELINE_DISALLOWED_NODE_IDS.map((nodeId) => [nodeId, false]),
-  );
-}
+const ruleSelect = {
+  nodeId: true,
+  isAllowed: true,
+  requiresJustification: true,
+  minEvidenceCount: true,
+  activeFrom: true,
+  activeUntil: true,
+  activeFromDueOffsetDays: true,
+  activeUntilDueOffsetDays: true,
+} as const;
 
-export async function getCourseUsageRuleMap(courseId: string): Promise<Map<string, boolean>> {
+async function listCourseRulesForMap(courseId: string): Promise<StoredUsageRule[]> {
   const courseUsageRuleDelegate = (prisma as unknown as {
     courseUsageRule?: {
       findMany: (args: {
         where: { courseId: string };
-        select: { nodeId: true; isAllowed: true };
-      }) => Promise<Array<{ nodeId: string; isAllowed: boolean }>>;
+        select: typeof ruleSelect;
+      }) => Promise<StoredUsageRule[]>;
     };
   }).courseUsageRule;
 
   if (!courseUsageRuleDelegate) {
-    return getBaselineRuleMap();
+    return [];
   }
 
-  const courseRules = await courseUsageRuleDelegate
+  return courseUsageRuleDelegate
     .findMany({
       where: { courseId },
-      select: {
-        nodeId: true,
-        isAllowed: true,
-      },
+      select: ruleSelect,
     })
-    .catch((error: unknown) => {
-      if (
-        typeof error === 'object' &&
-        error !== null &&
-        'code' in error &&
-        ((error as { code?: string }).code === 'P2021' ||
-          (error as { code?: string }).code === 'P2022')
-      ) {
-        return [];
-      }
-      throw error;
-    });
+    .catch(ignoreMissingRuleTable);
+}
 
-  const merged = getBaselineRuleMap();
-  for (const rule of courseRules) {
-    merged.set(rule.nodeId, rule.isAllowed);
+function ignoreMissingRuleTable(error: unknown): never[] {
+  if (
+    typeof error === 'object' &&
+    error !== null &&
+    'code' in error &&
+    ((error as { code?: string }).code === 'P2021' ||
+      (error as { code?: string }).code === 'P2022')
+  ) {
+    return [];
   }
+  throw error;
+}
+
+export async function listAssignmentUsageRules(assignmentId: string) {
+  return prisma.assignmentUsageRule.findMany({
+    where: { assignmentId },
+    select: { ...ruleSelect, updatedAt: true },
+    orderBy: [{ nodeId: 'asc' }],
+  });
+}
+
+async function getAssignmentDueDate(assignmentId: string): Promise<Date | null> {
+  const assignment = await prisma.assignment.findUnique({
+    where: { id: assignmentId },
+    select: { dueDate: true },
+  });
+  return assignment?.dueDate ?? null;
+}
+
+/** Everything an assignment's rule map is built from, before time windows apply. */
+export interface AssignmentUsageRuleLayers {
+  dueDate: Date | null;
+  courseRules: StoredUsageRule[];
+  assignmentRules: StoredUsageRule[];
+}
+
+/**
+ * Loads the rule layers of assignments, caching each course's and
+ * assignment's rules so a batch of logs reads each once.
+ */
+export function createUsageRuleLayerLoader() {
+  const courseRules = new Map<string, Promise<StoredUsageRule[]>>();
+  const assignments = new Map<
+    string,
+    Promise<Omit<AssignmentUsageRuleLayers, 'courseRules'>>
+  >();
 
-  return merged;
+  return async (courseId: string, assignmentId: string): Promise<AssignmentUsageRuleLayers> => {
+    let rules = courseRules.get(courseId);
+    if (!rules) {
+      rules = listCourseRulesForMap(courseId);
+      courseRules.set(courseId, rules);
+    }
+
+    let assignment = assignments.get(assignmentId);
+    if (!assignment) {
+      assignment = Promise.all([
+        getAssignmentDueDate(assignmentId),
+        listAssignmentUsageRules(assignmentId),
+      ]).then(([dueDate, assignmentRules]) => ({ dueDate, assignmentRules }));
+      assignments.set(assignmentId, assignment);
+    }
+
+    return { ...(await assignment), courseRules: await rules };
+  };
+}
+
+/**
+ * The effective rule map (the tree's baseline, then course, then assignment
+ * rules) at `at`: rules whose window does not include it are left out.
+ */
+export function buildUsageRuleMap(
+  tree: UsageTreeNode[],
+  layers: AssignmentUsageRuleLayers,
+  at: Date,
+): UsageRuleMap {
+  const timing = { at, dueDate: layers.dueDate };
+  return applyAssignmentUsageRules(
+    tree,
+    mergeCourseUsageRules(
+      activeUsageRules(layers.courseRules, timing),
+      getBaselineDisallowedNodeIds(tree),
+    ),
+    activeUsageRules(layers.assignmentRules, timing),
+  );
+}
+
+/**
+ * Loads effective rule maps for logs checked at `at` (their `loggedAt`),
+ * reading each course's and assignment's rules once per loader. Rules are
+ * stored on the active taxonomy's node ids; see
+ * `createLogCourseTreeSignalsLoader` for logs recorded against older versions.
+ */
+export function createUsageRuleMapLoader() {
+  const loadLayers = createUsageRuleLayerLoader();
+
+  return async (
+    courseId: string,
+    assignmentId: string,
+    tree: UsageTreeNode[],
+    at: Date,
+  ): Promise<UsageRuleMap> => buildUsageRuleMap(tree, await loadLayers(courseId, assignmentId), at);
+}
+
+/** The rules a log for the assignment logged at `at` is checked against. */
+export async function getAssignmentUsageRuleMap(
+  courseId: string,
+  assignmentId: string,
+  tree: UsageTreeNode[],
+  at: Date,
+): Promise<UsageRuleMap> {
+  return createUsageRuleMapLoader()(courseId, assignmentId, tree, at);
 }
 
 export function isUsageNodeAllowedByRules(
+  tree: UsageTreeNode[],
   nodeId: string,
-  ruleMap: Map<string, boolean>,
+  ruleMap: UsageRuleMap,
 ): boolean {
-  const nodePath = getUsageNodeIdPath(nodeId);
+  const nodePath = getUsageNodeIdPath(tree, nodeId);
   if (nodePath.length === 0) {
     return true;
   }
@@ -78,28 +195,461 @@ export function isUsageNodeAllowedByRules(
 }
 
 export function findDisallowedUsageSelections(
+  tree: UsageTreeNode[],
   nodeIds: string[],
-  ruleMap: Map<string, boolean>,
+  ruleMap: UsageRuleMap,
 ): string[] {
-  return nodeIds.filter((nodeId) => !isUsageNodeAllowedByRules(nodeId, ruleMap));
+  return nodeIds.filter((nodeId) => !isUsageNodeAllowedByRules(tree, nodeId, ruleMap));
 }
 
 export function findWarningParentSelections(
+  tree: UsageTreeNode[],
   nodeIds: string[],
-  ruleMap: Map<string, boolean>,
+  ruleMap: UsageRuleMap,
 ): string[] {
   return nodeIds.filter((nodeId) => {
-    if (isLeafUsageNodeId(nodeId)) {
+    if (isLeafUsageNodeId(tree, nodeId)) {
       return false;
     }
 
-    const descendantLeafNodeIds = getDescendantLeafNodeIds(nodeId);
+    const descendantLeafNodeIds = getDescendantLeafNodeIds(tree, nodeId);
     if (descendantLeafNodeIds.length === 0) {
       return false;
     }
 
     return descendantLeafNodeIds.some(
-      (leafNodeId) => !isUsageNodeAllowedByRules(leafNodeId, ruleMap),
+      (leafNodeId) => !isUsageNodeAllowedByRules(tree, leafNodeId, ruleMap),
+    );
+  });
+}
+
+/**
+ * The course-tree signals of a log: selections that need a justification the
+ * log does not give count as disallowed, justified ones as warnings.
+ */
+export function getCourseTreeSignals(
+  tree: UsageTreeNode[],
+  nodeIds: string[],
+  ruleMap: UsageRuleMap,
+  justification: UsageJustification,
+): CourseTreeSignals {
+  const unjustified = new Set(
+    findUnmetUsageJustifications(tree, nodeIds, ruleMap, justification).map(
+      (unmet) => unmet.nodeId,
+    ),
+  );
+
+  return {
+    disallowedSelections: nodeIds.filter(
+      (nodeId) => unjustified.has(nodeId) || !isUsageNodeAllowedByRules(tree, nodeId, ruleMap),
+    ),
+    warningParentSelections: findWarningParentSelections(tree, nodeIds, ruleMap),
+    justifiedSelections: nodeIds.filter((nodeId) => {
+      const rule = getEffectiveUsageRule(tree, nodeId, ruleMap);
+      return typeof rule !== 'boolean' && !unjustified.has(nodeId);
+    }),
+  };
+}
+
+/** What checking one log against its assignment's rules needs. */
+export interface LogUsageRuleCheck {
+  courseId: string;
+  assignmentId: string;
+  /** The taxonomy version the selections and evidence were recorded against. */
+  usageTaxonomyVersion: string | null;
+  nodeIds: string[];
+  evidenceNodeIds: string[];
+  usageReason: string;
+  loggedAt: Date;
+}
+
+/**
+ * Loads the course-tree signals of logs. Publishing a taxonomy moves rules
+ * onto the new node ids, so a log recorded against an older version is
+ * checked with its selections and evidence mapped onto the active version; the
+ * signals name the ids the log recorded. Trees, node maps and rules are read
+ * once per loader.
+ */
+export function createLogCourseTreeSignalsLoader() {
+  const loadUsageRuleMap = createUsageRuleMapLoader();
+  const loadUsageTaxonomy = createUsageTaxonomyLoader();
+  const nodeMaps = new Map<string, Promise<UsageNodeMap | null>>();
+
+  return async (log: LogUsageRuleCheck): Promise<CourseTreeSignals> => {
+    const [recorded, active] = await Promise.all([
+      loadUsageTaxonomy(log.usageTaxonomyVersion),
+      loadUsageTaxonomy(null),
+    ]);
+    const recordedTree = recorded?.tree ?? [];
+
+    let nodeMap: Promise<UsageNodeMap | null> = Promise.resolve(null);
+    if (recorded && active && recorded.versionKey !== active.versionKey) {
+      nodeMap =
+        nodeMaps.get(recorded.versionKey) ??
+        getUsageNodeMapBetween(recorded.versionKey, active.versionKey);
+      nodeMaps.set(recorded.versionKey, nodeMap);
+    }
+
+    const map = await nodeMap;
+    if (!map || !active) {
+      return getCourseTreeSignals(
+        recordedTree,
+        log.nodeIds,
+        await loadUsageRuleMap(log.courseId, log.assignmentId, recordedTree, log.loggedAt),
+        { usageReason: log.usageReason, evidenceNodeIds: log.evidenceNodeIds },
+      );
+    }
+
+    const mapped = mapLogUsageForRules(log.nodeIds, log.evidenceNodeIds, map);
+    const signals = getCourseTreeSignals(
+      active.tree,
+      mapped.nodeIds,
+      await loadUsageRuleMap(log.courseId, log.assignmentId, active.tree, log.loggedAt),
+      { usageReason: log.usageReason, evidenceNodeIds: mapped.evidenceNodeIds },
     );
+
+    return {
+      disallowedSelections: mapped.recordedNodeIds(signals.disallowedSelections),
+      warningParentSelections: mapped.recordedNodeIds(signals.warningParentSelections),
+      justifiedSelections: mapped.recordedNodeIds(signals.justifiedSelections ?? []),
+    };
+  };
+}
+
+/** `createLogCourseTreeSignalsLoader` for a single log. */
+export async function getLogCourseTreeSignals(log: LogUsageRuleCheck): Promise<CourseTreeSignals> {
+  return createLogCourseTreeSignalsLoader()(log);
+}
+
+export interface EditableCourse {
+  id: string;
+  courseCode: string;
+  name: string;
+}
+
+export type CourseRuleEditingAccess =
+  | { outcome: 'NOT_FOUND' }
+  | { outcome: 'FORBIDDEN' }
+  | { outcome: 'OK'; course: EditableCourse };
+
+export interface EditableAssignment {
+  id: string;
+  title: string;
+  course: EditableCourse;
+}
+
+export type AssignmentRuleEditingAccess =
+  | { outcome: 'NOT_FOUND' }
+  | { outcome: 'FORBIDDEN' }
+  | { outcome: 'OK'; assignment: EditableAssignment };
+
+export type ApplyCourseUsageRuleChangesResult =
+  | { outcome: 'INVALID'; errors: string[] }
+  | {
+      outcome: 'APPLIED';
+      /** Only changes that altered the stored rule; no-ops are dropped. */
+      changes: AppliedUsageRuleChange[];
+    };
+
+/** Where a course's replacement rule set comes from. */
+export type UsageRuleCopySource =
+  | { kind: 'TEMPLATE'; id: string; name: string; rules: StoredUsageRule[] }
+  | { kind: 'COURSE'; id: string; courseCode: string; rules: StoredUsageRule[] };
+
+function storedRuleData(change: AppliedUsageRuleChange) {
+  return {
+    isAllowed: change.next !== 'DISALLOWED',
+    requiresJustification: change.next === 'REQUIRES_JUSTIFICATION',
+    minEvidenceCount: change.minEvidenceCount,
+    activeFrom: change.window?.activeFrom ?? null,
+    activeUntil: change.window?.activeUntil ?? null,
+    activeFromDueOffsetDays: change.window?.activeFromDueOffsetDays ?? null,
+    activeUntilDueOffsetDays: change.window?.activeUntilDueOffsetDays ?? null,
+  };
+}
+
+async function writeCourseUsageRuleChange(
+  tx: Prisma.TransactionClient,
+  courseId: string,
+  change: AppliedUsageRuleChange,
+) {
+  if (change.next === 'INHERIT') {
+    await tx.courseUsageRule.delete({
+      where: { courseId_nodeId: { courseId, nodeId: change.nodeId } },
+    });
+  } else {
+    await tx.courseUsageRule.upsert({
+      where: { courseId_nodeId: { courseId, nodeId: change.nodeId } },
+      create: { courseId, nodeId: change.nodeId, ...storedRuleData(change) },
+      update: storedRuleData(change),
+    });
+  }
+}
+
+export function validateUsageRuleChanges(
+  tree: UsageTreeNode[],
+  changes: Array<{ nodeId: string }>,
+): string[] {
+  const nodeIds = new Set(flattenUsageTree(tree).map((record) => record.nodeId));
+  const seen = new Set<string>();
+  const errors: string[] = [];
+  for (const change of changes) {
+    if (!nodeIds.has(change.nodeId)) {
+      errors.push(`"${change.nodeId}" is not a node of the active usage taxonomy`);
+    }
+    if (seen.has(change.nodeId)) {
+      errors.push(`"${change.nodeId}" is changed more than once`);
+    }
+    seen.add(change.nodeId);
+  }
+  return errors;
+}
+
+/** Course instructors and admins may edit a course's usage rules. */
+export async function getCourseForRuleEditing(
+  courseId: string,
+  user: { id: string; role: UserRole },
+): Promise<CourseRuleEditingAccess> {
+  const course = await prisma.course.findUnique({
+    where: { id: courseId },
+    select: {
+      id: true,
+      courseCode: true,
+      name: true,
+      enrollments: {
+        where: { userId: user.id, role: EnrollmentRole.INSTRUCTOR },
+        select: { id: true },
+        take: 1,
+      },
+    },
+  });
+
+  if (!course) {
+    return { outcome: 'NOT_FOUND' };
+  }
+
+  if (user.role !== UserRole.ADMIN && course.enrollments.length === 0) {
+    return { outcome: 'FORBIDDEN' };
+  }
+
+  return {
+    outcome: 'OK',
+    course: { id: course.id, courseCode: course.courseCode, name: course.name },
+  };
+}
+
+/** Courses the user can edit rules for: all courses for admins. */
+export async function listRuleEditableCourses(user: {
+  id: string;
+  role: UserRole;
+}): Promise<Array<EditableCourse & { ruleCount: number }>> {
+  const courses = await prisma.course.findMany({
+    where:
+      user.role === UserRole.ADMIN
+        ? {}
+        : { enrollments: { some: { userId: user.id, role: EnrollmentRole.INSTRUCTOR } } },
+    select: {
+      id: true,
+      courseCode: true,
+      name: true,
+      _count: { select: { usageRules: true } },
+    },
+    orderBy: [{ courseCode: 'asc' }],
+  });
+
+  return courses.map(({ _count, ...course }) => ({ ...course, ruleCount: _count.usageRules }));
+}
+
+export async function listCourseUsageRules(courseId: string) {
+  return prisma.courseUsageRule.findMany({
+    where: { courseId },
+    select: { ...ruleSelect, updatedAt: true },
+    orderBy: [{ nodeId: 'asc' }],
+  });
+}
+
+/**
+ * Applies rule changes for nodes of `tree` in one transaction and writes a
+ * COURSE_USAGE_RULE_CHANGED audit entry for each node whose rule changed.
+ */
+export async function applyCourseUsageRuleChanges(
+  courseId: string,
+  tree: UsageTreeNode[],
+  changes: CourseUsageRuleChange[],
+  actor: { id: string; ipAddress?: string; taxonomyVersion: string },
+): Promise<ApplyCourseUsageRuleChangesResult> {
+  const errors = validateUsageRuleChanges(tree, changes);
+  if (errors.length > 0) {
+    return { outcome: 'INVALID', errors };
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const existing = await tx.courseUsageRule.findMany({
+      where: { courseId, nodeId: { in: changes.map((change) => change.nodeId) } },
+      select: ruleSelect,
+    });
+    const applied = diffUsageRuleChanges(existing, changes);
+
+    for (const change of applied) {
+      await writeCourseUsageRuleChange(tx, courseId, change);
+
+      await tx.auditLog.create({
+        data: {
+          actorId: actor.id,
+          actionType: 'COURSE_USAGE_RULE_CHANGED',
+          resourceType: 'course',
+          resourceId: courseId,
+          metadataJson: { ...change, taxonomyVersion: actor.taxonomyVersion },
+          ipAddress: actor.ipAddress,
+        },
+      });
+    }
+
+    return { outcome: 'APPLIED' as const, changes: applied };
+  });
+}
+
+/**
+ * Replaces a course's rules with `source`'s: source rules on nodes of `tree`
+ * are copied and every other course rule is removed. With `preview`, nothing
+ * is written; otherwise one COURSE_USAGE_RULES_COPIED audit entry records the
+ * source and the changes.
+ */
+export async function copyCourseUsageRules(
+  courseId: string,
+  tree: UsageTreeNode[],
+  source: UsageRuleCopySource,
+  actor: { id: string; ipAddress?: string; taxonomyVersion: string },
+  options: { preview?: boolean } = {},
+): Promise<UsageRuleCopyResult> {
+  return prisma.$transaction(async (tx) => {
+    const existing = await tx.courseUsageRule.findMany({
+      where: { courseId },
+      select: ruleSelect,
+    });
+    const { changes, skippedNodeIds } = planUsageRuleCopy(existing, source.rules, tree);
+
+    if (options.preview) {
+      return { changes, skippedNodeIds };
+    }
+
+    for (const change of changes) {
+      await writeCourseUsageRuleChange(tx, courseId, change);
+    }
+
+    await tx.auditLog.create({
+      data: {
+        actorId: actor.id,
+        actionType: 'COURSE_USAGE_RULES_COPIED',
+        resourceType: 'course',
+        resourceId: courseId,
+        metadataJson: {
+          source:
+            source.kind === 'TEMPLATE'
+              ? { kind: source.kind, id: source.id, name: source.name }
+              : { kind: source.kind, id: source.id, courseCode: source.courseCode },
+          changes: changes.map((change) => ({ ...change })),
+          skippedNodeIds,
+          taxonomyVersion: actor.taxonomyVersion,
+        },
+        ipAddress: actor.ipAddress,
+      },
+    });
+
+    return { changes, skippedNodeIds };
+  });
+}
+
+/** Assignment rules are edited by whoever may edit the course's rules. */
+export async function getAssignmentForRuleEditing(
+  assignmentId: string,
+  user: { id: string; role: UserRole },
+): Promise<AssignmentRuleEditingAccess> {
+  const assignment = await prisma.assignment.findUnique({
+    where: { id: assignmentId },
+    select: { id: true, title: true, courseId: true },
+  });
+
+  if (!assignment) {
+    return { outcome: 'NOT_FOUND' };
+  }
+
+  const access = await getCourseForRuleEditing(assignment.courseId, user);
+  if (access.outcome !== 'OK') {
+    return access;
+  }
+
+  return {
+    outcome: 'OK',
+    assignment: { id: assignment.id, title: assignment.title, course: access.course },
+  };
+}
+
+export async function listCourseAssignmentsForRuleEditing(courseId: string) {
+  const assignments = await prisma.assignment.findMany({
+    where: { courseId },
+    select: {
+      id: true,
+      title: true,
+      dueDate: true,
+      _count: { select: { usageRules: true } },
+    },
+    orderBy: [{ createdAt: 'asc' }],
+  });
+
+  return assignments.map(({ _count, ...assignment }) => ({
+    ...assignment,
+    ruleCount: _count.usageRules,
+  }));
+}
+
+/**
+ * Same as `applyCourseUsageRuleChanges` for an assignment's rules, audited as
+ * ASSIGNMENT_USAGE_RULE_CHANGED. INHERIT falls back to the course's rules.
+ */
+export async function applyAssignmentUsageRuleChanges(
+  assignmentId: string,
+  tree: UsageTreeNode[],
+  changes: CourseUsageRuleChange[],
+  actor: { id: string; ipAddress?: string; taxonomyVersion: string },
+): Promise<ApplyCourseUsageRuleChangesResult> {
+  const errors = validateUsageRuleChanges(tree, changes);
+  if (errors.length > 0) {
+    return { outcome: 'INVALID', errors };
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const existing = await tx.assignmentUsageRule.findMany({
+      where: { assignmentId, nodeId: { in: changes.map((change) => change.nodeId) } },
+      select: ruleSelect,
+    });
+    const applied = diffUsageRuleChanges(existing, changes);
+
+    for (const change of applied) {
+      if (change.next === 'INHERIT') {
+        await tx.assignmentUsageRule.delete({
+          where: { assignmentId_nodeId: { assignmentId, nodeId: change.nodeId } },
+        });
+      } else {
+        await tx.assignmentUsageRule.upsert({
+          where: { assignmentId_nodeId: { assignmentId, nodeId: change.nodeId } },
+          create: { assignmentId, nodeId: change.nodeId, ...storedRuleData(change) },
+          update: storedRuleData(change),
+        });
+      }
+
+      await tx.auditLog.create({
+        data: {
+          actorId: actor.id,
+          actionType: 'ASSIGNMENT_USAGE_RULE_CHANGED',
+          resourceType: 'assignment',
+          resourceId: assignmentId,
+          metadataJson: { ...change, taxonomyVersion: actor.taxonomyVersion },
+          ipAddress: actor.ipAddress,
+        },
+      });
+    }
+
+    return { outcome: 'APPLIED' as const, changes: applied };
   });
 }
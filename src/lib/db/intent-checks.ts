@@ -0,0 +1,77 @@
+import { CheckType, type Prisma } from '@prisma/client';
+
+import type { EvaluateIntentResult } from '@/lib/compliance/policy-evaluator';
+import { prisma } from '@/lib/db/client';
+import { encryptText } from '@/lib/encryption/aes';
+
+/**
+ * PREVIEW: the debounced check shown while the student types.
+ * SUBMISSION: the check whose category became the log's `intentCategory`.
+ */
+export type IntentCheckSource = 'PREVIEW' | 'SUBMISSION';
+
+export interface RecordIntentCheckInput {
+  userId: string;
+  assignmentId: string;
+  policyVersionId: string;
+  reason: string;
+  result: EvaluateIntentResult;
+  source: IntentCheckSource;
+  /** Set when the log already exists (submission); previews are linked on save. */
+  aiLogId?: string;
+}
+
+/** Stores one pre-session intent check with its input encrypted. */
+export async function recordIntentCheck(
+  input: RecordIntentCheckInput,
+  db: Prisma.TransactionClient = prisma,
+): Promise<{ id: string }> {
+  return db.complianceCheck.create({
+    data: {
+      aiLogId: input.aiLogId ?? null,
+      userId: input.userId,
+      assignmentId: input.assignmentId,
+      checkType: CheckType.PRE_SESSION,
+      policyVersionId: input.policyVersionId,
+      inputText: encryptText(input.reason),
+      detectedCategory: input.result.detectedCategory ?? 'UNKNOWN',
+      complianceResult: input.result.complianceStatus,
+      ruleReferences: input.result.ruleReferences,
+      flagsJson: {
+        source: input.source,
+        severityLevel: input.result.severityLevel,
+        language: input.result.language,
+        matchedSpans: input.result.matchedSpans,
+      },
+    },
+    select: { id: true },
+  });
+}
+
+/**
+ * Attaches the preview checks a form sent with a log (`intentCheckIds`) to
+ * that log. Only the student's own, not-yet-linked checks for the log's
+ * assignment are taken; other ids are ignored. Call in the transaction that
+ * saves the log.
+ */
+export async function linkIntentChecks(
+  tx: Prisma.TransactionClient,
+  input: { userId: string; assignmentId: string; aiLogId: string; checkIds: string[] },
+): Promise<number> {
+  if (input.checkIds.length === 0) {
+    return 0;
+  }
+
+  const linked = await tx.complianceCheck.updateMany({
+    where: {
+      id: { in: input.checkIds },
+      checkType: CheckType.PRE_SESSION,
+      aiLogId: null,
+      userId: input.userId,
+      assignmentId: input.assignmentId,
+    },
+    data: { aiLogId: input.aiLogId },
+  });
+
+  return linked.count;
+}
@@ -0,0 +1,337 @@
+import {
+  CheckType,
+  ClassificationJobStatus,
+  ComplianceStatus,
+  ResolutionStatus,
+  SeverityLevel,
+} from '@prisma/client';
+
+import { PolicyEvaluator } from '@/lib/compliance';
+import { decideCompliance } from '@/lib/compliance/compliance-decision';
+import { joinLogText, spansByField } from '@/lib/compliance/keyword-spans';
+import { PrismaPolicyRuleProvider } from '@/lib/compliance/policy-evaluator';
+import { detectSelectionConflict, resolveSelectionIntent } from '@/lib/compliance/selection-intent';
+import {
+  completeClassificationJob,
+  settleClassificationJobsForRevision,
+  type ClaimedClassificationJob,
+} from '@/lib/db/classification-jobs';
+import { prisma } from '@/lib/db/client';
+import { getLogCourseTreeSignals } from '@/lib/db/course-usage-rules';
+import { decryptConversationPrompts } from '@/lib/db/log-evidence';
+import { createUsageTaxonomyLoader } from '@/lib/db/usage-taxonomies';
+import { encryptText } from '@/lib/encryption/aes';
+import { decryptNullableText } from '@/lib/encryption/field-encryptor';
+import { categorizeUsageSelections } from '@/lib/usage-taxonomy';
+
+export interface ClassifiedLog {
+  logId: string;
+  actualCategory: string | null;
+  conflictFlag: boolean;
+  directViolationFlag: boolean;
+  flagSeverity: SeverityLevel | null;
+  complianceStatus: ComplianceStatus;
+  resolutionStatus: ResolutionStatus;
+}
+
+export type ClassificationOutcomeSnapshot = Pick<
+  ClassifiedLog,
+  | 'actualCategory'
+  | 'conflictFlag'
+  | 'directViolationFlag'
+  | 'flagSeverity'
+  | 'complianceStatus'
+  | 'resolutionStatus'
+>;
+
+export type ClassifyAiLogResult =
+  | { outcome: 'NOT_FOUND' }
+  | { outcome: 'ALREADY_CLASSIFIED' }
+  | { outcome: 'SUPERSEDED' }
+  | { outcome: 'JOB_LOCK_LOST' }
+  | {
+      outcome: 'CLASSIFIED';
+      result: ClassifiedLog;
+      previous: ClassificationOutcomeSnapshot;
+      changedFields: Array<keyof ClassificationOutcomeSnapshot>;
+    };
+
+export interface ClassifyAiLogOptions {
+  /** Binds the run to a log revision (job queue path). */
+  revision?: number;
+  /** Claimed job to mark SUCCEEDED in the same transaction as the result. */
+  job?: ClaimedClassificationJob;
+  /**
+   * Historical re-run triggered by an admin: classifies regardless of the
+   * current status, keeps an existing resolution and audits the old vs new
+   * outcome under `requestedById`. When that account has since been deleted
+   * the log's owner is recorded as actor, as for first classifications.
+   */
+  reclassification?: { requestedById: string | null };
+  ipAddress?: string;
+}
+
+function changedOutcomeFields(
+  previous: ClassificationOutcomeSnapshot,
+  next: ClassificationOutcomeSnapshot,
+): Array<keyof ClassificationOutcomeSnapshot> {
+  return (Object.keys(previous) as Array<keyof ClassificationOutcomeSnapshot>).filter(
+    (key) => previous[key] !== next[key],
+  );
+}
+
+class LogRevisionChangedError extends Error {}
+
+class JobLockLostError extends Error {}
+
+/**
+ * Runs post-session classification for one log and persists the outcome, the
+ * ComplianceCheck row and the COMPLIANCE_CLASSIFIED audit entry.
+ *
+ * With `revision`, the call is bound to that log revision (the job queue path):
+ * a log edited in the meantime yields SUPERSEDED and nothing is written, and
+ * `job` is marked SUCCEEDED in the same transaction as the result.
+ * With `reclassification`, any log is re-run against its applied (historical)
+ * policy version. Otherwise only PENDING logs are classified (the internal
+ * endpoint path). Without `job`, the revision's queued job is settled with
+ * the result so the worker does not classify the revision again.
+ *
+ * Every run appends a ComplianceCheck row; earlier checks are never touched.
+ */
+export async function classifyAiLog(
+  logId: string,
+  options: ClassifyAiLogOptions = {},
+): Promise<ClassifyAiLogResult> {
+  const log = await prisma.aiLog.findUnique({
+    where: { id: logId },
+    select: {
+      id: true,
+      userId: true,
+      revision: true,
+      assignmentId: true,
+      assignment: {
+        select: {
+          courseId: true,
+        },
+      },
+      manualUsageSubsections: true,
+      manualUsageTaxonomyVersion: true,
+      conversationLinks: {
+        select: { usageNodeId: true, conversation: true },
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      },
+      loggedAt: true,
+      usageReason: true,
+      sessionDescription: true,
+      intentCategory: true,
+      appliedPolicyVersionId: true,
+      complianceStatus: true,
+      actualUsageCategory: true,
+      conflictFlag: true,
+      directViolationFlag: true,
+      flagSeverity: true,
+      resolutionStatus: true,
+    },
+  });
+
+  if (!log) {
+    return { outcome: 'NOT_FOUND' };
+  }
+
+  if (options.revision !== undefined) {
+    if (log.revision !== options.revision) {
+      return { outcome: 'SUPERSEDED' };
+    }
+  } else if (!options.reclassification && log.complianceStatus !== ComplianceStatus.PENDING) {
+    return { outcome: 'ALREADY_CLASSIFIED' };
+  }
+
+  const usageReason = decryptNullableText(log.usageReason) ?? '';
+  // Imported conversations show what the student actually asked.
+  const conversationPrompts = decryptConversationPrompts(log.conversationLinks);
+  const { text: combinedText, fields } = conversationPrompts
+    ? joinLogText(usageReason, conversationPrompts, 'conversationPrompts')
+    : joinLogText(usageReason, decryptNullableText(log.sessionDescription) ?? '');
+
+  const result = await PolicyEvaluator.evaluatePostSession({
+    logId: log.id,
+    sessionText: combinedText,
+    policyVersionId: log.appliedPolicyVersionId,
+    intentCategory: log.intentCategory ?? null,
+  });
+
+  const usageTree =
+    (await createUsageTaxonomyLoader()(log.manualUsageTaxonomyVersion))?.tree ?? [];
+  const courseTree = await getLogCourseTreeSignals({
+    courseId: log.assignment.courseId,
+    assignmentId: log.assignmentId,
+    usageTaxonomyVersion: log.manualUsageTaxonomyVersion,
+    nodeIds: log.manualUsageSubsections,
+    evidenceNodeIds: log.conversationLinks.flatMap((link) =>
+      link.usageNodeId ? [link.usageNodeId] : [],
+    ),
+    usageReason,
+    loggedAt: log.loggedAt,
+  });
+  const { disallowedSelections, warningParentSelections } = courseTree;
+  const justifiedSelections = courseTree.justifiedSelections ?? [];
+  const hasTreeViolation = disallowedSelections.length > 0;
+  const hasTreeWarning = warningParentSelections.length > 0 || justifiedSelections.length > 0;
+  // Taxonomy nodes carry the policy category they imply; the classified text
+  // must not be more severe than what the student selected.
+  const policyRules = await new PrismaPolicyRuleProvider().getRules(log.appliedPolicyVersionId);
+  const selectionIntent = resolveSelectionIntent(
+    categorizeUsageSelections(usageTree, log.manualUsageSubsections),
+    policyRules,
+  );
+  const selectionConflict = detectSelectionConflict(
+    selectionIntent,
+    result.evaluatedCategory,
+    policyRules,
+  );
+  const decision = decideCompliance({
+    courseTree,
+    postSession: { ...result, selectionConflict },
+    currentResolutionStatus: log.resolutionStatus,
+    // A re-run never discards a student's existing resolution; it can only
+    // open one that was not required before.
+    keepExistingResolution: Boolean(options.reclassification),
+  });
+  const previous: ClassificationOutcomeSnapshot = {
+    actualCategory: log.actualUsageCategory,
+    conflictFlag: log.conflictFlag,
+    directViolationFlag: log.directViolationFlag,
+    flagSeverity: log.flagSeverity,
+    complianceStatus: log.complianceStatus,
+    resolutionStatus: log.resolutionStatus,
+  };
+  const next: ClassificationOutcomeSnapshot = {
+    actualCategory: result.actualCategory,
+    conflictFlag: decision.conflictFlag,
+    directViolationFlag: decision.directViolationFlag,
+    flagSeverity: decision.flagSeverity,
+    complianceStatus: decision.complianceStatus,
+    resolutionStatus: decision.resolutionStatus,
+  };
+  const changedFields = changedOutcomeFields(previous, next);
+
+  try {
+    await prisma.$transaction(async (tx) => {
+      // Guarded on the revision read above so an edit that lands mid-run is
+      // never overwritten with a classification of the old text.
+      const updated = await tx.aiLog.updateMany({
+        where: { id: log.id, revision: log.revision },
+        data: {
+          actualUsageCategory: result.actualCategory,
+          selectionCategory: selectionIntent?.category ?? null,
+          conflictFlag: decision.conflictFlag,
+          directViolationFlag: decision.directViolationFlag,
+          flagSeverity: decision.flagSeverity,
+          complianceStatus: decision.complianceStatus,
+          resolutionStatus: decision.resolutionStatus,
+        },
+      });
+
+      if (updated.count === 0) {
+        throw new LogRevisionChangedError();
+      }
+
+      if (options.job) {
+        const completed = await completeClassificationJob(
+          tx,
+          options.job,
+          ClassificationJobStatus.SUCCEEDED,
+        );
+        if (!completed) {
+          throw new JobLockLostError();
+        }
+      } else {
+        await settleClassificationJobsForRevision(tx, log.id, log.revision);
+      }
+
+      await tx.complianceCheck.create({
+        data: {
+          aiLogId: log.id,
+          checkType: CheckType.POST_SESSION,
+          policyVersionId: log.appliedPolicyVersionId,
+          inputText: encryptText(combinedText),
+          detectedCategory: result.actualCategory ?? 'UNKNOWN',
+          complianceResult: decision.complianceStatus,
+          ruleReferences: decision.ruleReferences,
+          flagsJson: {
+            conflictFlag: decision.conflictFlag,
+            intentConflict: result.conflictFlag,
+            selectionCategory: selectionIntent?.category ?? null,
+            selectionConflict: selectionConflict !== null,
+            directViolationFlag: decision.directViolationFlag,
+            flagSeverity: decision.flagSeverity,
+            treeViolation: hasTreeViolation,
+            disallowedUsageNodes: disallowedSelections,
+            treeWarning: hasTreeWarning,
+            warningParentNodes: warningParentSelections,
+            justifiedUsageNodes: justifiedSelections,
+            categories: result.categories,
+            evaluatedCategory: result.evaluatedCategory,
+            // Offsets are into the decrypted fields of this revision; the
+            // matched text itself is not stored outside `inputText`.
+            logRevision: log.revision,
+            matchedSpans: spansByField(result.matchedSpans, fields),
+            ...(result.scoring ? { scoring: result.scoring } : {}),
+            ...(result.language ? { language: result.language } : {}),
+            ...(result.classifierFallbackReason
+              ? { classifierFallback: result.classifierFallbackReason }
+              : {}),
+            ...(options.reclassification ? { reclassification: true } : {}),
+          },
+        },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          actorId: options.reclassification?.requestedById ?? log.userId,
+          actionType: options.reclassification ? 'COMPLIANCE_RECLASSIFIED' : 'COMPLIANCE_CLASSIFIED',
+          resourceType: 'ai_log',
+          resourceId: log.id,
+          metadataJson: {
+            ...(options.reclassification
+              ? {
+                  requestedById: options.reclassification.requestedById,
+                  policyVersionId: log.appliedPolicyVersionId,
+                  previous,
+                  next,
+                  changedFields,
+                }
+              : {}),
+            complianceStatus: decision.complianceStatus,
+            conflictFlag: decision.conflictFlag,
+            selectionConflict: selectionConflict !== null,
+            directViolationFlag: decision.directViolationFlag,
+            ruleReferences: decision.ruleReferences,
+            treeViolation: hasTreeViolation,
+            disallowedUsageNodes: disallowedSelections,
+            treeWarning: hasTreeWarning,
+            warningParentNodes: warningParentSelections,
+            justifiedUsageNodes: justifiedSelections,
+            logRevision: log.revision,
+          },
+          ipAddress: options.ipAddress,
+        },
+      });
+    });
+  } catch (error) {
+    if (error instanceof LogRevisionChangedError) {
+      return { outcome: 'SUPERSEDED' };
+    }
+    if (error instanceof JobLockLostError) {
+      return { outcome: 'JOB_LOCK_LOST' };
+    }
+    throw error;
+  }
+
+  return {
+    outcome: 'CLASSIFIED',
+    result: { logId: log.id, ...next },
+    previous,
+    changedFields,
+  };
+}
@@ -0,0 +1,53 @@
+import { conversationPromptText, type ImportedConversation } from '@/lib/conversation-import';
+import { decryptNullableText, encryptNullableText } from '@/lib/encryption/field-encryptor';
+import type { CreateLogInput } from '@/lib/validations/log.schema';
+
+/**
+ * An evidence item as stored in conversation_links, `url`, `comment` and
+ * `conversation` encrypted.
+ */
+export type StoredLogEvidence = {
+  usageNodeId: string | null;
+  evidenceType: string | null;
+  url: string | null;
+  comment: string | null;
+  /** Absent from revisions recorded before conversations could be imported. */
+  conversation?: string | null;
+  label: string | null;
+};
+
+/** Encrypts the evidence of a validated log payload for storage. */
+export function toStoredLogEvidence(
+  usageEvidence: CreateLogInput['usageEvidence'],
+): StoredLogEvidence[] {
+  return usageEvidence.map((item) => ({
+    usageNodeId: item.nodeId,
+    evidenceType: item.conversation ? 'CONVERSATION' : null,
+    url: null,
+    comment: encryptNullableText(item.text) ?? null,
+    conversation: item.conversation
+      ? encryptNullableText(JSON.stringify(item.conversation))
+      : null,
+    label: null,
+  }));
+}
+
+export function decryptStoredConversation(
+  value: string | null | undefined,
+): ImportedConversation | null {
+  const json = decryptNullableText(value);
+  return json ? (JSON.parse(json) as ImportedConversation) : null;
+}
+
+/**
+ * The prompts of a log's imported conversations, in evidence order. Post-session
+ * classification reads these instead of the session description when present.
+ */
+export function decryptConversationPrompts(links: Array<{ conversation: string | null }>): string {
+  return conversationPromptText(
+    links.flatMap((link) => {
+      const conversation = decryptStoredConversation(link.conversation);
+      return conversation ? [conversation] : [];
+    }),
+  );
+}
@@ -0,0 +1,246 @@
+import {
+  CheckType,
+  type ComplianceStatus,
+  type Prisma,
+  type SeverityLevel,
+} from '@prisma/client';
+
+import { prisma } from '@/lib/db/client';
+import { decryptStoredConversation, type StoredLogEvidence } from '@/lib/db/log-evidence';
+import { decryptNullableText } from '@/lib/encryption/field-encryptor';
+import {
+  diffLogRevisions,
+  type LogRevisionContent,
+  type LogRevisionFieldChange,
+} from '@/lib/log-revision-diff';
+
+export interface RecordLogRevisionInput {
+  /** The log as just saved, encrypted fields as stored. */
+  log: {
+    id: string;
+    revision: number;
+    assignmentId: string;
+    manualUsageSubsections: string[];
+    manualUsageTaxonomyVersion: string | null;
+    usageReason: string;
+    sessionDescription: string | null;
+    aiTool: string;
+    complianceStatus: ComplianceStatus;
+    flagSeverity: SeverityLevel | null;
+    conflictFlag: boolean;
+    directViolationFlag: boolean;
+  };
+  evidence: StoredLogEvidence[];
+  editedById: string;
+}
+
+export interface LogRevisionEntry {
+  revision: number;
+  editedBy: { id: string; name: string };
+  savedAt: Date;
+  content: LogRevisionContent;
+  /** The provisional outcome when the revision was saved. */
+  savedOutcome: {
+    complianceStatus: ComplianceStatus;
+    flagSeverity: SeverityLevel | null;
+    conflictFlag: boolean;
+    directViolationFlag: boolean;
+  };
+  /** The latest post-session classification of this revision, if it ran. */
+  classification: {
+    complianceStatus: ComplianceStatus;
+    detectedCategory: string;
+    checkedAt: Date;
+  } | null;
+  /** Changes from the previous recorded revision; empty for the first. */
+  changes: LogRevisionFieldChange[];
+}
+
+/** Where an earlier revision stores a conversation: its evidence item at `index`. */
+type ConversationRef = { revision: number; index: number };
+
+type RevisionEvidence = StoredLogEvidence & {
+  /** Set instead of `conversation` when it is unchanged from an earlier revision. */
+  conversationRef?: ConversationRef;
+};
+
+function revisionEvidence(evidenceJson: Prisma.JsonValue): RevisionEvidence[] {
+  return Array.isArray(evidenceJson) ? (evidenceJson as RevisionEvidence[]) : [];
+}
+
+/**
+ * Replaces conversations that are unchanged since the previous revision with a
+ * reference to the revision holding their ciphertext, so re-saving a log does
+ * not store its imported conversations again.
+ */
+async function referenceUnchangedConversations(
+  tx: Prisma.TransactionClient,
+  aiLogId: string,
+  revision: number,
+  evidence: StoredLogEvidence[],
+): Promise<RevisionEvidence[]> {
+  if (!evidence.some((item) => item.conversation)) {
+    return evidence;
+  }
+
+  const previous = await tx.aiLogRevision.findFirst({
+    where: { aiLogId, revision: { lt: revision } },
+    orderBy: [{ revision: 'desc' }],
+    select: { revision: true, evidenceJson: true },
+  });
+  if (!previous) {
+    return evidence;
+  }
+
+  const previousItems = revisionEvidence(previous.evidenceJson);
+  const refs = previousItems.flatMap((item, index) => {
+    if (item.conversationRef) {
+      return [item.conversationRef];
+    }
+    return item.conversation ? [{ revision: previous.revision, index }] : [];
+  });
+  const olderRevisions = Array.from(
+    new Set(refs.map((ref) => ref.revision).filter((value) => value !== previous.revision)),
+  );
+  const older =
+    olderRevisions.length > 0
+      ? await tx.aiLogRevision.findMany({
+          where: { aiLogId, revision: { in: olderRevisions } },
+          select: { revision: true, evidenceJson: true },
+        })
+      : [];
+  const itemsByRevision = new Map<number, RevisionEvidence[]>([
+    [previous.revision, previousItems],
+    ...older.map((row) => [row.revision, revisionEvidence(row.evidenceJson)] as const),
+  ]);
+
+  // Decrypted conversation JSON → where it is already stored.
+  const stored = new Map<string, ConversationRef>();
+  for (const ref of refs) {
+    const json = decryptNullableText(itemsByRevision.get(ref.revision)?.[ref.index]?.conversation);
+    if (json) {
+      stored.set(json, ref);
+    }
+  }
+
+  return evidence.map((item) => {
+    const ref = stored.get(decryptNullableText(item.conversation) ?? '');
+    return ref ? { ...item, conversation: null, conversationRef: ref } : item;
+  });
+}
+
+/**
+ * Snapshots a log as saved. Call in the transaction that creates or edits the
+ * log, after its `revision` is set; revisions are never updated afterwards.
+ */
+export async function recordLogRevision(
+  tx: Prisma.TransactionClient,
+  input: RecordLogRevisionInput,
+): Promise<void> {
+  const { log } = input;
+  const evidence = await referenceUnchangedConversations(
+    tx,
+    log.id,
+    log.revision,
+    input.evidence,
+  );
+  await tx.aiLogRevision.create({
+    data: {
+      aiLogId: log.id,
+      revision: log.revision,
+      editedById: input.editedById,
+      assignmentId: log.assignmentId,
+      usageSubsections: log.manualUsageSubsections,
+      usageTaxonomyVersion: log.manualUsageTaxonomyVersion,
+      usageReason: log.usageReason,
+      sessionDescription: log.sessionDescription,
+      aiTool: log.aiTool,
+      evidenceJson: evidence,
+      complianceStatus: log.complianceStatus,
+      flagSeverity: log.flagSeverity,
+      conflictFlag: log.conflictFlag,
+      directViolationFlag: log.directViolationFlag,
+    },
+  });
+}
+
+/** `itemsByRevision` holds the earlier revisions a conversation reference can point to. */
+function decryptEvidence(
+  items: RevisionEvidence[],
+  itemsByRevision: Map<number, RevisionEvidence[]>,
+): LogRevisionContent['evidence'] {
+  return items.map((item) => ({
+    usageNodeId: item.usageNodeId ?? null,
+    url: decryptNullableText(item.url),
+    comment: decryptNullableText(item.comment),
+    conversation: decryptStoredConversation(
+      item.conversationRef
+        ? itemsByRevision.get(item.conversationRef.revision)?.[item.conversationRef.index]
+            ?.conversation
+        : item.conversation,
+    ),
+    label: item.label ?? null,
+  }));
+}
+
+/** The recorded revisions of a log, oldest first, each diffed against the one before. */
+export async function listLogRevisions(logId: string): Promise<LogRevisionEntry[]> {
+  const [revisions, checks] = await Promise.all([
+    prisma.aiLogRevision.findMany({
+      where: { aiLogId: logId },
+      include: { editedBy: { select: { id: true, name: true } } },
+      orderBy: [{ revision: 'asc' }],
+    }),
+    prisma.complianceCheck.findMany({
+      where: { aiLogId: logId, checkType: CheckType.POST_SESSION },
+      select: { complianceResult: true, detectedCategory: true, checkedAt: true, flagsJson: true },
+      orderBy: [{ checkedAt: 'asc' }],
+    }),
+  ]);
+
+  // Later checks of the same revision (re-runs) replace earlier ones.
+  const classificationByRevision = new Map<number, LogRevisionEntry['classification']>();
+  for (const check of checks) {
+    const logRevision = (check.flagsJson as { logRevision?: unknown } | null)?.logRevision;
+    if (typeof logRevision === 'number') {
+      classificationByRevision.set(logRevision, {
+        complianceStatus: check.complianceResult,
+        detectedCategory: check.detectedCategory,
+        checkedAt: check.checkedAt,
+      });
+    }
+  }
+
+  const entries: LogRevisionEntry[] = [];
+  const itemsByRevision = new Map<number, RevisionEvidence[]>();
+  for (const revision of revisions) {
+    const evidence = revisionEvidence(revision.evidenceJson);
+    itemsByRevision.set(revision.revision, evidence);
+    const content: LogRevisionContent = {
+      assignmentId: revision.assignmentId,
+      usageSubsections: revision.usageSubsections,
+      usageTaxonomyVersion: revision.usageTaxonomyVersion,
+      usageReason: decryptNullableText(revision.usageReason),
+      sessionDescription: decryptNullableText(revision.sessionDescription),
+      aiTool: revision.aiTool,
+      evidence: decryptEvidence(evidence, itemsByRevision),
+    };
+    const previous = entries[entries.length - 1];
+    entries.push({
+      revision: revision.revision,
+      editedBy: revision.editedBy,
+      savedAt: revision.createdAt,
+      content,
+      savedOutcome: {
+        complianceStatus: revision.complianceStatus,
+        flagSeverity: revision.flagSeverity,
+        conflictFlag: revision.conflictFlag,
+        directViolationFlag: revision.directViolationFlag,
+      },
+      classification: classificationByRevision.get(revision.revision) ?? null,
+      changes: previous ? diffLogRevisions(previous.content, content) : [],
+    });
+  }
+
+  return entries;
+}
@@ -0,0 +1,51 @@
+import { AssignmentStatus, EnrollmentRole, type Prisma } from '@prisma/client';
+
+/**
+ * Creates one unread notification per enrolled student and active assignment
+ * that was governed by the superseded version — either explicitly pinned to it
+ * or not pinned at all (and therefore following whatever is ACTIVE).
+ *
+ * Runs inside the publish transaction so notifications exist if and only if
+ * the new version was actually promoted.
+ */
+export async function createPolicyChangeNotifications(
+  tx: Prisma.TransactionClient,
+  previousVersionId: string,
+  nextVersionId: string,
+  changeSummary: string,
+): Promise<number> {
+  const assignments = await tx.assignment.findMany({
+    where: {
+      status: AssignmentStatus.ACTIVE,
+      OR: [{ pinnedPolicyVersionId: null }, { pinnedPolicyVersionId: previousVersionId }],
+    },
+    select: {
+      id: true,
+      course: {
+        select: {
+          enrollments: {
+            where: { role: EnrollmentRole.STUDENT },
+            select: { userId: true },
+          },
+        },
+      },
+    },
+  });
+
+  const data = assignments.flatMap((assignment) =>
+    assignment.course.enrollments.map((enrollment) => ({
+      userId: enrollment.userId,
+      assignmentId: assignment.id,
+      oldPolicyVersionId: previousVersionId,
+      newPolicyVersionId: nextVersionId,
+      changeSummary,
+    })),
+  );
+
+  if (data.length === 0) {
+    return 0;
+  }
+
+  const created = await tx.policyChangeNotification.createMany({ data });
+  return created.count;
+}
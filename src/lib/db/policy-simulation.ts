@@ -0,0 +1,207 @@
+import { ComplianceStatus, type PolicyStatus, type SeverityLevel } from '@prisma/client';
+
+import { decideCompliance, type CourseTreeSignals } from '@/lib/compliance/compliance-decision';
+import {
+  PolicyEvaluatorService,
+  type PolicyRuleRecord,
+} from '@/lib/compliance/policy-evaluator';
+import { detectSelectionConflict, resolveSelectionIntent } from '@/lib/compliance/selection-intent';
+import {
+  buildSimulationReport,
+  type SimulatedLogInput,
+  type SimulatedLogOutcome,
+  type SimulationReportBody,
+} from '@/lib/compliance/simulation-report';
+import { prisma } from '@/lib/db/client';
+import { createLogCourseTreeSignalsLoader } from '@/lib/db/course-usage-rules';
+import { decryptConversationPrompts } from '@/lib/db/log-evidence';
+import { createUsageTaxonomyLoader } from '@/lib/db/usage-taxonomies';
+import { decryptNullableText } from '@/lib/encryption/field-encryptor';
+import { categorizeUsageSelections, type UsageTreeNode } from '@/lib/usage-taxonomy';
+
+const SIMULATION_BATCH_SIZE = 200;
+
+export interface PolicySimulationReport extends SimulationReportBody {
+  policyVersion: { id: string; versionNumber: string; status: PolicyStatus };
+  generatedAt: string;
+  /** Null when every classified log was evaluated. */
+  sampleSize: number | null;
+}
+
+/**
+ * Applies the course and assignment usage-tree rules and the selection's implied category on
+ * top of the policy evaluation through the same decision as classification,
+ * so simulated outcomes are comparable to what is stored on the log.
+ */
+function withCourseUsageRules(
+  result: Omit<SimulatedLogOutcome, 'complianceStatus'> & {
+    flagSeverity: SeverityLevel | null;
+    ruleReferences: string[];
+    evaluatedCategory: string | null;
+  },
+  rules: PolicyRuleRecord[],
+  usageTree: UsageTreeNode[],
+  manualUsageSubsections: string[],
+  courseTree: CourseTreeSignals,
+): SimulatedLogOutcome {
+  const selectionConflict = detectSelectionConflict(
+    resolveSelectionIntent(categorizeUsageSelections(usageTree, manualUsageSubsections), rules),
+    result.evaluatedCategory,
+    rules,
+  );
+  const decision = decideCompliance({
+    courseTree,
+    postSession: { ...result, selectionConflict },
+  });
+
+  return {
+    actualCategory: result.actualCategory,
+    conflictFlag: decision.conflictFlag,
+    directViolationFlag: decision.directViolationFlag,
+    complianceStatus: decision.complianceStatus,
+  };
+}
+
+/**
+ * Dry-runs a policy version over already-classified logs (most recent first)
+ * and reports how outcomes would differ from what is stored. Read-only: no
+ * log, compliance check or audit row is written.
+ */
+export async function simulatePolicyVersion(
+  policyVersionId: string,
+  sampleSize?: number,
+): Promise<PolicySimulationReport | null> {
+  const policyVersion = await prisma.policyVersion.findUnique({
+    where: { id: policyVersionId },
+    select: {
+      id: true,
+      versionNumber: true,
+      status: true,
+      rules: {
+        select: {
+          usageCategory: true,
+          severityLevel: true,
+          ruleReference: true,
+          keywords: true,
+          keywordsNb: true,
+          keywordsNn: true,
+        },
+      },
+    },
+  });
+
+  if (!policyVersion) {
+    return null;
+  }
+
+  const rules: PolicyRuleRecord[] = policyVersion.rules;
+  const evaluator = new PolicyEvaluatorService({
+    ruleProvider: { getRules: async () => rules },
+  });
+  const loadCourseTreeSignals = createLogCourseTreeSignalsLoader();
+  const loadUsageTaxonomy = createUsageTaxonomyLoader();
+  const inputs: SimulatedLogInput[] = [];
+  let cursor: string | undefined;
+
+  while (sampleSize === undefined || inputs.length < sampleSize) {
+    const take =
+      sampleSize === undefined
+        ? SIMULATION_BATCH_SIZE
+        : Math.min(SIMULATION_BATCH_SIZE, sampleSize - inputs.length);
+
+    const logs = await prisma.aiLog.findMany({
+      where: { complianceStatus: { not: ComplianceStatus.PENDING } },
+      orderBy: [{ loggedAt: 'desc' }, { id: 'desc' }],
+      take,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      select: {
+        id: true,
+        usageReason: true,
+        sessionDescription: true,
+        intentCategory: true,
+        manualUsageSubsections: true,
+        manualUsageTaxonomyVersion: true,
+        conversationLinks: {
+          select: { usageNodeId: true, conversation: true },
+          orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+        },
+        loggedAt: true,
+        complianceStatus: true,
+        actualUsageCategory: true,
+        conflictFlag: true,
+        directViolationFlag: true,
+        assignment: {
+          select: {
+            id: true,
+            title: true,
+            course: { select: { id: true, courseCode: true } },
+          },
+        },
+      },
+    });
+
+    for (const log of logs) {
+      const courseId = log.assignment.course.id;
+      const usageTree = (await loadUsageTaxonomy(log.manualUsageTaxonomyVersion))?.tree ?? [];
+
+      const usageReason = decryptNullableText(log.usageReason) ?? '';
+      // Same text as post-session classification.
+      const sessionText =
+        decryptConversationPrompts(log.conversationLinks) ||
+        (decryptNullableText(log.sessionDescription) ?? '');
+      const result = await evaluator.evaluatePostSession({
+        logId: log.id,
+        sessionText: `${usageReason}\n${sessionText}`.trim(),
+        policyVersionId: policyVersion.id,
+        intentCategory: log.intentCategory ?? null,
+      });
+
+      inputs.push({
+        logId: log.id,
+        courseId,
+        courseCode: log.assignment.course.courseCode,
+        assignmentId: log.assignment.id,
+        assignmentTitle: log.assignment.title,
+        current: {
+          complianceStatus: log.complianceStatus,
+          actualCategory: log.actualUsageCategory,
+          conflictFlag: log.conflictFlag,
+          directViolationFlag: log.directViolationFlag,
+        },
+        simulated: withCourseUsageRules(
+          result,
+          rules,
+          usageTree,
+          log.manualUsageSubsections,
+          await loadCourseTreeSignals({
+            courseId,
+            assignmentId: log.assignment.id,
+            usageTaxonomyVersion: log.manualUsageTaxonomyVersion,
+            nodeIds: log.manualUsageSubsections,
+            evidenceNodeIds: log.conversationLinks.flatMap((link) =>
+              link.usageNodeId ? [link.usageNodeId] : [],
+            ),
+            usageReason,
+            loggedAt: log.loggedAt,
+          }),
+        ),
+      });
+    }
+
+    if (logs.length < take) {
+      break;
+    }
+    cursor = logs[logs.length - 1]?.id;
+  }
+
+  return {
+    policyVersion: {
+      id: policyVersion.id,
+      versionNumber: policyVersion.versionNumber,
+      status: policyVersion.status,
+    },
+    generatedAt: new Date().toISOString(),
+    sampleSize: sampleSize ?? null,
+    ...buildSimulationReport(inputs),
+  };
+}
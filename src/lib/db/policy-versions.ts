@@ -0,0 +1,252 @@
+import { PolicyStatus, type Prisma, type SeverityLevel } from '@prisma/client';
+
+import { diffPolicyVersions, type PolicyVersionDiff } from '@/lib/compliance/policy-diff';
+import { prisma } from '@/lib/db/client';
+import { createPolicyChangeNotifications } from '@/lib/db/policy-notifications';
+import type { CreatePolicyVersionInput } from '@/lib/validations/policy.schema';
+
+export interface PolicyRuleSummary {
+  id: string;
+  usageCategory: string;
+  severityLevel: SeverityLevel;
+  description: string | null;
+  ruleReference: string;
+  keywords: string[];
+  keywordsNb: string[];
+  keywordsNn: string[];
+}
+
+export interface PolicyVersionDetail {
+  id: string;
+  versionNumber: string;
+  description: string | null;
+  status: PolicyStatus;
+  publishedAt: Date | null;
+  archivedAt: Date | null;
+  createdAt: Date;
+  rules: PolicyRuleSummary[];
+}
+
+export type PublishPolicyVersionResult =
+  | { outcome: 'NOT_FOUND' }
+  | { outcome: 'NOT_DRAFT'; status: PolicyStatus }
+  | {
+      outcome: 'PUBLISHED';
+      version: { id: string; versionNumber: string; publishedAt: Date | null };
+      previousVersionId: string | null;
+      notificationCount: number;
+    };
+
+export interface PolicyVersionRef {
+  id: string;
+  versionNumber: string;
+  status: PolicyStatus;
+}
+
+const policyRuleRecordSelect = {
+  usageCategory: true,
+  severityLevel: true,
+  ruleReference: true,
+  keywords: true,
+  keywordsNb: true,
+  keywordsNn: true,
+  description: true,
+} as const;
+
+const policyVersionDetailSelect = {
+  id: true,
+  versionNumber: true,
+  description: true,
+  status: true,
+  publishedAt: true,
+  archivedAt: true,
+  createdAt: true,
+  rules: {
+    select: {
+      id: true,
+      usageCategory: true,
+      severityLevel: true,
+      description: true,
+      ruleReference: true,
+      keywords: true,
+      keywordsNb: true,
+      keywordsNn: true,
+    },
+    orderBy: [{ usageCategory: 'asc' as const }],
+  },
+};
+
+export async function getPolicyVersionDetail(
+  policyVersionId: string,
+): Promise<PolicyVersionDetail | null> {
+  return prisma.policyVersion.findUnique({
+    where: { id: policyVersionId },
+    select: policyVersionDetailSelect,
+  });
+}
+
+async function loadRuleDiff(
+  client: Prisma.TransactionClient,
+  fromVersionId: string,
+  toVersionId: string,
+): Promise<PolicyVersionDiff> {
+  const [fromRules, toRules] = await Promise.all([
+    client.policyRule.findMany({
+      where: { policyVersionId: fromVersionId },
+      select: policyRuleRecordSelect,
+    }),
+    client.policyRule.findMany({
+      where: { policyVersionId: toVersionId },
+      select: policyRuleRecordSelect,
+    }),
+  ]);
+
+  return diffPolicyVersions(fromRules, toRules);
+}
+
+/**
+ * Resolves the default baseline for a diff: the current ACTIVE version, or —
+ * when the subject itself is ACTIVE — the most recently archived one.
+ */
+async function resolveDiffBaselineId(policyVersionId: string): Promise<string | null> {
+  const active = await prisma.policyVersion.findFirst({
+    where: { status: PolicyStatus.ACTIVE, id: { not: policyVersionId } },
+    select: { id: true },
+  });
+
+  if (active) {
+    return active.id;
+  }
+
+  const archived = await prisma.policyVersion.findFirst({
+    where: { status: PolicyStatus.ARCHIVED, id: { not: policyVersionId } },
+    orderBy: [{ archivedAt: 'desc' }],
+    select: { id: true },
+  });
+
+  return archived?.id ?? null;
+}
+
+export async function getPolicyVersionDiff(
+  policyVersionId: string,
+  againstVersionId?: string,
+): Promise<{ from: PolicyVersionRef; to: PolicyVersionRef; diff: PolicyVersionDiff } | null> {
+  const baselineId = againstVersionId ?? (await resolveDiffBaselineId(policyVersionId));
+  if (!baselineId) {
+    return null;
+  }
+
+  const versionSelect = { id: true, versionNumber: true, status: true };
+  const [from, to] = await Promise.all([
+    prisma.policyVersion.findUnique({ where: { id: baselineId }, select: versionSelect }),
+    prisma.policyVersion.findUnique({ where: { id: policyVersionId }, select: versionSelect }),
+  ]);
+
+  if (!from || !to) {
+    return null;
+  }
+
+  return {
+    from,
+    to,
+    diff: await loadRuleDiff(prisma, from.id, to.id),
+  };
+}
+
+export async function createDraftPolicyVersion(
+  input: CreatePolicyVersionInput,
+): Promise<PolicyVersionDetail> {
+  return prisma.policyVersion.create({
+    data: {
+      versionNumber: input.versionNumber,
+      description: input.description ?? null,
+      status: PolicyStatus.DRAFT,
+      rules: {
+        create: input.rules.map((rule) => ({
+          usageCategory: rule.usageCategory,
+          severityLevel: rule.severityLevel,
+          ruleReference: rule.ruleReference,
+          description: rule.description ?? null,
+          keywords: Array.from(new Set(rule.keywords)),
+          keywordsNb: Array.from(new Set(rule.keywordsNb)),
+          keywordsNn: Array.from(new Set(rule.keywordsNn)),
+        })),
+      },
+    },
+    select: policyVersionDetailSelect,
+  });
+}
+
+/**
+ * Promotes a DRAFT version to ACTIVE and archives whichever version was ACTIVE
+ * before it. Both writes happen in one transaction so there is never a moment
+ * with zero or two active versions; change notifications for affected students
+ * are created in the same transaction.
+ */
+export async function publishPolicyVersion(
+  policyVersionId: string,
+  publishedById: string,
+): Promise<PublishPolicyVersionResult> {
+  return prisma.$transaction(async (tx) => {
+    const target = await tx.policyVersion.findUnique({
+      where: { id: policyVersionId },
+      select: { id: true, status: true },
+    });
+
+    if (!target) {
+      return { outcome: 'NOT_FOUND' as const };
+    }
+
+    if (target.status !== PolicyStatus.DRAFT) {
+      return { outcome: 'NOT_DRAFT' as const, status: target.status };
+    }
+
+    const previous = await tx.policyVersion.findFirst({
+      where: { status: PolicyStatus.ACTIVE },
+      select: { id: true },
+      orderBy: [{ publishedAt: 'desc' }],
+    });
+
+    const now = new Date();
+
+    await tx.policyVersion.updateMany({
+      where: { status: PolicyStatus.ACTIVE },
+      data: {
+        status: PolicyStatus.ARCHIVED,
+        archivedAt: now,
+      },
+    });
+
+    const promoted = await tx.policyVersion.updateMany({
+      where: { id: target.id, status: PolicyStatus.DRAFT },
+      data: {
+        status: PolicyStatus.ACTIVE,
+        publishedById,
+        publishedAt: now,
+        archivedAt: null,
+      },
+    });
+
+    if (promoted.count === 0) {
+      throw new Error('Policy version was modified concurrently');
+    }
+
+    const diff = previous ? await loadRuleDiff(tx, previous.id, target.id) : null;
+    const notificationCount =
+      previous && diff && diff.changes.length > 0
+        ? await createPolicyChangeNotifications(tx, previous.id, target.id, diff.changeSummary)
+        : 0;
+
+    const version = await tx.policyVersion.findUniqueOrThrow({
+      where: { id: target.id },
+      select: { id: true, versionNumber: true, publishedAt: true },
+    });
+
+    return {
+      outcome: 'PUBLISHED' as const,
+      version,
+      previousVersionId: previous?.id ?? null,
+      notificationCount,
+    };
+  }, { timeout: 30_000 });
+}
@@ -0,0 +1,142 @@
+import { Prisma } from '@prisma/client';
+
+import { enqueueReclassificationJobs } from '@/lib/db/classification-jobs';
+import { prisma } from '@/lib/db/client';
+import type { ReclassifyInput } from '@/lib/validations/compliance.schema';
+
+/** Upper bound per request; larger scopes should be split by assignment. */
+export const MAX_RECLASSIFY_LOGS = 1000;
+
+export interface ReclassifySummary {
+  scope: 'log' | 'assignment' | 'course';
+  scopeId: string;
+  matched: number;
+  /** Re-runs added to the classification queue (a re-run already waiting is not counted). */
+  queued: number;
+}
+
+export class ReclassifyScopeTooLargeError extends Error {
+  readonly matched: number;
+
+  constructor(matched: number, limit = MAX_RECLASSIFY_LOGS) {
+    super(`Scope matches ${matched} logs; at most ${limit} can be re-run at once`);
+    this.name = 'ReclassifyScopeTooLargeError';
+    this.matched = matched;
+  }
+}
+
+function resolveScope(input: ReclassifyInput) {
+  if (input.logId) {
+    return {
+      scope: 'log' as const,
+      scopeId: input.logId,
+      where: Prisma.sql`l."id" = ${input.logId}::uuid`,
+    };
+  }
+
+  if (input.assignmentId) {
+    return {
+      scope: 'assignment' as const,
+      scopeId: input.assignmentId,
+      where: Prisma.sql`l."assignment_id" = ${input.assignmentId}::uuid`,
+    };
+  }
+
+  const courseId = input.courseId ?? '';
+  return {
+    scope: 'course' as const,
+    scopeId: courseId,
+    where: Prisma.sql`a."course_id" = ${courseId}::uuid`,
+  };
+}
+
+/**
+ * Logs matching `where` whose current revision has been classified: its
+ * post-session job succeeded or, for logs saved before classification was
+ * queued, it has no job and a POST_SESSION check. The status a log gets on
+ * submission is provisional and does not count.
+ */
+function fromClassifiedLogs(where: Prisma.Sql): Prisma.Sql {
+  return Prisma.sql`
+    FROM "ai_logs" l
+    JOIN "assignments" a ON a."id" = l."assignment_id"
+    WHERE ${where}
+      AND (
+        EXISTS (
+          SELECT 1 FROM "classification_jobs" j
+          WHERE j."ai_log_id" = l."id"
+            AND j."log_revision" = l."revision"
+            AND NOT j."reclassification"
+            AND j."status" = 'SUCCEEDED'::"classification_job_status"
+        )
+        OR (
+          NOT EXISTS (
+            SELECT 1 FROM "classification_jobs" j
+            WHERE j."ai_log_id" = l."id"
+              AND j."log_revision" = l."revision"
+              AND NOT j."reclassification"
+          )
+          AND EXISTS (
+            SELECT 1 FROM "compliance_checks" c
+            WHERE c."ai_log_id" = l."id"
+              AND c."check_type" = 'POST_SESSION'::"check_type"
+          )
+        )
+      )
+  `;
+}
+
+/**
+ * Queues a re-run of post-session classification for already-classified logs
+ * in scope. The worker classifies each log's current revision against the
+ * policy version it was submitted under (`appliedPolicyVersionId`) and audits
+ * the old vs new outcome under `actorId`. Logs still waiting for their first
+ * classification are left to their queued job.
+ */
+export async function reclassifyLogs(
+  input: ReclassifyInput,
+  actorId: string,
+  ipAddress?: string,
+  limit = MAX_RECLASSIFY_LOGS,
+): Promise<ReclassifySummary> {
+  const { scope, scopeId, where } = resolveScope(input);
+  const classified = fromClassifiedLogs(where);
+
+  const logs = await prisma.$queryRaw<Array<{ id: string; revision: number }>>`
+    SELECT l."id", l."revision"
+    ${classified}
+    ORDER BY l."logged_at" ASC
+    LIMIT ${limit + 1}
+  `;
+
+  if (logs.length > limit) {
+    const [{ count }] = await prisma.$queryRaw<Array<{ count: number }>>`
+      SELECT COUNT(*)::int AS "count"
+      ${classified}
+    `;
+    throw new ReclassifyScopeTooLargeError(count, limit);
+  }
+
+  if (logs.length === 0) {
+    return { scope, scopeId, matched: 0, queued: 0 };
+  }
+
+  const queued = await prisma.$transaction(async (tx) => {
+    const count = await enqueueReclassificationJobs(tx, logs, actorId);
+
+    await tx.auditLog.create({
+      data: {
+        actorId,
+        actionType: 'COMPLIANCE_RECLASSIFY_QUEUED',
+        resourceType: scope === 'log' ? 'ai_log' : scope,
+        resourceId: scopeId,
+        metadataJson: { scope, matched: logs.length, queued: count },
+        ipAddress,
+      },
+    });
+
+    return count;
+  });
+
+  return { scope, scopeId, matched: logs.length, queued };
+}
@@ -0,0 +1,282 @@
+import { UserRole } from '@prisma/client';
+
+import { prisma } from '@/lib/db/client';
+import {
+  getCourseForRuleEditing,
+  listCourseUsageRules,
+  validateUsageRuleChanges,
+} from '@/lib/db/course-usage-rules';
+import { flattenUsageTree, type UsageTreeNode } from '@/lib/usage-taxonomy';
+import type { StoredUsageRule } from '@/lib/usage-rule-tree';
+import type { SaveUsageRuleTemplateInput } from '@/lib/validations/course-usage-rule.schema';
+
+export interface UsageRuleTemplateSummary {
+  id: string;
+  name: string;
+  description: string | null;
+  createdBy: { id: string; name: string };
+  updatedAt: Date;
+  ruleCount: number;
+}
+
+export interface UsageRuleTemplateDetail extends Omit<UsageRuleTemplateSummary, 'ruleCount'> {
+  rules: StoredUsageRule[];
+}
+
+export interface UsageRuleTemplateInput {
+  name: string;
+  description?: string;
+  rules: StoredUsageRule[];
+}
+
+export type SaveUsageRuleTemplateResult =
+  | { outcome: 'NOT_FOUND' }
+  | { outcome: 'FORBIDDEN' }
+  | { outcome: 'INVALID'; errors: string[] }
+  | { outcome: 'SAVED'; template: UsageRuleTemplateDetail };
+
+export type ResolveUsageRuleTemplateRulesResult =
+  | { outcome: 'COURSE_NOT_FOUND' }
+  | { outcome: 'FORBIDDEN' }
+  | { outcome: 'OK'; rules: StoredUsageRule[] };
+
+export type DeleteUsageRuleTemplateResult =
+  | { outcome: 'NOT_FOUND' }
+  | { outcome: 'FORBIDDEN' }
+  | { outcome: 'DELETED' };
+
+const templateSelect = {
+  id: true,
+  name: true,
+  description: true,
+  createdBy: { select: { id: true, name: true } },
+  updatedAt: true,
+} as const;
+
+const templateRuleSelect = {
+  nodeId: true,
+  isAllowed: true,
+  requiresJustification: true,
+  minEvidenceCount: true,
+  activeFrom: true,
+  activeUntil: true,
+  activeFromDueOffsetDays: true,
+  activeUntilDueOffsetDays: true,
+} as const;
+
+/** Instructors and admins use templates; only the author or an admin changes one. */
+export function canUseUsageRuleTemplates(role: UserRole): boolean {
+  return role === UserRole.INSTRUCTOR || role === UserRole.ADMIN;
+}
+
+function canChangeTemplate(createdById: string, user: { id: string; role: UserRole }): boolean {
+  return user.role === UserRole.ADMIN || createdById === user.id;
+}
+
+function templateRuleData(rule: StoredUsageRule) {
+  return {
+    nodeId: rule.nodeId,
+    isAllowed: rule.isAllowed,
+    requiresJustification: rule.isAllowed && (rule.requiresJustification ?? false),
+    minEvidenceCount: rule.requiresJustification ? (rule.minEvidenceCount ?? 0) : null,
+    activeFrom: rule.activeFrom ?? null,
+    activeUntil: rule.activeUntil ?? null,
+    activeFromDueOffsetDays: rule.activeFromDueOffsetDays ?? null,
+    activeUntilDueOffsetDays: rule.activeUntilDueOffsetDays ?? null,
+  };
+}
+
+/**
+ * The rules a saved template gets: the given ones, or a snapshot of a course
+ * the user may edit, without rules on nodes `tree` no longer has.
+ */
+export async function resolveUsageRuleTemplateRules(
+  input: SaveUsageRuleTemplateInput,
+  tree: UsageTreeNode[],
+  user: { id: string; role: UserRole },
+): Promise<ResolveUsageRuleTemplateRulesResult> {
+  if (!input.sourceCourseId) {
+    return {
+      outcome: 'OK',
+      rules: (input.rules ?? []).map(({ rule, ...stored }) => ({
+        ...stored,
+        isAllowed: rule !== 'DISALLOWED',
+        requiresJustification: rule === 'REQUIRES_JUSTIFICATION',
+        minEvidenceCount: stored.minEvidenceCount ?? null,
+      })),
+    };
+  }
+
+  const access = await getCourseForRuleEditing(input.sourceCourseId, user);
+  if (access.outcome !== 'OK') {
+    return access.outcome === 'NOT_FOUND' ? { outcome: 'COURSE_NOT_FOUND' } : access;
+  }
+
+  const nodeIds = new Set(flattenUsageTree(tree).map((record) => record.nodeId));
+  const rules = await listCourseUsageRules(access.course.id);
+  return {
+    outcome: 'OK',
+    rules: rules
+      .filter((rule) => nodeIds.has(rule.nodeId))
+      .map(({ updatedAt: _updatedAt, ...rule }) => rule),
+  };
+}
+
+export async function listUsageRuleTemplates(): Promise<UsageRuleTemplateSummary[]> {
+  const templates = await prisma.usageRuleTemplate.findMany({
+    select: { ...templateSelect, _count: { select: { rules: true } } },
+    orderBy: [{ name: 'asc' }],
+  });
+
+  return templates.map(({ _count, ...template }) => ({ ...template, ruleCount: _count.rules }));
+}
+
+export async function getUsageRuleTemplate(
+  templateId: string,
+): Promise<UsageRuleTemplateDetail | null> {
+  return prisma.usageRuleTemplate.findUnique({
+    where: { id: templateId },
+    select: {
+      ...templateSelect,
+      rules: { select: templateRuleSelect, orderBy: [{ nodeId: 'asc' }] },
+    },
+  });
+}
+
+/**
+ * Creates a template from rules on nodes of `tree` and audits it as
+ * USAGE_RULE_TEMPLATE_CREATED. A taken name surfaces as Prisma's P2002.
+ */
+export async function createUsageRuleTemplate(
+  input: UsageRuleTemplateInput,
+  tree: UsageTreeNode[],
+  actor: { id: string; ipAddress?: string },
+): Promise<Exclude<SaveUsageRuleTemplateResult, { outcome: 'NOT_FOUND' | 'FORBIDDEN' }>> {
+  const errors = validateUsageRuleChanges(tree, input.rules);
+  if (errors.length > 0) {
+    return { outcome: 'INVALID', errors };
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const template = await tx.usageRuleTemplate.create({
+      data: {
+        name: input.name,
+        description: input.description ?? null,
+        createdById: actor.id,
+        rules: { create: input.rules.map(templateRuleData) },
+      },
+      select: {
+        ...templateSelect,
+        rules: { select: templateRuleSelect, orderBy: [{ nodeId: 'asc' }] },
+      },
+    });
+
+    await tx.auditLog.create({
+      data: {
+        actorId: actor.id,
+        actionType: 'USAGE_RULE_TEMPLATE_CREATED',
+        resourceType: 'usage_rule_template',
+        resourceId: template.id,
+        metadataJson: { name: template.name, ruleCount: template.rules.length },
+        ipAddress: actor.ipAddress,
+      },
+    });
+
+    return { outcome: 'SAVED' as const, template };
+  });
+}
+
+/** Replaces a template's name, description and rules. */
+export async function updateUsageRuleTemplate(
+  templateId: string,
+  input: UsageRuleTemplateInput,
+  tree: UsageTreeNode[],
+  actor: { id: string; role: UserRole; ipAddress?: string },
+): Promise<SaveUsageRuleTemplateResult> {
+  const errors = validateUsageRuleChanges(tree, input.rules);
+  if (errors.length > 0) {
+    return { outcome: 'INVALID', errors };
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const existing = await tx.usageRuleTemplate.findUnique({
+      where: { id: templateId },
+      select: { createdById: true, name: true },
+    });
+
+    if (!existing) {
+      return { outcome: 'NOT_FOUND' as const };
+    }
+
+    if (!canChangeTemplate(existing.createdById, actor)) {
+      return { outcome: 'FORBIDDEN' as const };
+    }
+
+    await tx.usageRuleTemplateRule.deleteMany({ where: { templateId } });
+    const template = await tx.usageRuleTemplate.update({
+      where: { id: templateId },
+      data: {
+        name: input.name,
+        description: input.description ?? null,
+        rules: { create: input.rules.map(templateRuleData) },
+      },
+      select: {
+        ...templateSelect,
+        rules: { select: templateRuleSelect, orderBy: [{ nodeId: 'asc' }] },
+      },
+    });
+
+    await tx.auditLog.create({
+      data: {
+        actorId: actor.id,
+        actionType: 'USAGE_RULE_TEMPLATE_UPDATED',
+        resourceType: 'usage_rule_template',
+        resourceId: template.id,
+        metadataJson: {
+          previousName: existing.name,
+          name: template.name,
+          ruleCount: template.rules.length,
+        },
+        ipAddress: actor.ipAddress,
+      },
+    });
+
+    return { outcome: 'SAVED' as const, template };
+  });
+}
+
+/** Deleting a template leaves the courses it was applied to unchanged. */
+export async function deleteUsageRuleTemplate(
+  templateId: string,
+  actor: { id: string; role: UserRole; ipAddress?: string },
+): Promise<DeleteUsageRuleTemplateResult> {
+  return prisma.$transaction(async (tx) => {
+    const existing = await tx.usageRuleTemplate.findUnique({
+      where: { id: templateId },
+      select: { createdById: true, name: true },
+    });
+
+    if (!existing) {
+      return { outcome: 'NOT_FOUND' as const };
+    }
+
+    if (!canChangeTemplate(existing.createdById, actor)) {
+      return { outcome: 'FORBIDDEN' as const };
+    }
+
+    await tx.usageRuleTemplate.delete({ where: { id: templateId } });
+
+    await tx.auditLog.create({
+      data: {
+        actorId: actor.id,
+        actionType: 'USAGE_RULE_TEMPLATE_DELETED',
+        resourceType: 'usage_rule_template',
+        resourceId: templateId,
+        metadataJson: { name: existing.name },
+        ipAddress: actor.ipAddress,
+      },
+    });
+
+    return { outcome: 'DELETED' as const };
+  });
+}
@@ -0,0 +1,899 @@
+import { PolicyStatus, type Prisma, UsageTaxonomyStatus } from '@prisma/client';
+
+import { PrismaPolicyRuleProvider } from '@/lib/compliance/policy-evaluator';
+import { resolveSelectionIntent, type SelectionIntent } from '@/lib/compliance/selection-intent';
+import { prisma } from '@/lib/db/client';
+import {
+  buildUsageTree,
+  categorizeUsageSelections,
+  flattenUsageTree,
+  type UsageSection,
+  type UsageTreeNode,
+} from '@/lib/usage-taxonomy';
+import {
+  buildUsageNodeMap,
+  composeUsageNodeMaps,
+  describeUsageNodeMap,
+  mapCourseUsageRules,
+  mapUsageSelections,
+  validateUsageNodeMappings,
+  type CourseUsageRuleRecord,
+  type UsageNodeChange,
+  type UsageNodeMap,
+  type UsageNodeMappingInput,
+} from '@/lib/usage-taxonomy-migration';
+import type {
+  CreateUsageTaxonomyVersionInput,
+  SetUsageNodePolicyCategoriesInput,
+  SetUsageTaxonomyMappingInput,
+} from '@/lib/validations/usage-taxonomy.schema';
+
+/** A taxonomy version's tree, as used to validate and label selections. */
+export interface ResolvedUsageTaxonomy {
+  versionKey: string;
+  tree: UsageSection[];
+}
+
+export interface UsageTaxonomyVersionSummary {
+  id: string;
+  versionKey: string;
+  description: string | null;
+  status: UsageTaxonomyStatus;
+  publishedAt: Date | null;
+  archivedAt: Date | null;
+  createdAt: Date;
+  nodeCount: number;
+}
+
+export interface UsageTaxonomyVersionDetail
+  extends Omit<UsageTaxonomyVersionSummary, 'nodeCount'> {
+  tree: UsageSection[];
+}
+
+/** How the rules of one kind of owner (courses, assignments, templates) are moved. */
+export interface RuleMigrationSummary<Owner> {
+  /** Rules moved onto new node ids. */
+  remapped: number;
+  /** Rules left on a node id that no longer exists; an admin has to resolve these. */
+  unmapped: Array<Owner & { nodeId: string }>;
+  /** Merged nodes whose rules disagreed; the stricter (disallowed) rule was kept. */
+  conflicts: Array<Owner & { nodeId: string }>;
+}
+
+/** What publishing a draft does to existing course rules and logs. */
+export interface UsageTaxonomyMigrationReport {
+  fromVersionKey: string | null;
+  toVersionKey: string;
+  changes: UsageNodeChange[];
+  courseRules: RuleMigrationSummary<{ courseId: string; courseCode: string }>;
+  /** Assignment overrides, moved the same way as course rules. */
+  assignmentRules: RuleMigrationSummary<{ assignmentId: string; assignmentTitle: string }>;
+  /** Course rule templates, moved the same way as course rules. */
+  templateRules: RuleMigrationSummary<{ templateId: string; templateName: string }>;
+  /** Nodes of the new version every course disallows unless its rules allow them. */
+  baseline: {
+    /** The draft's own flags plus the nodes the old version's baseline nodes map onto. */
+    nodeIds: string[];
+    /** Old baseline nodes without a mapping; publishing is refused until they have one. */
+    unmapped: string[];
+  };
+  logs: {
+    /** Logs with selections that are removed or have no counterpart in the new version. */
+    unmapped: Array<{ logId: string; assignmentId: string; nodeIds: string[] }>;
+  };
+}
+
+export interface UsageTaxonomyMappingDetail {
+  fromVersion: { id: string; versionKey: string } | null;
+  mappings: UsageNodeMappingInput[];
+}
+
+export type SetUsageTaxonomyMappingResult =
+  | { outcome: 'NOT_FOUND' }
+  | { outcome: 'NOT_DRAFT'; status: UsageTaxonomyStatus }
+  | { outcome: 'FROM_VERSION_NOT_FOUND' }
+  | { outcome: 'INVALID'; errors: string[] }
+  | { outcome: 'SAVED'; mapping: UsageTaxonomyMappingDetail };
+
+export type SetUsageNodePolicyCategoriesResult =
+  | { outcome: 'NOT_FOUND' }
+  | { outcome: 'ARCHIVED' }
+  | { outcome: 'INVALID'; errors: string[] }
+  | { outcome: 'SAVED'; version: UsageTaxonomyVersionDetail };
+
+export type PreviewUsageTaxonomyMigrationResult =
+  | { outcome: 'NOT_FOUND' }
+  | { outcome: 'PREVIEW'; report: UsageTaxonomyMigrationReport };
+
+export type PublishUsageTaxonomyResult =
+  | { outcome: 'NOT_FOUND' }
+  | { outcome: 'NOT_DRAFT'; status: UsageTaxonomyStatus }
+  /** The mapping was written against a version that is no longer the active one. */
+  | { outcome: 'STALE_MAPPING'; mappedFromVersionKey: string; activeVersionKey: string | null }
+  /** Baseline-disallowed nodes of the active version the draft leaves unmapped. */
+  | { outcome: 'BASELINE_NODES_DROPPED'; nodeIds: string[] }
+  | {
+      outcome: 'PUBLISHED';
+      version: { id: string; versionKey: string; publishedAt: Date | null };
+      previousVersionId: string | null;
+      report: UsageTaxonomyMigrationReport;
+    };
+
+export type ArchiveUsageTaxonomyResult =
+  | { outcome: 'NOT_FOUND' }
+  | { outcome: 'ALREADY_ARCHIVED' }
+  /** The active version is only archived by publishing its successor. */
+  | { outcome: 'ACTIVE' }
+  | { outcome: 'ARCHIVED'; version: { id: string; versionKey: string; archivedAt: Date | null } };
+
+const nodeRecordSelect = {
+  nodeId: true,
+  parentNodeId: true,
+  label: true,
+  position: true,
+  policyCategory: true,
+  baselineDisallowed: true,
+} as const;
+
+const versionSummarySelect = {
+  id: true,
+  versionKey: true,
+  description: true,
+  status: true,
+  publishedAt: true,
+  archivedAt: true,
+  createdAt: true,
+} as const;
+
+const migrationVersionSelect = {
+  id: true,
+  versionKey: true,
+  status: true,
+  migratesFromId: true,
+  nodes: { select: nodeRecordSelect },
+  nodeMappings: { select: { oldNodeId: true, newNodeIds: true } },
+} as const;
+
+type MigrationVersion = Prisma.UsageTaxonomyVersionGetPayload<{
+  select: typeof migrationVersionSelect;
+}>;
+
+/** Follows `migratesFrom` links back from `to` and chains their mappings. */
+async function resolveUsageNodeMap(
+  db: Prisma.TransactionClient,
+  from: MigrationVersion,
+  to: MigrationVersion,
+): Promise<UsageNodeMap> {
+  const chain: MigrationVersion[] = [to];
+  const visited = new Set([to.id]);
+
+  while (chain[0].id !== from.id) {
+    const previousId = chain[0].migratesFromId;
+    if (!previousId || visited.has(previousId)) {
+      // No recorded path: carry over nodes whose id still exists.
+      return buildUsageNodeMap(buildUsageTree(from.nodes), buildUsageTree(to.nodes), []);
+    }
+
+    visited.add(previousId);
+    chain.unshift(
+      await db.usageTaxonomyVersion.findUniqueOrThrow({
+        where: { id: previousId },
+        select: migrationVersionSelect,
+      }),
+    );
+  }
+
+  let map: UsageNodeMap | null = null;
+  for (let index = 1; index < chain.length; index += 1) {
+    const step = buildUsageNodeMap(
+      buildUsageTree(chain[index - 1].nodes),
+      buildUsageTree(chain[index].nodes),
+      chain[index].nodeMappings,
+    );
+    map = map ? composeUsageNodeMaps(map, step) : step;
+  }
+
+  // `from` and `to` are the same version.
+  return map ?? buildUsageNodeMap(buildUsageTree(to.nodes), buildUsageTree(to.nodes), []);
+}
+
+const ruleRecordSelect = {
+  nodeId: true,
+  isAllowed: true,
+  requiresJustification: true,
+  minEvidenceCount: true,
+  activeFrom: true,
+  activeUntil: true,
+  activeFromDueOffsetDays: true,
+  activeUntilDueOffsetDays: true,
+} as const;
+
+/** A migrated rule as written back to its table. */
+function migratedRuleData(rule: CourseUsageRuleRecord) {
+  return {
+    nodeId: rule.nodeId,
+    isAllowed: rule.isAllowed,
+    requiresJustification: rule.requiresJustification ?? false,
+    minEvidenceCount: rule.minEvidenceCount ?? null,
+    activeFrom: rule.activeFrom ?? null,
+    activeUntil: rule.activeUntil ?? null,
+    activeFromDueOffsetDays: rule.activeFromDueOffsetDays ?? null,
+    activeUntilDueOffsetDays: rule.activeUntilDueOffsetDays ?? null,
+  };
+}
+
+type RuleMigrationPlan<Owner> = ReturnType<typeof mapCourseUsageRules> & {
+  /** The owner's fields as they appear in the report. */
+  owner: Owner;
+  /** Node ids whose rules are replaced by `rules`; unmapped rules stay put. */
+  replacedNodeIds: string[];
+};
+
+/**
+ * Plans how each owner's rules move onto the new node ids. All of an owner's
+ * rules are mapped together so merges into an unchanged node see its existing
+ * rule.
+ */
+function planRuleMigration<Row, Owner>(
+  owners: Row[],
+  getRules: (row: Row) => CourseUsageRuleRecord[],
+  describeOwner: (row: Row) => Owner,
+  map: UsageNodeMap,
+): Array<RuleMigrationPlan<Owner>> {
+  return owners.map((row) => {
+    const rules = getRules(row);
+    const mapped = mapCourseUsageRules(rules, map);
+    const unmappedNodeIds = new Set(mapped.unmapped.map((rule) => rule.nodeId));
+
+    return {
+      owner: describeOwner(row),
+      replacedNodeIds: rules
+        .map((rule) => rule.nodeId)
+        .filter((nodeId) => !unmappedNodeIds.has(nodeId)),
+      ...mapped,
+    };
+  });
+}
+
+/** `movedNodeIds` are the changed nodes with a counterpart in the new version. */
+function summarizePlans<Owner>(
+  plans: Array<RuleMigrationPlan<Owner>>,
+  movedNodeIds: Set<string>,
+): RuleMigrationSummary<Owner> {
+  return {
+    remapped: plans.reduce(
+      (sum, plan) =>
+        sum + plan.replacedNodeIds.filter((nodeId) => movedNodeIds.has(nodeId)).length,
+      0,
+    ),
+    unmapped: plans.flatMap((plan) =>
+      plan.unmapped.map((rule) => ({ ...plan.owner, nodeId: rule.nodeId })),
+    ),
+    conflicts: plans.flatMap((plan) =>
+      plan.conflicts.map((nodeId) => ({ ...plan.owner, nodeId })),
+    ),
+  };
+}
+
+/**
+ * Plans the rule moves for courses, assignment overrides and rule templates.
+ * Only owners with a rule on a changed node are touched.
+ */
+async function planRuleMigrations(db: Prisma.TransactionClient, map: UsageNodeMap) {
+  const changedNodeIds = describeUsageNodeMap(map).map((change) => change.oldNodeId);
+  const onChangedNode = { some: { nodeId: { in: changedNodeIds } } };
+
+  const [courses, assignments, templates] =
+    changedNodeIds.length === 0
+      ? [[], [], []]
+      : await Promise.all([
+          db.course.findMany({
+            where: { usageRules: onChangedNode },
+            select: { id: true, courseCode: true, usageRules: { select: ruleRecordSelect } },
+            orderBy: [{ courseCode: 'asc' }],
+          }),
+          db.assignment.findMany({
+            where: { usageRules: onChangedNode },
+            select: { id: true, title: true, usageRules: { select: ruleRecordSelect } },
+            orderBy: [{ createdAt: 'asc' }],
+          }),
+          db.usageRuleTemplate.findMany({
+            where: { rules: onChangedNode },
+            select: { id: true, name: true, rules: { select: ruleRecordSelect } },
+            orderBy: [{ name: 'asc' }],
+          }),
+        ]);
+
+  return {
+    courses: planRuleMigration(
+      courses,
+      (course) => course.usageRules,
+      (course) => ({ courseId: course.id, courseCode: course.courseCode }),
+      map,
+    ),
+    assignments: planRuleMigration(
+      assignments,
+      (assignment) => assignment.usageRules,
+      (assignment) => ({ assignmentId: assignment.id, assignmentTitle: assignment.title }),
+      map,
+    ),
+    templates: planRuleMigration(
+      templates,
+      (template) => template.rules,
+      (template) => ({ templateId: template.id, templateName: template.name }),
+      map,
+    ),
+  };
+}
+
+type RuleMigrationPlans = Awaited<ReturnType<typeof planRuleMigrations>>;
+
+async function buildUsageTaxonomyMigrationReport(
+  db: Prisma.TransactionClient,
+  from: MigrationVersion | null,
+  to: MigrationVersion,
+  map: UsageNodeMap,
+  plans: RuleMigrationPlans,
+): Promise<UsageTaxonomyMigrationReport> {
+  const changes = describeUsageNodeMap(map);
+  const droppedNodeIds = changes
+    .filter((change) => change.kind === 'REMOVED' || change.kind === 'UNMAPPED')
+    .map((change) => change.oldNodeId);
+  const movedNodeIds = new Set(
+    changes.filter((change) => change.newNodeIds.length > 0).map((change) => change.oldNodeId),
+  );
+
+  // A baseline node's flag moves with its mapping; only an explicit removal lifts it.
+  const carriedBaseline = mapUsageSelections(
+    (from?.nodes ?? []).filter((node) => node.baselineDisallowed).map((node) => node.nodeId),
+    map,
+  );
+  const baselineNodeIds = new Set([
+    ...to.nodes.filter((node) => node.baselineDisallowed).map((node) => node.nodeId),
+    ...carriedBaseline.nodeIds,
+  ]);
+
+  const logs =
+    from && droppedNodeIds.length > 0
+      ? await db.aiLog.findMany({
+          where: {
+            manualUsageTaxonomyVersion: from.versionKey,
+            manualUsageSubsections: { hasSome: droppedNodeIds },
+          },
+          select: { id: true, assignmentId: true, manualUsageSubsections: true },
+          orderBy: [{ loggedAt: 'asc' }],
+        })
+      : [];
+
+  return {
+    fromVersionKey: from?.versionKey ?? null,
+    toVersionKey: to.versionKey,
+    changes,
+    courseRules: summarizePlans(plans.courses, movedNodeIds),
+    assignmentRules: summarizePlans(plans.assignments, movedNodeIds),
+    templateRules: summarizePlans(plans.templates, movedNodeIds),
+    baseline: {
+      nodeIds: Array.from(baselineNodeIds),
+      unmapped: carriedBaseline.unmapped,
+    },
+    logs: {
+      unmapped: logs.map((log) => ({
+        logId: log.id,
+        assignmentId: log.assignmentId,
+        nodeIds: log.manualUsageSubsections.filter((nodeId) => droppedNodeIds.includes(nodeId)),
+      })),
+    },
+  };
+}
+
+/** The version a draft will migrate from: its recorded source, else the active version. */
+async function findMigrationSource(
+  db: Prisma.TransactionClient,
+  target: MigrationVersion,
+): Promise<MigrationVersion | null> {
+  if (target.migratesFromId) {
+    return db.usageTaxonomyVersion.findUnique({
+      where: { id: target.migratesFromId },
+      select: migrationVersionSelect,
+    });
+  }
+
+  return db.usageTaxonomyVersion.findFirst({
+    where: { status: UsageTaxonomyStatus.ACTIVE },
+    orderBy: [{ publishedAt: 'desc' }],
+    select: migrationVersionSelect,
+  });
+}
+
+export async function getActiveUsageTaxonomy(
+  db: Prisma.TransactionClient = prisma,
+): Promise<ResolvedUsageTaxonomy | null> {
+  const version = await db.usageTaxonomyVersion.findFirst({
+    where: { status: UsageTaxonomyStatus.ACTIVE },
+    orderBy: [{ publishedAt: 'desc' }],
+    select: { versionKey: true, nodes: { select: nodeRecordSelect } },
+  });
+
+  return version ? { versionKey: version.versionKey, tree: buildUsageTree(version.nodes) } : null;
+}
+
+/**
+ * Returns a memoized lookup of taxonomy trees by the version key stored on
+ * logs. Logs without a key, or with one that no longer exists, are resolved
+ * against the active version.
+ */
+export function createUsageTaxonomyLoader(db: Prisma.TransactionClient = prisma) {
+  // Keyed by version key; '' (never a valid key) stands for the active version.
+  const cache = new Map<string, Promise<ResolvedUsageTaxonomy | null>>();
+
+  return (versionKey: string | null): Promise<ResolvedUsageTaxonomy | null> => {
+    const cacheKey = versionKey ?? '';
+    const cached = cache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const loaded = (async () => {
+      if (!versionKey) {
+        return getActiveUsageTaxonomy(db);
+      }
+
+      const version = await db.usageTaxonomyVersion.findUnique({
+        where: { versionKey },
+        select: { versionKey: true, nodes: { select: nodeRecordSelect } },
+      });
+
+      return version
+        ? { versionKey: version.versionKey, tree: buildUsageTree(version.nodes) }
+        : getActiveUsageTaxonomy(db);
+    })();
+
+    cache.set(cacheKey, loaded);
+    return loaded;
+  };
+}
+
+/** The policy category, severity and rule a selection implies under a policy version. */
+export async function resolveUsageSelectionIntent(
+  tree: UsageTreeNode[],
+  nodeIds: string[],
+  policyVersionId: string,
+): Promise<SelectionIntent | null> {
+  const rules = await new PrismaPolicyRuleProvider().getRules(policyVersionId);
+  return resolveSelectionIntent(categorizeUsageSelections(tree, nodeIds), rules);
+}
+
+/**
+ * Categories that no rule of the active policy version defines. Node
+ * categories are checked against it when they are set; a later policy version
+ * that drops a category simply stops implying anything for those nodes.
+ */
+export async function findUnknownPolicyCategories(
+  categories: Array<string | null | undefined>,
+): Promise<string[]> {
+  const wanted = Array.from(
+    new Set(categories.filter((category): category is string => Boolean(category))),
+  );
+  if (wanted.length === 0) {
+    return [];
+  }
+
+  const known = await prisma.policyRule.findMany({
+    where: {
+      usageCategory: { in: wanted },
+      policyVersion: { status: PolicyStatus.ACTIVE },
+    },
+    select: { usageCategory: true },
+  });
+  const knownCategories = new Set(known.map((rule) => rule.usageCategory));
+
+  return wanted.filter((category) => !knownCategories.has(category));
+}
+
+export async function listUsageTaxonomyVersions(options: {
+  includeDrafts: boolean;
+}): Promise<UsageTaxonomyVersionSummary[]> {
+  const versions = await prisma.usageTaxonomyVersion.findMany({
+    where: options.includeDrafts ? {} : { status: { not: UsageTaxonomyStatus.DRAFT } },
+    orderBy: [{ createdAt: 'desc' }],
+    select: { ...versionSummarySelect, _count: { select: { nodes: true } } },
+  });
+
+  return versions.map(({ _count, ...version }) => ({ ...version, nodeCount: _count.nodes }));
+}
+
+export async function getUsageTaxonomyVersionDetail(
+  taxonomyVersionId: string,
+): Promise<UsageTaxonomyVersionDetail | null> {
+  const version = await prisma.usageTaxonomyVersion.findUnique({
+    where: { id: taxonomyVersionId },
+    select: { ...versionSummarySelect, nodes: { select: nodeRecordSelect } },
+  });
+
+  if (!version) {
+    return null;
+  }
+
+  const { nodes, ...summary } = version;
+  return { ...summary, tree: buildUsageTree(nodes) };
+}
+
+export async function createDraftUsageTaxonomyVersion(
+  input: CreateUsageTaxonomyVersionInput,
+): Promise<UsageTaxonomyVersionDetail> {
+  const created = await prisma.usageTaxonomyVersion.create({
+    data: {
+      versionKey: input.versionKey,
+      description: input.description ?? null,
+      status: UsageTaxonomyStatus.DRAFT,
+      nodes: {
+        create: flattenUsageTree(input.tree),
+      },
+    },
+    select: { ...versionSummarySelect, nodes: { select: nodeRecordSelect } },
+  });
+
+  const { nodes, ...summary } = created;
+  return { ...summary, tree: buildUsageTree(nodes) };
+}
+
+export async function getUsageTaxonomyMapping(
+  taxonomyVersionId: string,
+): Promise<UsageTaxonomyMappingDetail | null> {
+  const target = await prisma.usageTaxonomyVersion.findUnique({
+    where: { id: taxonomyVersionId },
+    select: migrationVersionSelect,
+  });
+
+  if (!target) {
+    return null;
+  }
+
+  const from = await findMigrationSource(prisma, target);
+
+  return {
+    fromVersion: from ? { id: from.id, versionKey: from.versionKey } : null,
+    mappings: target.nodeMappings,
+  };
+}
+
+/**
+ * Links nodes to policy categories. Unlike the tree itself this stays editable
+ * on the active version, since policy versions change independently of the
+ * taxonomy; logs pick the new categories up at their next classification.
+ */
+export async function setUsageNodePolicyCategories(
+  taxonomyVersionId: string,
+  input: SetUsageNodePolicyCategoriesInput,
+): Promise<SetUsageNodePolicyCategoriesResult> {
+  const target = await prisma.usageTaxonomyVersion.findUnique({
+    where: { id: taxonomyVersionId },
+    select: { id: true, status: true, nodes: { select: { nodeId: true } } },
+  });
+
+  if (!target) {
+    return { outcome: 'NOT_FOUND' };
+  }
+
+  if (target.status === UsageTaxonomyStatus.ARCHIVED) {
+    return { outcome: 'ARCHIVED' };
+  }
+
+  const nodeIds = new Set(target.nodes.map((node) => node.nodeId));
+  const errors = [
+    ...input.categories
+      .filter((entry) => !nodeIds.has(entry.nodeId))
+      .map((entry) => `"${entry.nodeId}" is not a node of this version`),
+    ...(
+      await findUnknownPolicyCategories(input.categories.map((entry) => entry.policyCategory))
+    ).map((category) => `"${category}" is not a category of the active policy version`),
+  ];
+
+  if (errors.length > 0) {
+    return { outcome: 'INVALID', errors };
+  }
+
+  await prisma.$transaction(
+    input.categories.map((entry) =>
+      prisma.usageTaxonomyNode.update({
+        where: {
+          taxonomyVersionId_nodeId: { taxonomyVersionId: target.id, nodeId: entry.nodeId },
+        },
+        data: { policyCategory: entry.policyCategory },
+      }),
+    ),
+  );
+
+  const version = await getUsageTaxonomyVersionDetail(target.id);
+  if (!version) {
+    return { outcome: 'NOT_FOUND' };
+  }
+
+  return { outcome: 'SAVED', version };
+}
+
+/**
+ * Replaces a draft's node mappings. Nodes left out carry over by id, or are
+ * reported as unmapped when the new version no longer has them.
+ */
+export async function setUsageTaxonomyMappings(
+  taxonomyVersionId: string,
+  input: SetUsageTaxonomyMappingInput,
+): Promise<SetUsageTaxonomyMappingResult> {
+  return prisma.$transaction(async (tx) => {
+    const target = await tx.usageTaxonomyVersion.findUnique({
+      where: { id: taxonomyVersionId },
+      select: migrationVersionSelect,
+    });
+
+    if (!target) {
+      return { outcome: 'NOT_FOUND' as const };
+    }
+
+    if (target.status !== UsageTaxonomyStatus.DRAFT) {
+      return { outcome: 'NOT_DRAFT' as const, status: target.status };
+    }
+
+    const from = input.fromVersionId
+      ? await tx.usageTaxonomyVersion.findUnique({
+          where: { id: input.fromVersionId },
+          select: migrationVersionSelect,
+        })
+      : await findMigrationSource(tx, { ...target, migratesFromId: null });
+
+    if (!from || from.id === target.id) {
+      return { outcome: 'FROM_VERSION_NOT_FOUND' as const };
+    }
+
+    const errors = validateUsageNodeMappings(
+      buildUsageTree(from.nodes),
+      buildUsageTree(target.nodes),
+      input.mappings,
+    );
+
+    if (errors.length > 0) {
+      return { outcome: 'INVALID' as const, errors };
+    }
+
+    await tx.usageTaxonomyNodeMapping.deleteMany({ where: { taxonomyVersionId: target.id } });
+    await tx.usageTaxonomyNodeMapping.createMany({
+      data: input.mappings.map((mapping) => ({
+        taxonomyVersionId: target.id,
+        oldNodeId: mapping.oldNodeId,
+        newNodeIds: mapping.newNodeIds,
+      })),
+    });
+    await tx.usageTaxonomyVersion.update({
+      where: { id: target.id },
+      data: { migratesFromId: from.id },
+    });
+
+    return {
+      outcome: 'SAVED' as const,
+      mapping: {
+        fromVersion: { id: from.id, versionKey: from.versionKey },
+        mappings: input.mappings,
+      },
+    };
+  });
+}
+
+/** Dry run of the rule and log changes publishing the version would cause. */
+export async function previewUsageTaxonomyMigration(
+  taxonomyVersionId: string,
+): Promise<PreviewUsageTaxonomyMigrationResult> {
+  const target = await prisma.usageTaxonomyVersion.findUnique({
+    where: { id: taxonomyVersionId },
+    select: migrationVersionSelect,
+  });
+
+  if (!target) {
+    return { outcome: 'NOT_FOUND' };
+  }
+
+  const from = await findMigrationSource(prisma, target);
+  const map: UsageNodeMap = from ? await resolveUsageNodeMap(prisma, from, target) : new Map();
+  const plans = await planRuleMigrations(prisma, map);
+
+  return {
+    outcome: 'PREVIEW',
+    report: await buildUsageTaxonomyMigrationReport(prisma, from, target, map, plans),
+  };
+}
+
+/**
+ * Maps node ids recorded against `fromVersionKey` onto `toVersionKey`, or
+ * null when either version does not exist.
+ */
+export async function getUsageNodeMapBetween(
+  fromVersionKey: string,
+  toVersionKey: string,
+  db: Prisma.TransactionClient = prisma,
+): Promise<UsageNodeMap | null> {
+  const [from, to] = await Promise.all([
+    db.usageTaxonomyVersion.findUnique({
+      where: { versionKey: fromVersionKey },
+      select: migrationVersionSelect,
+    }),
+    db.usageTaxonomyVersion.findUnique({
+      where: { versionKey: toVersionKey },
+      select: migrationVersionSelect,
+    }),
+  ]);
+
+  return from && to ? resolveUsageNodeMap(db, from, to) : null;
+}
+
+/**
+ * Promotes a DRAFT taxonomy to ACTIVE and archives the previously active one
+ * in the same transaction, mirroring `publishPolicyVersion`. Course rules,
+ * assignment overrides and rule templates are moved onto the new node ids
+ * through the draft's mappings. Logs keep the version key they were recorded
+ * with, so their labels do not change. Baseline-disallowed nodes pass their
+ * flag on to the nodes they map onto; a draft that leaves one unmapped is
+ * refused.
+ */
+export async function publishUsageTaxonomyVersion(
+  taxonomyVersionId: string,
+  publishedById: string,
+): Promise<PublishUsageTaxonomyResult> {
+  return prisma.$transaction(async (tx) => {
+    const target = await tx.usageTaxonomyVersion.findUnique({
+      where: { id: taxonomyVersionId },
+      select: migrationVersionSelect,
+    });
+
+    if (!target) {
+      return { outcome: 'NOT_FOUND' as const };
+    }
+
+    if (target.status !== UsageTaxonomyStatus.DRAFT) {
+      return { outcome: 'NOT_DRAFT' as const, status: target.status };
+    }
+
+    const previous = await tx.usageTaxonomyVersion.findFirst({
+      where: { status: UsageTaxonomyStatus.ACTIVE },
+      select: migrationVersionSelect,
+      orderBy: [{ publishedAt: 'desc' }],
+    });
+
+    if (target.migratesFromId && target.migratesFromId !== previous?.id) {
+      const mappedFrom = await tx.usageTaxonomyVersion.findUniqueOrThrow({
+        where: { id: target.migratesFromId },
+        select: { versionKey: true },
+      });
+
+      return {
+        outcome: 'STALE_MAPPING' as const,
+        mappedFromVersionKey: mappedFrom.versionKey,
+        activeVersionKey: previous?.versionKey ?? null,
+      };
+    }
+
+    const map: UsageNodeMap = previous
+      ? await resolveUsageNodeMap(tx, previous, target)
+      : new Map();
+    const plans = await planRuleMigrations(tx, map);
+    const report = await buildUsageTaxonomyMigrationReport(tx, previous, target, map, plans);
+
+    if (report.baseline.unmapped.length > 0) {
+      return { outcome: 'BASELINE_NODES_DROPPED' as const, nodeIds: report.baseline.unmapped };
+    }
+
+    for (const plan of plans.courses) {
+      await tx.courseUsageRule.deleteMany({
+        where: { courseId: plan.owner.courseId, nodeId: { in: plan.replacedNodeIds } },
+      });
+      await tx.courseUsageRule.createMany({
+        data: plan.rules.map((rule) => ({
+          courseId: plan.owner.courseId,
+          ...migratedRuleData(rule),
+        })),
+      });
+    }
+
+    for (const plan of plans.assignments) {
+      await tx.assignmentUsageRule.deleteMany({
+        where: { assignmentId: plan.owner.assignmentId, nodeId: { in: plan.replacedNodeIds } },
+      });
+      await tx.assignmentUsageRule.createMany({
+        data: plan.rules.map((rule) => ({
+          assignmentId: plan.owner.assignmentId,
+          ...migratedRuleData(rule),
+        })),
+      });
+    }
+
+    for (const plan of plans.templates) {
+      await tx.usageRuleTemplateRule.deleteMany({
+        where: { templateId: plan.owner.templateId, nodeId: { in: plan.replacedNodeIds } },
+      });
+      await tx.usageRuleTemplateRule.createMany({
+        data: plan.rules.map((rule) => ({
+          templateId: plan.owner.templateId,
+          ...migratedRuleData(rule),
+        })),
+      });
+    }
+
+    await tx.usageTaxonomyNode.updateMany({
+      where: { taxonomyVersionId: target.id, nodeId: { in: report.baseline.nodeIds } },
+      data: { baselineDisallowed: true },
+    });
+
+    const now = new Date();
+
+    await tx.usageTaxonomyVersion.updateMany({
+      where: { status: UsageTaxonomyStatus.ACTIVE },
+      data: {
+        status: UsageTaxonomyStatus.ARCHIVED,
+        archivedAt: now,
+      },
+    });
+
+    const promoted = await tx.usageTaxonomyVersion.updateMany({
+      where: { id: target.id, status: UsageTaxonomyStatus.DRAFT },
+      data: {
+        status: UsageTaxonomyStatus.ACTIVE,
+        publishedById,
+        publishedAt: now,
+        archivedAt: null,
+        migratesFromId: previous?.id ?? null,
+      },
+    });
+
+    if (promoted.count === 0) {
+      throw new Error('Usage taxonomy version was modified concurrently');
+    }
+
+    const version = await tx.usageTaxonomyVersion.findUniqueOrThrow({
+      where: { id: target.id },
+      select: { id: true, versionKey: true, publishedAt: true },
+    });
+
+    return {
+      outcome: 'PUBLISHED' as const,
+      version,
+      previousVersionId: previous?.id ?? null,
+      report,
+    };
+  });
+}
+
+/** Retires a draft that will not be published. */
+export async function archiveUsageTaxonomyVersion(
+  taxonomyVersionId: string,
+): Promise<ArchiveUsageTaxonomyResult> {
+  const target = await prisma.usageTaxonomyVersion.findUnique({
+    where: { id: taxonomyVersionId },
+    select: { id: true, status: true },
+  });
+
+  if (!target) {
+    return { outcome: 'NOT_FOUND' };
+  }
+
+  if (target.status === UsageTaxonomyStatus.ACTIVE) {
+    return { outcome: 'ACTIVE' };
+  }
+
+  if (target.status === UsageTaxonomyStatus.ARCHIVED) {
+    return { outcome: 'ALREADY_ARCHIVED' };
+  }
+
+  const archived = await prisma.usageTaxonomyVersion.updateMany({
+    where: { id: target.id, status: UsageTaxonomyStatus.DRAFT },
+    data: { status: UsageTaxonomyStatus.ARCHIVED, archivedAt: new Date() },
+  });
+
+  if (archived.count === 0) {
+    throw new Error('Usage taxonomy version was modified concurrently');
+  }
+
+  const version = await prisma.usageTaxonomyVersion.findUniqueOrThrow({
+    where: { id: target.id },
+    select: { id: true, versionKey: true, archivedAt: true },
+  });
+
+  return { outcome: 'ARCHIVED', version };
+}
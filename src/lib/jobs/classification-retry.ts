@@ -0,0 +1,35 @@
+import { ClassificationJobStatus } from '@prisma/client';
+
+const RETRY_BASE_DELAY_MS = 15_000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+/**
+ * Exponential backoff for the n-th failed attempt (1-based): 15s, 30s, 60s, …
+ * capped at one hour.
+ */
+export function classificationRetryDelayMs(attempts: number): number {
+  const exponent = Math.max(0, attempts - 1);
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** exponent, RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Where a job goes after a failed attempt: back to PENDING after the backoff,
+ * or to DEAD once `maxAttempts` attempts have been used.
+ */
+export function failedClassificationJobState(
+  attempts: number,
+  maxAttempts: number,
+  now = new Date(),
+):
+  | { status: typeof ClassificationJobStatus.PENDING; runAfter: Date; completedAt: null }
+  | { status: typeof ClassificationJobStatus.DEAD; runAfter: undefined; completedAt: Date } {
+  if (attempts >= maxAttempts) {
+    return { status: ClassificationJobStatus.DEAD, runAfter: undefined, completedAt: now };
+  }
+
+  return {
+    status: ClassificationJobStatus.PENDING,
+    runAfter: new Date(now.getTime() + classificationRetryDelayMs(attempts)),
+    completedAt: null,
+  };
+}
@@ -0,0 +1,89 @@
+import { randomUUID } from 'node:crypto';
+import { hostname } from 'node:os';
+import { setTimeout as delay } from 'node:timers/promises';
+
+import { ClassificationJobStatus } from '@prisma/client';
+
+import {
+  claimNextClassificationJob,
+  completeClassificationJob,
+  failClassificationJob,
+  releaseStaleClassificationJobs,
+} from '@/lib/db/classification-jobs';
+import { prisma } from '@/lib/db/client';
+import { classifyAiLog } from '@/lib/db/log-classification';
+
+const DEFAULT_POLL_INTERVAL_MS = 2_000;
+const STALE_SWEEP_INTERVAL_MS = 60_000;
+
+export function createClassificationWorkerId(): string {
+  return `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+}
+
+/**
+ * Claims and processes due jobs until the queue is empty or `maxJobs` have
+ * been handled. Returns the number of jobs processed.
+ */
+export async function drainClassificationJobs(options: {
+  workerId?: string;
+  maxJobs?: number;
+} = {}): Promise<number> {
+  const workerId = options.workerId ?? createClassificationWorkerId();
+  const maxJobs = options.maxJobs ?? Number.POSITIVE_INFINITY;
+  let processed = 0;
+
+  while (processed < maxJobs) {
+    const job = await claimNextClassificationJob(workerId);
+    if (!job) {
+      break;
+    }
+
+    processed += 1;
+
+    try {
+      const classification = await classifyAiLog(job.aiLogId, {
+        revision: job.logRevision,
+        job,
+        reclassification: job.reclassification ? { requestedById: job.requestedById } : undefined,
+      });
+
+      // CLASSIFIED already completed the job in its transaction; JOB_LOCK_LOST
+      // means another worker owns it now.
+      if (classification.outcome === 'SUPERSEDED' || classification.outcome === 'NOT_FOUND') {
+        await completeClassificationJob(prisma, job, ClassificationJobStatus.SUPERSEDED);
+      }
+    } catch (error) {
+      // The error is kept on the job as `lastError` and shown on the admin job list.
+      await failClassificationJob(job, error);
+    }
+  }
+
+  return processed;
+}
+
+/**
+ * Long-running poll loop. Stops after the in-flight job once `signal` aborts.
+ */
+export async function runClassificationWorker(options: {
+  signal?: AbortSignal;
+  pollIntervalMs?: number;
+} = {}): Promise<void> {
+  const workerId = createClassificationWorkerId();
+  const pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+  let lastSweepAt = 0;
+
+  while (!options.signal?.aborted) {
+    try {
+      if (Date.now() - lastSweepAt >= STALE_SWEEP_INTERVAL_MS) {
+        await releaseStaleClassificationJobs();
+        lastSweepAt = Date.now();
+      }
+
+      await drainClassificationJobs({ workerId });
+    } catch {
+      // Polling failed (e.g. the database is unreachable); try again next interval.
+    }
+
+    await delay(pollIntervalMs, undefined, { signal: options.signal }).catch(() => undefined);
+  }
+}
@@ -0,0 +1,67 @@
+import type { ImportedConversation } from '@/lib/conversation-import';
+
+/** A usage evidence item of a revision, decrypted. */
+export type LogRevisionEvidence = {
+  usageNodeId: string | null;
+  url: string | null;
+  comment: string | null;
+  conversation: ImportedConversation | null;
+  label: string | null;
+};
+
+/** The student-declared fields of one log revision, decrypted. */
+export type LogRevisionContent = {
+  assignmentId: string;
+  usageSubsections: string[];
+  usageTaxonomyVersion: string | null;
+  usageReason: string | null;
+  sessionDescription: string | null;
+  aiTool: string;
+  evidence: LogRevisionEvidence[];
+};
+
+export type LogRevisionField = keyof LogRevisionContent;
+
+export type LogRevisionFieldChange<F extends LogRevisionField = LogRevisionField> = {
+  field: F;
+  previous: LogRevisionContent[F];
+  next: LogRevisionContent[F];
+};
+
+const DIFFED_FIELDS: readonly LogRevisionField[] = [
+  'assignmentId',
+  'usageSubsections',
+  'usageTaxonomyVersion',
+  'usageReason',
+  'sessionDescription',
+  'aiTool',
+  'evidence',
+];
+
+function sameValue(left: unknown, right: unknown): boolean {
+  return JSON.stringify(left) === JSON.stringify(right);
+}
+
+/**
+ * The fields that differ between two consecutive revisions, in a fixed order.
+ * Selections compare as sets, so reordering them is not a change; evidence
+ * compares item by item in order.
+ */
+export function diffLogRevisions(
+  previous: LogRevisionContent,
+  next: LogRevisionContent,
+): LogRevisionFieldChange[] {
+  const changes: LogRevisionFieldChange[] = [];
+
+  for (const field of DIFFED_FIELDS) {
+    const same =
+      field === 'usageSubsections'
+        ? sameValue([...previous.usageSubsections].sort(), [...next.usageSubsections].sort())
+        : sameValue(previous[field], next[field]);
+    if (!same) {
+      changes.push({ field, previous: previous[field], next: next[field] });
+    }
+  }
+
+  return changes;
+}
@@ -0,0 +1,479 @@
+import { flattenUsageTree, getUsageNodeIdPath, type UsageTreeNode } from '@/lib/usage-taxonomy';
+
+export type UsageNodeStatus = 'ALLOWED' | 'DISALLOWED' | 'REQUIRES_JUSTIFICATION' | 'MIXED';
+
+/** Allowed once the log explains the use and attaches this much evidence to the node. */
+export type UsageJustificationRequirement = {
+  minEvidenceCount: number;
+};
+
+/** `true` allowed, `false` disallowed, otherwise allowed with justification. */
+export type UsageRuleValue = boolean | UsageJustificationRequirement;
+
+export type UsageRuleMap = Map<string, UsageRuleValue>;
+
+/** A course or assignment rule as stored. */
+export type StoredUsageRule = {
+  nodeId: string;
+  isAllowed: boolean;
+  requiresJustification?: boolean;
+  minEvidenceCount?: number | null;
+} & Partial<UsageRuleWindowBounds>;
+
+/**
+ * When a rule applies. Each bound is either a date or a number of days
+ * relative to the assignment's due date (negative is before it); a rule with
+ * no bounds always applies. The start is inclusive, the end exclusive.
+ */
+export type UsageRuleWindowBounds = {
+  activeFrom: Date | string | null;
+  activeUntil: Date | string | null;
+  activeFromDueOffsetDays: number | null;
+  activeUntilDueOffsetDays: number | null;
+};
+
+/** `UsageRuleWindowBounds` with dates as ISO strings, as sent to clients. */
+export type UsageRuleWindow = {
+  activeFrom: string | null;
+  activeUntil: string | null;
+  activeFromDueOffsetDays: number | null;
+  activeUntilDueOffsetDays: number | null;
+};
+
+/** The moment a log is checked at, and its assignment's due date. */
+export type UsageRuleTiming = {
+  at: Date;
+  dueDate: Date | null;
+};
+
+/** A window resolved for one assignment; null bounds are open. */
+export type ResolvedUsageRuleWindow = {
+  from: Date | null;
+  until: Date | null;
+};
+
+/** A time-windowed rule set on a node, so students can see when it applies. */
+export type UsageRuleWindowNotice = {
+  scope: 'COURSE' | 'ASSIGNMENT';
+  status: Exclude<UsageNodeStatus, 'MIXED'>;
+  from: string | null;
+  until: string | null;
+  /** Whether the rule applies at the moment the tree was built for. */
+  active: boolean;
+};
+
+export type AnnotatedUsageTreeNode = UsageTreeNode & {
+  status: UsageNodeStatus;
+  /** Set on leaves whose status is REQUIRES_JUSTIFICATION. */
+  minEvidenceCount?: number;
+  ruleWindows?: UsageRuleWindowNotice[];
+  children?: AnnotatedUsageTreeNode[];
+};
+
+/** What a log offers as justification for its selections. */
+export type UsageJustification = {
+  usageReason: string;
+  /** Node id of every evidence item attached to the log. */
+  evidenceNodeIds: string[];
+};
+
+export type UnmetUsageJustification = {
+  nodeId: string;
+  minEvidenceCount: number;
+  missingReason: boolean;
+  evidenceCount: number;
+};
+
+export function usageRuleValue(rule: StoredUsageRule): UsageRuleValue {
+  if (!rule.isAllowed) {
+    return false;
+  }
+  return rule.requiresJustification ? { minEvidenceCount: rule.minEvidenceCount ?? 0 } : true;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** The rule's window with ISO dates, or null when the rule always applies. */
+export function usageRuleWindow(rule: Partial<UsageRuleWindowBounds>): UsageRuleWindow | null {
+  const window: UsageRuleWindow = {
+    activeFrom: rule.activeFrom ? new Date(rule.activeFrom).toISOString() : null,
+    activeUntil: rule.activeUntil ? new Date(rule.activeUntil).toISOString() : null,
+    activeFromDueOffsetDays: rule.activeFromDueOffsetDays ?? null,
+    activeUntilDueOffsetDays: rule.activeUntilDueOffsetDays ?? null,
+  };
+  return Object.values(window).every((bound) => bound === null) ? null : window;
+}
+
+export function sameUsageRuleWindow(
+  left: Partial<UsageRuleWindowBounds>,
+  right: Partial<UsageRuleWindowBounds>,
+): boolean {
+  return JSON.stringify(usageRuleWindow(left)) === JSON.stringify(usageRuleWindow(right));
+}
+
+function resolveBound(
+  date: Date | string | null | undefined,
+  dueOffsetDays: number | null | undefined,
+  dueDate: Date | null,
+): Date | null | undefined {
+  if (date) {
+    return new Date(date);
+  }
+  if (dueOffsetDays === null || dueOffsetDays === undefined) {
+    return null;
+  }
+  return dueDate ? new Date(dueDate.getTime() + dueOffsetDays * DAY_MS) : undefined;
+}
+
+/**
+ * The rule's window as dates for an assignment due at `dueDate`. Null when a
+ * bound is relative to the due date and the assignment has none.
+ */
+export function resolveUsageRuleWindow(
+  rule: Partial<UsageRuleWindowBounds>,
+  dueDate: Date | null,
+): ResolvedUsageRuleWindow | null {
+  const from = resolveBound(rule.activeFrom, rule.activeFromDueOffsetDays, dueDate);
+  const until = resolveBound(rule.activeUntil, rule.activeUntilDueOffsetDays, dueDate);
+  return from === undefined || until === undefined ? null : { from, until };
+}
+
+/** A rule whose window cannot be resolved never applies. */
+export function isUsageRuleActive(
+  rule: Partial<UsageRuleWindowBounds>,
+  timing: UsageRuleTiming,
+): boolean {
+  const window = resolveUsageRuleWindow(rule, timing.dueDate);
+  if (!window) {
+    return false;
+  }
+  return (
+    (!window.from || timing.at.getTime() >= window.from.getTime()) &&
+    (!window.until || timing.at.getTime() < window.until.getTime())
+  );
+}
+
+export function activeUsageRules<T extends StoredUsageRule>(
+  rules: T[],
+  timing: UsageRuleTiming,
+): T[] {
+  return rules.filter((rule) => isUsageRuleActive(rule, timing));
+}
+
+/** Disallowed beats a justification requirement, which beats allowed. */
+export function stricterUsageRule(left: UsageRuleValue, right: UsageRuleValue): UsageRuleValue {
+  if (left === false || right === false) {
+    return false;
+  }
+  if (left === true) {
+    return right;
+  }
+  if (right === true) {
+    return left;
+  }
+  return { minEvidenceCount: Math.max(left.minEvidenceCount, right.minEvidenceCount) };
+}
+
+/**
+ * The baseline (`getBaselineDisallowedNodeIds` of the taxonomy) with a
+ * course's own rules applied on top.
+ */
+export function mergeCourseUsageRules(
+  rules: StoredUsageRule[],
+  baselineNodeIds: readonly string[],
+): UsageRuleMap {
+  const merged: UsageRuleMap = new Map(baselineNodeIds.map((nodeId) => [nodeId, false]));
+  for (const rule of rules) {
+    merged.set(rule.nodeId, usageRuleValue(rule));
+  }
+  return merged;
+}
+
+/**
+ * Layers an assignment's rules over the course rule map. A rule on a node
+ * replaces the course rules inside its subtree; a restricting ancestor is
+ * pushed down onto its other children, so the node can be allowed without
+ * reopening its siblings. Rules on nodes missing from `tree` are ignored.
+ */
+export function applyAssignmentUsageRules(
+  tree: UsageTreeNode[],
+  ruleMap: UsageRuleMap,
+  assignmentRules: StoredUsageRule[],
+): UsageRuleMap {
+  const layered: UsageRuleMap = new Map(ruleMap);
+  // Parents first, so a rule on a child still overrides its parent's.
+  const located = assignmentRules
+    .map((rule) => ({ ...rule, path: getUsageNodeIdPath(tree, rule.nodeId) }))
+    .filter((rule) => rule.path.length > 0)
+    .sort((left, right) => left.path.length - right.path.length);
+
+  for (const rule of located) {
+    let nodes = tree;
+    let target: UsageTreeNode | undefined;
+
+    for (const pathNodeId of rule.path) {
+      target = nodes.find((candidate) => candidate.id === pathNodeId);
+      if (!target) {
+        break;
+      }
+      const ancestorRule = layered.get(pathNodeId);
+      if (pathNodeId !== rule.nodeId && ancestorRule !== undefined && ancestorRule !== true) {
+        layered.delete(pathNodeId);
+        for (const child of target.children ?? []) {
+          layered.set(child.id, stricterUsageRule(ancestorRule, layered.get(child.id) ?? true));
+        }
+      }
+      nodes = target.children ?? [];
+    }
+
+    for (const record of flattenUsageTree(target?.children ?? [])) {
+      layered.delete(record.nodeId);
+    }
+    layered.set(rule.nodeId, usageRuleValue(rule));
+  }
+
+  return layered;
+}
+
+/** The rule that applies to a node: the strictest rule on its path. */
+export function getEffectiveUsageRule(
+  tree: UsageTreeNode[],
+  nodeId: string,
+  ruleMap: UsageRuleMap,
+): UsageRuleValue {
+  return getUsageNodeIdPath(tree, nodeId).reduce<UsageRuleValue>(
+    (effective, pathNodeId) => stricterUsageRule(effective, ruleMap.get(pathNodeId) ?? true),
+    true,
+  );
+}
+
+/**
+ * Selections whose justification requirement the log does not meet: a
+ * non-empty reason, and evidence on the node (or below it) at least
+ * `minEvidenceCount` times.
+ */
+export function findUnmetUsageJustifications(
+  tree: UsageTreeNode[],
+  nodeIds: string[],
+  ruleMap: UsageRuleMap,
+  justification: UsageJustification,
+): UnmetUsageJustification[] {
+  const hasReason = justification.usageReason.trim().length > 0;
+
+  return nodeIds.flatMap((nodeId) => {
+    const rule = getEffectiveUsageRule(tree, nodeId, ruleMap);
+    if (typeof rule === 'boolean') {
+      return [];
+    }
+
+    const evidenceCount = justification.evidenceNodeIds.filter((evidenceNodeId) =>
+      getUsageNodeIdPath(tree, evidenceNodeId).includes(nodeId),
+    ).length;
+    if (hasReason && evidenceCount >= rule.minEvidenceCount) {
+      return [];
+    }
+
+    return [
+      { nodeId, minEvidenceCount: rule.minEvidenceCount, missingReason: !hasReason, evidenceCount },
+    ];
+  });
+}
+
+function isLeaf(node: UsageTreeNode): boolean {
+  return !node.children || node.children.length === 0;
+}
+
+function statusOfRule(rule: UsageRuleValue): Exclude<UsageNodeStatus, 'MIXED'> {
+  if (rule === false) {
+    return 'DISALLOWED';
+  }
+  return rule === true ? 'ALLOWED' : 'REQUIRES_JUSTIFICATION';
+}
+
+function computeStatus(children: UsageNodeStatus[]): UsageNodeStatus {
+  const [first] = children;
+  if (first && children.every((value) => value === first)) {
+    return first;
+  }
+  return 'MIXED';
+}
+
+/**
+ * The tree as a student of the course sees it: a rule on a node applies to its
+ * whole subtree unless a stricter rule is set below it, and a parent with
+ * different kinds of leaves below it is MIXED.
+ */
+export function annotateUsageTree(
+  nodes: UsageTreeNode[],
+  ruleMap: UsageRuleMap,
+  inheritedRule: UsageRuleValue = true,
+): AnnotatedUsageTreeNode[] {
+  return nodes.map((node) => {
+    const rule = stricterUsageRule(inheritedRule, ruleMap.get(node.id) ?? true);
+
+    if (isLeaf(node)) {
+      return {
+        id: node.id,
+        label: node.label,
+        status: statusOfRule(rule),
+        ...(typeof rule === 'boolean' ? {} : { minEvidenceCount: rule.minEvidenceCount }),
+      };
+    }
+
+    const annotatedChildren = annotateUsageTree(node.children ?? [], ruleMap, rule);
+    const status =
+      rule === false
+        ? 'DISALLOWED'
+        : computeStatus(annotatedChildren.map((child) => child.status));
+
+    return {
+      id: node.id,
+      label: node.label,
+      status,
+      children: annotatedChildren,
+    };
+  });
+}
+
+/**
+ * The windowed course and assignment rules of each node, resolved for the
+ * assignment. Rules whose window cannot be resolved are left out.
+ */
+export function describeUsageRuleWindows(
+  courseRules: StoredUsageRule[],
+  assignmentRules: StoredUsageRule[],
+  timing: UsageRuleTiming,
+): Map<string, UsageRuleWindowNotice[]> {
+  const notices = new Map<string, UsageRuleWindowNotice[]>();
+  const scoped = [
+    ...courseRules.map((rule) => ({ scope: 'COURSE' as const, rule })),
+    ...assignmentRules.map((rule) => ({ scope: 'ASSIGNMENT' as const, rule })),
+  ];
+
+  for (const { scope, rule } of scoped) {
+    const window = usageRuleWindow(rule) && resolveUsageRuleWindow(rule, timing.dueDate);
+    if (!window) {
+      continue;
+    }
+    notices.set(rule.nodeId, [
+      ...(notices.get(rule.nodeId) ?? []),
+      {
+        scope,
+        status: statusOfRule(usageRuleValue(rule)),
+        from: window.from?.toISOString() ?? null,
+        until: window.until?.toISOString() ?? null,
+        active: isUsageRuleActive(rule, timing),
+      },
+    ]);
+  }
+
+  return notices;
+}
+
+export function withUsageRuleWindows(
+  nodes: AnnotatedUsageTreeNode[],
+  notices: Map<string, UsageRuleWindowNotice[]>,
+): AnnotatedUsageTreeNode[] {
+  return nodes.map((node) => {
+    const ruleWindows = notices.get(node.id);
+    return {
+      ...node,
+      ...(ruleWindows ? { ruleWindows } : {}),
+      ...(node.children ? { children: withUsageRuleWindows(node.children, notices) } : {}),
+    };
+  });
+}
+
+/** What an instructor sets on a node; INHERIT removes the course's own rule. */
+export type CourseUsageRuleState = 'ALLOWED' | 'DISALLOWED' | 'REQUIRES_JUSTIFICATION' | 'INHERIT';
+
+export type CourseUsageRuleChange = {
+  nodeId: string;
+  rule: CourseUsageRuleState;
+  /** Only for REQUIRES_JUSTIFICATION; defaults to 0 (a reason is enough). */
+  minEvidenceCount?: number;
+} & Partial<UsageRuleWindowBounds>;
+
+export type AppliedUsageRuleChange = {
+  nodeId: string;
+  previous: CourseUsageRuleState;
+  next: CourseUsageRuleState;
+  /** The new evidence minimum when `next` is REQUIRES_JUSTIFICATION. */
+  minEvidenceCount: number | null;
+  /** The new validity window; null when the rule always applies or is removed. */
+  window: UsageRuleWindow | null;
+};
+
+export type UsageRuleCopyResult = {
+  /** Only changes that alter the course's rules. */
+  changes: AppliedUsageRuleChange[];
+  /** Source rules on nodes the active taxonomy no longer has; not copied. */
+  skippedNodeIds: string[];
+};
+
+export function usageRuleState(rule: StoredUsageRule | undefined): CourseUsageRuleState {
+  if (!rule) {
+    return 'INHERIT';
+  }
+  if (!rule.isAllowed) {
+    return 'DISALLOWED';
+  }
+  return rule.requiresJustification ? 'REQUIRES_JUSTIFICATION' : 'ALLOWED';
+}
+
+/** The changes that alter the existing rules, with the state each replaces. */
+export function diffUsageRuleChanges(
+  existing: StoredUsageRule[],
+  changes: CourseUsageRuleChange[],
+): AppliedUsageRuleChange[] {
+  const existingByNodeId = new Map(existing.map((rule) => [rule.nodeId, rule]));
+
+  return changes.flatMap((change) => {
+    const current = existingByNodeId.get(change.nodeId);
+    const previous = usageRuleState(current);
+    const minEvidenceCount =
+      change.rule === 'REQUIRES_JUSTIFICATION' ? (change.minEvidenceCount ?? 0) : null;
+    const window = change.rule === 'INHERIT' ? null : usageRuleWindow(change);
+
+    if (
+      previous === change.rule &&
+      (previous !== 'REQUIRES_JUSTIFICATION' ||
+        (current?.minEvidenceCount ?? 0) === minEvidenceCount) &&
+      (previous === 'INHERIT' || sameUsageRuleWindow(current ?? {}, change))
+    ) {
+      return [];
+    }
+
+    return [{ nodeId: change.nodeId, previous, next: change.rule, minEvidenceCount, window }];
+  });
+}
+
+/**
+ * The changes that replace `existing` with `sourceRules`: source rules on
+ * nodes of `tree` are copied and every other existing rule becomes INHERIT.
+ */
+export function planUsageRuleCopy(
+  existing: StoredUsageRule[],
+  sourceRules: StoredUsageRule[],
+  tree: UsageTreeNode[],
+): UsageRuleCopyResult {
+  const nodeIds = new Set(flattenUsageTree(tree).map((record) => record.nodeId));
+  const copied = sourceRules.filter((rule) => nodeIds.has(rule.nodeId));
+  const copiedNodeIds = new Set(copied.map((rule) => rule.nodeId));
+
+  return {
+    changes: diffUsageRuleChanges(existing, [
+      ...copied.map((rule) => ({
+        ...rule,
+        rule: usageRuleState(rule),
+        minEvidenceCount: rule.minEvidenceCount ?? undefined,
+      })),
+      ...existing
+        .filter((rule) => !copiedNodeIds.has(rule.nodeId))
+        .map((rule) => ({ nodeId: rule.nodeId, rule: 'INHERIT' as const })),
+    ]),
+    skippedNodeIds: sourceRules
+      .filter((rule) => !nodeIds.has(rule.nodeId))
+      .map((rule) => rule.nodeId),
+  };
+}
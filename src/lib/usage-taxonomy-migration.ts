@@ -0,0 +1,319 @@
+import {
+  flattenUsageTree,
+  getUsageNodeLabelMap,
+  isLeafUsageNodeId,
+  type UsageTreeNode,
+} from '@/lib/usage-taxonomy';
+import {
+  stricterUsageRule,
+  usageRuleValue,
+  usageRuleWindow,
+  type StoredUsageRule,
+  type UsageRuleValue,
+  type UsageRuleWindow,
+} from '@/lib/usage-rule-tree';
+
+/** One mapping row: an old node becomes zero (removed), one or several new nodes. */
+export type UsageNodeMappingInput = {
+  oldNodeId: string;
+  newNodeIds: string[];
+};
+
+/**
+ * Old node id → new node ids. `[]` means the node was deliberately removed,
+ * `null` that it has no mapping and no longer exists in the new tree.
+ */
+export type UsageNodeMap = Map<string, string[] | null>;
+
+export type UsageNodeChangeKind = 'RENAMED' | 'SPLIT' | 'MERGED' | 'REMOVED' | 'UNMAPPED';
+
+export type UsageNodeChange = {
+  oldNodeId: string;
+  newNodeIds: string[];
+  kind: UsageNodeChangeKind;
+};
+
+/** A change that affects one log, labelled for the student editing it. */
+export type LogUsageNodeChange = {
+  oldNodeId: string;
+  oldLabel: string;
+  kind: UsageNodeChangeKind;
+  newNodes: Array<{ id: string; label: string }>;
+};
+
+export type LogUsageMigration = {
+  usageSubsections: string[];
+  unmappedSubsections: string[];
+  /** Old evidence node id → the leaf it moves to, or null when it has nowhere to go. */
+  evidenceNodeIds: Record<string, string | null>;
+  changes: LogUsageNodeChange[];
+};
+
+export type CourseUsageRuleRecord = StoredUsageRule;
+
+function nodeIdsOf(tree: UsageTreeNode[]): Set<string> {
+  return new Set(flattenUsageTree(tree).map((record) => record.nodeId));
+}
+
+/** Problems that make a mapping unusable between the two trees; empty when valid. */
+export function validateUsageNodeMappings(
+  fromTree: UsageTreeNode[],
+  toTree: UsageTreeNode[],
+  mappings: UsageNodeMappingInput[],
+): string[] {
+  const fromIds = nodeIdsOf(fromTree);
+  const toIds = nodeIdsOf(toTree);
+  const errors: string[] = [];
+  const seen = new Set<string>();
+
+  for (const mapping of mappings) {
+    if (seen.has(mapping.oldNodeId)) {
+      errors.push(`"${mapping.oldNodeId}" is mapped more than once`);
+    }
+    seen.add(mapping.oldNodeId);
+
+    if (!fromIds.has(mapping.oldNodeId)) {
+      errors.push(`"${mapping.oldNodeId}" is not a node of the old version`);
+    }
+    for (const newNodeId of mapping.newNodeIds) {
+      if (!toIds.has(newNodeId)) {
+        errors.push(
+          `"${newNodeId}" (mapped from "${mapping.oldNodeId}") is not a node of the new version`,
+        );
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Resolves every node of `fromTree`: explicit mappings first, then nodes whose
+ * id still exists in `toTree` map onto themselves.
+ */
+export function buildUsageNodeMap(
+  fromTree: UsageTreeNode[],
+  toTree: UsageTreeNode[],
+  mappings: UsageNodeMappingInput[],
+): UsageNodeMap {
+  const toIds = nodeIdsOf(toTree);
+  const explicit = new Map(mappings.map((mapping) => [mapping.oldNodeId, mapping.newNodeIds]));
+  const map: UsageNodeMap = new Map();
+
+  for (const nodeId of nodeIdsOf(fromTree)) {
+    const mapped = explicit.get(nodeId);
+    if (mapped) {
+      map.set(nodeId, Array.from(new Set(mapped)));
+    } else {
+      map.set(nodeId, toIds.has(nodeId) ? [nodeId] : null);
+    }
+  }
+
+  return map;
+}
+
+/** Chains `first` (A → B) and `second` (B → C) into A → C. */
+export function composeUsageNodeMaps(first: UsageNodeMap, second: UsageNodeMap): UsageNodeMap {
+  const composed: UsageNodeMap = new Map();
+
+  for (const [oldNodeId, intermediate] of first) {
+    if (intermediate === null) {
+      composed.set(oldNodeId, null);
+      continue;
+    }
+
+    const resolved = intermediate.map((nodeId) => second.get(nodeId) ?? null);
+    composed.set(
+      oldNodeId,
+      resolved.some((value) => value === null)
+        ? null
+        : Array.from(new Set(resolved.flatMap((value) => value ?? []))),
+    );
+  }
+
+  return composed;
+}
+
+/** The nodes that did not simply carry over, classified by what happened to them. */
+export function describeUsageNodeMap(map: UsageNodeMap): UsageNodeChange[] {
+  const targetUses = new Map<string, number>();
+  for (const newNodeIds of map.values()) {
+    for (const nodeId of newNodeIds ?? []) {
+      targetUses.set(nodeId, (targetUses.get(nodeId) ?? 0) + 1);
+    }
+  }
+
+  const changes: UsageNodeChange[] = [];
+  for (const [oldNodeId, newNodeIds] of map) {
+    if (newNodeIds === null) {
+      changes.push({ oldNodeId, newNodeIds: [], kind: 'UNMAPPED' });
+    } else if (newNodeIds.length === 0) {
+      changes.push({ oldNodeId, newNodeIds, kind: 'REMOVED' });
+    } else if (newNodeIds.length > 1) {
+      changes.push({ oldNodeId, newNodeIds, kind: 'SPLIT' });
+    } else if ((targetUses.get(newNodeIds[0]) ?? 0) > 1 && newNodeIds[0] !== oldNodeId) {
+      changes.push({ oldNodeId, newNodeIds, kind: 'MERGED' });
+    } else if (newNodeIds[0] !== oldNodeId) {
+      changes.push({ oldNodeId, newNodeIds, kind: 'RENAMED' });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Re-records a log's selections against the new version. Ids missing from
+ * the map (already invalid in the old version) are treated as unmapped.
+ */
+export function mapUsageSelections(
+  nodeIds: string[],
+  map: UsageNodeMap,
+): { nodeIds: string[]; unmapped: string[] } {
+  const mapped = new Set<string>();
+  const unmapped: string[] = [];
+
+  for (const nodeId of nodeIds) {
+    const newNodeIds = map.get(nodeId) ?? null;
+    if (newNodeIds === null) {
+      unmapped.push(nodeId);
+      continue;
+    }
+    for (const newNodeId of newNodeIds) {
+      mapped.add(newNodeId);
+    }
+  }
+
+  return { nodeIds: Array.from(mapped), unmapped };
+}
+
+/**
+ * Rewrites a course's usage rules onto the new node ids. A split copies the
+ * rule to every new node; when merged nodes disagree the stricter rule
+ * (disallowed, then allowed with justification) wins and the node is reported
+ * as a conflict. Merged rules keep a time window only if they all share it.
+ * Unmapped rules are returned separately and left for an admin to resolve.
+ */
+export function mapCourseUsageRules(
+  rules: CourseUsageRuleRecord[],
+  map: UsageNodeMap,
+): {
+  rules: CourseUsageRuleRecord[];
+  unmapped: CourseUsageRuleRecord[];
+  conflicts: string[];
+} {
+  const mapped = new Map<string, { value: UsageRuleValue; window: UsageRuleWindow | null }>();
+  const conflicts = new Set<string>();
+  const unmapped: CourseUsageRuleRecord[] = [];
+
+  for (const rule of rules) {
+    const newNodeIds = map.get(rule.nodeId) ?? null;
+    if (newNodeIds === null) {
+      unmapped.push(rule);
+      continue;
+    }
+
+    const value = usageRuleValue(rule);
+    const window = usageRuleWindow(rule);
+    for (const nodeId of newNodeIds) {
+      const existing = mapped.get(nodeId);
+      if (!existing) {
+        mapped.set(nodeId, { value, window });
+        continue;
+      }
+      if (
+        JSON.stringify(existing.value) !== JSON.stringify(value) ||
+        JSON.stringify(existing.window) !== JSON.stringify(window)
+      ) {
+        conflicts.add(nodeId);
+      }
+      mapped.set(nodeId, {
+        value: stricterUsageRule(existing.value, value),
+        window: JSON.stringify(existing.window) === JSON.stringify(window) ? window : null,
+      });
+    }
+  }
+
+  return {
+    rules: Array.from(mapped, ([nodeId, { value, window }]) => ({
+      ...(typeof value === 'boolean'
+        ? { nodeId, isAllowed: value }
+        : {
+            nodeId,
+            isAllowed: true,
+            requiresJustification: true,
+            minEvidenceCount: value.minEvidenceCount,
+          }),
+      ...(window ?? {}),
+    })),
+    unmapped,
+    conflicts: Array.from(conflicts),
+  };
+}
+
+/**
+ * Carries a log's selections and evidence over to a newer version so it can be
+ * edited there. Evidence on a split node moves to its first new leaf.
+ */
+export function migrateLogUsage(
+  fromTree: UsageTreeNode[],
+  toTree: UsageTreeNode[],
+  map: UsageNodeMap,
+  nodeIds: string[],
+  evidenceNodeIds: string[],
+): LogUsageMigration {
+  const selections = mapUsageSelections(nodeIds, map);
+  const fromLabels = getUsageNodeLabelMap(fromTree);
+  const toLabels = getUsageNodeLabelMap(toTree);
+  const affected = new Set([...nodeIds, ...evidenceNodeIds]);
+
+  const evidenceMap: Record<string, string | null> = {};
+  for (const nodeId of evidenceNodeIds) {
+    evidenceMap[nodeId] =
+      (map.get(nodeId) ?? []).find((newNodeId) => isLeafUsageNodeId(toTree, newNodeId)) ?? null;
+  }
+
+  return {
+    usageSubsections: selections.nodeIds,
+    unmappedSubsections: selections.unmapped,
+    evidenceNodeIds: evidenceMap,
+    changes: describeUsageNodeMap(map)
+      .filter((change) => affected.has(change.oldNodeId))
+      .map((change) => ({
+        oldNodeId: change.oldNodeId,
+        oldLabel: fromLabels.get(change.oldNodeId) ?? change.oldNodeId,
+        kind: change.kind,
+        newNodes: change.newNodeIds.map((id) => ({ id, label: toLabels.get(id) ?? id })),
+      })),
+  };
+}
+
+/**
+ * A log's selections and evidence as the rules of the map's target version see
+ * them. Rules are only kept on the newest node ids, so a log recorded against
+ * an older version is checked through this; `recordedNodeIds` turns the ids a
+ * check reports back into the ones the log recorded. Selections with nowhere
+ * to go keep their old id, which no rule covers any more.
+ */
+export function mapLogUsageForRules(
+  nodeIds: string[],
+  evidenceNodeIds: string[],
+  map: UsageNodeMap,
+): {
+  nodeIds: string[];
+  evidenceNodeIds: string[];
+  recordedNodeIds: (mappedNodeIds: string[]) => string[];
+} {
+  const targetsOf = (nodeId: string) => {
+    const newNodeIds = map.get(nodeId);
+    return newNodeIds && newNodeIds.length > 0 ? newNodeIds : [nodeId];
+  };
+
+  return {
+    nodeIds: Array.from(new Set(nodeIds.flatMap(targetsOf))),
+    evidenceNodeIds: evidenceNodeIds.flatMap(targetsOf),
+    recordedNodeIds: (mappedNodeIds) => {
+      const reported = new Set(mappedNodeIds);
+      return nodeIds.filter((nodeId) => targetsOf(nodeId).some((id) => reported.has(id)));
+    },
+  };
+}
@@ -1,100 +1,100 @@
-export const MANUAL_USAGE_TAXONOMY_VERSION = 'v1' as const;
-
 export type UsageTreeNode = {
   id: string;
   label: string;
+  /** `PolicyRule.usageCategory` selecting this node implies; inherited by descendants. */
+  policyCategory?: string;
+  /** Disallowed for every course unless the course's rules allow it. */
+  baselineDisallowed?: boolean;
   children?: UsageTreeNode[];
 };
 
 export type UsageSection = {
   id: string;
   label: string;
+  policyCategory?: string;
+  baselineDisallowed?: boolean;
   children: UsageTreeNode[];
 };
 
-export const MANUAL_USAGE_TAXONOMY: UsageSection[] = [
-  {
-    id: 'no-ai',
-    label: 'No AI',
-    children: [],
-  },
-  {
-    id: 'writing',
-    label: 'Writing',
-    children: [
-      {
-        id: 'text-generation',
-        label: 'Text generation',
-        children: [
-          { id: 'partial-text-generation', label: 'Partial text generation' },
-          { id: 'full-section-generation', label: 'Full section generation' },
-        ],
-      },
-      {
-        id: 'text-improvement',
-        label: 'Text improvement',
-        children: [
-          { id: 'text-correction', label: 'Text correction (grammar/spelling)' },
-          { id: 'critique-and-quality-improvement', label: 'Critique and quality improvement' },
-        ],
-      },
-      { id: 'summarization', label: 'Summarization' },
-      { id: 'translation', label: 'Translation' },
-    ],
-  },
-  {
-    id: 'programming',
-    label: 'Programming',
-    children: [
-      { id: 'code-explanation', label: 'Code explanation' },
-      { id: 'debugging-support', label: 'Debugging support' },
-      {
-        id: 'code-generation',
-        label: 'Code generation',
-        children: [
-          { id: 'partial-code-generation', label: 'Partial code generation' },
-          { id: 'full-solution-generation', label: 'Full solution generation' },
-          { id: 'test-generation', label: 'Test generation' },
-        ],
-      },
-      { id: 'refactoring-suggestions', label: 'Refactoring suggestions' },
-    ],
-  },
-  {
-    id: 'research-and-ideation',
-    label: 'Research and ideation',
-    children: [
-      { id: 'brainstorming-ideas', label: 'Brainstorming ideas' },
-      { id: 'outline-generation', label: 'Outline generation' },
-      { id: 'source-discovery', label: 'Source discovery' },
-      { id: 'source-comparison', label: 'Source comparison' },
-      { id: 'question-formulation', label: 'Question formulation' },
-    ],
-  },
-  {
-    id: 'data-and-analysis',
-    label: 'Data and analysis',
-    children: [
-      { id: 'data-interpretation', label: 'Data interpretation' },
-      { id: 'statistical-guidance', label: 'Statistical guidance' },
-      { id: 'visualization-suggestions', label: 'Visualization suggestions' },
-      { id: 'result-explanation', label: 'Result explanation' },
-    ],
-  },
-  {
-    id: 'presentation-and-communication',
-    label: 'Presentation and communication',
-    children: [
-      { id: 'slide-structure', label: 'Slide structure' },
-      { id: 'speaker-notes', label: 'Speaker notes' },
-      { id: 'email-message-drafting', label: 'Email/message drafting' },
-      { id: 'audience-adaptation', label: 'Audience adaptation' },
-    ],
-  },
-];
-
-export function getUsageSectionById(sectionId: string) {
-  return MANUAL_USAGE_TAXONOMY.find((section) => section.id === sectionId) ?? null;
+/** One stored node of a taxonomy version (`usage_taxonomy_nodes`). */
+export type UsageTaxonomyNodeRecord = {
+  nodeId: string;
+  parentNodeId: string | null;
+  label: string;
+  position: number;
+  policyCategory?: string | null;
+  baselineDisallowed?: boolean;
+};
+
+/**
+ * Rebuilds the nested tree from stored node rows. Siblings are ordered by
+ * `position`; rows whose parent is missing are dropped.
+ */
+export function buildUsageTree(records: UsageTaxonomyNodeRecord[]): UsageSection[] {
+  const childrenByParent = new Map<string | null, UsageTaxonomyNodeRecord[]>();
+  for (const record of records) {
+    const siblings = childrenByParent.get(record.parentNodeId) ?? [];
+    siblings.push(record);
+    childrenByParent.set(record.parentNodeId, siblings);
+  }
+
+  function childrenOf(parentNodeId: string | null): UsageTaxonomyNodeRecord[] {
+    return [...(childrenByParent.get(parentNodeId) ?? [])].sort(
+      (a, b) => a.position - b.position || a.nodeId.localeCompare(b.nodeId),
+    );
+  }
+
+  function baseNode(record: UsageTaxonomyNodeRecord): Omit<UsageTreeNode, 'children'> {
+    return {
+      id: record.nodeId,
+      label: record.label,
+      ...(record.policyCategory ? { policyCategory: record.policyCategory } : {}),
+      ...(record.baselineDisallowed ? { baselineDisallowed: true } : {}),
+    };
+  }
+
+  function buildNode(record: UsageTaxonomyNodeRecord): UsageTreeNode {
+    const children = childrenOf(record.nodeId).map(buildNode);
+    return children.length > 0 ? { ...baseNode(record), children } : baseNode(record);
+  }
+
+  return childrenOf(null).map((record) => ({
+    ...baseNode(record),
+    children: childrenOf(record.nodeId).map(buildNode),
+  }));
+}
+
+/** Inverse of `buildUsageTree`: the rows to store for a nested tree. */
+export function flattenUsageTree(tree: UsageTreeNode[]): UsageTaxonomyNodeRecord[] {
+  const records: UsageTaxonomyNodeRecord[] = [];
+
+  function visit(nodes: UsageTreeNode[], parentNodeId: string | null) {
+    nodes.forEach((node, position) => {
+      records.push({
+        nodeId: node.id,
+        parentNodeId,
+        label: node.label,
+        position,
+        policyCategory: node.policyCategory ?? null,
+        baselineDisallowed: node.baselineDisallowed ?? false,
+      });
+      visit(node.children ?? [], node.id);
+    });
+  }
+
+  visit(tree, null);
+  return records;
+}
+
+/** The nodes every course disallows unless its rules allow them. */
+export function getBaselineDisallowedNodeIds(tree: UsageTreeNode[]): string[] {
+  return flattenUsageTree(tree)
+    .filter((record) => record.baselineDisallowed)
+    .map((record) => record.nodeId);
+}
+
+export function getUsageSectionById(tree: UsageTreeNode[], sectionId: string) {
+  return tree.find((section) => section.id === sectionId) ?? null;
 }
 
 function findNodeById(nodes: UsageTreeNode[], targetId: string): UsageTreeNode | null {
@@ -112,8 +112,8 @@ function findNodeById(nodes: UsageTreeNode[], targetId: string): UsageTreeNode |
   return null;
 }
 
-export function isLeafUsageNodeId(nodeId: string): boolean {
-  const node = findNodeById(getUsageTreeRootNodes(), nodeId);
+export function isLeafUsageNodeId(tree: UsageTreeNode[], nodeId: string): boolean {
+  const node = findNodeById(tree, nodeId);
   if (!node) {
     return false;
   }
@@ -156,20 +156,53 @@ function findPathToNodeIds(nodes: UsageTreeNode[], targetId: string, acc: string
   return null;
 }
 
-export function getUsageTreeRootNodes(): UsageTreeNode[] {
-  return MANUAL_USAGE_TAXONOMY.map((section) => ({
-    id: section.id,
-    label: section.label,
-    children: section.children,
+export function getUsageNodeIdPath(tree: UsageTreeNode[], nodeId: string): string[] {
+  return findPathToNodeIds(tree, nodeId) ?? [];
+}
+
+/** The policy category of the node or, failing that, of its nearest ancestor. */
+export function getUsageNodePolicyCategory(tree: UsageTreeNode[], nodeId: string): string | null {
+  let category: string | null = null;
+  let nodes = tree;
+
+  for (const pathNodeId of getUsageNodeIdPath(tree, nodeId)) {
+    const node = nodes.find((candidate) => candidate.id === pathNodeId);
+    if (!node) {
+      break;
+    }
+    category = node.policyCategory ?? category;
+    nodes = node.children ?? [];
+  }
+
+  return category;
+}
+
+/** Each selected node with the policy category it implies, for `resolveSelectionIntent`. */
+export function categorizeUsageSelections(tree: UsageTreeNode[], nodeIds: string[]) {
+  return nodeIds.map((nodeId) => ({
+    nodeId,
+    policyCategory: getUsageNodePolicyCategory(tree, nodeId),
   }));
 }
 
-export function getUsageNodeIdPath(nodeId: string): string[] {
-  return findPathToNodeIds(getUsageTreeRootNodes(), nodeId) ?? [];
+export function getUsageNodeLabelMap(tree: UsageTreeNode[]): Map<string, string> {
+  const result = new Map<string, string>();
+  const stack = [...tree];
+  while (stack.length > 0) {
+    const node = stack.pop();
+    if (!node) {
+      continue;
+    }
+    result.set(node.id, node.label);
+    if (node.children && node.children.length > 0) {
+      stack.push(...node.children);
+    }
+  }
+  return result;
 }
 
-export function getDescendantLeafNodeIds(nodeId: string): string[] {
-  const startNode = findNodeById(getUsageTreeRootNodes(), nodeId);
+export function getDescendantLeafNodeIds(tree: UsageTreeNode[], nodeId: string): string[] {
+  const startNode = findNodeById(tree, nodeId);
   if (!startNode) {
     return [];
   }
@@ -194,27 +227,19 @@ export function getDescendantLeafNodeIds(nodeId: string): string[] {
   return leaves;
 }
 
-function findNodeByIdGlobal(nodeId: string): UsageTreeNode | null {
-  return findNodeById(getUsageTreeRootNodes(), nodeId);
-}
-
-function getPathToNodeGlobal(nodeId: string): string[] | null {
-  return findPathToNode(getUsageTreeRootNodes(), nodeId);
-}
-
-function getTopLevelSectionForNode(nodeId: string): UsageSection | null {
-  for (const section of MANUAL_USAGE_TAXONOMY) {
-    if (section.id === nodeId || findNodeById(section.children, nodeId)) {
+function getTopLevelSectionForNode(tree: UsageTreeNode[], nodeId: string): UsageTreeNode | null {
+  for (const section of tree) {
+    if (section.id === nodeId || findNodeById(section.children ?? [], nodeId)) {
       return section;
     }
   }
   return null;
 }
 
-export function getTopLevelSectionsForSelections(nodeIds: string[]) {
+export function getTopLevelSectionsForSelections(tree: UsageTreeNode[], nodeIds: string[]) {
   const sectionMap = new Map<string, { id: string; label: string }>();
   for (const nodeId of nodeIds) {
-    const section = getTopLevelSectionForNode(nodeId);
+    const section = getTopLevelSectionForNode(tree, nodeId);
     if (section) {
       sectionMap.set(section.id, { id: section.id, label: section.label });
     }
@@ -222,7 +247,7 @@ export function getTopLevelSectionsForSelections(nodeIds: string[]) {
   return Array.from(sectionMap.values());
 }
 
-export function areValidUsageSelections(nodeIds: string[]): boolean {
+export function areValidUsageSelections(tree: UsageTreeNode[], nodeIds: string[]): boolean {
   if (nodeIds.length === 0) {
     return false;
   }
@@ -232,28 +257,44 @@ export function areValidUsageSelections(nodeIds: string[]): boolean {
     return false;
   }
 
-  return nodeIds.every((nodeId) => findNodeByIdGlobal(nodeId) !== null);
+  return nodeIds.every((nodeId) => findNodeById(tree, nodeId) !== null);
 }
 
-export function getUsageLabelsForSelections(nodeIds: string[]) {
-  const subsectionLabels = nodeIds
-    .map((nodeId) => getPathToNodeGlobal(nodeId))
-    .filter((path): path is string[] => Boolean(path))
+export function getUsageLabelsForSelections(tree: UsageTreeNode[], nodeIds: string[]) {
+  const paths = nodeIds
+    .map((nodeId) => findPathToNode(tree, nodeId))
+    .filter((path): path is string[] => Boolean(path));
+
+  const subsectionLabels = paths
     .map((path) => path[path.length - 1] ?? '')
     .filter((label) => label.length > 0);
 
-  const subsectionLabelPaths = nodeIds
-    .map((nodeId) => getPathToNodeGlobal(nodeId))
-    .filter((path): path is string[] => Boolean(path))
+  const subsectionLabelPaths = paths
     .map((path) => path.join(' > '))
     .filter((label): label is string => Boolean(label));
 
-  const sections = getTopLevelSectionsForSelections(nodeIds);
+  const sections = getTopLevelSectionsForSelections(tree, nodeIds);
 
   return {
     sectionLabels: sections.map((section) => section.label),
     sectionIds: sections.map((section) => section.id),
     subsectionLabels,
     subsectionLabelPaths,
+    /** Each selected node that exists in the tree, for callers without the tree. */
+    nodes: nodeIds.flatMap((nodeId) => {
+      const node = findNodeById(tree, nodeId);
+      if (!node) {
+        return [];
+      }
+      const section = getTopLevelSectionForNode(tree, nodeId);
+      return [
+        {
+          id: node.id,
+          label: node.label,
+          isLeaf: !node.children || node.children.length === 0,
+          section: section ? { id: section.id, label: section.label } : null,
+        },
+      ];
+    }),
   };
 }
@@ -12,3 +12,19 @@ export const intentCheckSchema = z.object({
 export const classifySchema = z.object({
   logId: z.string().uuid('logId must be a valid UUID'),
 });
+
+export const reclassifySchema = z
+  .object({
+    logId: z.string().uuid('logId must be a valid UUID').optional(),
+    assignmentId: z.string().uuid('assignmentId must be a valid UUID').optional(),
+    courseId: z.string().uuid('courseId must be a valid UUID').optional(),
+  })
+  .strict()
+  .refine(
+    (value) =>
+      [value.logId, value.assignmentId, value.courseId].filter((id) => id !== undefined)
+        .length === 1,
+    { message: 'Provide exactly one of logId, assignmentId or courseId' },
+  );
+
+export type ReclassifyInput = z.infer<typeof reclassifySchema>;
@@ -0,0 +1,177 @@
+import { z } from 'zod';
+
+const nodeIdSchema = z.string().trim().min(1, 'nodeId is required').max(150);
+
+const minEvidenceCountSchema = z
+  .number()
+  .int()
+  .min(0)
+  .max(20, 'At most 20 evidence items can be required')
+  .optional();
+
+const dueOffsetDaysSchema = z
+  .number()
+  .int()
+  .min(-365, 'Offsets can be at most 365 days before the due date')
+  .max(365, 'Offsets can be at most 365 days after the due date')
+  .nullable()
+  .optional();
+
+/** Bounds of a rule's validity window; see `UsageRuleWindowBounds`. */
+const ruleWindowFields = {
+  activeFrom: z.iso.datetime({ offset: true }).nullable().optional(),
+  activeUntil: z.iso.datetime({ offset: true }).nullable().optional(),
+  activeFromDueOffsetDays: dueOffsetDaysSchema,
+  activeUntilDueOffsetDays: dueOffsetDaysSchema,
+};
+
+type RuleWindowInput = {
+  rule: string;
+  activeFrom?: string | null;
+  activeUntil?: string | null;
+  activeFromDueOffsetDays?: number | null;
+  activeUntilDueOffsetDays?: number | null;
+};
+
+function hasWindow(change: RuleWindowInput): boolean {
+  return [
+    change.activeFrom,
+    change.activeUntil,
+    change.activeFromDueOffsetDays,
+    change.activeUntilDueOffsetDays,
+  ].some((bound) => bound !== null && bound !== undefined);
+}
+
+function checkRuleWindow(change: RuleWindowInput, ctx: z.RefinementCtx) {
+  if (change.rule === 'INHERIT' && hasWindow(change)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['activeFrom'],
+      message: 'INHERIT removes the rule, so it has no time window',
+    });
+  }
+  for (const [date, offset, path] of [
+    [change.activeFrom, change.activeFromDueOffsetDays, 'activeFrom'],
+    [change.activeUntil, change.activeUntilDueOffsetDays, 'activeUntil'],
+  ] as const) {
+    if (date && offset !== null && offset !== undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [path],
+        message: `Give ${path} as a date or as days from the due date, not both`,
+      });
+    }
+  }
+  if (
+    change.activeFrom &&
+    change.activeUntil &&
+    Date.parse(change.activeFrom) >= Date.parse(change.activeUntil)
+  ) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['activeUntil'],
+      message: 'The window ends before it starts',
+    });
+  }
+  if (
+    typeof change.activeFromDueOffsetDays === 'number' &&
+    typeof change.activeUntilDueOffsetDays === 'number' &&
+    change.activeFromDueOffsetDays >= change.activeUntilDueOffsetDays
+  ) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['activeUntilDueOffsetDays'],
+      message: 'The window ends before it starts',
+    });
+  }
+}
+
+function onlyWithJustification(change: { rule: string; minEvidenceCount?: number }) {
+  return change.minEvidenceCount === undefined || change.rule === 'REQUIRES_JUSTIFICATION';
+}
+
+const minEvidenceCountIssue = {
+  path: ['minEvidenceCount'],
+  message: 'minEvidenceCount only applies to REQUIRES_JUSTIFICATION',
+};
+
+export const updateCourseUsageRulesSchema = z
+  .object({
+    changes: z
+      .array(
+        z
+          .strictObject({
+            nodeId: nodeIdSchema,
+            rule: z.enum(['ALLOWED', 'DISALLOWED', 'REQUIRES_JUSTIFICATION', 'INHERIT']),
+            minEvidenceCount: minEvidenceCountSchema,
+            ...ruleWindowFields,
+          })
+          .refine(onlyWithJustification, minEvidenceCountIssue)
+          .superRefine(checkRuleWindow),
+      )
+      .min(1, 'At least one change is required')
+      .max(500, 'At most 500 changes can be saved at once'),
+  })
+  .strict();
+
+export type UpdateCourseUsageRulesInput = z.infer<typeof updateCourseUsageRulesSchema>;
+
+/** A template's full rule set, or the rules of `sourceCourseId` as they are now. */
+export const saveUsageRuleTemplateSchema = z
+  .object({
+    name: z
+      .string()
+      .trim()
+      .min(1, 'name is required')
+      .max(120, 'name can be at most 120 characters'),
+    description: z
+      .string()
+      .trim()
+      .max(2000, 'description can be at most 2000 characters')
+      .optional(),
+    rules: z
+      .array(
+        z
+          .strictObject({
+            nodeId: nodeIdSchema,
+            rule: z.enum(['ALLOWED', 'DISALLOWED', 'REQUIRES_JUSTIFICATION']),
+            minEvidenceCount: minEvidenceCountSchema,
+            ...ruleWindowFields,
+          })
+          .refine(onlyWithJustification, minEvidenceCountIssue)
+          .superRefine(checkRuleWindow),
+      )
+      .max(500, 'A template can have at most 500 rules')
+      .optional(),
+    sourceCourseId: z.string().uuid('sourceCourseId must be a valid UUID').optional(),
+  })
+  .strict()
+  .refine((value) => (value.rules === undefined) !== (value.sourceCourseId === undefined), {
+    path: ['rules'],
+    message: 'Give either rules or sourceCourseId',
+  });
+
+export type SaveUsageRuleTemplateInput = z.infer<typeof saveUsageRuleTemplateSchema>;
+
+/** Return the changes without saving them. */
+const copyPreviewSchema = z.boolean().optional();
+
+export const copyCourseUsageRulesSchema = z.union(
+  [
+    z
+      .object({
+        templateId: z.string().uuid('templateId must be a valid UUID'),
+        preview: copyPreviewSchema,
+      })
+      .strict(),
+    z
+      .object({
+        sourceCourseId: z.string().uuid('sourceCourseId must be a valid UUID'),
+        preview: copyPreviewSchema,
+      })
+      .strict(),
+  ],
+  { error: 'Give either templateId or sourceCourseId' },
+);
+
+export type CopyCourseUsageRulesInput = z.infer<typeof copyCourseUsageRulesSchema>;
@@ -4,7 +4,50 @@ import {
   areValidUsageSelections,
   getUsageSectionById,
   isLeafUsageNodeId,
+  type UsageTreeNode,
 } from '@/lib/usage-taxonomy';
+import { findUnmetUsageJustifications, type UsageRuleMap } from '@/lib/usage-rule-tree';
+
+export const MAX_IMPORTED_CONVERSATIONS = 10;
+
+/** Summed message length of all conversations imported into one log. */
+export const MAX_IMPORTED_CONVERSATION_CHARS = 200_000;
+
+export function importedConversationLength(conversation: {
+  messages: Array<{ text: string }>;
+}): number {
+  return conversation.messages.reduce((sum, message) => sum + message.text.length, 0);
+}
+
+/** Preview checks a form may link to its log; the form keeps the most recent. */
+export const MAX_LINKED_INTENT_CHECKS = 100;
+
+/** A conversation picked from a chat export (see `parseConversationExport`). */
+export const importedConversationSchema = z
+  .object({
+    source: z.enum(['CHATGPT', 'CLAUDE', 'MARKDOWN']),
+    title: z
+      .string()
+      .trim()
+      .min(1, 'Conversation title is required')
+      .max(255, 'Conversation title can be at most 255 characters'),
+    createdAt: z.iso.datetime({ offset: true }).nullable(),
+    messages: z
+      .array(
+        z
+          .object({
+            role: z.enum(['user', 'assistant']),
+            text: z
+              .string()
+              .min(1, 'Conversation messages cannot be empty')
+              .max(20000, 'Conversation messages can be at most 20000 characters'),
+          })
+          .strict(),
+      )
+      .min(1, 'The conversation has no messages')
+      .max(500, 'At most 500 conversation messages can be imported'),
+  })
+  .strict();
 
 export const usageEvidenceSchema = z
   .object({
@@ -14,6 +57,7 @@ export const usageEvidenceSchema = z
       .trim()
       .min(1, 'Evidence text is required')
       .max(10000, 'Evidence text can be at most 10000 characters'),
+    conversation: importedConversationSchema.optional(),
   })
   .strict();
 
@@ -40,15 +84,15 @@ export const createLogSchema = z.object({
   usageEvidence: z
     .array(usageEvidenceSchema)
     .max(200, 'At most 200 evidence items are allowed'),
+  /** PRE_SESSION preview checks the form ran while the reason was written. */
+  intentCheckIds: z
+    .array(z.string().uuid('intentCheckIds items must be valid UUIDs'))
+    .max(
+      MAX_LINKED_INTENT_CHECKS,
+      `At most ${MAX_LINKED_INTENT_CHECKS} intent checks can be linked`,
+    )
+    .optional(),
 }).superRefine((value, ctx) => {
-  if (!areValidUsageSelections(value.usageSubsections)) {
-    ctx.addIssue({
-      code: z.ZodIssueCode.custom,
-      path: ['usageSubsections'],
-      message: 'All usageSubsections must be valid nodes in the usage tree',
-    });
-  }
-
   const selectedNodes = new Set(value.usageSubsections);
   for (const [index, evidence] of value.usageEvidence.entries()) {
     if (!selectedNodes.has(evidence.nodeId)) {
@@ -58,23 +102,95 @@ export const createLogSchema = z.object({
         message: 'Evidence nodeId must be one of selected usageSubsections',
       });
     }
+  }
+
+  const conversations = value.usageEvidence.flatMap((evidence) =>
+    evidence.conversation ? [evidence.conversation] : [],
+  );
+  if (conversations.length > MAX_IMPORTED_CONVERSATIONS) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['usageEvidence'],
+      message: `At most ${MAX_IMPORTED_CONVERSATIONS} imported conversations are allowed`,
+    });
+  }
+
+  const conversationChars = conversations.reduce(
+    (sum, conversation) => sum + importedConversationLength(conversation),
+    0,
+  );
+  if (conversationChars > MAX_IMPORTED_CONVERSATION_CHARS) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['usageEvidence'],
+      message: `Imported conversations can total at most ${MAX_IMPORTED_CONVERSATION_CHARS} characters`,
+    });
+  }
+});
 
-    if (getUsageSectionById(evidence.nodeId)) {
+/**
+ * `createLogSchema` plus the checks that need the usage tree the selections
+ * are made against (the active taxonomy version on the server).
+ */
+export function createLogSchemaForTaxonomy(tree: UsageTreeNode[]) {
+  return createLogSchema.superRefine((value, ctx) => {
+    if (!areValidUsageSelections(tree, value.usageSubsections)) {
       ctx.addIssue({
         code: z.ZodIssueCode.custom,
-        path: ['usageEvidence', index, 'nodeId'],
-        message: 'Evidence can only be attached to child nodes, not root categories',
+        path: ['usageSubsections'],
+        message: 'All usageSubsections must be valid nodes in the usage tree',
       });
     }
 
-    if (!isLeafUsageNodeId(evidence.nodeId)) {
+    for (const [index, evidence] of value.usageEvidence.entries()) {
+      if (getUsageSectionById(tree, evidence.nodeId)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['usageEvidence', index, 'nodeId'],
+          message: 'Evidence can only be attached to child nodes, not root categories',
+        });
+      }
+
+      if (!isLeafUsageNodeId(tree, evidence.nodeId)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['usageEvidence', index, 'nodeId'],
+          message: 'Evidence can only be attached to leaf nodes',
+        });
+      }
+    }
+  });
+}
+
+/**
+ * `createLogSchemaForTaxonomy` plus the conditions of the assignment's
+ * "allowed with justification" rules: a reason, and enough evidence on the node.
+ */
+export function createLogSchemaForRules(tree: UsageTreeNode[], ruleMap: UsageRuleMap) {
+  return createLogSchemaForTaxonomy(tree).superRefine((value, ctx) => {
+    const unmet = findUnmetUsageJustifications(tree, value.usageSubsections, ruleMap, {
+      usageReason: value.usageReason,
+      evidenceNodeIds: value.usageEvidence.map((evidence) => evidence.nodeId),
+    });
+
+    if (unmet.some((item) => item.missingReason)) {
       ctx.addIssue({
         code: z.ZodIssueCode.custom,
-        path: ['usageEvidence', index, 'nodeId'],
-        message: 'Evidence can only be attached to leaf nodes',
+        path: ['usageReason'],
+        message: 'A reason is required for activities allowed only with justification',
       });
     }
-  }
-});
+
+    for (const item of unmet) {
+      if (item.evidenceCount < item.minEvidenceCount) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['usageEvidence'],
+          message: `"${item.nodeId}" needs at least ${item.minEvidenceCount} evidence item(s)`,
+        });
+      }
+    }
+  });
+}
 
 export type CreateLogInput = z.infer<typeof createLogSchema>;
@@ -0,0 +1,7 @@
+import { z } from 'zod';
+
+export const patchNotificationSchema = z
+  .object({
+    isRead: z.boolean(),
+  })
+  .strict();
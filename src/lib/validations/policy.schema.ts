@@ -0,0 +1,85 @@
+import { SeverityLevel } from '@prisma/client';
+import { z } from 'zod';
+
+function keywordListSchema(field: string) {
+  return z
+    .array(
+      z
+        .string()
+        .trim()
+        .min(1, `${field} items cannot be empty`)
+        .max(100, `${field} items can be at most 100 characters`),
+    )
+    .max(100, `At most 100 ${field} are allowed per rule`)
+    .default([]);
+}
+
+export const policyRuleInputSchema = z
+  .object({
+    usageCategory: z
+      .string()
+      .trim()
+      .min(1, 'usageCategory is required')
+      .max(100, 'usageCategory can be at most 100 characters'),
+    severityLevel: z.enum(SeverityLevel),
+    ruleReference: z
+      .string()
+      .trim()
+      .min(1, 'ruleReference is required')
+      .max(100, 'ruleReference can be at most 100 characters'),
+    description: z
+      .string()
+      .trim()
+      .max(2000, 'description can be at most 2000 characters')
+      .optional(),
+    keywords: keywordListSchema('keywords'),
+    keywordsNb: keywordListSchema('keywordsNb'),
+    keywordsNn: keywordListSchema('keywordsNn'),
+  })
+  .strict();
+
+export const createPolicyVersionSchema = z
+  .object({
+    versionNumber: z
+      .string()
+      .trim()
+      .min(1, 'versionNumber is required')
+      .max(100, 'versionNumber can be at most 100 characters'),
+    description: z
+      .string()
+      .trim()
+      .max(2000, 'description can be at most 2000 characters')
+      .optional(),
+    rules: z
+      .array(policyRuleInputSchema)
+      .min(1, 'At least one rule is required')
+      .max(200, 'At most 200 rules are allowed'),
+  })
+  .strict()
+  .superRefine((value, ctx) => {
+    const seen = new Set<string>();
+    for (const [index, rule] of value.rules.entries()) {
+      const key = rule.usageCategory.toLowerCase();
+      if (seen.has(key)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['rules', index, 'usageCategory'],
+          message: 'usageCategory must be unique within a policy version',
+        });
+      }
+      seen.add(key);
+    }
+  });
+
+export const policySimulationQuerySchema = z.object({
+  sample: z.coerce
+    .number()
+    .int('sample must be an integer')
+    .min(1, 'sample must be at least 1')
+    .max(10000, 'sample can be at most 10000')
+    .optional(),
+  download: z.enum(['0', '1']).optional(),
+});
+
+export type PolicyRuleInput = z.infer<typeof policyRuleInputSchema>;
+export type CreatePolicyVersionInput = z.infer<typeof createPolicyVersionSchema>;
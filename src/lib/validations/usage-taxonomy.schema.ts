@@ -0,0 +1,123 @@
+import { z } from 'zod';
+
+import { flattenUsageTree, type UsageTreeNode } from '@/lib/usage-taxonomy';
+
+const MAX_TAXONOMY_NODES = 500;
+const MAX_TAXONOMY_DEPTH = 4;
+
+const usageTreeNodeInputSchema = z.strictObject({
+  id: z
+    .string()
+    .trim()
+    .min(1, 'id is required')
+    .max(150, 'id can be at most 150 characters')
+    .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'id must be a lowercase slug (e.g. "code-review")'),
+  label: z
+    .string()
+    .trim()
+    .min(1, 'label is required')
+    .max(255, 'label can be at most 255 characters'),
+  /** `PolicyRule.usageCategory` the node implies; descendants inherit it. */
+  policyCategory: z
+    .string()
+    .trim()
+    .min(1, 'policyCategory cannot be empty')
+    .max(100, 'policyCategory can be at most 100 characters')
+    .optional(),
+  /** Disallowed for every course unless the course's rules allow it. */
+  baselineDisallowed: z.boolean().optional(),
+  get children(): z.ZodOptional<z.ZodArray<typeof usageTreeNodeInputSchema>> {
+    return z.array(usageTreeNodeInputSchema).optional();
+  },
+});
+
+function treeDepth(nodes: UsageTreeNode[]): number {
+  return nodes.reduce((max, node) => Math.max(max, 1 + treeDepth(node.children ?? [])), 0);
+}
+
+export const createUsageTaxonomyVersionSchema = z
+  .object({
+    versionKey: z
+      .string()
+      .trim()
+      .min(1, 'versionKey is required')
+      .max(20, 'versionKey can be at most 20 characters')
+      .regex(/^[A-Za-z0-9._-]+$/, 'versionKey can only contain letters, digits, ".", "_" and "-"'),
+    description: z
+      .string()
+      .trim()
+      .max(2000, 'description can be at most 2000 characters')
+      .optional(),
+    tree: z.array(usageTreeNodeInputSchema).min(1, 'At least one top-level section is required'),
+  })
+  .strict()
+  .superRefine((value, ctx) => {
+    const records = flattenUsageTree(value.tree);
+
+    if (records.length > MAX_TAXONOMY_NODES) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['tree'],
+        message: `A taxonomy can have at most ${MAX_TAXONOMY_NODES} nodes`,
+      });
+    }
+
+    if (treeDepth(value.tree) > MAX_TAXONOMY_DEPTH) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['tree'],
+        message: `A taxonomy can be at most ${MAX_TAXONOMY_DEPTH} levels deep`,
+      });
+    }
+
+    const seen = new Set<string>();
+    for (const record of records) {
+      if (seen.has(record.nodeId)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['tree'],
+          message: `Node id "${record.nodeId}" is used more than once`,
+        });
+      }
+      seen.add(record.nodeId);
+    }
+  });
+
+export type CreateUsageTaxonomyVersionInput = z.infer<typeof createUsageTaxonomyVersionSchema>;
+
+export const setUsageTaxonomyMappingSchema = z
+  .object({
+    /** Defaults to the active version. */
+    fromVersionId: z.string().uuid('fromVersionId must be a valid UUID').optional(),
+    mappings: z
+      .array(
+        z.strictObject({
+          oldNodeId: z.string().trim().min(1, 'oldNodeId is required').max(150),
+          /** Empty removes the node; several split it. */
+          newNodeIds: z.array(z.string().trim().min(1).max(150)).max(50),
+        }),
+      )
+      .max(MAX_TAXONOMY_NODES, `At most ${MAX_TAXONOMY_NODES} mappings are allowed`),
+  })
+  .strict();
+
+export type SetUsageTaxonomyMappingInput = z.infer<typeof setUsageTaxonomyMappingSchema>;
+
+export const setUsageNodePolicyCategoriesSchema = z
+  .object({
+    categories: z
+      .array(
+        z.strictObject({
+          nodeId: z.string().trim().min(1, 'nodeId is required').max(150),
+          /** Null clears the node's own category so it inherits its parent's. */
+          policyCategory: z.string().trim().min(1).max(100).nullable(),
+        }),
+      )
+      .min(1, 'At least one node is required')
+      .max(MAX_TAXONOMY_NODES, `At most ${MAX_TAXONOMY_NODES} nodes can be updated at once`),
+  })
+  .strict();
+
+export type SetUsageNodePolicyCategoriesInput = z.infer<
+  typeof setUsageNodePolicyCategoriesSchema
+>;
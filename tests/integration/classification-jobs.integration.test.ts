@@ -0,0 +1,308 @@
+import assert from 'node:assert/strict';
+import { spawn } from 'node:child_process';
+import { after, before, describe, test } from 'node:test';
+
+import { ClassificationJobStatus, ComplianceStatus, ResolutionStatus } from '@prisma/client';
+
+import {
+  completeClassificationJob,
+  failClassificationJob,
+  releaseStaleClassificationJobs,
+  retryDeadClassificationJob,
+  STALE_JOB_LOCK_MS,
+} from '../../src/lib/db/classification-jobs';
+import { prisma } from '../../src/lib/db/client';
+import { encryptText } from '../../src/lib/encryption/aes';
+import { drainClassificationJobs } from '../../src/lib/jobs/classification-worker';
+
+async function createPendingLog(revision = 1): Promise<string> {
+  const student = await prisma.user.findUnique({
+    where: { email: 'student@ntnu.no' },
+    select: { id: true },
+  });
+  assert.ok(student?.id);
+
+  const assignment = await prisma.assignment.findFirst({
+    where: {
+      course: {
+        enrollments: {
+          some: {
+            userId: student.id,
+            role: 'STUDENT',
+          },
+        },
+      },
+    },
+    select: { id: true },
+  });
+  assert.ok(assignment?.id);
+
+  const activePolicy = await prisma.policyVersion.findFirst({
+    where: { status: 'ACTIVE' },
+    select: { id: true },
+  });
+  assert.ok(activePolicy?.id);
+
+  const log = await prisma.aiLog.create({
+    data: {
+      userId: student.id,
+      assignmentId: assignment.id,
+      usageReason: encryptText('I only need grammar proofreading help'),
+      aiTool: 'ChatGPT',
+      revision,
+      complianceStatus: ComplianceStatus.PENDING,
+      appliedPolicyVersionId: activePolicy.id,
+      resolutionStatus: ResolutionStatus.NONE,
+    },
+    select: { id: true },
+  });
+
+  return log.id;
+}
+
+before(async () => {
+  const seedProcess = spawn('npm', ['run', 'db:seed'], {
+    cwd: process.cwd(),
+    env: process.env,
+    stdio: 'inherit',
+  });
+
+  const seedExitCode: number = await new Promise((resolve, reject) => {
+    seedProcess.on('error', reject);
+    seedProcess.on('close', (code) => resolve(code ?? 1));
+  });
+
+  if (seedExitCode !== 0) {
+    throw new Error(`db:seed failed with exit code ${seedExitCode}`);
+  }
+});
+
+after(async () => {
+  await prisma.$disconnect();
+});
+
+describe('classification job queue', () => {
+  test('supersedes a job whose log was edited after it was queued', async () => {
+    const logId = await createPendingLog(2);
+    const job = await prisma.classificationJob.create({
+      data: { aiLogId: logId, logRevision: 1 },
+      select: { id: true },
+    });
+
+    await drainClassificationJobs();
+
+    const updated = await prisma.classificationJob.findUnique({
+      where: { id: job.id },
+      select: { status: true, completedAt: true },
+    });
+    assert.equal(updated?.status, ClassificationJobStatus.SUPERSEDED);
+    assert.ok(updated?.completedAt);
+    assert.equal(
+      await prisma.complianceCheck.count({ where: { aiLogId: logId, checkType: 'POST_SESSION' } }),
+      0,
+    );
+  });
+
+  test('moves a failing job to DEAD once its attempts are used up', async () => {
+    const logId = await createPendingLog();
+    const lockedAt = new Date(Date.now() - 1000);
+    const job = await prisma.classificationJob.create({
+      data: {
+        aiLogId: logId,
+        logRevision: 1,
+        status: ClassificationJobStatus.RUNNING,
+        attempts: 3,
+        maxAttempts: 3,
+        lockedAt,
+      },
+      select: { id: true },
+    });
+
+    const status = await failClassificationJob(
+      {
+        id: job.id,
+        aiLogId: logId,
+        logRevision: 1,
+        attempts: 3,
+        maxAttempts: 3,
+        lockedAt,
+        reclassification: false,
+        requestedById: null,
+      },
+      new Error('classifier unavailable'),
+    );
+
+    assert.equal(status, ClassificationJobStatus.DEAD);
+    const updated = await prisma.classificationJob.findUnique({
+      where: { id: job.id },
+      select: { status: true, lastError: true, lockedAt: true },
+    });
+    assert.equal(updated?.status, ClassificationJobStatus.DEAD);
+    assert.equal(updated?.lastError, 'classifier unavailable');
+    assert.equal(updated?.lockedAt, null);
+  });
+
+  test('ignores a late failure from a claim whose lock was handed out again', async () => {
+    const logId = await createPendingLog();
+    const firstLockedAt = new Date(Date.now() - STALE_JOB_LOCK_MS - 60_000);
+    const job = await prisma.classificationJob.create({
+      data: {
+        aiLogId: logId,
+        logRevision: 1,
+        status: ClassificationJobStatus.RUNNING,
+        attempts: 2,
+        lockedAt: new Date(),
+      },
+      select: { id: true, maxAttempts: true },
+    });
+
+    const status = await failClassificationJob(
+      {
+        id: job.id,
+        aiLogId: logId,
+        logRevision: 1,
+        attempts: 1,
+        maxAttempts: job.maxAttempts,
+        lockedAt: firstLockedAt,
+        reclassification: false,
+        requestedById: null,
+      },
+      new Error('timed out'),
+    );
+
+    assert.equal(status, null);
+    const updated = await prisma.classificationJob.findUnique({
+      where: { id: job.id },
+      select: { status: true, attempts: true, lastError: true },
+    });
+    assert.equal(updated?.status, ClassificationJobStatus.RUNNING);
+    assert.equal(updated?.attempts, 2);
+    assert.equal(updated?.lastError, null);
+  });
+
+  test('refuses to complete a job for a claim whose lock was handed out again', async () => {
+    const logId = await createPendingLog();
+    const job = await prisma.classificationJob.create({
+      data: {
+        aiLogId: logId,
+        logRevision: 1,
+        status: ClassificationJobStatus.RUNNING,
+        attempts: 2,
+        lockedAt: new Date(),
+      },
+      select: { id: true, maxAttempts: true },
+    });
+
+    const completed = await completeClassificationJob(
+      prisma,
+      {
+        id: job.id,
+        aiLogId: logId,
+        logRevision: 1,
+        attempts: 1,
+        maxAttempts: job.maxAttempts,
+        lockedAt: new Date(Date.now() - STALE_JOB_LOCK_MS - 60_000),
+        reclassification: false,
+        requestedById: null,
+      },
+      ClassificationJobStatus.SUCCEEDED,
+    );
+
+    assert.equal(completed, false);
+    const updated = await prisma.classificationJob.findUnique({
+      where: { id: job.id },
+      select: { status: true, completedAt: true },
+    });
+    assert.equal(updated?.status, ClassificationJobStatus.RUNNING);
+    assert.equal(updated?.completedAt, null);
+  });
+
+  test('retries a DEAD job with a fresh attempt budget and no error', async () => {
+    const logId = await createPendingLog();
+    const job = await prisma.classificationJob.create({
+      data: {
+        aiLogId: logId,
+        logRevision: 1,
+        status: ClassificationJobStatus.DEAD,
+        attempts: 5,
+        maxAttempts: 5,
+        lastError: 'classifier unavailable',
+        completedAt: new Date(),
+      },
+      select: { id: true },
+    });
+
+    assert.equal(await retryDeadClassificationJob(job.id), true);
+    const updated = await prisma.classificationJob.findUnique({
+      where: { id: job.id },
+      select: { status: true, attempts: true, lastError: true, completedAt: true },
+    });
+    assert.deepEqual(updated, {
+      status: ClassificationJobStatus.PENDING,
+      attempts: 0,
+      lastError: null,
+      completedAt: null,
+    });
+  });
+
+  test('requeues stale running jobs and retires those without attempts left', async () => {
+    const staleLockedAt = new Date(Date.now() - STALE_JOB_LOCK_MS - 60_000);
+    const [retryable, exhausted, fresh] = await Promise.all([
+      createPendingLog(),
+      createPendingLog(),
+      createPendingLog(),
+    ]);
+    const jobs = await Promise.all([
+      prisma.classificationJob.create({
+        data: {
+          aiLogId: retryable,
+          logRevision: 1,
+          status: ClassificationJobStatus.RUNNING,
+          attempts: 1,
+          maxAttempts: 5,
+          lockedAt: staleLockedAt,
+        },
+        select: { id: true },
+      }),
+      prisma.classificationJob.create({
+        data: {
+          aiLogId: exhausted,
+          logRevision: 1,
+          status: ClassificationJobStatus.RUNNING,
+          attempts: 5,
+          maxAttempts: 5,
+          lockedAt: staleLockedAt,
+        },
+        select: { id: true },
+      }),
+      prisma.classificationJob.create({
+        data: {
+          aiLogId: fresh,
+          logRevision: 1,
+          status: ClassificationJobStatus.RUNNING,
+          attempts: 1,
+          lockedAt: new Date(),
+        },
+        select: { id: true },
+      }),
+    ]);
+
+    assert.ok((await releaseStaleClassificationJobs()) >= 2);
+
+    const statuses = await Promise.all(
+      jobs.map(async (job) =>
+        (
+          await prisma.classificationJob.findUnique({
+            where: { id: job.id },
+            select: { status: true },
+          })
+        )?.status,
+      ),
+    );
+    assert.deepEqual(statuses, [
+      ClassificationJobStatus.PENDING,
+      ClassificationJobStatus.DEAD,
+      ClassificationJobStatus.RUNNING,
+    ]);
+  });
+});
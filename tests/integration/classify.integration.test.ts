@@ -7,6 +7,7 @@ import { ComplianceStatus, ResolutionStatus } from '@prisma/client';
 
 import { prisma } from '../../src/lib/db/client';
 import { encryptText } from '../../src/lib/encryption/aes';
+import { drainClassificationJobs } from '../../src/lib/jobs/classification-worker';
 
 const PORT = 3215;
 const BASE_URL = `http://127.0.0.1:${PORT}`;
@@ -179,6 +180,155 @@ describe('POST /api/compliance/classify', () => {
     assert.equal(check.detectedCategory, 'Code Generation');
   });
 
+  test('settles the queued job so the worker does not classify the revision again', async () => {
+    const student = await prisma.user.findUnique({
+      where: { email: 'student@ntnu.no' },
+      select: { id: true },
+    });
+    assert.ok(student?.id);
+
+    const assignment = await prisma.assignment.findFirst({
+      where: {
+        course: {
+          enrollments: {
+            some: {
+              userId: student.id,
+              role: 'STUDENT',
+            },
+          },
+        },
+      },
+      select: { id: true },
+    });
+    assert.ok(assignment?.id);
+
+    const activePolicy = await prisma.policyVersion.findFirst({
+      where: { status: 'ACTIVE' },
+      select: { id: true },
+    });
+    assert.ok(activePolicy?.id);
+
+    const log = await prisma.aiLog.create({
+      data: {
+        userId: student.id,
+        assignmentId: assignment.id,
+        usageReason: encryptText('I only need grammar proofreading help'),
+        aiTool: 'ChatGPT',
+        complianceStatus: ComplianceStatus.PENDING,
+        appliedPolicyVersionId: activePolicy.id,
+        resolutionStatus: ResolutionStatus.NONE,
+        classificationJobs: { create: { logRevision: 1 } },
+      },
+      select: { id: true },
+    });
+
+    const response = await fetch(`${BASE_URL}/api/compliance/classify`, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'x-internal-token': INTERNAL_TOKEN,
+      },
+      body: JSON.stringify({ logId: log.id }),
+    });
+    assert.equal(response.status, 200);
+
+    await drainClassificationJobs();
+
+    const checks = await prisma.complianceCheck.count({
+      where: { aiLogId: log.id, checkType: 'POST_SESSION' },
+    });
+    assert.equal(checks, 1);
+    const audits = await prisma.auditLog.count({
+      where: { resourceId: log.id, actionType: 'COMPLIANCE_CLASSIFIED' },
+    });
+    assert.equal(audits, 1);
+    const job = await prisma.classificationJob.findFirst({
+      where: { aiLogId: log.id },
+      select: { status: true },
+    });
+    assert.equal(job?.status, 'SUCCEEDED');
+  });
+
+  test('classifies imported conversation prompts instead of the description', async () => {
+    const student = await prisma.user.findUnique({
+      where: { email: 'student@ntnu.no' },
+      select: { id: true },
+    });
+    assert.ok(student?.id);
+
+    const assignment = await prisma.assignment.findFirst({
+      where: {
+        course: {
+          enrollments: {
+            some: {
+              userId: student.id,
+              role: 'STUDENT',
+            },
+          },
+        },
+      },
+      select: { id: true },
+    });
+    assert.ok(assignment?.id);
+
+    const activePolicy = await prisma.policyVersion.findFirst({
+      where: { status: 'ACTIVE' },
+      select: { id: true },
+    });
+    assert.ok(activePolicy?.id);
+
+    const log = await prisma.aiLog.create({
+      data: {
+        userId: student.id,
+        assignmentId: assignment.id,
+        usageReason: encryptText('I needed some help'),
+        sessionDescription: encryptText('Grammar proofreading only'),
+        aiTool: 'ChatGPT',
+        complianceStatus: ComplianceStatus.PENDING,
+        intentCategory: 'Grammar Fix',
+        appliedPolicyVersionId: activePolicy.id,
+        resolutionStatus: ResolutionStatus.NONE,
+        conversationLinks: {
+          create: {
+            evidenceType: 'CONVERSATION',
+            comment: encryptText('Imported conversation: Parser'),
+            conversation: encryptText(
+              JSON.stringify({
+                source: 'CHATGPT',
+                title: 'Parser',
+                createdAt: null,
+                messages: [
+                  { role: 'user', text: 'Please generate code for the parser module' },
+                  { role: 'assistant', text: 'Here is a grammar proofreading checklist.' },
+                ],
+              }),
+            ),
+          },
+        },
+      },
+      select: { id: true },
+    });
+
+    const response = await fetch(`${BASE_URL}/api/compliance/classify`, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'x-internal-token': INTERNAL_TOKEN,
+      },
+      body: JSON.stringify({ logId: log.id }),
+    });
+    assert.equal(response.status, 200);
+
+    const check = await prisma.complianceCheck.findFirst({
+      where: { aiLogId: log.id, checkType: 'POST_SESSION' },
+      select: { detectedCategory: true, flagsJson: true },
+    });
+    assert.equal(check?.detectedCategory, 'Code Generation');
+    const spans = (check?.flagsJson as { matchedSpans?: Array<{ field: string }> }).matchedSpans;
+    assert.ok(spans?.length);
+    assert.ok(spans.every((span) => span.field === 'conversationPrompts'));
+  });
+
   test('returns 409 when log is already classified', async () => {
     const alreadyClassified = await prisma.aiLog.findFirst({
       where: {
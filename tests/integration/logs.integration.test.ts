@@ -242,6 +242,194 @@ describe('POST + GET /api/logs', () => {
     assert.equal(fetched.conversationLinks[1]?.text, payload.usageEvidence[1]?.text);
   });
 
+  test('links the intent checks the form sent and records the submission check', async () => {
+    const cookies = await login('student@ntnu.no', 'Student User');
+
+    const assignment = await prisma.assignment.findFirst({
+      where: {
+        course: {
+          enrollments: {
+            some: {
+              user: { email: 'student@ntnu.no' },
+              role: 'STUDENT',
+            },
+          },
+        },
+      },
+      select: { id: true },
+    });
+    assert.ok(assignment?.id);
+
+    const [preview, stray] = await Promise.all(
+      ['help me generate code', 'a check from another tab'].map(async (reason) => {
+        const response = await fetch(`${BASE_URL}/api/compliance/intent-check`, {
+          method: 'POST',
+          headers: {
+            'content-type': 'application/json',
+            cookie: serializeCookies(cookies),
+          },
+          body: JSON.stringify({ reason, assignmentId: assignment.id }),
+        });
+        assert.equal(response.status, 200);
+        return (await response.json()) as { checkId: string };
+      }),
+    );
+
+    const postResponse = await fetch(`${BASE_URL}/api/logs`, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        cookie: serializeCookies(cookies),
+      },
+      body: JSON.stringify({
+        assignmentId: assignment.id,
+        usageSubsections: ['critique-and-quality-improvement'],
+        usageReason: 'I used AI to get grammar feedback.',
+        aiTool: 'ChatGPT',
+        usageEvidence: [],
+        intentCheckIds: [preview.checkId],
+      }),
+    });
+    assert.equal(postResponse.status, 201);
+    const created = (await postResponse.json()) as { id: string };
+
+    const checks = await prisma.complianceCheck.findMany({
+      where: { aiLogId: created.id, checkType: 'PRE_SESSION' },
+      orderBy: [{ checkedAt: 'asc' }],
+    });
+
+    assert.equal(checks[0]?.id, preview.checkId);
+    assert.ok(!checks.some((check) => check.id === stray.checkId));
+    const submission = checks.at(-1);
+    assert.equal((submission?.flagsJson as { source?: string }).source, 'SUBMISSION');
+    assert.equal(submission?.detectedCategory, 'Grammar Fix');
+
+    const strayCheck = await prisma.complianceCheck.findUnique({
+      where: { id: stray.checkId },
+      select: { aiLogId: true },
+    });
+    assert.equal(strayCheck?.aiLogId, null);
+  });
+
+  test('links the intent checks sent with an edit', async () => {
+    const cookies = await login('student@ntnu.no', 'Student User');
+
+    const assignment = await prisma.assignment.findFirst({
+      where: {
+        course: {
+          enrollments: {
+            some: {
+              user: { email: 'student@ntnu.no' },
+              role: 'STUDENT',
+            },
+          },
+        },
+      },
+      select: { id: true },
+    });
+    assert.ok(assignment?.id);
+
+    const logBody = {
+      assignmentId: assignment.id,
+      usageSubsections: ['critique-and-quality-improvement'],
+      usageReason: 'I used AI to get grammar feedback.',
+      aiTool: 'ChatGPT',
+      usageEvidence: [],
+    };
+    const postResponse = await fetch(`${BASE_URL}/api/logs`, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        cookie: serializeCookies(cookies),
+      },
+      body: JSON.stringify(logBody),
+    });
+    assert.equal(postResponse.status, 201);
+    const created = (await postResponse.json()) as { id: string };
+
+    const previewResponse = await fetch(`${BASE_URL}/api/compliance/intent-check`, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        cookie: serializeCookies(cookies),
+      },
+      body: JSON.stringify({ reason: 'proofread my essay', assignmentId: assignment.id }),
+    });
+    assert.equal(previewResponse.status, 200);
+    const preview = (await previewResponse.json()) as { checkId: string };
+
+    const patchResponse = await fetch(`${BASE_URL}/api/logs/${created.id}`, {
+      method: 'PATCH',
+      headers: {
+        'content-type': 'application/json',
+        cookie: serializeCookies(cookies),
+      },
+      body: JSON.stringify({
+        ...logBody,
+        usageReason: 'I asked AI to proofread my essay.',
+        intentCheckIds: [preview.checkId],
+      }),
+    });
+    assert.equal(patchResponse.status, 200);
+
+    const check = await prisma.complianceCheck.findUnique({
+      where: { id: preview.checkId },
+      select: { aiLogId: true },
+    });
+    assert.equal(check?.aiLogId, created.id);
+  });
+
+  test('keeps every session logged for the same assignment', async () => {
+    const cookies = await login('student@ntnu.no', 'Student User');
+
+    const assignment = await prisma.assignment.findFirst({
+      where: {
+        course: {
+          enrollments: {
+            some: {
+              user: { email: 'student@ntnu.no' },
+              role: 'STUDENT',
+            },
+          },
+        },
+      },
+      select: { id: true },
+    });
+    assert.ok(assignment?.id);
+
+    const createdIds: string[] = [];
+    for (const aiTool of ['ChatGPT', 'Claude']) {
+      const response: Response = await fetch(`${BASE_URL}/api/logs`, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          cookie: serializeCookies(cookies),
+        },
+        body: JSON.stringify({
+          assignmentId: assignment.id,
+          usageSubsections: ['critique-and-quality-improvement'],
+          usageReason: 'I used AI to get grammar feedback.',
+          aiTool,
+          usageEvidence: [],
+        }),
+      });
+      assert.equal(response.status, 201);
+      createdIds.push(((await response.json()) as { id: string }).id);
+    }
+
+    const getResponse = await fetch(`${BASE_URL}/api/logs`, {
+      headers: { cookie: serializeCookies(cookies) },
+    });
+    assert.equal(getResponse.status, 200);
+    const payload = (await getResponse.json()) as {
+      logs: Array<{ id: string; assignmentId: string; aiTool: string }>;
+    };
+    const sessions = payload.logs.filter((log) => log.assignmentId === assignment.id);
+
+    assert.deepEqual(sessions.map((log) => log.id).sort(), [...createdIds].sort());
+    assert.deepEqual(sessions.map((log) => log.aiTool).sort(), ['ChatGPT', 'Claude']);
+  });
+
   test('rejects subsection that does not belong to selected section', async () => {
     const cookies = await login('student@ntnu.no', 'Student User');
 
@@ -369,5 +557,143 @@ describe('POST + GET /api/logs', () => {
     });
     assert.equal(links.length, 1);
     assert.equal(links[0]?.usageNodeId, 'critique-and-quality-improvement');
+
+    const revisionsResponse = await fetch(`${BASE_URL}/api/logs/${created.id}/revisions`, {
+      headers: { cookie: serializeCookies(cookies) },
+    });
+    assert.equal(revisionsResponse.status, 200);
+    const history = (await revisionsResponse.json()) as {
+      revisions: Array<{
+        revision: number;
+        content: { usageReason: string; evidence: Array<{ comment: string | null }> };
+        changes: Array<{ field: string }>;
+      }>;
+    };
+    assert.deepEqual(history.revisions.map((revision) => revision.revision), [1, 2]);
+    assert.equal(
+      history.revisions[0]?.content.usageReason,
+      'Initial reason for creating this log entry.',
+    );
+    assert.equal(history.revisions[0]?.content.evidence[0]?.comment, 'Initial evidence text');
+    assert.deepEqual(
+      history.revisions[1]?.changes.map((change) => change.field),
+      [
+        'assignmentId',
+        'usageSubsections',
+        'usageReason',
+        'sessionDescription',
+        'aiTool',
+        'evidence',
+      ],
+    );
+  });
+
+  test('caps imported conversation text and stores an unchanged one once', async () => {
+    const cookies = await login('student@ntnu.no', 'Student User');
+
+    const assignment = await prisma.assignment.findFirst({
+      where: {
+        course: {
+          enrollments: {
+            some: {
+              user: { email: 'student@ntnu.no' },
+              role: 'STUDENT',
+            },
+          },
+        },
+      },
+      select: { id: true },
+    });
+    assert.ok(assignment?.id);
+
+    const conversation = {
+      source: 'CHATGPT',
+      title: 'Parser',
+      createdAt: null,
+      messages: [
+        { role: 'user', text: 'Why does my parser loop forever?' },
+        { role: 'assistant', text: 'The cursor is never advanced.' },
+      ],
+    };
+    const logBody = (usageReason: string, conversations: Array<typeof conversation>) =>
+      JSON.stringify({
+        assignmentId: assignment.id,
+        usageSubsections: ['debugging-support'],
+        usageReason,
+        sessionDescription: '',
+        aiTool: 'ChatGPT',
+        usageEvidence: conversations.map((item) => ({
+          nodeId: 'debugging-support',
+          text: `Imported conversation: ${item.title}`,
+          conversation: item,
+        })),
+      });
+    const headers = {
+      'content-type': 'application/json',
+      cookie: serializeCookies(cookies),
+    };
+
+    const longMessages = Array.from({ length: 11 }, () => ({
+      role: 'user',
+      text: 'x'.repeat(20000),
+    }));
+    const tooLong = await fetch(`${BASE_URL}/api/logs`, {
+      method: 'POST',
+      headers,
+      body: logBody('I asked for help finding a bug.', [
+        { ...conversation, messages: longMessages.slice(0, 6) },
+        { ...conversation, title: 'Parser 2', messages: longMessages.slice(6) },
+      ]),
+    });
+    assert.equal(tooLong.status, 400);
+
+    const createResponse = await fetch(`${BASE_URL}/api/logs`, {
+      method: 'POST',
+      headers,
+      body: logBody('I asked for help finding a bug.', [conversation]),
+    });
+    assert.equal(createResponse.status, 201);
+    const created = (await createResponse.json()) as { id: string };
+
+    const patchResponse = await fetch(`${BASE_URL}/api/logs/${created.id}`, {
+      method: 'PATCH',
+      headers,
+      body: logBody('I asked for help finding a bug in the parser.', [conversation]),
+    });
+    assert.equal(patchResponse.status, 200);
+
+    const stored = await prisma.aiLogRevision.findMany({
+      where: { aiLogId: created.id },
+      select: { evidenceJson: true },
+      orderBy: [{ revision: 'asc' }],
+    });
+    const storedEvidence = stored.map(
+      (row) => (row.evidenceJson as Array<{ conversation?: string | null }>)[0],
+    );
+    assert.ok(storedEvidence[0]?.conversation);
+    assert.deepEqual(storedEvidence[1], {
+      ...storedEvidence[1],
+      conversation: null,
+      conversationRef: { revision: 1, index: 0 },
+    });
+
+    const revisionsResponse = await fetch(`${BASE_URL}/api/logs/${created.id}/revisions`, {
+      headers: { cookie: serializeCookies(cookies) },
+    });
+    assert.equal(revisionsResponse.status, 200);
+    const history = (await revisionsResponse.json()) as {
+      revisions: Array<{
+        content: { evidence: Array<{ conversation: unknown }> };
+        changes: Array<{ field: string }>;
+      }>;
+    };
+    assert.deepEqual(
+      history.revisions.map((revision) => revision.content.evidence[0]?.conversation),
+      [conversation, conversation],
+    );
+    assert.deepEqual(
+      history.revisions[1]?.changes.map((change) => change.field),
+      ['usageReason'],
+    );
   });
 });
@@ -0,0 +1,329 @@
+import assert from 'node:assert/strict';
+import { spawn } from 'node:child_process';
+import { randomUUID } from 'node:crypto';
+import { after, before, describe, test } from 'node:test';
+
+import { ClassificationJobStatus, ComplianceStatus, ResolutionStatus } from '@prisma/client';
+
+import { prisma } from '../../src/lib/db/client';
+import { ReclassifyScopeTooLargeError, reclassifyLogs } from '../../src/lib/db/reclassification';
+import {
+  createDraftUsageTaxonomyVersion,
+  getActiveUsageTaxonomy,
+  publishUsageTaxonomyVersion,
+  setUsageTaxonomyMappings,
+} from '../../src/lib/db/usage-taxonomies';
+import { encryptText } from '../../src/lib/encryption/aes';
+import { drainClassificationJobs } from '../../src/lib/jobs/classification-worker';
+import type { UsageTreeNode } from '../../src/lib/usage-taxonomy';
+
+let adminId = '';
+let studentId = '';
+let policyVersionId = '';
+
+async function createAssignment(): Promise<string> {
+  const course = await prisma.course.findFirst({
+    where: { enrollments: { some: { userId: studentId, role: 'STUDENT' } } },
+    select: { id: true },
+  });
+  assert.ok(course?.id);
+
+  const assignment = await prisma.assignment.create({
+    data: {
+      courseId: course.id,
+      title: 'Reclassification',
+      assignmentCode: `RECL-${randomUUID().slice(0, 8)}`,
+      dueDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+    },
+    select: { id: true },
+  });
+
+  return assignment.id;
+}
+
+/** A log whose first classification ran (`firstJob` SUCCEEDED) or is still due. */
+async function createLog(
+  assignmentId: string,
+  complianceStatus: ComplianceStatus,
+  resolutionStatus: ResolutionStatus = ResolutionStatus.NONE,
+  firstJob: ClassificationJobStatus = ClassificationJobStatus.SUCCEEDED,
+): Promise<string> {
+  const log = await prisma.aiLog.create({
+    data: {
+      userId: studentId,
+      assignmentId,
+      usageReason: encryptText('I only need grammar proofreading help'),
+      aiTool: 'ChatGPT',
+      intentCategory: 'Grammar Fix',
+      complianceStatus,
+      appliedPolicyVersionId: policyVersionId,
+      resolutionStatus,
+      classificationJobs: { create: { logRevision: 1, status: firstJob } },
+    },
+    select: { id: true },
+  });
+
+  return log.id;
+}
+
+function renameUsageNode(tree: UsageTreeNode[], from: string, to: string): UsageTreeNode[] {
+  return tree.map((node) => ({
+    ...node,
+    id: node.id === from ? to : node.id,
+    ...(node.children ? { children: renameUsageNode(node.children, from, to) } : {}),
+  }));
+}
+
+/** Publishes a copy of the active taxonomy with one node renamed; returns the old version key. */
+async function publishUsageNodeRename(from: string, to: string): Promise<string> {
+  const active = await getActiveUsageTaxonomy();
+  assert.ok(active);
+
+  const draft = await createDraftUsageTaxonomyVersion({
+    versionKey: `recl-${randomUUID().slice(0, 8)}`,
+    tree: renameUsageNode(active.tree, from, to),
+  });
+  const mapping = await setUsageTaxonomyMappings(draft.id, {
+    mappings: [{ oldNodeId: from, newNodeIds: [to] }],
+  });
+  assert.equal(mapping.outcome, 'SAVED');
+  const published = await publishUsageTaxonomyVersion(draft.id, adminId);
+  assert.equal(published.outcome, 'PUBLISHED');
+
+  return active.versionKey;
+}
+
+before(async () => {
+  const seedProcess = spawn('npm', ['run', 'db:seed'], {
+    cwd: process.cwd(),
+    env: process.env,
+    stdio: 'inherit',
+  });
+
+  const seedExitCode: number = await new Promise((resolve, reject) => {
+    seedProcess.on('error', reject);
+    seedProcess.on('close', (code) => resolve(code ?? 1));
+  });
+
+  if (seedExitCode !== 0) {
+    throw new Error(`db:seed failed with exit code ${seedExitCode}`);
+  }
+
+  const [admin, student, activePolicy] = await Promise.all([
+    prisma.user.findUnique({ where: { email: 'admin@ntnu.no' }, select: { id: true } }),
+    prisma.user.findUnique({ where: { email: 'student@ntnu.no' }, select: { id: true } }),
+    prisma.policyVersion.findFirst({ where: { status: 'ACTIVE' }, select: { id: true } }),
+  ]);
+  assert.ok(admin?.id);
+  assert.ok(student?.id);
+  assert.ok(activePolicy?.id);
+  adminId = admin.id;
+  studentId = student.id;
+  policyVersionId = activePolicy.id;
+});
+
+after(async () => {
+  await prisma.$disconnect();
+});
+
+describe('reclassifyLogs', () => {
+  test('queues only classified logs of the requested assignment', async () => {
+    const [assignmentId, otherAssignmentId] = await Promise.all([
+      createAssignment(),
+      createAssignment(),
+    ]);
+    const classified = await createLog(assignmentId, ComplianceStatus.COMPLIANT);
+    const pending = await createLog(
+      assignmentId,
+      ComplianceStatus.PENDING,
+      ResolutionStatus.NONE,
+      ClassificationJobStatus.PENDING,
+    );
+    // Submission stores a provisional status before the first job has run.
+    const provisional = await createLog(
+      assignmentId,
+      ComplianceStatus.NON_COMPLIANT,
+      ResolutionStatus.UNRESOLVED,
+      ClassificationJobStatus.PENDING,
+    );
+    const otherAssignment = await createLog(otherAssignmentId, ComplianceStatus.COMPLIANT);
+
+    const summary = await reclassifyLogs({ assignmentId }, adminId);
+
+    assert.deepEqual(summary, {
+      scope: 'assignment',
+      scopeId: assignmentId,
+      matched: 1,
+      queued: 1,
+    });
+    const jobs = await prisma.classificationJob.findMany({
+      where: {
+        aiLogId: { in: [classified, pending, provisional, otherAssignment] },
+        reclassification: true,
+      },
+      select: { aiLogId: true, status: true, requestedById: true },
+    });
+    assert.deepEqual(jobs, [
+      { aiLogId: classified, status: ClassificationJobStatus.PENDING, requestedById: adminId },
+    ]);
+
+    const audit = await prisma.auditLog.findFirst({
+      where: { actionType: 'COMPLIANCE_RECLASSIFY_QUEUED', resourceId: assignmentId },
+      select: { actorId: true },
+    });
+    assert.equal(audit?.actorId, adminId);
+  });
+
+  test('refuses a scope larger than the limit without queuing anything', async () => {
+    const assignmentId = await createAssignment();
+    const logIds = await Promise.all([
+      createLog(assignmentId, ComplianceStatus.COMPLIANT),
+      createLog(assignmentId, ComplianceStatus.WARNING),
+      createLog(assignmentId, ComplianceStatus.NON_COMPLIANT),
+    ]);
+
+    await assert.rejects(
+      reclassifyLogs({ assignmentId }, adminId, undefined, 2),
+      (error: unknown) => error instanceof ReclassifyScopeTooLargeError && error.matched === 3,
+    );
+    assert.equal(
+      await prisma.classificationJob.count({
+        where: { aiLogId: { in: logIds }, reclassification: true },
+      }),
+      0,
+    );
+  });
+
+  test('keeps the student resolution when the re-run no longer requires one', async () => {
+    const assignmentId = await createAssignment();
+    const logId = await createLog(
+      assignmentId,
+      ComplianceStatus.NON_COMPLIANT,
+      ResolutionStatus.STUDENT_RESPONDED,
+    );
+
+    const summary = await reclassifyLogs({ logId }, adminId);
+    assert.equal(summary.queued, 1);
+
+    await drainClassificationJobs();
+
+    const log = await prisma.aiLog.findUnique({
+      where: { id: logId },
+      select: { conflictFlag: true, resolutionStatus: true },
+    });
+    assert.equal(log?.conflictFlag, false);
+    assert.equal(log?.resolutionStatus, ResolutionStatus.STUDENT_RESPONDED);
+
+    const job = await prisma.classificationJob.findFirst({
+      where: { aiLogId: logId, reclassification: true },
+      select: { status: true },
+    });
+    assert.equal(job?.status, ClassificationJobStatus.SUCCEEDED);
+
+    const audit = await prisma.auditLog.findFirst({
+      where: { actionType: 'COMPLIANCE_RECLASSIFIED', resourceId: logId },
+      select: { actorId: true, metadataJson: true },
+    });
+    assert.equal(audit?.actorId, adminId);
+    const metadata = audit?.metadataJson as { changedFields?: string[] } | undefined;
+    assert.ok(!metadata?.changedFields?.includes('resolutionStatus'));
+
+    const check = await prisma.complianceCheck.findFirst({
+      where: { aiLogId: logId, checkType: 'POST_SESSION' },
+      select: { flagsJson: true },
+    });
+    assert.equal((check?.flagsJson as { reclassification?: boolean }).reclassification, true);
+  });
+
+  test('still runs a re-run as one after its requester was deleted', async () => {
+    const assignmentId = await createAssignment();
+    const logId = await createLog(
+      assignmentId,
+      ComplianceStatus.NON_COMPLIANT,
+      ResolutionStatus.STUDENT_RESPONDED,
+    );
+    // `requested_by` is set to NULL when the requesting account is deleted.
+    await prisma.classificationJob.create({
+      data: { aiLogId: logId, logRevision: 1, reclassification: true, requestedById: null },
+    });
+
+    await drainClassificationJobs();
+
+    const log = await prisma.aiLog.findUnique({
+      where: { id: logId },
+      select: { resolutionStatus: true },
+    });
+    assert.equal(log?.resolutionStatus, ResolutionStatus.STUDENT_RESPONDED);
+
+    const audit = await prisma.auditLog.findFirst({
+      where: { resourceId: logId, actionType: { startsWith: 'COMPLIANCE_' } },
+      select: { actorId: true, actionType: true },
+    });
+    assert.deepEqual(audit, { actorId: studentId, actionType: 'COMPLIANCE_RECLASSIFIED' });
+  });
+
+  test('checks a log from an older taxonomy against the rule a rename moved', async () => {
+    const assignmentId = await createAssignment();
+    const { courseId } = await prisma.assignment.findUniqueOrThrow({
+      where: { id: assignmentId },
+      select: { courseId: true },
+    });
+    await prisma.courseUsageRule.create({
+      data: { courseId, nodeId: 'debugging-support', isAllowed: false },
+    });
+    const logId = await createLog(assignmentId, ComplianceStatus.COMPLIANT);
+
+    const oldVersionKey = await publishUsageNodeRename('debugging-support', 'debugging-help');
+    try {
+      await prisma.aiLog.update({
+        where: { id: logId },
+        data: {
+          manualUsageSubsections: ['debugging-support'],
+          manualUsageTaxonomyVersion: oldVersionKey,
+        },
+      });
+      const rule = await prisma.courseUsageRule.findFirst({
+        where: { courseId, nodeId: { in: ['debugging-support', 'debugging-help'] } },
+        select: { nodeId: true },
+      });
+      assert.equal(rule?.nodeId, 'debugging-help');
+
+      await reclassifyLogs({ logId }, adminId);
+      await drainClassificationJobs();
+
+      const log = await prisma.aiLog.findUnique({
+        where: { id: logId },
+        select: { complianceStatus: true },
+      });
+      assert.equal(log?.complianceStatus, ComplianceStatus.NON_COMPLIANT);
+
+      const check = await prisma.complianceCheck.findFirst({
+        where: { aiLogId: logId, checkType: 'POST_SESSION' },
+        select: { flagsJson: true },
+      });
+      const flags = check?.flagsJson as { disallowedUsageNodes?: string[] } | undefined;
+      assert.deepEqual(flags?.disallowedUsageNodes, ['debugging-support']);
+    } finally {
+      await publishUsageNodeRename('debugging-help', 'debugging-support');
+      await prisma.courseUsageRule.deleteMany({ where: { courseId, nodeId: 'debugging-support' } });
+    }
+  });
+
+  test('queues a finished re-run of the same revision again', async () => {
+    const assignmentId = await createAssignment();
+    const logId = await createLog(assignmentId, ComplianceStatus.COMPLIANT);
+
+    await reclassifyLogs({ logId }, adminId);
+    await drainClassificationJobs();
+    const summary = await reclassifyLogs({ logId }, adminId);
+
+    assert.equal(summary.queued, 1);
+    const jobs = await prisma.classificationJob.findMany({
+      where: { aiLogId: logId, reclassification: true },
+      select: { status: true, attempts: true, completedAt: true },
+    });
+    assert.deepEqual(jobs, [
+      { status: ClassificationJobStatus.PENDING, attempts: 0, completedAt: null },
+    ]);
+  });
+});
@@ -0,0 +1,299 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import { spawn, type ChildProcess } from 'node:child_process';
+import { setTimeout as delay } from 'node:timers/promises';
+
+import { UserRole } from '@prisma/client';
+
+import { prisma } from '../../src/lib/db/client';
+
+const PORT = 3222;
+const BASE_URL = `http://127.0.0.1:${PORT}`;
+
+let serverProcess: ChildProcess | null = null;
+
+function addCookiesFromResponse(
+  response: Response,
+  cookieJar: Map<string, string>,
+): void {
+  const setCookie = response.headers.getSetCookie?.() ?? [];
+  for (const cookie of setCookie) {
+    const [pair] = cookie.split(';');
+    const separatorIndex = pair.indexOf('=');
+    if (separatorIndex <= 0) {
+      continue;
+    }
+
+    const key = pair.slice(0, separatorIndex).trim();
+    const value = pair.slice(separatorIndex + 1).trim();
+    cookieJar.set(key, value);
+  }
+}
+
+function serializeCookies(cookieJar: Map<string, string>): string {
+  return Array.from(cookieJar.entries())
+    .map(([key, value]) => `${key}=${value}`)
+    .join('; ');
+}
+
+async function waitForServerReady(): Promise<void> {
+  const timeoutAt = Date.now() + 90_000;
+
+  while (Date.now() < timeoutAt) {
+    try {
+      const response = await fetch(`${BASE_URL}/api/auth/providers`);
+      if (response.ok) {
+        return;
+      }
+    } catch {
+      // Not ready yet.
+    }
+
+    await delay(500);
+  }
+
+  throw new Error('Timed out waiting for server startup');
+}
+
+async function login(email: string, name: string): Promise<Map<string, string>> {
+  const cookieJar = new Map<string, string>();
+  const csrfResponse = await fetch(`${BASE_URL}/api/auth/csrf`);
+  assert.equal(csrfResponse.status, 200);
+  addCookiesFromResponse(csrfResponse, cookieJar);
+
+  const csrfPayload = (await csrfResponse.json()) as { csrfToken: string };
+  assert.ok(csrfPayload.csrfToken);
+
+  const body = new URLSearchParams({
+    csrfToken: csrfPayload.csrfToken,
+    email,
+    name,
+    callbackUrl: `${BASE_URL}/dashboard`,
+    json: 'true',
+  });
+
+  const signInResponse = await fetch(`${BASE_URL}/api/auth/callback/credentials`, {
+    method: 'POST',
+    headers: {
+      'content-type': 'application/x-www-form-urlencoded',
+      cookie: serializeCookies(cookieJar),
+    },
+    body: body.toString(),
+    redirect: 'manual',
+  });
+
+  assert.ok(signInResponse.status === 200 || signInResponse.status === 302);
+  addCookiesFromResponse(signInResponse, cookieJar);
+
+  return cookieJar;
+}
+
+function sendJson(
+  cookies: Map<string, string>,
+  path: string,
+  method: 'POST' | 'PUT' | 'DELETE',
+  body?: unknown,
+): Promise<Response> {
+  return fetch(`${BASE_URL}${path}`, {
+    method,
+    headers: {
+      'content-type': 'application/json',
+      cookie: serializeCookies(cookies),
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+async function createTemplate(cookies: Map<string, string>, name: string): Promise<string> {
+  const response = await sendJson(cookies, '/api/usage-rule-templates', 'POST', {
+    name,
+    rules: [{ nodeId: 'debugging-support', rule: 'DISALLOWED' }],
+  });
+  assert.equal(response.status, 201);
+  const payload = (await response.json()) as { template: { id: string } };
+  return payload.template.id;
+}
+
+before(async () => {
+  const seedProcess = spawn('npm', ['run', 'db:seed'], {
+    cwd: process.cwd(),
+    env: process.env,
+    stdio: 'inherit',
+  });
+
+  const seedExitCode: number = await new Promise((resolve, reject) => {
+    seedProcess.on('error', reject);
+    seedProcess.on('close', (code) => resolve(code ?? 1));
+  });
+
+  if (seedExitCode !== 0) {
+    throw new Error(`db:seed failed with exit code ${seedExitCode}`);
+  }
+
+  serverProcess = spawn('npm', ['run', 'start', '--', '--port', String(PORT)], {
+    cwd: process.cwd(),
+    env: process.env,
+    stdio: 'inherit',
+  });
+
+  await waitForServerReady();
+});
+
+after(async () => {
+  if (!serverProcess) {
+    return;
+  }
+
+  serverProcess.kill('SIGTERM');
+  await delay(500);
+
+  if (!serverProcess.killed) {
+    serverProcess.kill('SIGKILL');
+  }
+});
+
+describe('usage rule template permissions', () => {
+  test('lets the author and admins change a template, but not other instructors', async () => {
+    const timestamp = Date.now();
+    const otherEmail = `templates.instructor.${timestamp}@ntnu.no`;
+    await prisma.user.create({
+      data: {
+        email: otherEmail,
+        name: 'Other Instructor',
+        role: UserRole.INSTRUCTOR,
+        authSubject: `local:${otherEmail}`,
+      },
+    });
+
+    const author = await login('instructor@ntnu.no', 'Instructor User');
+    const other = await login(otherEmail, 'Other Instructor');
+    const admin = await login('admin@ntnu.no', 'Admin User');
+    const student = await login('student@ntnu.no', 'Student User');
+
+    const studentCreate = await sendJson(student, '/api/usage-rule-templates', 'POST', {
+      name: `Student template ${timestamp}`,
+      rules: [],
+    });
+    assert.equal(studentCreate.status, 403);
+
+    const templateId = await createTemplate(author, `Author template ${timestamp}`);
+    const update = {
+      name: `Author template ${timestamp} (edited)`,
+      rules: [{ nodeId: 'debugging-support', rule: 'ALLOWED' }],
+    };
+
+    const otherUpdate = await sendJson(
+      other,
+      `/api/usage-rule-templates/${templateId}`,
+      'PUT',
+      update,
+    );
+    assert.equal(otherUpdate.status, 403);
+    const otherDelete = await sendJson(other, `/api/usage-rule-templates/${templateId}`, 'DELETE');
+    assert.equal(otherDelete.status, 403);
+
+    const authorUpdate = await sendJson(
+      author,
+      `/api/usage-rule-templates/${templateId}`,
+      'PUT',
+      update,
+    );
+    assert.equal(authorUpdate.status, 200);
+
+    const adminUpdate = await sendJson(admin, `/api/usage-rule-templates/${templateId}`, 'PUT', {
+      ...update,
+      name: `Author template ${timestamp} (admin edit)`,
+    });
+    assert.equal(adminUpdate.status, 200);
+
+    const stored = await prisma.usageRuleTemplate.findUnique({
+      where: { id: templateId },
+      select: { name: true, rules: { select: { nodeId: true, isAllowed: true } } },
+    });
+    assert.equal(stored?.name, `Author template ${timestamp} (admin edit)`);
+    assert.deepEqual(stored?.rules, [{ nodeId: 'debugging-support', isAllowed: true }]);
+
+    const adminTemplateId = await createTemplate(admin, `Admin template ${timestamp}`);
+    const authorDeletesAdmin = await sendJson(
+      author,
+      `/api/usage-rule-templates/${adminTemplateId}`,
+      'DELETE',
+    );
+    assert.equal(authorDeletesAdmin.status, 403);
+
+    const adminDelete = await sendJson(admin, `/api/usage-rule-templates/${templateId}`, 'DELETE');
+    assert.equal(adminDelete.status, 200);
+    assert.equal(await prisma.usageRuleTemplate.count({ where: { id: templateId } }), 0);
+  });
+});
+
+describe('POST /api/courses/[id]/usage-rules/copy', () => {
+  test('previews without writing, then replaces the course rules', async () => {
+    const timestamp = Date.now();
+    const admin = await login('admin@ntnu.no', 'Admin User');
+    const templateId = await createTemplate(admin, `Copy template ${timestamp}`);
+    const course = await prisma.course.create({
+      data: {
+        courseCode: `COPY-${timestamp}`,
+        name: 'Rule Copy Course',
+        institution: 'NTNU',
+        usageRules: {
+          create: [{ nodeId: 'critique-and-quality-improvement', isAllowed: false }],
+        },
+      },
+      select: { id: true },
+    });
+
+    const previewResponse = await sendJson(
+      admin,
+      `/api/courses/${course.id}/usage-rules/copy`,
+      'POST',
+      { templateId, preview: true },
+    );
+    assert.equal(previewResponse.status, 200);
+    const preview = (await previewResponse.json()) as {
+      preview: boolean;
+      changes: Array<{ nodeId: string; previous: string; next: string }>;
+    };
+    assert.equal(preview.preview, true);
+    assert.deepEqual(
+      preview.changes.map((change) => [change.nodeId, change.previous, change.next]),
+      [
+        ['debugging-support', 'INHERIT', 'DISALLOWED'],
+        ['critique-and-quality-improvement', 'DISALLOWED', 'INHERIT'],
+      ],
+    );
+
+    const rulesAfterPreview = await prisma.courseUsageRule.findMany({
+      where: { courseId: course.id },
+      select: { nodeId: true },
+    });
+    assert.deepEqual(rulesAfterPreview, [{ nodeId: 'critique-and-quality-improvement' }]);
+    assert.equal(
+      await prisma.auditLog.count({
+        where: { actionType: 'COURSE_USAGE_RULES_COPIED', resourceId: course.id },
+      }),
+      0,
+    );
+
+    const copyResponse = await sendJson(
+      admin,
+      `/api/courses/${course.id}/usage-rules/copy`,
+      'POST',
+      { templateId },
+    );
+    assert.equal(copyResponse.status, 200);
+
+    const rulesAfterCopy = await prisma.courseUsageRule.findMany({
+      where: { courseId: course.id },
+      select: { nodeId: true, isAllowed: true },
+    });
+    assert.deepEqual(rulesAfterCopy, [{ nodeId: 'debugging-support', isAllowed: false }]);
+    assert.equal(
+      await prisma.auditLog.count({
+        where: { actionType: 'COURSE_USAGE_RULES_COPIED', resourceId: course.id },
+      }),
+      1,
+    );
+  });
+});
@@ -0,0 +1,48 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+
+import { ClassificationJobStatus } from '@prisma/client';
+
+import {
+  classificationRetryDelayMs,
+  failedClassificationJobState,
+} from '../../src/lib/jobs/classification-retry';
+
+describe('classificationRetryDelayMs', () => {
+  test('doubles the delay after each failed attempt', () => {
+    assert.deepEqual(
+      [1, 2, 3, 4].map((attempts) => classificationRetryDelayMs(attempts)),
+      [15_000, 30_000, 60_000, 120_000],
+    );
+  });
+
+  test('caps the delay at one hour', () => {
+    assert.equal(classificationRetryDelayMs(9), 60 * 60 * 1000);
+    assert.equal(classificationRetryDelayMs(40), 60 * 60 * 1000);
+  });
+
+  test('treats attempts below one as the first attempt', () => {
+    assert.equal(classificationRetryDelayMs(0), 15_000);
+  });
+});
+
+describe('failedClassificationJobState', () => {
+  const now = new Date('2026-10-19T12:00:00.000Z');
+
+  test('schedules a retry while attempts remain', () => {
+    assert.deepEqual(failedClassificationJobState(2, 5, now), {
+      status: ClassificationJobStatus.PENDING,
+      runAfter: new Date('2026-10-19T12:00:30.000Z'),
+      completedAt: null,
+    });
+  });
+
+  test('moves the job to DEAD once maxAttempts is reached', () => {
+    assert.deepEqual(failedClassificationJobState(5, 5, now), {
+      status: ClassificationJobStatus.DEAD,
+      runAfter: undefined,
+      completedAt: now,
+    });
+    assert.equal(failedClassificationJobState(6, 5, now).status, ClassificationJobStatus.DEAD);
+  });
+});
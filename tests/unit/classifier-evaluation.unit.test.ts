@@ -0,0 +1,160 @@
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { describe, test } from 'node:test';
+
+import { SeverityLevel } from '@prisma/client';
+
+import {
+  GoldDatasetError,
+  NO_CATEGORY_LABEL,
+  evaluateClassifiers,
+  findUnknownCategories,
+  formatEvaluationReport,
+  parseGoldDataset,
+  scoreClassifier,
+  type GoldExample,
+} from '../../src/lib/compliance/classifier-evaluation';
+import { KeywordContentClassifier } from '../../src/lib/compliance/content-classifier';
+import type { PolicyRuleRecord } from '../../src/lib/compliance/policy-evaluator';
+
+const fixtureRules: PolicyRuleRecord[] = [
+  {
+    usageCategory: 'Grammar Fix',
+    severityLevel: SeverityLevel.ALLOWED,
+    ruleReference: 'NTNU-AIP-1.1',
+    keywords: ['grammar', 'proofread'],
+  },
+  {
+    usageCategory: 'Code Generation',
+    severityLevel: SeverityLevel.MODERATE,
+    ruleReference: 'NTNU-AIP-1.3',
+    keywords: ['generate code'],
+  },
+];
+
+const examples: GoldExample[] = [
+  { id: 'a', text: 'proofread', expectedCategory: 'Grammar Fix', expectedSeverity: 'ALLOWED' },
+  { id: 'b', text: 'grammar', expectedCategory: 'Grammar Fix', expectedSeverity: 'ALLOWED' },
+  { id: 'c', text: 'generate code', expectedCategory: 'Code Generation' },
+  { id: 'd', text: 'weather', expectedCategory: null, expectedSeverity: null },
+];
+
+describe('scoreClassifier', () => {
+  const report = scoreClassifier('fixture', examples, [
+    { category: 'Grammar Fix', severity: 'ALLOWED' },
+    { category: 'Code Generation', severity: 'MODERATE' },
+    { category: 'Code Generation', severity: 'MODERATE' },
+    { category: null, severity: null },
+  ]);
+
+  test('computes accuracy, severity accuracy and misclassifications', () => {
+    assert.equal(report.correct, 3);
+    assert.equal(report.accuracy, 0.75);
+    assert.equal(report.severityAccuracy, 0.667);
+    assert.deepEqual(
+      report.misclassified.map((entry) => [entry.id, entry.predictedCategory]),
+      [['b', 'Code Generation']],
+    );
+  });
+
+  test('computes one-vs-rest precision and recall per category', () => {
+    const byCategory = Object.fromEntries(
+      report.categories.map((category) => [category.usageCategory, category]),
+    );
+
+    assert.equal(byCategory['Grammar Fix']?.precision, 1);
+    assert.equal(byCategory['Grammar Fix']?.recall, 0.5);
+    assert.equal(byCategory['Code Generation']?.precision, 0.5);
+    assert.equal(byCategory['Code Generation']?.recall, 1);
+    assert.equal(byCategory['Code Generation']?.f1, 0.667);
+  });
+
+  test('builds an expected-by-predicted confusion matrix', () => {
+    assert.deepEqual(report.confusion.labels, [
+      'Code Generation',
+      'Grammar Fix',
+      NO_CATEGORY_LABEL,
+    ]);
+    assert.deepEqual(report.confusion.matrix, [
+      [1, 0, 0],
+      [1, 1, 0],
+      [0, 0, 1],
+    ]);
+  });
+});
+
+describe('evaluateClassifiers', () => {
+  test('reports each strategy and the intent evaluator', async () => {
+    const reports = await evaluateClassifiers(examples, fixtureRules, [
+      { name: 'keyword', classifier: new KeywordContentClassifier() },
+    ]);
+
+    assert.deepEqual(
+      reports.map((report) => [report.name, report.accuracy]),
+      [
+        ['keyword', 1],
+        ['intent', 1],
+      ],
+    );
+  });
+
+  test('counts the examples a strategy answered through its fallback', async () => {
+    const keyword = new KeywordContentClassifier();
+    const [report] = await evaluateClassifiers(examples, fixtureRules, [
+      {
+        name: 'http',
+        classifier: {
+          classify: async (text, rules) => ({
+            ...(await keyword.classify(text, rules)),
+            ...(text === 'weather' ? {} : { fallbackReason: 'TIMEOUT: No response within 50ms' }),
+          }),
+        },
+      },
+    ]);
+
+    assert.ok(report);
+    assert.equal(report.fallbacks, 3);
+    assert.match(formatEvaluationReport(report), /3 answered by the fallback strategy/);
+  });
+});
+
+describe('parseGoldDataset', () => {
+  test('skips comments and blank lines and numbers unnamed examples', () => {
+    const parsed = parseGoldDataset(
+      '# comment\n\n{"text": "proofread", "expectedCategory": "Grammar Fix"}\n',
+    );
+    assert.deepEqual(parsed, [
+      { id: 'line-3', text: 'proofread', expectedCategory: 'Grammar Fix' },
+    ]);
+  });
+
+  test('reports the offending line', () => {
+    assert.throws(
+      () => parseGoldDataset('{"text": "a", "expectedCategory": null}\n{"text": ""}'),
+      (error: unknown) => error instanceof GoldDatasetError && error.line === 2,
+    );
+  });
+
+  test('the bundled dataset is valid and labelled with known categories', async () => {
+    const content = await readFile(
+      path.join(__dirname, '../../scripts/datasets/classifier-gold.jsonl'),
+      'utf8',
+    );
+    const dataset = parseGoldDataset(content);
+
+    assert.ok(dataset.length >= 20);
+    assert.deepEqual(
+      findUnknownCategories(dataset, [
+        ...fixtureRules,
+        ...['Code Debugging', 'Brainstorming', 'Full Text Generation'].map((usageCategory) => ({
+          usageCategory,
+          severityLevel: SeverityLevel.ALLOWED,
+          ruleReference: usageCategory,
+          keywords: [],
+        })),
+      ]),
+      [],
+    );
+  });
+});
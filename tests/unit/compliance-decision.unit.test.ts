@@ -0,0 +1,226 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+
+import { ComplianceStatus, ResolutionStatus, SeverityLevel } from '@prisma/client';
+
+import {
+  type CourseTreeSignals,
+  type PostSessionSignals,
+  decideCompliance,
+} from '../../src/lib/compliance/compliance-decision';
+
+const courseTrees: Record<'clean' | 'warning' | 'violation' | 'both', CourseTreeSignals> = {
+  clean: { disallowedSelections: [], warningParentSelections: [] },
+  warning: { disallowedSelections: [], warningParentSelections: ['writing'] },
+  violation: { disallowedSelections: ['full-text-generation'], warningParentSelections: [] },
+  both: {
+    disallowedSelections: ['full-text-generation'],
+    warningParentSelections: ['writing'],
+  },
+};
+
+const postSessions: Record<
+  'unclassified' | 'clean' | 'conflict' | 'violation',
+  PostSessionSignals | null
+> = {
+  unclassified: null,
+  clean: {
+    conflictFlag: false,
+    directViolationFlag: false,
+    flagSeverity: null,
+    ruleReferences: ['NTNU-AIP-1.1'],
+  },
+  conflict: {
+    conflictFlag: true,
+    directViolationFlag: false,
+    flagSeverity: SeverityLevel.MODERATE,
+    ruleReferences: ['NTNU-AIP-1.3'],
+  },
+  violation: {
+    conflictFlag: false,
+    directViolationFlag: true,
+    flagSeverity: SeverityLevel.FORBIDDEN,
+    ruleReferences: ['NTNU-AIP-1.5'],
+  },
+};
+
+const intentStatuses = [
+  null,
+  ComplianceStatus.COMPLIANT,
+  ComplianceStatus.WARNING,
+  ComplianceStatus.NON_COMPLIANT,
+] as const;
+
+const { PENDING, COMPLIANT, WARNING, NON_COMPLIANT } = ComplianceStatus;
+
+// Rows: course tree. Columns: post-session result, in `postSessions` order.
+const expectedStatus: Record<keyof typeof courseTrees, ComplianceStatus[]> = {
+  clean: [PENDING, COMPLIANT, NON_COMPLIANT, NON_COMPLIANT],
+  warning: [WARNING, WARNING, NON_COMPLIANT, NON_COMPLIANT],
+  violation: [NON_COMPLIANT, NON_COMPLIANT, NON_COMPLIANT, NON_COMPLIANT],
+  both: [NON_COMPLIANT, NON_COMPLIANT, NON_COMPLIANT, NON_COMPLIANT],
+};
+
+describe('decideCompliance status matrix', () => {
+  for (const [treeName, courseTree] of Object.entries(courseTrees)) {
+    Object.entries(postSessions).forEach(([postName, postSession], column) => {
+      for (const intentStatus of intentStatuses) {
+        // A NON_COMPLIANT intent check only counts until classification ran.
+        const expected =
+          postSession === null && intentStatus === NON_COMPLIANT
+            ? NON_COMPLIANT
+            : expectedStatus[treeName as keyof typeof courseTrees][column];
+
+        test(`tree=${treeName} post=${postName} intent=${intentStatus ?? 'none'}`, () => {
+          const decision = decideCompliance({ courseTree, postSession, intentStatus });
+
+          assert.equal(decision.complianceStatus, expected);
+          assert.equal(
+            decision.requiresResolution,
+            treeName === 'violation' ||
+              treeName === 'both' ||
+              postName === 'conflict' ||
+              postName === 'violation',
+          );
+        });
+      }
+    });
+  }
+});
+
+describe('decideCompliance flags and severity', () => {
+  test('course-tree violations are FORBIDDEN direct violations', () => {
+    const decision = decideCompliance({
+      courseTree: courseTrees.violation,
+      postSession: postSessions.conflict,
+    });
+
+    assert.equal(decision.directViolationFlag, true);
+    assert.equal(decision.conflictFlag, true);
+    assert.equal(decision.flagSeverity, SeverityLevel.FORBIDDEN);
+  });
+
+  test('keeps the post-session severity without a tree violation', () => {
+    const decision = decideCompliance({
+      courseTree: courseTrees.warning,
+      postSession: postSessions.conflict,
+    });
+
+    assert.equal(decision.directViolationFlag, false);
+    assert.equal(decision.flagSeverity, SeverityLevel.MODERATE);
+  });
+
+  test('has no severity before classification unless the tree is violated', () => {
+    assert.equal(decideCompliance({ courseTree: courseTrees.warning }).flagSeverity, null);
+    assert.equal(
+      decideCompliance({ courseTree: courseTrees.violation }).flagSeverity,
+      SeverityLevel.FORBIDDEN,
+    );
+  });
+
+  test('lists policy rule references before course-tree references', () => {
+    const decision = decideCompliance({
+      courseTree: courseTrees.both,
+      postSession: {
+        ...postSessions.violation!,
+        ruleReferences: ['NTNU-AIP-1.5', 'NTNU-AIP-1.5'],
+      },
+    });
+
+    assert.deepEqual(decision.ruleReferences, [
+      'NTNU-AIP-1.5',
+      'COURSE_USAGE_RULE:full-text-generation',
+      'COURSE_USAGE_WARNING:writing',
+    ]);
+  });
+
+  test('a justified selection is a warning with its own reference', () => {
+    const decision = decideCompliance({
+      courseTree: { ...courseTrees.clean, justifiedSelections: ['code-review'] },
+      postSession: postSessions.clean,
+    });
+
+    assert.equal(decision.complianceStatus, ComplianceStatus.WARNING);
+    assert.equal(decision.flagSeverity, null);
+    assert.deepEqual(decision.ruleReferences, [
+      'NTNU-AIP-1.1',
+      'COURSE_USAGE_JUSTIFIED:code-review',
+    ]);
+  });
+
+  test('a conflict with the tree selection is a conflict like one with the stated intent', () => {
+    const decision = decideCompliance({
+      courseTree: courseTrees.clean,
+      postSession: {
+        ...postSessions.clean!,
+        selectionConflict: { ruleReferences: ['NTNU-AIP-1.5', 'NTNU-AIP-1.1'] },
+      },
+    });
+
+    assert.equal(decision.complianceStatus, NON_COMPLIANT);
+    assert.equal(decision.conflictFlag, true);
+    assert.equal(decision.resolutionStatus, ResolutionStatus.UNRESOLVED);
+    assert.deepEqual(decision.ruleReferences, ['NTNU-AIP-1.1', 'NTNU-AIP-1.5']);
+  });
+});
+
+describe('decideCompliance resolution status', () => {
+  const resolutionStatuses = [
+    ResolutionStatus.NONE,
+    ResolutionStatus.UNRESOLVED,
+    ResolutionStatus.STUDENT_RESPONDED,
+  ];
+
+  test('a new revision opens or clears the resolution from scratch', () => {
+    for (const currentResolutionStatus of resolutionStatuses) {
+      assert.equal(
+        decideCompliance({
+          courseTree: courseTrees.clean,
+          postSession: postSessions.conflict,
+          currentResolutionStatus,
+        }).resolutionStatus,
+        ResolutionStatus.UNRESOLVED,
+      );
+      assert.equal(
+        decideCompliance({
+          courseTree: courseTrees.clean,
+          postSession: postSessions.clean,
+          currentResolutionStatus,
+        }).resolutionStatus,
+        ResolutionStatus.NONE,
+      );
+    }
+  });
+
+  test('a re-run keeps an existing resolution and only opens a missing one', () => {
+    const cases = [
+      { current: ResolutionStatus.NONE, post: 'conflict', expected: ResolutionStatus.UNRESOLVED },
+      { current: ResolutionStatus.NONE, post: 'clean', expected: ResolutionStatus.NONE },
+      {
+        current: ResolutionStatus.UNRESOLVED,
+        post: 'clean',
+        expected: ResolutionStatus.UNRESOLVED,
+      },
+      {
+        current: ResolutionStatus.STUDENT_RESPONDED,
+        post: 'violation',
+        expected: ResolutionStatus.STUDENT_RESPONDED,
+      },
+      {
+        current: ResolutionStatus.STUDENT_RESPONDED,
+        post: 'clean',
+        expected: ResolutionStatus.STUDENT_RESPONDED,
+      },
+    ] as const;
+
+    for (const testCase of cases) {
+      const decision = decideCompliance({
+        courseTree: courseTrees.clean,
+        postSession: postSessions[testCase.post],
+        currentResolutionStatus: testCase.current,
+        keepExistingResolution: true,
+      });
+      assert.equal(decision.resolutionStatus, testCase.expected, JSON.stringify(testCase));
+    }
+  });
+});
@@ -151,3 +151,61 @@ describe('ConflictDetector.detect', () => {
     assert.equal(result.flagSeverity, 'FORBIDDEN');
   });
 });
+
+describe('PolicyEvaluator.evaluatePostSession category ranking', () => {
+  const evaluator = new PolicyEvaluatorService({
+    ruleProvider: new FixtureRuleProvider(),
+  });
+
+  test('ranks every matched category and flags the most severe confident one', async () => {
+    const result = await evaluator.evaluatePostSession({
+      logId: 'log-mixed',
+      sessionText: 'It checked grammar and spelling, proofread it, then wrote the full text.',
+      policyVersionId: POLICY_VERSION_ID,
+      intentCategory: 'Grammar Fix',
+    });
+
+    assert.deepEqual(
+      result.categories.map((category) => [category.usageCategory, category.confidence]),
+      [
+        ['Grammar Fix', 0.75],
+        ['Full Text Generation', 0.25],
+      ],
+    );
+    assert.equal(result.actualCategory, 'Grammar Fix');
+    assert.equal(result.evaluatedCategory, 'Full Text Generation');
+    assert.equal(result.directViolationFlag, true);
+    assert.equal(result.flagSeverity, 'FORBIDDEN');
+  });
+
+  test('ignores low-confidence categories when flagging', async () => {
+    const result = await evaluator.evaluatePostSession({
+      logId: 'log-mostly-grammar',
+      sessionText: 'Grammar, spelling and proofread passes; one idea; a quick debug of the build.',
+      policyVersionId: POLICY_VERSION_ID,
+      intentCategory: 'Grammar Fix',
+    });
+
+    assert.equal(result.categories.length, 3);
+    assert.equal(result.categories[2]?.confidence, 0.2);
+    assert.equal(result.evaluatedCategory, 'Grammar Fix');
+    assert.equal(result.conflictFlag, false);
+    assert.equal(result.complianceStatus, 'COMPLIANT');
+  });
+});
+
+describe('ConflictDetector.detect with several categories', () => {
+  const detector = new ConflictDetector(new FixtureRuleProvider());
+
+  test('evaluates the most severe category', async () => {
+    const result = await detector.detect(
+      'Code Generation',
+      ['Grammar Fix', 'Code Debugging', 'Code Generation'],
+      POLICY_VERSION_ID,
+    );
+
+    assert.equal(result.evaluatedCategory, 'Code Generation');
+    assert.equal(result.conflictFlag, false);
+    assert.equal(result.flagSeverity, 'MODERATE');
+  });
+});
@@ -0,0 +1,149 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+
+import {
+  conversationPromptText,
+  parseConversationExport,
+} from '../../src/lib/conversation-import';
+
+const chatGptExport = [
+  {
+    title: 'Thesis outline',
+    create_time: 1760000000,
+    current_node: 'answer-2',
+    mapping: {
+      root: { id: 'root', parent: null, children: ['system'], message: null },
+      system: {
+        id: 'system',
+        parent: 'root',
+        children: ['question'],
+        message: { author: { role: 'system' }, content: { parts: [''] } },
+      },
+      question: {
+        id: 'question',
+        parent: 'system',
+        children: ['answer-1', 'answer-2'],
+        message: {
+          author: { role: 'user' },
+          content: { content_type: 'text', parts: ['Suggest ideas for my thesis outline'] },
+        },
+      },
+      'answer-1': {
+        id: 'answer-1',
+        parent: 'question',
+        children: [],
+        message: { author: { role: 'assistant' }, content: { parts: ['A discarded answer'] } },
+      },
+      'answer-2': {
+        id: 'answer-2',
+        parent: 'question',
+        children: [],
+        message: {
+          author: { role: 'assistant' },
+          content: { parts: ['Here are three ideas.', { asset_pointer: 'image' }] },
+        },
+      },
+    },
+  },
+  { title: 'Empty chat', create_time: 1760000100, current_node: null, mapping: {} },
+];
+
+const claudeExport = [
+  {
+    uuid: 'c1',
+    name: 'Debugging',
+    created_at: '2026-10-01T12:00:00.000Z',
+    chat_messages: [
+      { sender: 'human', text: '', content: [{ type: 'text', text: 'Why does this loop hang?' }] },
+      { sender: 'assistant', text: 'The counter never changes.' },
+    ],
+  },
+];
+
+describe('parseConversationExport', () => {
+  test('follows the visible ChatGPT thread and skips empty conversations', () => {
+    const result = parseConversationExport(JSON.stringify(chatGptExport), 'conversations.json');
+
+    assert.ok(result.outcome === 'PARSED');
+    assert.equal(result.format, 'CHATGPT');
+    assert.deepEqual(result.conversations, [
+      {
+        source: 'CHATGPT',
+        title: 'Thesis outline',
+        createdAt: new Date(1760000000 * 1000).toISOString(),
+        messages: [
+          { role: 'user', text: 'Suggest ideas for my thesis outline' },
+          { role: 'assistant', text: 'Here are three ideas.' },
+        ],
+      },
+    ]);
+  });
+
+  test('reads Claude content blocks and falls back to message text', () => {
+    const result = parseConversationExport(JSON.stringify(claudeExport), 'conversations.json');
+
+    assert.ok(result.outcome === 'PARSED');
+    assert.equal(result.format, 'CLAUDE');
+    assert.deepEqual(result.conversations[0]?.messages, [
+      { role: 'user', text: 'Why does this loop hang?' },
+      { role: 'assistant', text: 'The counter never changes.' },
+    ]);
+    assert.equal(result.conversations[0]?.createdAt, '2026-10-01T12:00:00.000Z');
+  });
+
+  test('splits a Markdown transcript on role headings and labels', () => {
+    const transcript = [
+      '# Essay feedback',
+      '',
+      '## User',
+      'Proofread my introduction.',
+      'It is two paragraphs.',
+      '',
+      '## Assistant',
+      'Here are the corrections.',
+      '',
+      '**You:** Now shorten it.',
+      '**ChatGPT:** Done.',
+    ].join('\n');
+
+    const result = parseConversationExport(transcript, 'essay.md');
+
+    assert.ok(result.outcome === 'PARSED');
+    assert.equal(result.format, 'MARKDOWN');
+    assert.equal(result.conversations[0]?.title, 'Essay feedback');
+    assert.deepEqual(result.conversations[0]?.messages, [
+      { role: 'user', text: 'Proofread my introduction.\nIt is two paragraphs.' },
+      { role: 'assistant', text: 'Here are the corrections.' },
+      { role: 'user', text: 'Now shorten it.' },
+      { role: 'assistant', text: 'Done.' },
+    ]);
+  });
+
+  test('rejects files that are not a known export', () => {
+    assert.deepEqual(parseConversationExport('Just my notes from the session.', 'notes.md'), {
+      outcome: 'UNRECOGNIZED',
+    });
+    assert.deepEqual(parseConversationExport('{"broken": ', 'conversations.json'), {
+      outcome: 'UNRECOGNIZED',
+    });
+    assert.deepEqual(parseConversationExport(JSON.stringify([{ id: 1 }])), {
+      outcome: 'UNRECOGNIZED',
+    });
+    assert.deepEqual(parseConversationExport(JSON.stringify([chatGptExport[1]])), {
+      outcome: 'NO_CONVERSATIONS',
+      format: 'CHATGPT',
+    });
+  });
+});
+
+describe('conversationPromptText', () => {
+  test('joins only what the student asked, in order', () => {
+    const result = parseConversationExport(JSON.stringify(claudeExport));
+    assert.ok(result.outcome === 'PARSED');
+
+    assert.equal(
+      conversationPromptText([...result.conversations, ...result.conversations]),
+      'Why does this loop hang?\n\nWhy does this loop hang?',
+    );
+  });
+});
@@ -0,0 +1,199 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, test } from 'node:test';
+
+import { SeverityLevel } from '@prisma/client';
+
+import {
+  startClassifierStubServer,
+  type ClassifierStub,
+  type ClassifierStubOptions,
+} from '../../scripts/classifier-stub-server';
+import {
+  KeywordContentClassifier,
+  createContentClassifierFromEnv,
+} from '../../src/lib/compliance/content-classifier';
+import {
+  ExternalClassifierError,
+  HttpContentClassifier,
+  buildExternalClassifierRequest,
+  externalClassifierRequestSchema,
+  parseExternalClassifierResponse,
+} from '../../src/lib/compliance/external-classifier';
+import type { PolicyRuleRecord } from '../../src/lib/compliance/policy-evaluator';
+
+const fixtureRules: PolicyRuleRecord[] = [
+  {
+    usageCategory: 'Grammar Fix',
+    severityLevel: SeverityLevel.ALLOWED,
+    ruleReference: 'NTNU-AIP-1.1',
+    keywords: ['grammar', 'proofread', 'spelling'],
+  },
+  {
+    usageCategory: 'Code Generation',
+    severityLevel: SeverityLevel.MODERATE,
+    ruleReference: 'NTNU-AIP-1.3',
+    keywords: ['generate code', 'scaffold'],
+    keywordsNb: ['generere kode'],
+  },
+];
+
+const MIXED_TEXT = 'I asked it to proofread my grammar and then generate code for the parser.';
+
+let stub: ClassifierStub | null = null;
+const originalEnv = {
+  strategy: process.env.CLASSIFIER_STRATEGY,
+  url: process.env.CLASSIFIER_HTTP_URL,
+};
+
+async function startStub(options: ClassifierStubOptions = {}): Promise<ClassifierStub> {
+  stub = await startClassifierStubServer(options);
+  return stub;
+}
+
+function httpClassifier(url: string, options: { timeoutMs?: number; token?: string } = {}) {
+  return new HttpContentClassifier({ url, fallback: new KeywordContentClassifier(), ...options });
+}
+
+function restoreEnv(key: string, value: string | undefined): void {
+  if (value === undefined) {
+    delete process.env[key];
+  } else {
+    process.env[key] = value;
+  }
+}
+
+afterEach(async () => {
+  await stub?.close();
+  stub = null;
+  restoreEnv('CLASSIFIER_STRATEGY', originalEnv.strategy);
+  restoreEnv('CLASSIFIER_HTTP_URL', originalEnv.url);
+});
+
+describe('external classifier contract', () => {
+  test('requests carry the text and every rule field', () => {
+    const request = buildExternalClassifierRequest(MIXED_TEXT, fixtureRules);
+
+    assert.equal(externalClassifierRequestSchema.safeParse(request).success, true);
+    assert.deepEqual(request.rules[0]?.keywordsNb, []);
+    assert.deepEqual(request.rules[1]?.keywordsNb, ['generere kode']);
+  });
+
+  test('responses are ranked by confidence', () => {
+    const result = parseExternalClassifierResponse(
+      {
+        contractVersion: 1,
+        categories: [
+          { usageCategory: 'Grammar Fix', confidence: 0.3 },
+          { usageCategory: 'Code Generation', confidence: 0.7 },
+        ],
+      },
+      fixtureRules,
+    );
+
+    assert.equal(result.detectedCategory, 'Code Generation');
+    assert.deepEqual(result.ruleReferences, ['NTNU-AIP-1.3']);
+    assert.deepEqual(
+      result.categories.map((category) => category.usageCategory),
+      ['Code Generation', 'Grammar Fix'],
+    );
+  });
+
+  test('rejects extra fields, unknown categories and duplicates', () => {
+    const invalidBodies = [
+      { contractVersion: 1, categories: [], explanation: 'extra' },
+      { contractVersion: 2, categories: [] },
+      { contractVersion: 1, categories: [{ usageCategory: 'Grammar Fix', confidence: 1.5 }] },
+      { contractVersion: 1, categories: [{ usageCategory: 'Essay Writing', confidence: 0.5 }] },
+      {
+        contractVersion: 1,
+        categories: [
+          { usageCategory: 'Grammar Fix', confidence: 0.5 },
+          { usageCategory: 'Grammar Fix', confidence: 0.5 },
+        ],
+      },
+    ];
+
+    for (const body of invalidBodies) {
+      assert.throws(
+        () => parseExternalClassifierResponse(body, fixtureRules),
+        (error: unknown) =>
+          error instanceof ExternalClassifierError && error.failure === 'CONTRACT',
+        JSON.stringify(body),
+      );
+    }
+  });
+});
+
+describe('HttpContentClassifier against the stub server', () => {
+  test('classifies through the endpoint', async () => {
+    const server = await startStub({ token: 'secret' });
+    const result = await httpClassifier(server.url, { token: 'secret' }).classify(
+      MIXED_TEXT,
+      fixtureRules,
+    );
+
+    // The stub ranks with the weighted strategy, which breaks the 2–2 tie
+    // towards the stricter rule; the keyword fallback would pick Grammar Fix.
+    assert.equal(result.fallbackReason, undefined);
+    assert.deepEqual(
+      result.categories.map((category) => category.usageCategory),
+      ['Code Generation', 'Grammar Fix'],
+    );
+    assert.equal(server.requests.length, 1);
+    assert.equal(server.requests[0]?.text, MIXED_TEXT);
+  });
+
+  const fallbackCases: Array<{
+    name: string;
+    stub: ClassifierStubOptions;
+    failure: string;
+    timeoutMs?: number;
+  }> = [
+    { name: 'times out', stub: { delayMs: 500 }, failure: 'TIMEOUT', timeoutMs: 50 },
+    { name: 'returns an error status', stub: { mode: 'error' }, failure: 'HTTP_STATUS' },
+    { name: 'breaks the response contract', stub: { mode: 'malformed' }, failure: 'CONTRACT' },
+    { name: 'invents a category', stub: { mode: 'unknown-category' }, failure: 'CONTRACT' },
+    { name: 'rejects the token', stub: { token: 'other' }, failure: 'HTTP_STATUS' },
+  ];
+
+  for (const testCase of fallbackCases) {
+    test(`falls back to the keyword strategy when the endpoint ${testCase.name}`, async () => {
+      const server = await startStub(testCase.stub);
+      const result = await httpClassifier(server.url, {
+        timeoutMs: testCase.timeoutMs,
+      }).classify(MIXED_TEXT, fixtureRules);
+
+      assert.match(result.fallbackReason ?? '', new RegExp(`^${testCase.failure}:`));
+      assert.equal(result.detectedCategory, 'Grammar Fix');
+    });
+  }
+
+  test('falls back when nothing listens on the endpoint', async () => {
+    const server = await startStub();
+    const url = server.url;
+    await server.close();
+    stub = null;
+
+    const result = await httpClassifier(url).classify(MIXED_TEXT, fixtureRules);
+    assert.match(result.fallbackReason ?? '', /^NETWORK:/);
+  });
+});
+
+describe('createContentClassifierFromEnv with CLASSIFIER_STRATEGY=http', () => {
+  test('uses the configured endpoint', async () => {
+    const server = await startStub();
+    process.env.CLASSIFIER_STRATEGY = 'http';
+    process.env.CLASSIFIER_HTTP_URL = server.url;
+
+    const result = await createContentClassifierFromEnv().classify(MIXED_TEXT, fixtureRules);
+    assert.equal(result.fallbackReason, undefined);
+    assert.equal(server.requests.length, 1);
+  });
+
+  test('uses the keyword strategy when no endpoint is configured', () => {
+    process.env.CLASSIFIER_STRATEGY = 'http';
+    delete process.env.CLASSIFIER_HTTP_URL;
+
+    assert.ok(createContentClassifierFromEnv() instanceof KeywordContentClassifier);
+  });
+});
@@ -0,0 +1,158 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+
+import { SeverityLevel } from '@prisma/client';
+
+import {
+  KeywordContentClassifier,
+  WeightedKeywordContentClassifier,
+} from '../../src/lib/compliance/content-classifier';
+import { evaluateIntentFromRules } from '../../src/lib/compliance/intent-evaluator';
+import {
+  joinLogText,
+  locateRuleKeywords,
+  spansByField,
+} from '../../src/lib/compliance/keyword-spans';
+import { AnalyzedText } from '../../src/lib/compliance/language';
+import type { PolicyRuleRecord } from '../../src/lib/compliance/policy-evaluator';
+
+const fixtureRules: PolicyRuleRecord[] = [
+  {
+    usageCategory: 'Grammar Fix',
+    severityLevel: SeverityLevel.ALLOWED,
+    ruleReference: 'NTNU-AIP-1.1',
+    keywords: ['grammar', 'proofread'],
+  },
+  {
+    usageCategory: 'Code Generation',
+    severityLevel: SeverityLevel.MODERATE,
+    ruleReference: 'NTNU-AIP-1.3',
+    keywords: ['generate code'],
+    keywordsNb: ['generere kode'],
+  },
+];
+
+function excerpts(text: string, spans: Array<{ start: number; end: number }>): string[] {
+  return spans.map((span) => text.slice(span.start, span.end));
+}
+
+describe('AnalyzedText.locateKeyword', () => {
+  test('maps stemmed phrase hits back to the original characters', () => {
+    const text = 'Jeg ba den GENERERE koden, og den genererte kode for meg.';
+    const spans = new AnalyzedText(text).locateKeyword({
+      keyword: 'generere kode',
+      language: 'nb',
+    });
+
+    assert.deepEqual(excerpts(text, spans), ['GENERERE koden', 'genererte kode']);
+  });
+
+  test('keeps offsets for decomposed letters and typographic apostrophes', () => {
+    const text = 'Jeg brukte feilso\u0308king. It didn’t proofread.';
+    const analysis = new AnalyzedText(text);
+
+    assert.deepEqual(
+      excerpts(text, analysis.locateKeyword({ keyword: 'feilsøking', language: 'nb' })),
+      ['feilso\u0308king'],
+    );
+    assert.deepEqual(
+      excerpts(text, analysis.locateKeyword({ keyword: 'proofread', language: 'en' })),
+      ['proofread'],
+    );
+  });
+
+  test('adds substring hits and can leave out negated ones', () => {
+    const text = 'Did not proofread, but the proofreader did.';
+    const analysis = new AnalyzedText(text);
+    const keyword = { keyword: 'proofread', language: 'en' as const };
+
+    assert.deepEqual(
+      excerpts(text, analysis.locateKeyword(keyword, { substring: true })),
+      ['proofread', 'proofread'],
+    );
+    assert.deepEqual(analysis.locateKeyword(keyword, { skipNegated: true }), []);
+  });
+});
+
+describe('classifier matched spans', () => {
+  const text = 'Please proofread my grammar, then generate code for the parser.';
+
+  test('the keyword strategy and intent evaluator locate every matched keyword', async () => {
+    const expected = [
+      ['proofread', 'Grammar Fix'],
+      ['grammar', 'Grammar Fix'],
+      ['generate code', 'Code Generation'],
+    ];
+
+    const classified = await new KeywordContentClassifier().classify(text, fixtureRules);
+    const intent = evaluateIntentFromRules(text, fixtureRules);
+
+    for (const spans of [classified.matchedSpans ?? [], intent.matchedSpans]) {
+      assert.deepEqual(
+        spans.map((span) => [text.slice(span.start, span.end), span.usageCategory]),
+        expected,
+      );
+    }
+  });
+
+  test('the weighted strategy only reports hits that counted', async () => {
+    const negated = 'I did not generate code, only asked about grammar.';
+    const result = await new WeightedKeywordContentClassifier().classify(negated, fixtureRules);
+
+    assert.deepEqual(
+      (result.matchedSpans ?? []).map((span) => [span.keyword, span.usageCategory]),
+      [['grammar', 'Grammar Fix']],
+    );
+  });
+});
+
+describe('spansByField', () => {
+  test('re-bases spans onto the usage reason and session description', () => {
+    const usageReason = 'Proofread my essay.';
+    const sessionDescription = 'It wrote a generate code helper.';
+    const { text, fields } = joinLogText(usageReason, sessionDescription);
+
+    const spans = spansByField(locateRuleKeywords(text, fixtureRules), fields);
+
+    assert.deepEqual(
+      spans.map((span) => [
+        span.field,
+        (span.field === 'usageReason' ? usageReason : sessionDescription).slice(
+          span.start,
+          span.end,
+        ),
+      ]),
+      [
+        ['usageReason', 'Proofread'],
+        ['sessionDescription', 'generate code'],
+      ],
+    );
+  });
+
+  test('accounts for the trimmed separator when the reason is empty', () => {
+    const { text, fields } = joinLogText('', 'proofread it');
+
+    assert.equal(text, 'proofread it');
+    assert.deepEqual(
+      spansByField(locateRuleKeywords(text, fixtureRules), fields).map((span) => [
+        span.field,
+        span.start,
+        span.end,
+      ]),
+      [['sessionDescription', 0, 9]],
+    );
+  });
+
+  test('attributes session hits to imported conversation prompts when given', () => {
+    const prompts = 'Can you generate code for the parser?';
+    const { text, fields } = joinLogText('I needed help.', prompts, 'conversationPrompts');
+
+    assert.deepEqual(
+      spansByField(locateRuleKeywords(text, fixtureRules), fields).map((span) => [
+        span.field,
+        prompts.slice(span.start, span.end),
+      ]),
+      [['conversationPrompts', 'generate code']],
+    );
+  });
+});
@@ -0,0 +1,169 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, test } from 'node:test';
+
+import { ComplianceStatus, SeverityLevel } from '@prisma/client';
+
+import { createContentClassifierFromEnv } from '../../src/lib/compliance/content-classifier';
+import { evaluateIntentFromRules } from '../../src/lib/compliance/intent-evaluator';
+import {
+  detectLanguage,
+  keywordsForLanguage,
+  stemToken,
+} from '../../src/lib/compliance/language';
+import type { PolicyRuleRecord } from '../../src/lib/compliance/policy-evaluator';
+
+const fixtureRules: PolicyRuleRecord[] = [
+  {
+    usageCategory: 'Grammar Fix',
+    severityLevel: SeverityLevel.ALLOWED,
+    ruleReference: 'NTNU-AIP-1.1',
+    keywords: ['grammar', 'proofread'],
+    keywordsNb: ['grammatikk', 'korrektur'],
+  },
+  {
+    usageCategory: 'Code Debugging',
+    severityLevel: SeverityLevel.MINOR,
+    ruleReference: 'NTNU-AIP-1.2',
+    keywords: ['debug', 'stack trace'],
+    keywordsNb: ['feilsøking', 'feil i koden'],
+  },
+  {
+    usageCategory: 'Code Generation',
+    severityLevel: SeverityLevel.MODERATE,
+    ruleReference: 'NTNU-AIP-1.3',
+    keywords: ['generate code', 'boilerplate'],
+    keywordsNb: ['generere kode'],
+    keywordsNn: ['lage koden'],
+  },
+  {
+    usageCategory: 'Full Text Generation',
+    severityLevel: SeverityLevel.FORBIDDEN,
+    ruleReference: 'NTNU-AIP-1.5',
+    keywords: ['write full essay'],
+    keywordsNb: ['skrive hele oppgaven'],
+    keywordsNn: ['skrive heile oppgåva'],
+  },
+];
+
+const originalStrategy = process.env.CLASSIFIER_STRATEGY;
+
+function classifierFor(strategy: string) {
+  process.env.CLASSIFIER_STRATEGY = strategy;
+  return createContentClassifierFromEnv();
+}
+
+afterEach(() => {
+  if (originalStrategy === undefined) {
+    delete process.env.CLASSIFIER_STRATEGY;
+  } else {
+    process.env.CLASSIFIER_STRATEGY = originalStrategy;
+  }
+});
+
+describe('detectLanguage', () => {
+  test('tells bokmål, nynorsk and English apart', () => {
+    const cases = [
+      ['Jeg brukte ChatGPT til å finne ut hvorfor koden feilet', 'nb'],
+      ['Eg brukte ChatGPT til å finne ut kvifor koden ikkje køyrde', 'nn'],
+      ['I used ChatGPT to find out why my code failed', 'en'],
+    ] as const;
+
+    for (const [text, language] of cases) {
+      assert.equal(detectLanguage(text).language, language, text);
+    }
+  });
+
+  test('falls back to English when nothing gives the language away', () => {
+    const detection = detectLanguage('ChatGPT pandas dataframe');
+    assert.equal(detection.language, 'en');
+    assert.deepEqual(detection.scores, { en: 0, nb: 0, nn: 0 });
+  });
+});
+
+describe('stemToken', () => {
+  test('maps Norwegian inflections and keyboard-less spellings onto one stem', () => {
+    const stems = ['feilsøking', 'feilsøke', 'feilsokte', 'feilsøkingen'].map((token) =>
+      stemToken(token, 'nb'),
+    );
+    assert.deepEqual(new Set(stems), new Set(['feilsok']));
+    assert.equal(stemToken('genererte', 'nb'), stemToken('generere', 'nb'));
+    assert.equal(stemToken('koden', 'nn'), stemToken('kode', 'nn'));
+  });
+
+  test('maps English inflections onto one stem', () => {
+    assert.equal(stemToken('debugging', 'en'), 'debug');
+    assert.equal(stemToken('debugged', 'en'), 'debug');
+    assert.equal(stemToken('libraries', 'en'), 'library');
+  });
+});
+
+describe('keywordsForLanguage', () => {
+  test('tries the own-language list first and falls back to English', () => {
+    const rule = fixtureRules[2];
+    assert.deepEqual(
+      keywordsForLanguage(rule, 'nn').map((keyword) => `${keyword.language}:${keyword.keyword}`),
+      ['nn:lage koden', 'nb:generere kode', 'en:generate code', 'en:boilerplate'],
+    );
+    assert.deepEqual(
+      keywordsForLanguage(rule, 'en').map((keyword) => keyword.keyword),
+      ['generate code', 'boilerplate'],
+    );
+  });
+});
+
+describe('Norwegian classification', () => {
+  test('intent evaluation matches inflected bokmål keywords', () => {
+    const result = evaluateIntentFromRules(
+      'Jeg vil bruke AI til feilsøkingen av programmet mitt.',
+      fixtureRules,
+    );
+    assert.equal(result.language, 'nb');
+    assert.equal(result.detectedCategory, 'Code Debugging');
+    assert.equal(result.complianceStatus, ComplianceStatus.COMPLIANT);
+  });
+
+  test('intent evaluation matches nynorsk keywords', () => {
+    const result = evaluateIntentFromRules(
+      'Eg vil at KI skal skrive heile oppgåva for meg.',
+      fixtureRules,
+    );
+    assert.equal(result.language, 'nn');
+    assert.equal(result.detectedCategory, 'Full Text Generation');
+    assert.equal(result.complianceStatus, ComplianceStatus.NON_COMPLIANT);
+  });
+
+  test('keyword strategy classifies Norwegian text with mixed-in English terms', async () => {
+    const classifier = classifierFor('keyword');
+    const result = await classifier.classify(
+      'Jeg genererte koden for innloggingen, og fikk også litt boilerplate.',
+      fixtureRules,
+    );
+    assert.equal(result.language, 'nb');
+    assert.equal(result.detectedCategory, 'Code Generation');
+  });
+
+  test('weighted strategy ignores Norwegian negations', async () => {
+    const result = await classifierFor('weighted').classify(
+      'Jeg brukte den ikke til å generere kode, bare til korrektur av rapporten.',
+      fixtureRules,
+    );
+    assert.equal(result.detectedCategory, 'Grammar Fix');
+    assert.equal(result.scoring?.language, 'nb');
+
+    const codeGeneration = result.scoring?.rules.find(
+      (rule) => rule.usageCategory === 'Code Generation',
+    );
+    assert.deepEqual(codeGeneration?.matches, [
+      { keyword: 'generere kode', language: 'nb', weight: 2, count: 0, negatedCount: 1 },
+    ]);
+  });
+
+  test('English text is not matched against Norwegian keywords', async () => {
+    const result = await classifierFor('weighted').classify(
+      'The grammatikk section of my report.',
+      fixtureRules,
+    );
+    assert.equal(result.language, 'en');
+    assert.equal(result.detectedCategory, null);
+  });
+});
@@ -0,0 +1,74 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+
+import { diffLogRevisions, type LogRevisionContent } from '../../src/lib/log-revision-diff';
+
+const original: LogRevisionContent = {
+  assignmentId: 'assignment-1',
+  usageSubsections: ['grammar-check', 'snippet-generation'],
+  usageTaxonomyVersion: 'v1',
+  usageReason: 'I asked for grammar feedback.',
+  sessionDescription: null,
+  aiTool: 'ChatGPT',
+  evidence: [
+    {
+      usageNodeId: 'grammar-check',
+      url: null,
+      comment: 'Prompt log',
+      conversation: null,
+      label: null,
+    },
+  ],
+};
+
+describe('diffLogRevisions', () => {
+  test('reports nothing for an unchanged save', () => {
+    assert.deepEqual(diffLogRevisions(original, structuredClone(original)), []);
+  });
+
+  test('lists each changed field with its previous and next value', () => {
+    const changes = diffLogRevisions(original, {
+      ...original,
+      usageReason: 'I asked it to write the introduction.',
+      sessionDescription: 'One session.',
+      aiTool: 'Claude',
+    });
+
+    assert.deepEqual(changes, [
+      {
+        field: 'usageReason',
+        previous: 'I asked for grammar feedback.',
+        next: 'I asked it to write the introduction.',
+      },
+      { field: 'sessionDescription', previous: null, next: 'One session.' },
+      { field: 'aiTool', previous: 'ChatGPT', next: 'Claude' },
+    ]);
+  });
+
+  test('ignores the order of selections but not their content', () => {
+    assert.deepEqual(
+      diffLogRevisions(original, {
+        ...original,
+        usageSubsections: ['snippet-generation', 'grammar-check'],
+      }),
+      [],
+    );
+    assert.deepEqual(
+      diffLogRevisions(original, { ...original, usageSubsections: ['grammar-check'] }).map(
+        (change) => change.field,
+      ),
+      ['usageSubsections'],
+    );
+  });
+
+  test('reports removed or edited evidence', () => {
+    const removed = diffLogRevisions(original, { ...original, evidence: [] });
+    assert.deepEqual(removed, [{ field: 'evidence', previous: original.evidence, next: [] }]);
+
+    const edited = diffLogRevisions(original, {
+      ...original,
+      evidence: [{ ...original.evidence[0], comment: 'Edited prompt log' }],
+    });
+    assert.deepEqual(edited.map((change) => change.field), ['evidence']);
+  });
+});
@@ -0,0 +1,133 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+
+import { SeverityLevel } from '@prisma/client';
+
+import {
+  diffPolicyRules,
+  diffPolicyVersions,
+  formatPolicyChangeSummary,
+} from '../../src/lib/compliance/policy-diff';
+import type { PolicyRuleRecord } from '../../src/lib/compliance/policy-evaluator';
+
+const previousRules: PolicyRuleRecord[] = [
+  {
+    usageCategory: 'Grammar Fix',
+    severityLevel: SeverityLevel.ALLOWED,
+    ruleReference: 'NTNU-AI-1.1',
+    keywords: ['grammar', 'proofread'],
+    description: 'Language polishing is allowed.',
+  },
+  {
+    usageCategory: 'Code Generation',
+    severityLevel: SeverityLevel.MODERATE,
+    ruleReference: 'NTNU-AI-1.3',
+    keywords: ['generate code', 'scaffold'],
+    description: 'Generated code must be disclosed.',
+  },
+  {
+    usageCategory: 'Full Text Generation',
+    severityLevel: SeverityLevel.FORBIDDEN,
+    ruleReference: 'NTNU-AI-1.5',
+    keywords: ['full text'],
+    description: null,
+  },
+  {
+    usageCategory: 'Brainstorming',
+    severityLevel: SeverityLevel.ALLOWED,
+    ruleReference: 'NTNU-AI-1.4',
+    keywords: ['ideas'],
+    description: null,
+  },
+];
+
+const nextRules: PolicyRuleRecord[] = [
+  {
+    usageCategory: 'Grammar Fix',
+    severityLevel: SeverityLevel.ALLOWED,
+    ruleReference: 'NTNU-AI-1.1',
+    keywords: ['Grammar', 'proofread'],
+    description: 'Language polishing is allowed.',
+  },
+  {
+    usageCategory: 'Code Generation',
+    severityLevel: SeverityLevel.SERIOUS,
+    ruleReference: 'NTNU-AI-2.3',
+    keywords: ['generate code', 'implementation'],
+    description: 'Large generated fragments are high risk.',
+  },
+  {
+    usageCategory: 'Full Text Generation',
+    severityLevel: SeverityLevel.SERIOUS,
+    ruleReference: 'NTNU-AI-1.5',
+    keywords: ['full text'],
+    description: null,
+  },
+  {
+    usageCategory: 'Data Analysis Automation',
+    severityLevel: SeverityLevel.MODERATE,
+    ruleReference: 'NTNU-AI-2.6',
+    keywords: ['analyze dataset'],
+    description: null,
+  },
+];
+
+describe('diffPolicyRules', () => {
+  const changes = diffPolicyRules(previousRules, nextRules);
+  const byCategory = new Map(changes.map((change) => [change.usageCategory, change]));
+
+  test('omits rules that only differ in keyword casing', () => {
+    assert.equal(byCategory.has('Grammar Fix'), false);
+  });
+
+  test('reports added and removed categories', () => {
+    assert.equal(byCategory.get('Data Analysis Automation')?.changeType, 'ADDED');
+    assert.equal(byCategory.get('Brainstorming')?.changeType, 'REMOVED');
+    assert.equal(byCategory.get('Brainstorming')?.severityDirection, null);
+  });
+
+  test('classifies severity escalations and relaxations', () => {
+    const codeGeneration = byCategory.get('Code Generation');
+    assert.equal(codeGeneration?.changeType, 'MODIFIED');
+    assert.equal(codeGeneration?.severityDirection, 'ESCALATED');
+
+    const fullText = byCategory.get('Full Text Generation');
+    assert.equal(fullText?.severityDirection, 'RELAXED');
+    assert.equal(fullText?.ruleReferenceChanged, false);
+  });
+
+  test('reports rule reference, description and keyword deltas', () => {
+    const codeGeneration = byCategory.get('Code Generation');
+    assert.equal(codeGeneration?.ruleReferenceChanged, true);
+    assert.equal(codeGeneration?.descriptionChanged, true);
+    assert.deepEqual(codeGeneration?.addedKeywords, ['implementation']);
+    assert.deepEqual(codeGeneration?.removedKeywords, ['scaffold']);
+  });
+
+  test('ignores descriptions when a side did not load them', () => {
+    const withoutDescriptions = nextRules.map(({ description: _description, ...rule }) => rule);
+    const result = diffPolicyRules(previousRules, withoutDescriptions);
+    const codeGeneration = result.find((change) => change.usageCategory === 'Code Generation');
+    assert.equal(codeGeneration?.descriptionChanged, false);
+  });
+});
+
+describe('diffPolicyVersions', () => {
+  test('summarizes counts and renders a human-readable change summary', () => {
+    const diff = diffPolicyVersions(previousRules, nextRules);
+
+    assert.deepEqual(diff.stats, {
+      added: 1,
+      removed: 1,
+      modified: 2,
+      escalated: 1,
+      relaxed: 1,
+    });
+    assert.match(diff.changeSummary, /Changed "Code Generation": stricter: MODERATE → SERIOUS/);
+    assert.match(diff.changeSummary, /Removed category "Brainstorming"/);
+  });
+
+  test('reports no changes for identical rule sets', () => {
+    assert.equal(formatPolicyChangeSummary(diffPolicyRules(previousRules, previousRules)), 'No rule changes.');
+  });
+});
@@ -0,0 +1,132 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+
+import { SeverityLevel } from '@prisma/client';
+
+import type { PolicyRuleRecord } from '../../src/lib/compliance/policy-evaluator';
+import {
+  detectSelectionConflict,
+  resolveSelectionIntent,
+} from '../../src/lib/compliance/selection-intent';
+import {
+  buildUsageTree,
+  categorizeUsageSelections,
+  flattenUsageTree,
+  type UsageSection,
+} from '../../src/lib/usage-taxonomy';
+
+const rules: PolicyRuleRecord[] = [
+  {
+    usageCategory: 'Grammar Fix',
+    severityLevel: SeverityLevel.ALLOWED,
+    ruleReference: 'NTNU-AI-1.1',
+    keywords: [],
+  },
+  {
+    usageCategory: 'Code Debugging',
+    severityLevel: SeverityLevel.MINOR,
+    ruleReference: 'NTNU-AI-1.2',
+    keywords: [],
+  },
+  {
+    usageCategory: 'Code Generation',
+    severityLevel: SeverityLevel.MODERATE,
+    ruleReference: 'NTNU-AI-1.3',
+    keywords: [],
+  },
+  {
+    usageCategory: 'Full Text Generation',
+    severityLevel: SeverityLevel.FORBIDDEN,
+    ruleReference: 'NTNU-AI-1.5',
+    keywords: [],
+  },
+];
+
+const tree: UsageSection[] = [
+  {
+    id: 'writing',
+    label: 'Writing',
+    children: [
+      { id: 'text-correction', label: 'Text correction', policyCategory: 'Grammar Fix' },
+      { id: 'summarization', label: 'Summarization' },
+    ],
+  },
+  {
+    id: 'programming',
+    label: 'Programming',
+    children: [
+      { id: 'debugging-support', label: 'Debugging support', policyCategory: 'Code Debugging' },
+      {
+        id: 'code-generation',
+        label: 'Code generation',
+        policyCategory: 'Code Generation',
+        children: [
+          { id: 'partial-code-generation', label: 'Partial code generation' },
+          { id: 'test-generation', label: 'Test generation', policyCategory: 'Retired Category' },
+        ],
+      },
+    ],
+  },
+];
+
+describe('categorizeUsageSelections', () => {
+  test('inherits the nearest ancestor category', () => {
+    assert.deepEqual(
+      categorizeUsageSelections(tree, ['partial-code-generation', 'summarization']),
+      [
+        { nodeId: 'partial-code-generation', policyCategory: 'Code Generation' },
+        { nodeId: 'summarization', policyCategory: null },
+      ],
+    );
+  });
+
+  test('categories survive storage as node rows', () => {
+    assert.deepEqual(buildUsageTree(flattenUsageTree(tree)), tree);
+  });
+});
+
+describe('resolveSelectionIntent', () => {
+  test('picks the most severe implied category', () => {
+    const intent = resolveSelectionIntent(
+      categorizeUsageSelections(tree, ['text-correction', 'partial-code-generation']),
+      rules,
+    );
+
+    assert.deepEqual(intent, {
+      category: 'Code Generation',
+      severityLevel: SeverityLevel.MODERATE,
+      ruleReference: 'NTNU-AI-1.3',
+      nodeIds: ['partial-code-generation'],
+    });
+  });
+
+  test('ignores categories the policy version has no rule for', () => {
+    const intent = resolveSelectionIntent(
+      categorizeUsageSelections(tree, ['test-generation', 'summarization']),
+      rules,
+    );
+
+    assert.equal(intent, null);
+  });
+});
+
+describe('detectSelectionConflict', () => {
+  const debuggingIntent = resolveSelectionIntent(
+    categorizeUsageSelections(tree, ['debugging-support']),
+    rules,
+  );
+
+  test('flags text classified as more severe than the selection', () => {
+    assert.deepEqual(detectSelectionConflict(debuggingIntent, 'Full Text Generation', rules), {
+      selectionCategory: 'Code Debugging',
+      classifiedCategory: 'Full Text Generation',
+      ruleReferences: ['NTNU-AI-1.5', 'NTNU-AI-1.2'],
+    });
+  });
+
+  test('accepts milder or matching classifications', () => {
+    assert.equal(detectSelectionConflict(debuggingIntent, 'Grammar Fix', rules), null);
+    assert.equal(detectSelectionConflict(debuggingIntent, 'Code Debugging', rules), null);
+    assert.equal(detectSelectionConflict(null, 'Full Text Generation', rules), null);
+  });
+});
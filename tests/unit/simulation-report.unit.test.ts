@@ -0,0 +1,102 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+
+import { ComplianceStatus } from '@prisma/client';
+
+import {
+  buildSimulationReport,
+  type SimulatedLogInput,
+} from '../../src/lib/compliance/simulation-report';
+
+function logInput(
+  logId: string,
+  overrides: Partial<SimulatedLogInput> = {},
+): SimulatedLogInput {
+  return {
+    logId,
+    courseId: 'course-a',
+    courseCode: 'TDT4100',
+    assignmentId: 'assignment-1',
+    assignmentTitle: 'Exercise 1',
+    current: {
+      complianceStatus: ComplianceStatus.COMPLIANT,
+      actualCategory: 'Grammar Fix',
+      conflictFlag: false,
+      directViolationFlag: false,
+    },
+    simulated: {
+      complianceStatus: ComplianceStatus.COMPLIANT,
+      actualCategory: 'Grammar Fix',
+      conflictFlag: false,
+      directViolationFlag: false,
+    },
+    ...overrides,
+  };
+}
+
+describe('buildSimulationReport', () => {
+  const report = buildSimulationReport([
+    logInput('unchanged'),
+    logInput('escalated', {
+      simulated: {
+        complianceStatus: ComplianceStatus.NON_COMPLIANT,
+        actualCategory: 'Code Generation',
+        conflictFlag: false,
+        directViolationFlag: true,
+      },
+    }),
+    logInput('relaxed', {
+      courseId: 'course-b',
+      courseCode: 'IT1901',
+      assignmentId: 'assignment-2',
+      assignmentTitle: 'Project',
+      current: {
+        complianceStatus: ComplianceStatus.NON_COMPLIANT,
+        actualCategory: 'Code Generation',
+        conflictFlag: true,
+        directViolationFlag: false,
+      },
+      simulated: {
+        complianceStatus: ComplianceStatus.COMPLIANT,
+        actualCategory: 'Code Generation',
+        conflictFlag: false,
+        directViolationFlag: false,
+      },
+    }),
+  ]);
+
+  test('counts changes across all evaluated logs', () => {
+    assert.deepEqual(report.totals, {
+      evaluated: 3,
+      changed: 2,
+      statusChanged: 2,
+      categoryChanged: 1,
+      gainedConflictFlag: 0,
+      gainedDirectViolationFlag: 1,
+      clearedConflictFlag: 1,
+      clearedDirectViolationFlag: 0,
+    });
+    assert.deepEqual(report.statusTransitions, {
+      'COMPLIANT->NON_COMPLIANT': 1,
+      'NON_COMPLIANT->COMPLIANT': 1,
+    });
+  });
+
+  test('breaks totals down by course and assignment', () => {
+    assert.deepEqual(
+      report.courses.map((course) => [course.courseCode, course.totals.evaluated, course.totals.changed]),
+      [
+        ['IT1901', 1, 1],
+        ['TDT4100', 2, 1],
+      ],
+    );
+    assert.equal(report.courses[1]?.assignments[0]?.assignmentTitle, 'Exercise 1');
+  });
+
+  test('keeps only changed logs in the change list', () => {
+    assert.deepEqual(
+      report.changes.map((change) => change.logId),
+      ['escalated', 'relaxed'],
+    );
+  });
+});
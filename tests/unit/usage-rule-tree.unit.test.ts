@@ -0,0 +1,460 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+
+import { getBaselineDisallowedNodeIds, type UsageTreeNode } from '../../src/lib/usage-taxonomy';
+import {
+  activeUsageRules,
+  annotateUsageTree,
+  applyAssignmentUsageRules,
+  describeUsageRuleWindows,
+  diffUsageRuleChanges,
+  findUnmetUsageJustifications,
+  isUsageRuleActive,
+  mergeCourseUsageRules,
+  planUsageRuleCopy,
+  resolveUsageRuleWindow,
+  stricterUsageRule,
+} from '../../src/lib/usage-rule-tree';
+
+const tree: UsageTreeNode[] = [
+  {
+    id: 'programming',
+    label: 'Programming',
+    children: [
+      { id: 'debugging-support', label: 'Debugging support' },
+      {
+        id: 'code-generation',
+        label: 'Code generation',
+        children: [
+          { id: 'snippet-generation', label: 'Snippet generation' },
+          {
+            id: 'full-solution-generation',
+            label: 'Full solution generation',
+            baselineDisallowed: true,
+          },
+        ],
+      },
+    ],
+  },
+  {
+    id: 'writing',
+    label: 'Writing',
+    children: [{ id: 'grammar-check', label: 'Grammar check' }],
+  },
+];
+
+const baseline = getBaselineDisallowedNodeIds(tree);
+
+function statusOf(nodes: ReturnType<typeof annotateUsageTree>, nodeId: string): string | null {
+  for (const node of nodes) {
+    if (node.id === nodeId) {
+      return node.status;
+    }
+    const nested = statusOf(node.children ?? [], nodeId);
+    if (nested) {
+      return nested;
+    }
+  }
+  return null;
+}
+
+describe('mergeCourseUsageRules', () => {
+  test('starts from the nodes the taxonomy disallows by default', () => {
+    const merged = mergeCourseUsageRules([], baseline);
+    assert.deepEqual(Array.from(merged), [['full-solution-generation', false]]);
+  });
+
+  test('lets a course rule override the baseline', () => {
+    const merged = mergeCourseUsageRules(
+      [
+        { nodeId: 'full-solution-generation', isAllowed: true },
+        { nodeId: 'grammar-check', isAllowed: false },
+      ],
+      baseline,
+    );
+    assert.equal(merged.get('full-solution-generation'), true);
+    assert.equal(merged.get('grammar-check'), false);
+  });
+});
+
+describe('annotateUsageTree', () => {
+  test('marks parents MIXED when only some leaves are disallowed', () => {
+    const annotated = annotateUsageTree(tree, mergeCourseUsageRules([], baseline));
+    assert.equal(statusOf(annotated, 'full-solution-generation'), 'DISALLOWED');
+    assert.equal(statusOf(annotated, 'code-generation'), 'MIXED');
+    assert.equal(statusOf(annotated, 'programming'), 'MIXED');
+    assert.equal(statusOf(annotated, 'writing'), 'ALLOWED');
+  });
+
+  test('disallows the whole subtree of a disallowed node', () => {
+    const annotated = annotateUsageTree(
+      tree,
+      mergeCourseUsageRules(
+        [
+          { nodeId: 'programming', isAllowed: false },
+          { nodeId: 'snippet-generation', isAllowed: true },
+        ],
+        baseline,
+      ),
+    );
+    assert.equal(statusOf(annotated, 'programming'), 'DISALLOWED');
+    assert.equal(statusOf(annotated, 'code-generation'), 'DISALLOWED');
+    assert.equal(statusOf(annotated, 'snippet-generation'), 'DISALLOWED');
+  });
+
+  test('reports a parent DISALLOWED when every leaf below it is', () => {
+    const annotated = annotateUsageTree(
+      tree,
+      mergeCourseUsageRules([{ nodeId: 'snippet-generation', isAllowed: false }], baseline),
+    );
+    assert.equal(statusOf(annotated, 'code-generation'), 'DISALLOWED');
+    assert.equal(statusOf(annotated, 'programming'), 'MIXED');
+  });
+
+  test('shows justification rules as their own status, with the evidence they need', () => {
+    const annotated = annotateUsageTree(
+      tree,
+      mergeCourseUsageRules(
+        [
+          { nodeId: 'writing', isAllowed: true, requiresJustification: true, minEvidenceCount: 2 },
+        ],
+        baseline,
+      ),
+    );
+    const writing = annotated.find((node) => node.id === 'writing');
+    assert.equal(writing?.status, 'REQUIRES_JUSTIFICATION');
+    assert.equal(writing?.children?.[0]?.minEvidenceCount, 2);
+    assert.equal(statusOf(annotated, 'programming'), 'MIXED');
+  });
+});
+
+describe('stricterUsageRule', () => {
+  test('ranks disallowed over justification over allowed', () => {
+    assert.deepEqual(stricterUsageRule(true, { minEvidenceCount: 1 }), { minEvidenceCount: 1 });
+    assert.equal(stricterUsageRule({ minEvidenceCount: 1 }, false), false);
+    assert.deepEqual(stricterUsageRule({ minEvidenceCount: 1 }, { minEvidenceCount: 3 }), {
+      minEvidenceCount: 3,
+    });
+  });
+});
+
+describe('findUnmetUsageJustifications', () => {
+  const ruleMap = mergeCourseUsageRules(
+    [
+      {
+        nodeId: 'code-generation',
+        isAllowed: true,
+        requiresJustification: true,
+        minEvidenceCount: 1,
+      },
+    ],
+    baseline,
+  );
+
+  test('requires a reason and enough evidence on the node or below it', () => {
+    assert.deepEqual(
+      findUnmetUsageJustifications(tree, ['snippet-generation'], ruleMap, {
+        usageReason: '  ',
+        evidenceNodeIds: ['debugging-support'],
+      }),
+      [
+        {
+          nodeId: 'snippet-generation',
+          minEvidenceCount: 1,
+          missingReason: true,
+          evidenceCount: 0,
+        },
+      ],
+    );
+    assert.deepEqual(
+      findUnmetUsageJustifications(tree, ['code-generation'], ruleMap, {
+        usageReason: 'Boilerplate for the parser',
+        evidenceNodeIds: ['snippet-generation'],
+      }),
+      [],
+    );
+  });
+
+  test('ignores selections without a justification rule', () => {
+    assert.deepEqual(
+      findUnmetUsageJustifications(tree, ['grammar-check', 'full-solution-generation'], ruleMap, {
+        usageReason: '',
+        evidenceNodeIds: [],
+      }),
+      [],
+    );
+  });
+});
+
+describe('applyAssignmentUsageRules', () => {
+  test('overrides the baseline and course rules on the same node', () => {
+    const layered = applyAssignmentUsageRules(
+      tree,
+      mergeCourseUsageRules([{ nodeId: 'grammar-check', isAllowed: true }], baseline),
+      [
+        { nodeId: 'full-solution-generation', isAllowed: true },
+        { nodeId: 'grammar-check', isAllowed: false },
+      ],
+    );
+    const annotated = annotateUsageTree(tree, layered);
+    assert.equal(statusOf(annotated, 'full-solution-generation'), 'ALLOWED');
+    assert.equal(statusOf(annotated, 'writing'), 'DISALLOWED');
+  });
+
+  test('allows a node under a course-disallowed parent without reopening its siblings', () => {
+    const layered = applyAssignmentUsageRules(
+      tree,
+      mergeCourseUsageRules([{ nodeId: 'programming', isAllowed: false }], baseline),
+      [{ nodeId: 'snippet-generation', isAllowed: true }],
+    );
+    const annotated = annotateUsageTree(tree, layered);
+    assert.equal(statusOf(annotated, 'snippet-generation'), 'ALLOWED');
+    assert.equal(statusOf(annotated, 'full-solution-generation'), 'DISALLOWED');
+    assert.equal(statusOf(annotated, 'debugging-support'), 'DISALLOWED');
+    assert.equal(statusOf(annotated, 'programming'), 'MIXED');
+  });
+
+  test('replaces course rules inside the overridden subtree', () => {
+    const layered = applyAssignmentUsageRules(tree, mergeCourseUsageRules([], baseline), [
+      { nodeId: 'code-generation', isAllowed: true },
+    ]);
+    const annotated = annotateUsageTree(tree, layered);
+    assert.equal(statusOf(annotated, 'code-generation'), 'ALLOWED');
+    assert.equal(statusOf(annotated, 'full-solution-generation'), 'ALLOWED');
+  });
+
+  test('lets a rule on a child override the same assignment\'s rule on its parent', () => {
+    const layered = applyAssignmentUsageRules(tree, mergeCourseUsageRules([], baseline), [
+      { nodeId: 'snippet-generation', isAllowed: false },
+      { nodeId: 'code-generation', isAllowed: true },
+    ]);
+    const annotated = annotateUsageTree(tree, layered);
+    assert.equal(statusOf(annotated, 'snippet-generation'), 'DISALLOWED');
+    assert.equal(statusOf(annotated, 'full-solution-generation'), 'ALLOWED');
+  });
+
+  test('ignores rules on nodes missing from the tree', () => {
+    const ruleMap = mergeCourseUsageRules([], baseline);
+    const layered = applyAssignmentUsageRules(tree, ruleMap, [
+      { nodeId: 'retired-node', isAllowed: false },
+    ]);
+    assert.deepEqual(layered, ruleMap);
+  });
+
+  test('pushes a justification requirement on the parent down to the other children', () => {
+    const layered = applyAssignmentUsageRules(
+      tree,
+      mergeCourseUsageRules(
+        [
+          {
+            nodeId: 'programming',
+            isAllowed: true,
+            requiresJustification: true,
+            minEvidenceCount: 1,
+          },
+        ],
+        baseline,
+      ),
+      [{ nodeId: 'debugging-support', isAllowed: true }],
+    );
+    const annotated = annotateUsageTree(tree, layered);
+    assert.equal(statusOf(annotated, 'debugging-support'), 'ALLOWED');
+    assert.equal(statusOf(annotated, 'snippet-generation'), 'REQUIRES_JUSTIFICATION');
+    assert.equal(statusOf(annotated, 'full-solution-generation'), 'DISALLOWED');
+  });
+});
+
+describe('usage rule windows', () => {
+  const dueDate = new Date('2026-11-20T12:00:00.000Z');
+  const at = (iso: string) => ({ at: new Date(iso), dueDate });
+
+  test('resolves due-date offsets in days and keeps absolute dates', () => {
+    const window = resolveUsageRuleWindow(
+      { activeFrom: '2026-11-01T00:00:00.000Z', activeUntilDueOffsetDays: -7 },
+      dueDate,
+    );
+
+    assert.deepEqual(window, {
+      from: new Date('2026-11-01T00:00:00.000Z'),
+      until: new Date('2026-11-13T12:00:00.000Z'),
+    });
+    assert.equal(resolveUsageRuleWindow({ activeUntilDueOffsetDays: -7 }, null), null);
+  });
+
+  test('applies from the start, inclusive, until the end, exclusive', () => {
+    const rule = { activeFromDueOffsetDays: -7, activeUntilDueOffsetDays: 0 };
+
+    assert.equal(isUsageRuleActive(rule, at('2026-11-13T11:59:59.999Z')), false);
+    assert.equal(isUsageRuleActive(rule, at('2026-11-13T12:00:00.000Z')), true);
+    assert.equal(isUsageRuleActive(rule, at('2026-11-20T12:00:00.000Z')), false);
+    assert.equal(isUsageRuleActive({}, at('2026-11-20T12:00:00.000Z')), true);
+  });
+
+  test('never applies a due-relative rule without a due date', () => {
+    assert.equal(
+      isUsageRuleActive({ activeFromDueOffsetDays: -3 }, { at: dueDate, dueDate: null }),
+      false,
+    );
+  });
+
+  test('lets a node fall back to the lower layers outside the window', () => {
+    const rules = [
+      {
+        nodeId: 'snippet-generation',
+        isAllowed: false,
+        activeUntilDueOffsetDays: -7,
+      },
+      { nodeId: 'grammar-check', isAllowed: true },
+    ];
+
+    const early = activeUsageRules(rules, at('2026-11-01T00:00:00.000Z'));
+    const late = activeUsageRules(rules, at('2026-11-18T00:00:00.000Z'));
+
+    assert.equal(
+      statusOf(
+        annotateUsageTree(tree, mergeCourseUsageRules(early, baseline)),
+        'snippet-generation',
+      ),
+      'DISALLOWED',
+    );
+    assert.equal(
+      statusOf(
+        annotateUsageTree(tree, mergeCourseUsageRules(late, baseline)),
+        'snippet-generation',
+      ),
+      'ALLOWED',
+    );
+    assert.deepEqual(
+      late.map((rule) => rule.nodeId),
+      ['grammar-check'],
+    );
+  });
+
+  test('lists windowed rules per node with whether they apply now', () => {
+    const notices = describeUsageRuleWindows(
+      [
+        {
+          nodeId: 'writing',
+          isAllowed: false,
+          activeFrom: '2026-11-10T00:00:00.000Z',
+        },
+        { nodeId: 'programming', isAllowed: true },
+      ],
+      [
+        {
+          nodeId: 'writing',
+          isAllowed: true,
+          requiresJustification: true,
+          activeUntilDueOffsetDays: 1,
+        },
+        {
+          nodeId: 'grammar-check',
+          isAllowed: true,
+          activeFromDueOffsetDays: 2,
+        },
+      ],
+      at('2026-11-15T00:00:00.000Z'),
+    );
+
+    assert.deepEqual(Array.from(notices.keys()), ['writing', 'grammar-check']);
+    assert.deepEqual(notices.get('writing'), [
+      {
+        scope: 'COURSE',
+        status: 'DISALLOWED',
+        from: '2026-11-10T00:00:00.000Z',
+        until: null,
+        active: true,
+      },
+      {
+        scope: 'ASSIGNMENT',
+        status: 'REQUIRES_JUSTIFICATION',
+        from: null,
+        until: '2026-11-21T12:00:00.000Z',
+        active: true,
+      },
+    ]);
+    assert.equal(notices.get('grammar-check')?.[0].active, false);
+  });
+});
+
+describe('diffUsageRuleChanges', () => {
+  test('drops changes that leave the stored rule as it is', () => {
+    const changes = diffUsageRuleChanges(
+      [
+        { nodeId: 'debugging-support', isAllowed: true },
+        {
+          nodeId: 'grammar-check',
+          isAllowed: true,
+          requiresJustification: true,
+          minEvidenceCount: 1,
+        },
+      ],
+      [
+        { nodeId: 'debugging-support', rule: 'ALLOWED' },
+        { nodeId: 'grammar-check', rule: 'REQUIRES_JUSTIFICATION', minEvidenceCount: 2 },
+        { nodeId: 'snippet-generation', rule: 'INHERIT' },
+      ],
+    );
+
+    assert.deepEqual(changes, [
+      {
+        nodeId: 'grammar-check',
+        previous: 'REQUIRES_JUSTIFICATION',
+        next: 'REQUIRES_JUSTIFICATION',
+        minEvidenceCount: 2,
+        window: null,
+      },
+    ]);
+  });
+
+  test('reports a changed window on an otherwise unchanged rule', () => {
+    const [change] = diffUsageRuleChanges(
+      [{ nodeId: 'debugging-support', isAllowed: false }],
+      [{ nodeId: 'debugging-support', rule: 'DISALLOWED', activeUntilDueOffsetDays: 0 }],
+    );
+
+    assert.equal(change?.previous, 'DISALLOWED');
+    assert.equal(change?.window?.activeUntilDueOffsetDays, 0);
+  });
+});
+
+describe('planUsageRuleCopy', () => {
+  test('replaces the course rules with the source rules', () => {
+    const result = planUsageRuleCopy(
+      [
+        { nodeId: 'debugging-support', isAllowed: true },
+        { nodeId: 'grammar-check', isAllowed: false },
+      ],
+      [
+        { nodeId: 'debugging-support', isAllowed: false },
+        { nodeId: 'snippet-generation', isAllowed: true, requiresJustification: true },
+      ],
+      tree,
+    );
+
+    assert.deepEqual(
+      result.changes.map((change) => [change.nodeId, change.previous, change.next]),
+      [
+        ['debugging-support', 'ALLOWED', 'DISALLOWED'],
+        ['snippet-generation', 'INHERIT', 'REQUIRES_JUSTIFICATION'],
+        ['grammar-check', 'DISALLOWED', 'INHERIT'],
+      ],
+    );
+    assert.equal(result.changes[1]?.minEvidenceCount, 0);
+    assert.deepEqual(result.skippedNodeIds, []);
+  });
+
+  test('skips source rules on nodes the tree lacks', () => {
+    const result = planUsageRuleCopy(
+      [{ nodeId: 'grammar-check', isAllowed: false }],
+      [
+        { nodeId: 'grammar-check', isAllowed: false },
+        { nodeId: 'retired-node', isAllowed: false },
+      ],
+      tree,
+    );
+
+    assert.deepEqual(result.changes, []);
+    assert.deepEqual(result.skippedNodeIds, ['retired-node']);
+  });
+});
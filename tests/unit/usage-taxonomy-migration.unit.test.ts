@@ -0,0 +1,205 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+
+import type { UsageSection } from '../../src/lib/usage-taxonomy';
+import {
+  buildUsageNodeMap,
+  composeUsageNodeMaps,
+  describeUsageNodeMap,
+  mapCourseUsageRules,
+  mapLogUsageForRules,
+  mapUsageSelections,
+  migrateLogUsage,
+  validateUsageNodeMappings,
+} from '../../src/lib/usage-taxonomy-migration';
+
+const v1: UsageSection[] = [
+  {
+    id: 'programming',
+    label: 'Programming',
+    children: [
+      { id: 'debugging-support', label: 'Debugging support' },
+      { id: 'code-generation', label: 'Code generation' },
+      { id: 'code-explanation', label: 'Code explanation' },
+      { id: 'code-review', label: 'Code review' },
+      { id: 'pseudo-code', label: 'Pseudo code' },
+    ],
+  },
+];
+
+// v2 renames debugging, splits generation, merges explanation into review and
+// drops pseudo code without saying so.
+const v2: UsageSection[] = [
+  {
+    id: 'programming',
+    label: 'Programming',
+    children: [
+      { id: 'debugging-help', label: 'Debugging help' },
+      { id: 'partial-code-generation', label: 'Partial code generation' },
+      { id: 'full-solution-generation', label: 'Full solution generation' },
+      { id: 'code-review', label: 'Code review and explanation' },
+    ],
+  },
+];
+
+const mappings = [
+  { oldNodeId: 'debugging-support', newNodeIds: ['debugging-help'] },
+  {
+    oldNodeId: 'code-generation',
+    newNodeIds: ['partial-code-generation', 'full-solution-generation'],
+  },
+  { oldNodeId: 'code-explanation', newNodeIds: ['code-review'] },
+];
+
+describe('validateUsageNodeMappings', () => {
+  test('accepts mappings between existing nodes', () => {
+    assert.deepEqual(validateUsageNodeMappings(v1, v2, mappings), []);
+  });
+
+  test('reports unknown and duplicated ids', () => {
+    const errors = validateUsageNodeMappings(v1, v2, [
+      { oldNodeId: 'debugging-support', newNodeIds: ['debugging-help'] },
+      { oldNodeId: 'debugging-support', newNodeIds: ['debugging'] },
+      { oldNodeId: 'writing', newNodeIds: [] },
+    ]);
+
+    assert.deepEqual(errors, [
+      '"debugging-support" is mapped more than once',
+      '"debugging" (mapped from "debugging-support") is not a node of the new version',
+      '"writing" is not a node of the old version',
+    ]);
+  });
+});
+
+describe('describeUsageNodeMap', () => {
+  test('classifies every node that did not carry over unchanged', () => {
+    const changes = describeUsageNodeMap(buildUsageNodeMap(v1, v2, mappings));
+
+    assert.deepEqual(
+      changes.map((change) => [change.oldNodeId, change.kind]),
+      [
+        ['debugging-support', 'RENAMED'],
+        ['code-generation', 'SPLIT'],
+        ['code-explanation', 'MERGED'],
+        ['pseudo-code', 'UNMAPPED'],
+      ],
+    );
+  });
+
+  test('an explicit empty mapping removes the node', () => {
+    const map = buildUsageNodeMap(v1, v2, [{ oldNodeId: 'pseudo-code', newNodeIds: [] }]);
+
+    assert.deepEqual(
+      describeUsageNodeMap(map).find((change) => change.oldNodeId === 'pseudo-code'),
+      { oldNodeId: 'pseudo-code', newNodeIds: [], kind: 'REMOVED' },
+    );
+  });
+});
+
+describe('composeUsageNodeMaps', () => {
+  test('chains mappings across two versions', () => {
+    const v3: UsageSection[] = [
+      { id: 'programming', label: 'Programming', children: [{ id: 'debugging', label: 'D' }] },
+    ];
+    const composed = composeUsageNodeMaps(
+      buildUsageNodeMap(v1, v2, mappings),
+      buildUsageNodeMap(v2, v3, [{ oldNodeId: 'debugging-help', newNodeIds: ['debugging'] }]),
+    );
+
+    assert.deepEqual(composed.get('debugging-support'), ['debugging']);
+    assert.equal(composed.get('code-review'), null);
+  });
+});
+
+describe('mapUsageSelections', () => {
+  test('maps selections and reports the ones without a counterpart', () => {
+    const result = mapUsageSelections(
+      ['code-generation', 'code-explanation', 'code-review', 'pseudo-code'],
+      buildUsageNodeMap(v1, v2, mappings),
+    );
+
+    assert.deepEqual(result, {
+      nodeIds: ['partial-code-generation', 'full-solution-generation', 'code-review'],
+      unmapped: ['pseudo-code'],
+    });
+  });
+});
+
+describe('mapCourseUsageRules', () => {
+  test('copies split rules and keeps the stricter rule on a merge', () => {
+    const result = mapCourseUsageRules(
+      [
+        { nodeId: 'code-generation', isAllowed: false },
+        { nodeId: 'code-explanation', isAllowed: true },
+        { nodeId: 'code-review', isAllowed: false },
+        { nodeId: 'pseudo-code', isAllowed: true },
+      ],
+      buildUsageNodeMap(v1, v2, mappings),
+    );
+
+    assert.deepEqual(result, {
+      rules: [
+        { nodeId: 'partial-code-generation', isAllowed: false },
+        { nodeId: 'full-solution-generation', isAllowed: false },
+        { nodeId: 'code-review', isAllowed: false },
+      ],
+      unmapped: [{ nodeId: 'pseudo-code', isAllowed: true }],
+      conflicts: ['code-review'],
+    });
+  });
+});
+
+describe('migrateLogUsage', () => {
+  test('moves evidence to the first new leaf and labels the changes', () => {
+    const migration = migrateLogUsage(
+      v1,
+      v2,
+      buildUsageNodeMap(v1, v2, mappings),
+      ['code-generation', 'pseudo-code'],
+      ['code-generation', 'pseudo-code'],
+    );
+
+    assert.deepEqual(migration.evidenceNodeIds, {
+      'code-generation': 'partial-code-generation',
+      'pseudo-code': null,
+    });
+    assert.deepEqual(migration.unmappedSubsections, ['pseudo-code']);
+    assert.deepEqual(migration.changes, [
+      {
+        oldNodeId: 'code-generation',
+        oldLabel: 'Code generation',
+        kind: 'SPLIT',
+        newNodes: [
+          { id: 'partial-code-generation', label: 'Partial code generation' },
+          { id: 'full-solution-generation', label: 'Full solution generation' },
+        ],
+      },
+      { oldNodeId: 'pseudo-code', oldLabel: 'Pseudo code', kind: 'UNMAPPED', newNodes: [] },
+    ]);
+  });
+});
+
+describe('mapLogUsageForRules', () => {
+  test('checks old selections under their new ids and reports them under the old ones', () => {
+    const mapped = mapLogUsageForRules(
+      ['debugging-support', 'code-generation', 'pseudo-code'],
+      ['code-generation'],
+      buildUsageNodeMap(v1, v2, mappings),
+    );
+
+    assert.deepEqual(mapped.nodeIds, [
+      'debugging-help',
+      'partial-code-generation',
+      'full-solution-generation',
+      'pseudo-code',
+    ]);
+    assert.deepEqual(mapped.evidenceNodeIds, [
+      'partial-code-generation',
+      'full-solution-generation',
+    ]);
+    assert.deepEqual(mapped.recordedNodeIds(['debugging-help', 'full-solution-generation']), [
+      'debugging-support',
+      'code-generation',
+    ]);
+  });
+});
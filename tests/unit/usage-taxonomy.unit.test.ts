@@ -0,0 +1,152 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+
+import {
+  buildUsageTree,
+  flattenUsageTree,
+  getBaselineDisallowedNodeIds,
+  getUsageLabelsForSelections,
+  type UsageSection,
+} from '../../src/lib/usage-taxonomy';
+import { createLogSchemaForTaxonomy } from '../../src/lib/validations/log.schema';
+import { createUsageTaxonomyVersionSchema } from '../../src/lib/validations/usage-taxonomy.schema';
+
+const v1: UsageSection[] = [
+  { id: 'no-ai', label: 'No AI', children: [] },
+  {
+    id: 'programming',
+    label: 'Programming',
+    children: [
+      { id: 'debugging-support', label: 'Debugging support' },
+      {
+        id: 'code-generation',
+        label: 'Code generation',
+        children: [
+          { id: 'partial-code-generation', label: 'Partial code generation' },
+          {
+            id: 'full-solution-generation',
+            label: 'Full solution generation',
+            baselineDisallowed: true,
+          },
+        ],
+      },
+    ],
+  },
+];
+
+// v2 renames a node and moves it under a new section.
+const v2: UsageSection[] = [
+  { id: 'no-ai', label: 'No AI', children: [] },
+  {
+    id: 'software-development',
+    label: 'Software development',
+    children: [{ id: 'debugging-support', label: 'Debugging help' }],
+  },
+];
+
+const validLog = {
+  assignmentId: '7f1d1f7e-3c52-4d5c-9a43-1e2b8f0c6a11',
+  usageSubsections: ['partial-code-generation'],
+  usageReason: 'Asked for a helper function.',
+  sessionDescription: '',
+  aiTool: 'ChatGPT',
+  usageEvidence: [{ nodeId: 'partial-code-generation', text: 'https://example.org/chat' }],
+};
+
+describe('stored taxonomy trees', () => {
+  test('round-trips through node rows in sibling order', () => {
+    const records = flattenUsageTree(v1);
+
+    assert.equal(records.length, 6);
+    assert.deepEqual(buildUsageTree([...records].reverse()), v1);
+  });
+
+  test('keeps the nodes every course disallows by default', () => {
+    const tree = buildUsageTree(flattenUsageTree(v1));
+
+    assert.deepEqual(getBaselineDisallowedNodeIds(tree), ['full-solution-generation']);
+    assert.deepEqual(getBaselineDisallowedNodeIds(v2), []);
+  });
+
+  test('drops rows whose parent is missing', () => {
+    const tree = buildUsageTree([
+      { nodeId: 'writing', parentNodeId: null, label: 'Writing', position: 0 },
+      { nodeId: 'orphan', parentNodeId: 'deleted-parent', label: 'Orphan', position: 0 },
+    ]);
+
+    assert.deepEqual(tree, [{ id: 'writing', label: 'Writing', children: [] }]);
+  });
+});
+
+describe('getUsageLabelsForSelections', () => {
+  test('labels the same node from the version it was recorded with', () => {
+    const recordedInV1 = getUsageLabelsForSelections(v1, ['debugging-support']);
+    const recordedInV2 = getUsageLabelsForSelections(v2, ['debugging-support']);
+
+    assert.deepEqual(recordedInV1.subsectionLabelPaths, ['Programming > Debugging support']);
+    assert.deepEqual(recordedInV2.subsectionLabelPaths, ['Software development > Debugging help']);
+    assert.deepEqual(recordedInV2.nodes, [
+      {
+        id: 'debugging-support',
+        label: 'Debugging help',
+        isLeaf: true,
+        section: { id: 'software-development', label: 'Software development' },
+      },
+    ]);
+  });
+
+  test('skips nodes that do not exist in the version', () => {
+    const labels = getUsageLabelsForSelections(v2, ['partial-code-generation']);
+
+    assert.deepEqual(labels.sectionIds, []);
+    assert.deepEqual(labels.nodes, []);
+  });
+});
+
+describe('createLogSchemaForTaxonomy', () => {
+  test('accepts selections from the given tree only', () => {
+    assert.equal(createLogSchemaForTaxonomy(v1).safeParse(validLog).success, true);
+
+    const result = createLogSchemaForTaxonomy(v2).safeParse(validLog);
+    assert.equal(result.success, false);
+    assert.ok(result.error?.issues.some((issue) => issue.path.join('.') === 'usageSubsections'));
+  });
+
+  test('only attaches evidence to leaf nodes', () => {
+    const result = createLogSchemaForTaxonomy(v1).safeParse({
+      ...validLog,
+      usageSubsections: ['code-generation'],
+      usageEvidence: [{ nodeId: 'code-generation', text: 'notes' }],
+    });
+
+    assert.equal(result.success, false);
+    assert.deepEqual(
+      result.error?.issues.map((issue) => issue.message),
+      ['Evidence can only be attached to leaf nodes'],
+    );
+  });
+});
+
+describe('createUsageTaxonomyVersionSchema', () => {
+  test('rejects node ids used twice anywhere in the tree', () => {
+    const result = createUsageTaxonomyVersionSchema.safeParse({
+      versionKey: 'v2',
+      tree: [
+        { id: 'writing', label: 'Writing', children: [{ id: 'translation', label: 'A' }] },
+        { id: 'languages', label: 'Languages', children: [{ id: 'translation', label: 'B' }] },
+      ],
+    });
+
+    assert.equal(result.success, false);
+    assert.deepEqual(
+      result.error?.issues.map((issue) => issue.message),
+      ['Node id "translation" is used more than once'],
+    );
+  });
+
+  test('accepts a nested tree', () => {
+    const result = createUsageTaxonomyVersionSchema.safeParse({ versionKey: 'v2', tree: v1 });
+
+    assert.equal(result.success, true);
+  });
+});
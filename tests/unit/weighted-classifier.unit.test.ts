@@ -0,0 +1,132 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, test } from 'node:test';
+
+import { SeverityLevel } from '@prisma/client';
+
+import {
+  createContentClassifierFromEnv,
+  parseWeightedKeyword,
+} from '../../src/lib/compliance/content-classifier';
+import { tokenizeText } from '../../src/lib/compliance/language';
+import type { PolicyRuleRecord } from '../../src/lib/compliance/policy-evaluator';
+
+const fixtureRules: PolicyRuleRecord[] = [
+  {
+    usageCategory: 'Grammar Fix',
+    severityLevel: SeverityLevel.ALLOWED,
+    ruleReference: 'NTNU-AIP-1.1',
+    keywords: ['grammar', 'proofread', 'spelling'],
+  },
+  {
+    usageCategory: 'Code Debugging',
+    severityLevel: SeverityLevel.MINOR,
+    ruleReference: 'NTNU-AIP-1.2',
+    keywords: ['debug', 'function', 'stack trace'],
+  },
+  {
+    usageCategory: 'Code Generation',
+    severityLevel: SeverityLevel.MODERATE,
+    ruleReference: 'NTNU-AIP-1.3',
+    keywords: ['generate code', 'scaffold^3'],
+  },
+  {
+    usageCategory: 'Brainstorming',
+    severityLevel: SeverityLevel.ALLOWED,
+    ruleReference: 'NTNU-AIP-1.4',
+    keywords: ['ideas'],
+  },
+];
+
+const originalStrategy = process.env.CLASSIFIER_STRATEGY;
+
+function weightedClassifier() {
+  process.env.CLASSIFIER_STRATEGY = 'weighted';
+  return createContentClassifierFromEnv();
+}
+
+afterEach(() => {
+  if (originalStrategy === undefined) {
+    delete process.env.CLASSIFIER_STRATEGY;
+  } else {
+    process.env.CLASSIFIER_STRATEGY = originalStrategy;
+  }
+});
+
+describe('tokenizeText and parseWeightedKeyword', () => {
+  test('splits on word boundaries and keeps contractions', () => {
+    assert.deepEqual(tokenizeText("I didn’t debug the malfunction."), [
+      'i',
+      "didn't",
+      'debug',
+      'the',
+      'malfunction',
+    ]);
+  });
+
+  test('reads explicit weights and defaults phrases to their word count', () => {
+    assert.deepEqual(parseWeightedKeyword('scaffold^3'), {
+      keyword: 'scaffold',
+      tokens: ['scaffold'],
+      weight: 3,
+    });
+    assert.equal(parseWeightedKeyword('Stack Trace')?.weight, 2);
+    assert.equal(parseWeightedKeyword('  '), null);
+  });
+});
+
+describe('weighted classifier strategy', () => {
+  test('does not match keywords inside longer words', async () => {
+    const result = await weightedClassifier().classify(
+      'The printer had a malfunction, so I asked for ideas.',
+      fixtureRules,
+    );
+    assert.equal(result.detectedCategory, 'Brainstorming');
+  });
+
+  test('matches multi-word keywords as phrases only', async () => {
+    const classifier = weightedClassifier();
+    const phrase = await classifier.classify('Please generate code for the parser.', fixtureRules);
+    const scattered = await classifier.classify(
+      'Generate a summary of the code review.',
+      fixtureRules,
+    );
+
+    assert.equal(phrase.detectedCategory, 'Code Generation');
+    assert.equal(scattered.detectedCategory, null);
+  });
+
+  test('ignores negated hits but reports them in the breakdown', async () => {
+    const result = await weightedClassifier().classify(
+      'I did not generate code; I only fixed grammar.',
+      fixtureRules,
+    );
+    assert.equal(result.detectedCategory, 'Grammar Fix');
+
+    const codeGeneration = result.scoring?.rules.find(
+      (rule) => rule.usageCategory === 'Code Generation',
+    );
+    assert.equal(codeGeneration?.score, 0);
+    assert.deepEqual(codeGeneration?.matches, [
+      { keyword: 'generate code', language: 'en', weight: 2, count: 0, negatedCount: 1 },
+    ]);
+  });
+
+  test('applies keyword weights', async () => {
+    const result = await weightedClassifier().classify(
+      'Scaffold the project, then proofread the spelling.',
+      fixtureRules,
+    );
+    assert.equal(result.detectedCategory, 'Code Generation');
+    assert.deepEqual(result.ruleReferences, ['NTNU-AIP-1.3']);
+  });
+
+  test('breaks ties by severity regardless of rule order', async () => {
+    const text = 'Check the grammar of my function.';
+    const forward = await weightedClassifier().classify(text, fixtureRules);
+    const reversed = await weightedClassifier().classify(text, [...fixtureRules].reverse());
+
+    assert.equal(forward.detectedCategory, 'Code Debugging');
+    assert.equal(reversed.detectedCategory, 'Code Debugging');
+    assert.equal(forward.scoring?.tieBrokenBy, 'severity');
+  });
+});